@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useMemo, useCallback } from 'react';
 import { 
   Container, 
   Typography, 
@@ -10,13 +10,62 @@ import {
   Button,
   IconButton,
   Tooltip,
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup,
   alpha
 } from '@mui/material';
 import DownloadIcon from '@mui/icons-material/Download';
+import EventRoundedIcon from '@mui/icons-material/EventRounded';
+import SettingsBackupRestoreRoundedIcon from '@mui/icons-material/SettingsBackupRestoreRounded';
+import PersonRoundedIcon from '@mui/icons-material/PersonRounded';
+import WatchRoundedIcon from '@mui/icons-material/WatchRounded';
+import NotificationsRoundedIcon from '@mui/icons-material/NotificationsRounded';
 import RestartAltRoundedIcon from '@mui/icons-material/RestartAltRounded';
+import ViewListRoundedIcon from '@mui/icons-material/ViewListRounded';
+import CalendarMonthRoundedIcon from '@mui/icons-material/CalendarMonthRounded';
+import ViewTimelineRoundedIcon from '@mui/icons-material/ViewTimelineRounded';
+import ShareRoundedIcon from '@mui/icons-material/ShareRounded';
+import StorefrontRoundedIcon from '@mui/icons-material/StorefrontRounded';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { deDE, enUS, esES } from '@mui/x-date-pickers/locales';
 import ScheduleForm from './components/ScheduleForm';
 import SleepRecommendation from './components/SleepRecommendation';
-import { format, isSameDay, addDays } from 'date-fns';
+import MonthCalendar from './components/MonthCalendar';
+import SleepTimeline from './components/SleepTimeline';
+import CalendarExportDialog from './components/CalendarExportDialog';
+import RestoreDialog from './components/RestoreDialog';
+import SleepProfileDialog from './components/SleepProfileDialog';
+import SleepDebtChart from './components/SleepDebtChart';
+import FreeTimeSummary from './components/FreeTimeSummary';
+import ErrandDialog from './components/ErrandDialog';
+import SleepImportDialog from './components/SleepImportDialog';
+import ReminderDialog from './components/ReminderDialog';
+import UpdatePrompt from './components/UpdatePrompt';
+import ShareDialog from './components/ShareDialog';
+import SharedScheduleView from './components/SharedScheduleView';
+import DisplayMenu from './components/DisplayMenu';
+import { format } from 'date-fns';
+import { AppLocale, DisplaySettings, Errand, ReminderSettings, Schedule, SleepProfile } from './types';
+import { usePersistentSchedule } from './hooks/usePersistentSchedule';
+import { useReminders } from './hooks/useReminders';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { TranslationContext } from './hooks/useTranslation';
+import { buildSleepPlan, getPlanConfig } from './utils/sleepPlan';
+import { getMinimumTurnaround } from './utils/secondJob';
+import { adaptForSleepDebt, trackSleepDebt } from './utils/sleepDebt';
+import { buildReminders } from './utils/reminders';
+import { buildFreeTime } from './utils/freeTime';
+import { buildGuidance } from './utils/guidance';
+import { buildMeals } from './utils/meals';
+import { buildScheduleCsv } from './utils/scheduleCsv';
+import { buildIcsCalendar, IcsExportOptions } from './utils/icsExport';
+import { downloadFile } from './utils/download';
+import { importSharedSchedule, readShareHash } from './utils/shareLink';
+import { changeTimeZone, resetSchedule } from './utils/scheduleEdits';
+import { createTranslator } from './utils/i18n';
+import { describeParseError, describeStorageError } from './utils/planText';
 
 const theme = createTheme({
   palette: {
@@ -67,279 +116,439 @@ const theme = createTheme({
   }
 });
 
-type Schedule = {
-  workDays: Array<{ date: Date; shiftType: 'day' | 'night' }>;
-  recoveryDays: Date[];
-  productiveDays: Date[];
-  secondJobDays: Date[];
-  preparationDays: Date[];
+const PICKER_LOCALE_TEXT: Record<AppLocale, typeof enUS.components.MuiLocalizationProvider.defaultProps.localeText> = {
+  en: enUS.components.MuiLocalizationProvider.defaultProps.localeText,
+  de: deDE.components.MuiLocalizationProvider.defaultProps.localeText,
+  es: esES.components.MuiLocalizationProvider.defaultProps.localeText,
 };
 
 function App() {
-  const [schedule, setSchedule] = useState<Schedule>({
-    workDays: [],
-    recoveryDays: [],
-    productiveDays: [],
-    secondJobDays: [],
-    preparationDays: [],
-  });
+  const { schedule, setSchedule, storageError, dismissStorageError } = usePersistentSchedule();
 
-  const allScheduledDays = useMemo(() => [
-    ...schedule.workDays.map(workDay => ({ 
-      date: workDay.date, 
-      type: `${workDay.shiftType === 'night' ? 'Night' : 'Day'} Shift Work Day` 
-    })),
-    ...schedule.recoveryDays.map(date => ({ 
-      date, 
-      type: 'Recovery Day' 
-    })),
-    ...schedule.preparationDays.map(date => ({ 
-      date, 
-      type: 'Preparation Day' 
-    })),
-    ...schedule.productiveDays.map(date => ({ 
-      date, 
-      type: 'Regular Day' 
-    }))
-  ].sort((a, b) => a.date.getTime() - b.date.getTime()), [schedule]);
+  const t = useMemo(() => createTranslator(schedule.display), [schedule.display]);
+  const config = useMemo(() => getPlanConfig(schedule.profile), [schedule.profile]);
+  const basePlans = useMemo(() => buildSleepPlan(schedule, config), [schedule, config]);
+  // Debt is measured against the plan as it stood; the plan shown also makes room to repay it
+  const debts = useMemo(() => trackSleepDebt(basePlans, schedule.sleepLog), [basePlans, schedule.sleepLog]);
+  const plans = useMemo(
+    () => adaptForSleepDebt(basePlans, schedule.sleepLog, config),
+    [basePlans, schedule.sleepLog, config]
+  );
+  const reminders = useMemo(
+    () => buildReminders(plans, schedule.reminders, new Date(), t, config),
+    [plans, schedule.reminders, t, config]
+  );
+  const guidance = useMemo(() => buildGuidance(plans, config), [plans, config]);
+  const meals = useMemo(() => buildMeals(plans, config), [plans, config]);
+  const freeTime = useMemo(
+    () => buildFreeTime(plans, schedule.errands, config),
+    [plans, schedule.errands, config]
+  );
+  const { permission, requestPermission } = useReminders(reminders);
+  const online = useOnlineStatus();
+  const [calendarDialogOpen, setCalendarDialogOpen] = React.useState(false);
+  const [restoreDialogOpen, setRestoreDialogOpen] = React.useState(false);
+  const [profileDialogOpen, setProfileDialogOpen] = React.useState(false);
+  const [errandDialogOpen, setErrandDialogOpen] = React.useState(false);
+  const [sleepImportOpen, setSleepImportOpen] = React.useState(false);
+  const [reminderDialogOpen, setReminderDialogOpen] = React.useState(false);
+  const [shareDialogOpen, setShareDialogOpen] = React.useState(false);
+  const [view, setView] = React.useState<'list' | 'calendar' | 'timeline'>('list');
+  // A share link opens the app on someone else's schedule until it is imported or closed
+  const [shared, setShared] = React.useState(() => readShareHash(window.location.hash));
 
-  const handleReset = useCallback(() => {
-    setSchedule({
-      workDays: [],
-      recoveryDays: [],
-      productiveDays: [],
-      secondJobDays: [],
-      preparationDays: [],
-    });
+  const closeShared = useCallback(() => {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setShared(null);
   }, []);
 
-  const getSleepRecommendation = useCallback((date: Date) => {
-    const workDay = schedule.workDays.find(wd => isSameDay(wd.date, date));
-    if (workDay) {
-      if (workDay.shiftType === 'night') {
-        return {
-          details: [
-            'Sleep: 9:00 AM - 5:00 PM (8 hours)',
-            'Wake up at 5:00 PM, have a light meal',
-            'Start shift at 7:00 PM',
-            'Stay hydrated throughout your shift'
-          ]
-        };
-      }
-      return {
-        details: [
-          'Sleep: 10:00 PM - 6:00 AM (8 hours)',
-          'Wake up at 6:00 AM, have breakfast',
-          'Start shift at 7:00 AM',
-          'Stay hydrated and take regular breaks'
-        ]
-      };
+  const handleImportShared = useCallback(() => {
+    const sharedSchedule = shared?.schedule;
+    if (sharedSchedule) {
+      setSchedule(prev => importSharedSchedule(prev, sharedSchedule));
     }
+    closeShared();
+  }, [shared, setSchedule, closeShared]);
 
-    if (schedule.recoveryDays.some(d => isSameDay(d, date))) {
-      const workDay = schedule.workDays.find(wd => 
-        isSameDay(wd.date, date) || isSameDay(addDays(wd.date, -1), date)
-      );
-      
-      if (workDay?.shiftType === 'night') {
-        return {
-          details: [
-            'Sleep: 8:00 AM - 4:00 PM (8 hours)',
-            'Optional nap: 7:00 PM - 8:00 PM',
-            'Light dinner at 8:30 PM',
-            'Stay hydrated and eat nutritious meals'
-          ]
-        };
-      }
-      return {
-        details: [
-          'Sleep: 10:00 PM - 6:00 AM (8 hours)',
-          'Optional nap: 2:00 PM - 3:00 PM',
-          'Light exercise in the morning',
-          'Stay hydrated and eat balanced meals'
-        ]
-      };
-    }
+  const handleReset = useCallback(() => {
+    setSchedule(resetSchedule);
+  }, [setSchedule]);
 
-    if (schedule.preparationDays.some(d => isSameDay(d, date))) {
-      const workDay = schedule.workDays.find(wd => 
-        isSameDay(wd.date, date) || isSameDay(addDays(wd.date, 1), date)
-      );
-      
-      if (workDay?.shiftType === 'night') {
-        return {
-          details: [
-            'Sleep: 11:00 PM - 7:00 AM (8 hours)',
-            'Optional nap: 2:00 PM - 3:00 PM',
-            'Avoid caffeine after 2:00 PM',
-            'Prepare meals and clothes for night shift'
-          ]
-        };
-      }
-      return {
-        details: [
-          'Sleep: 10:00 PM - 6:00 AM (8 hours)',
-          'Avoid caffeine after noon',
-          'Prepare meals and clothes for morning',
-          'Set out work clothes and supplies'
-        ]
-      };
-    }
+  // The sleep profile, errands, reminders, display settings and time zone survive a restore too; CSV
+  // exports carry no sleep log, so restoring one keeps the log already recorded
+  const handleRestore = useCallback((restored: Schedule) => {
+    setSchedule(prev => ({
+      ...changeTimeZone(restored, prev.timeZone),
+      profile: prev.profile,
+      errands: prev.errands,
+      sleepLog: prev.sleepLog,
+      reminders: prev.reminders,
+      display: prev.display,
+    }));
+  }, [setSchedule]);
+
+  const handleProfileSave = useCallback((profile: SleepProfile) => {
+    setSchedule(prev => ({ ...prev, profile }));
+    setProfileDialogOpen(false);
+  }, [setSchedule]);
 
-    return {
-      details: [
-        'Sleep: 10:00 PM - 6:00 AM (8 hours)',
-        'Exercise in the morning or afternoon',
-        'Limit caffeine after noon',
-        'Maintain regular meal times'
-      ]
-    };
-  }, [schedule]);
+  const handleErrandsSave = useCallback((errands: Errand[]) => {
+    setSchedule(prev => ({ ...prev, errands }));
+    setErrandDialogOpen(false);
+  }, [setSchedule]);
+
+  const handleRemindersSave = useCallback((settings: ReminderSettings) => {
+    setSchedule(prev => ({ ...prev, reminders: settings }));
+    setReminderDialogOpen(false);
+  }, [setSchedule]);
+
+  const handleDisplayChange = useCallback((display: DisplaySettings) => {
+    setSchedule(prev => ({ ...prev, display }));
+  }, [setSchedule]);
 
   const handleExport = useCallback(() => {
-    const csvContent = [
-      ['Date', 'Day Type', 'Sleep Time', 'Wake Time', 'Recommendations'],
-      ...allScheduledDays.map(({ date, type }) => {
-        const { details } = getSleepRecommendation(date);
-        const [sleepTime, wakeTime] = details[0].split(': ')[1].split(' - ');
-        return [
-          format(date, 'MM/dd/yyyy'),
-          type,
-          sleepTime,
-          wakeTime.split(' ')[0],
-          details.join('; ')
-        ];
-      })
-    ].map(row => row.join(',')).join('\n');
+    downloadFile(
+      buildScheduleCsv(schedule, plans, t),
+      `nurse-sleep-schedule-${format(new Date(), 'yyyy-MM-dd')}.csv`,
+      'text/csv;charset=utf-8;'
+    );
+  }, [schedule, plans, t]);
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `nurse-sleep-schedule-${format(new Date(), 'yyyy-MM-dd')}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  }, [allScheduledDays, getSleepRecommendation]);
+  const handleCalendarExport = useCallback((options: IcsExportOptions) => {
+    downloadFile(
+      buildIcsCalendar(plans, options, new Date(), t, config),
+      `nurse-sleep-schedule-${format(new Date(), 'yyyy-MM-dd')}.ics`,
+      'text/calendar;charset=utf-8;'
+    );
+    setCalendarDialogOpen(false);
+  }, [plans, t, config]);
 
-  const hasWorkDays = useMemo(() => schedule.workDays.length > 0, [schedule.workDays.length]);
+  const hasWorkDays = useMemo(
+    () => schedule.workDays.length > 0 || schedule.secondJobDays.length > 0,
+    [schedule.workDays.length, schedule.secondJobDays.length]
+  );
 
   return (
     <ThemeProvider theme={theme}>
-      <CssBaseline />
-      <Box 
-        sx={{ 
-          minHeight: '100vh',
-          background: 'linear-gradient(135deg, #fdf7ff 0%, #ffffff 100%)',
-          pt: 4,
-          pb: 8
-        }}
-      >
-        <Container maxWidth="md">
-          <Box sx={{ 
-            display: 'flex', 
-            flexDirection: 'column',
-            gap: 4
-          }}>
-            {/* Header */}
-            <Box sx={{ 
-              display: 'flex', 
-              justifyContent: 'space-between', 
-              alignItems: 'center'
-            }}>
-              <Typography 
-                variant="h3" 
-                component="h1"
-                sx={{ 
-                  background: 'linear-gradient(45deg, #9c27b0 30%, #ff4081 90%)',
-                  WebkitBackgroundClip: 'text',
-                  WebkitTextFillColor: 'transparent',
-                  textShadow: '0 2px 4px rgba(156, 39, 176, 0.1)',
-                  fontWeight: 600
-                }}
-              >
-                Nurse Sleep Schedule
-              </Typography>
-              <Button 
-                variant="outlined" 
-                color="primary" 
-                onClick={handleReset}
-                disabled={!hasWorkDays}
-                startIcon={<RestartAltRoundedIcon />}
-                sx={{
-                  borderWidth: 2,
-                  '&:hover': {
-                    borderWidth: 2,
-                    backgroundColor: alpha(theme.palette.primary.main, 0.04)
-                  }
-                }}
-              >
-                Reset Schedule
-              </Button>
-            </Box>
-
-            {/* Schedule Form */}
-            <Paper 
-              elevation={0} 
-              sx={{ 
-                p: 4,
-                background: 'linear-gradient(135deg, #ffffff 0%, #fdf7ff 100%)',
-                border: '1px solid',
-                borderColor: 'primary.light',
-                boxShadow: '0 4px 20px rgba(156, 39, 176, 0.08)'
-              }}
-            >
-              <ScheduleForm schedule={schedule} setSchedule={setSchedule} />
-            </Paper>
-
-            {/* Recommendations */}
-            <Paper 
-              elevation={0}
-              sx={{ 
-                p: 4,
-                background: 'linear-gradient(135deg, #ffffff 0%, #fdf7ff 100%)',
-                border: '1px solid',
-                borderColor: 'primary.light',
-                boxShadow: '0 4px 20px rgba(156, 39, 176, 0.08)'
-              }}
-            >
+      <TranslationContext.Provider value={t}>
+        <LocalizationProvider
+          dateAdapter={AdapterDateFns}
+          adapterLocale={t.dateLocale}
+          localeText={PICKER_LOCALE_TEXT[t.locale]}
+        >
+          <CssBaseline />
+          <Box 
+            sx={{ 
+              minHeight: '100vh',
+              background: 'linear-gradient(135deg, #fdf7ff 0%, #ffffff 100%)',
+              pt: 4,
+              pb: 8
+            }}
+          >
+            <Container maxWidth="md">
               <Box sx={{ 
                 display: 'flex', 
-                alignItems: 'center', 
-                gap: 2, 
-                mb: 3
+                flexDirection: 'column',
+                gap: 4
               }}>
-                <Typography 
-                  variant="h5" 
-                  component="h2"
-                  sx={{ 
-                    color: 'primary.main',
-                    fontWeight: 500
-                  }}
-                >
-                  Sleep Schedule and Recommendations
-                </Typography>
-                <Tooltip title="Export to CSV">
-                  <IconButton 
-                    color="primary"
-                    onClick={handleExport}
-                    disabled={!hasWorkDays}
-                    sx={{
-                      '&:hover': {
-                        backgroundColor: alpha(theme.palette.primary.main, 0.08)
-                      }
+                {/* Header */}
+                <Box sx={{ 
+                  display: 'flex', 
+                  justifyContent: 'space-between', 
+                  alignItems: 'center'
+                }}>
+                  <Typography 
+                    variant="h3" 
+                    component="h1"
+                    sx={{ 
+                      background: 'linear-gradient(45deg, #9c27b0 30%, #ff4081 90%)',
+                      WebkitBackgroundClip: 'text',
+                      WebkitTextFillColor: 'transparent',
+                      textShadow: '0 2px 4px rgba(156, 39, 176, 0.1)',
+                      fontWeight: 600
                     }}
                   >
-                    <DownloadIcon />
-                  </IconButton>
-                </Tooltip>
+                    {t.messages.app.title}
+                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Tooltip title={t.messages.app.reminders}>
+                      <IconButton 
+                        color="primary"
+                        onClick={() => setReminderDialogOpen(true)}
+                        sx={{
+                          '&:hover': {
+                            backgroundColor: alpha(theme.palette.primary.main, 0.08)
+                          }
+                        }}
+                      >
+                        <NotificationsRoundedIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={t.messages.app.sleepProfile}>
+                      <IconButton 
+                        color="primary"
+                        onClick={() => setProfileDialogOpen(true)}
+                        sx={{
+                          '&:hover': {
+                            backgroundColor: alpha(theme.palette.primary.main, 0.08)
+                          }
+                        }}
+                      >
+                        <PersonRoundedIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={t.messages.app.errands}>
+                      <IconButton 
+                        color="primary"
+                        onClick={() => setErrandDialogOpen(true)}
+                        sx={{
+                          '&:hover': {
+                            backgroundColor: alpha(theme.palette.primary.main, 0.08)
+                          }
+                        }}
+                      >
+                        <StorefrontRoundedIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <DisplayMenu settings={schedule.display} onChange={handleDisplayChange} />
+                    <Button 
+                      variant="outlined" 
+                      color="primary" 
+                      onClick={handleReset}
+                      disabled={!hasWorkDays}
+                      startIcon={<RestartAltRoundedIcon />}
+                      sx={{
+                        borderWidth: 2,
+                        '&:hover': {
+                          borderWidth: 2,
+                          backgroundColor: alpha(theme.palette.primary.main, 0.04)
+                        }
+                      }}
+                    >
+                      {t.messages.app.resetSchedule}
+                    </Button>
+                  </Box>
+                </Box>
+
+                {storageError && (
+                  <Alert severity="warning" onClose={dismissStorageError}>
+                    {describeStorageError(storageError, t)}
+                  </Alert>
+                )}
+
+                {!online && (
+                  <Alert severity="info">
+                    {t.messages.app.offline}
+                  </Alert>
+                )}
+
+                {shared?.error && (
+                  <Alert severity="error" onClose={closeShared}>
+                    {t.messages.app.shareLinkError(describeParseError(shared.error, t))}
+                  </Alert>
+                )}
+
+                {shared?.schedule ? (
+                  <SharedScheduleView schedule={shared.schedule} onImport={handleImportShared} onClose={closeShared} />
+                ) : (
+                  <>
+                    {/* Schedule Form */}
+                    <Paper 
+                      elevation={0} 
+                      sx={{ 
+                        p: 4,
+                        background: 'linear-gradient(135deg, #ffffff 0%, #fdf7ff 100%)',
+                        border: '1px solid',
+                        borderColor: 'primary.light',
+                        boxShadow: '0 4px 20px rgba(156, 39, 176, 0.08)'
+                      }}
+                    >
+                      <ScheduleForm schedule={schedule} setSchedule={setSchedule} />
+                    </Paper>
+
+                    {/* Recommendations */}
+                    <Paper 
+                      elevation={0}
+                      sx={{ 
+                        p: 4,
+                        background: 'linear-gradient(135deg, #ffffff 0%, #fdf7ff 100%)',
+                        border: '1px solid',
+                        borderColor: 'primary.light',
+                        boxShadow: '0 4px 20px rgba(156, 39, 176, 0.08)'
+                      }}
+                    >
+                      <Box sx={{ 
+                        display: 'flex', 
+                        alignItems: 'center', 
+                        gap: 2, 
+                        mb: 3
+                      }}>
+                        <Typography 
+                          variant="h5" 
+                          component="h2"
+                          sx={{ 
+                            color: 'primary.main',
+                            fontWeight: 500
+                          }}
+                        >
+                          {t.messages.app.scheduleHeading}
+                        </Typography>
+                        <Tooltip title={t.messages.app.exportCsv}>
+                          <IconButton 
+                            color="primary"
+                            onClick={handleExport}
+                            disabled={!hasWorkDays}
+                            sx={{
+                              '&:hover': {
+                                backgroundColor: alpha(theme.palette.primary.main, 0.08)
+                              }
+                            }}
+                          >
+                            <DownloadIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title={t.messages.app.exportCalendar}>
+                          <IconButton 
+                            color="primary"
+                            onClick={() => setCalendarDialogOpen(true)}
+                            disabled={!hasWorkDays}
+                            sx={{
+                              '&:hover': {
+                                backgroundColor: alpha(theme.palette.primary.main, 0.08)
+                              }
+                            }}
+                          >
+                            <EventRoundedIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title={t.messages.app.share}>
+                          <IconButton 
+                            color="primary"
+                            onClick={() => setShareDialogOpen(true)}
+                            disabled={!hasWorkDays}
+                            sx={{
+                              '&:hover': {
+                                backgroundColor: alpha(theme.palette.primary.main, 0.08)
+                              }
+                            }}
+                          >
+                            <ShareRoundedIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title={t.messages.app.restore}>
+                          <IconButton 
+                            color="primary"
+                            onClick={() => setRestoreDialogOpen(true)}
+                            sx={{
+                              '&:hover': {
+                                backgroundColor: alpha(theme.palette.primary.main, 0.08)
+                              }
+                            }}
+                          >
+                            <SettingsBackupRestoreRoundedIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title={t.messages.app.importSleep}>
+                          <IconButton 
+                            color="primary"
+                            onClick={() => setSleepImportOpen(true)}
+                            disabled={!hasWorkDays}
+                            sx={{
+                              '&:hover': {
+                                backgroundColor: alpha(theme.palette.primary.main, 0.08)
+                              }
+                            }}
+                          >
+                            <WatchRoundedIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <ToggleButtonGroup
+                          exclusive
+                          size="small"
+                          color="primary"
+                          value={view}
+                          onChange={(_, value) => value && setView(value)}
+                          sx={{ ml: 'auto' }}
+                        >
+                          <ToggleButton value="list" aria-label={t.messages.app.listView}>
+                            <ViewListRoundedIcon fontSize="small" />
+                          </ToggleButton>
+                          <ToggleButton value="calendar" aria-label={t.messages.app.calendarView}>
+                            <CalendarMonthRoundedIcon fontSize="small" />
+                          </ToggleButton>
+                          <ToggleButton value="timeline" aria-label={t.messages.app.timelineView}>
+                            <ViewTimelineRoundedIcon fontSize="small" />
+                          </ToggleButton>
+                        </ToggleButtonGroup>
+                      </Box>
+                      <SleepDebtChart debts={debts} />
+                      <FreeTimeSummary days={freeTime} errands={schedule.errands} />
+                      {view === 'calendar' ? (
+                        <MonthCalendar plans={plans} schedule={schedule} setSchedule={setSchedule} />
+                      ) : view === 'timeline' ? (
+                        <SleepTimeline plans={plans} minimumGap={getMinimumTurnaround(config)} />
+                      ) : (
+                        <SleepRecommendation
+                          plans={plans}
+                          schedule={schedule}
+                          setSchedule={setSchedule}
+                          guidance={guidance}
+                          meals={meals}
+                          freeTime={freeTime}
+                        />
+                      )}
+                      <CalendarExportDialog
+                        open={calendarDialogOpen}
+                        onClose={() => setCalendarDialogOpen(false)}
+                        onExport={handleCalendarExport}
+                      />
+                      <RestoreDialog
+                        open={restoreDialogOpen}
+                        onClose={() => setRestoreDialogOpen(false)}
+                        onRestore={handleRestore}
+                      />
+                      <SleepImportDialog
+                        open={sleepImportOpen}
+                        onClose={() => setSleepImportOpen(false)}
+                        plans={basePlans}
+                        schedule={schedule}
+                        setSchedule={setSchedule}
+                      />
+                      <ReminderDialog
+                        open={reminderDialogOpen}
+                        settings={schedule.reminders}
+                        permission={permission}
+                        upcoming={reminders}
+                        onRequestPermission={requestPermission}
+                        onClose={() => setReminderDialogOpen(false)}
+                        onSave={handleRemindersSave}
+                      />
+                      <SleepProfileDialog
+                        open={profileDialogOpen}
+                        schedule={schedule}
+                        onClose={() => setProfileDialogOpen(false)}
+                        onSave={handleProfileSave}
+                      />
+                      <ErrandDialog
+                        open={errandDialogOpen}
+                        errands={schedule.errands}
+                        onClose={() => setErrandDialogOpen(false)}
+                        onSave={handleErrandsSave}
+                      />
+                      <ShareDialog
+                        open={shareDialogOpen}
+                        schedule={schedule}
+                        onClose={() => setShareDialogOpen(false)}
+                      />
+                    </Paper>
+                  </>
+                )}
               </Box>
-              <SleepRecommendation schedule={schedule} />
-            </Paper>
+            </Container>
           </Box>
-        </Container>
-      </Box>
+          <UpdatePrompt />
+        </LocalizationProvider>
+      </TranslationContext.Provider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,102 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Typography
+} from '@mui/material';
+import { DEFAULT_ICS_OPTIONS, IcsCategory, IcsExportOptions } from '../utils/icsExport';
+import { useTranslation } from '../hooks/useTranslation';
+
+const CATEGORIES: IcsCategory[] = ['shifts', 'secondJob', 'sleep', 'naps', 'guidance', 'meals'];
+
+const REMINDER_CHOICES = [0, 10, 15, 30, 60, 120];
+const NO_REMINDER = 'none';
+
+interface CalendarExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onExport: (options: IcsExportOptions) => void;
+}
+
+const CalendarExportDialog: React.FC<CalendarExportDialogProps> = ({ open, onClose, onExport }) => {
+  const t = useTranslation();
+  const { common, calendarExport } = t.messages;
+  const [options, setOptions] = React.useState<IcsExportOptions>(DEFAULT_ICS_OPTIONS);
+
+  const setIncluded = (category: IcsCategory, included: boolean) => {
+    setOptions(prev => ({ ...prev, include: { ...prev.include, [category]: included } }));
+  };
+
+  const setReminder = (category: IcsCategory, value: string) => {
+    setOptions(prev => {
+      const { [category]: _removed, ...rest } = prev.reminders;
+      return {
+        ...prev,
+        reminders: value === NO_REMINDER ? rest : { ...rest, [category]: Number(value) },
+      };
+    });
+  };
+
+  const nothingSelected = CATEGORIES.every(category => !options.include[category]);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>{calendarExport.title}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" sx={{ color: 'text.secondary', mb: 2 }}>
+          {calendarExport.intro}
+        </Typography>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {CATEGORIES.map(category => (
+            <Box key={category} sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <FormControlLabel
+                sx={{ flex: 1 }}
+                control={
+                  <Checkbox
+                    checked={options.include[category]}
+                    onChange={event => setIncluded(category, event.target.checked)}
+                  />
+                }
+                label={calendarExport.categories[category]}
+              />
+              <FormControl size="small" sx={{ minWidth: 150 }} disabled={!options.include[category]}>
+                <InputLabel id={`reminder-${category}-label`}>{calendarExport.reminder}</InputLabel>
+                <Select
+                  labelId={`reminder-${category}-label`}
+                  label={calendarExport.reminder}
+                  value={options.reminders[category]?.toString() ?? NO_REMINDER}
+                  onChange={event => setReminder(category, event.target.value)}
+                >
+                  <MenuItem value={NO_REMINDER}>{calendarExport.none}</MenuItem>
+                  {REMINDER_CHOICES.map(minutes => (
+                    <MenuItem key={minutes} value={minutes.toString()}>
+                      {minutes === 0 ? calendarExport.atStart : common.minutesBefore(minutes)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+          ))}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{common.cancel}</Button>
+        <Button variant="contained" onClick={() => onExport(options)} disabled={nothingSelected}>
+          {calendarExport.download}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CalendarExportDialog;
@@ -0,0 +1,73 @@
+import React from 'react';
+import {
+  Divider,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Tooltip,
+} from '@mui/material';
+import TranslateRoundedIcon from '@mui/icons-material/TranslateRounded';
+import CheckRoundedIcon from '@mui/icons-material/CheckRounded';
+import { ClockFormat, DisplaySettings } from '../types';
+import { getMessages, LOCALES } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface DisplayMenuProps {
+  settings: DisplaySettings;
+  onChange: (settings: DisplaySettings) => void;
+}
+
+const CLOCK_FORMATS: ClockFormat[] = ['12h', '24h'];
+
+const DisplayMenu: React.FC<DisplayMenuProps> = ({ settings, onChange }) => {
+  const t = useTranslation();
+  const [anchor, setAnchor] = React.useState<HTMLElement | null>(null);
+
+  const check = (selected: boolean) => (
+    <ListItemIcon>{selected && <CheckRoundedIcon fontSize="small" />}</ListItemIcon>
+  );
+
+  return (
+    <>
+      <Tooltip title={t.messages.app.display}>
+        <IconButton color="primary" onClick={event => setAnchor(event.currentTarget)}>
+          <TranslateRoundedIcon />
+        </IconButton>
+      </Tooltip>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        <ListSubheader>{t.messages.display.language}</ListSubheader>
+        {/* Each language is listed under its own name so it can be found without reading the current one */}
+        {LOCALES.map(locale => (
+          <MenuItem
+            key={locale}
+            lang={locale}
+            selected={settings.locale === locale}
+            onClick={() => onChange({ ...settings, locale })}
+          >
+            {check(settings.locale === locale)}
+            <ListItemText>{getMessages(locale).languageName}</ListItemText>
+          </MenuItem>
+        ))}
+        <Divider />
+        <ListSubheader>{t.messages.display.clock}</ListSubheader>
+        {CLOCK_FORMATS.map(clock => (
+          <MenuItem
+            key={clock}
+            selected={settings.clock === clock}
+            onClick={() => onChange({ ...settings, clock })}
+          >
+            {check(settings.clock === clock)}
+            <ListItemText>
+              {clock === '12h' ? t.messages.display.twelveHour : t.messages.display.twentyFourHour}
+            </ListItemText>
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default DisplayMenu;
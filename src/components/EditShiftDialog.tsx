@@ -0,0 +1,122 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent
+} from '@mui/material';
+import { TimePicker } from '@mui/x-date-pickers/TimePicker';
+import { ShiftPreset, WorkDay } from '../types';
+import { ShiftChange } from '../utils/scheduleEdits';
+import { dateToMinutes, findPreset, minutesToDate } from '../utils/shifts';
+import { getPresetName } from '../utils/planText';
+import { useTranslation } from '../hooks/useTranslation';
+
+const CUSTOM_SHIFT = 'custom';
+
+interface EditShiftDialogProps {
+  workDay: WorkDay | null;
+  presets: ShiftPreset[];
+  onClose: () => void;
+  onSave: (change: ShiftChange) => void;
+}
+
+const EditShiftDialog: React.FC<EditShiftDialogProps> = ({ workDay, presets, onClose, onSave }) => {
+  const t = useTranslation();
+  const { common } = t.messages;
+  const [presetId, setPresetId] = React.useState<string>(CUSTOM_SHIFT);
+  const [start, setStart] = React.useState<Date | null>(null);
+  const [end, setEnd] = React.useState<Date | null>(null);
+
+  React.useEffect(() => {
+    if (workDay) {
+      setPresetId(findPreset(presets, workDay.presetId) ? workDay.presetId! : CUSTOM_SHIFT);
+      setStart(minutesToDate(workDay.start));
+      setEnd(minutesToDate(workDay.end));
+    }
+  }, [workDay, presets]);
+
+  const handlePresetChange = (event: SelectChangeEvent<string>) => {
+    const preset = findPreset(presets, event.target.value);
+    setPresetId(event.target.value);
+    if (preset) {
+      setStart(minutesToDate(preset.start));
+      setEnd(minutesToDate(preset.end));
+    }
+  };
+
+  // Editing the times by hand detaches the shift from its preset
+  const handleTimeChange = (setter: (value: Date | null) => void) => (value: Date | null) => {
+    setter(value);
+    setPresetId(CUSTOM_SHIFT);
+  };
+
+  const isValidTime = (value: Date | null): value is Date => !!value && !isNaN(value.getTime());
+
+  const handleSave = () => {
+    if (isValidTime(start) && isValidTime(end)) {
+      onSave({
+        start: dateToMinutes(start),
+        end: dateToMinutes(end),
+        presetId: presetId === CUSTOM_SHIFT ? undefined : presetId
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!workDay} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>
+        {workDay ? t.messages.editShift.titleOn(t.formatDate(workDay.date, 'long')) : t.messages.editShift.title}
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <FormControl>
+            <InputLabel id="edit-shift-preset-label">{common.shift}</InputLabel>
+            <Select
+              labelId="edit-shift-preset-label"
+              value={presetId}
+              label={common.shift}
+              onChange={handlePresetChange}
+            >
+              {presets.map(preset => (
+                <MenuItem key={preset.id} value={preset.id}>{getPresetName(preset, t)}</MenuItem>
+              ))}
+              <MenuItem value={CUSTOM_SHIFT}>{common.customTimes}</MenuItem>
+            </Select>
+          </FormControl>
+          <TimePicker
+            label={common.shiftStart}
+            value={start}
+            onChange={handleTimeChange(setStart)}
+            ampm={t.clock === '12h'}
+          />
+          <TimePicker
+            label={common.shiftEnd}
+            value={end}
+            onChange={handleTimeChange(setEnd)}
+            ampm={t.clock === '12h'}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{common.cancel}</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!isValidTime(start) || !isValidTime(end)}
+        >
+          {common.save}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default EditShiftDialog;
@@ -0,0 +1,170 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import { TimePicker } from '@mui/x-date-pickers/TimePicker';
+import AddRoundedIcon from '@mui/icons-material/AddRounded';
+import { Errand } from '../types';
+import { createErrandId, isValidErrand } from '../utils/freeTime';
+import { dateToMinutes, minutesToDate } from '../utils/shifts';
+import { formatDuration, formatShiftTimes, formatWeekday, getErrandName } from '../utils/planText';
+import { Translator } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+const MAX_VISIT_MINUTES = 8 * 60;
+
+const describeErrand = (errand: Errand, t: Translator): string =>
+  `${getErrandName(errand, t)} · ${errand.weekdays.map(day => formatWeekday(day, 'EEE', t)).join(', ')} ` +
+  `${formatShiftTimes(errand, t)} · ${formatDuration(errand.minutes, t)}`;
+
+interface ErrandDialogProps {
+  open: boolean;
+  errands: Errand[];
+  onClose: () => void;
+  onSave: (errands: Errand[]) => void;
+}
+
+const ErrandDialog: React.FC<ErrandDialogProps> = ({ open, errands, onClose, onSave }) => {
+  const t = useTranslation();
+  const { common } = t.messages;
+  const messages = t.messages.errands;
+  const [draftErrands, setDraftErrands] = React.useState<Errand[]>(errands);
+  const [name, setName] = React.useState('');
+  const [start, setStart] = React.useState<Date | null>(minutesToDate(8 * 60));
+  const [end, setEnd] = React.useState<Date | null>(minutesToDate(18 * 60));
+  const [weekdays, setWeekdays] = React.useState<number[]>([1, 2, 3, 4, 5]);
+  const [minutes, setMinutes] = React.useState(30);
+
+  React.useEffect(() => {
+    if (open) {
+      setDraftErrands(errands);
+    }
+  }, [open, errands]);
+
+  const isValidTime = (value: Date | null): value is Date => !!value && !isNaN(value.getTime());
+
+  const draft: Errand | null = isValidTime(start) && isValidTime(end)
+    ? {
+      id: createErrandId(name, draftErrands),
+      name: name.trim(),
+      start: dateToMinutes(start),
+      end: dateToMinutes(end),
+      weekdays: [...weekdays].sort((a, b) => a - b),
+      minutes
+    }
+    : null;
+
+  const handleMinutesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Math.round(Number(event.target.value));
+    setMinutes(Number.isFinite(value) ? Math.min(MAX_VISIT_MINUTES, Math.max(0, value)) : 0);
+  };
+
+  const handleAddErrand = () => {
+    if (draft && isValidErrand(draft)) {
+      setDraftErrands(prev => [...prev, draft]);
+      setName('');
+    }
+  };
+
+  const handleDeleteErrand = (id: string) => {
+    setDraftErrands(prev => prev.filter(errand => errand.id !== id));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{messages.title}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2.5, pt: 1 }}>
+          <Typography variant="body2" color="text.secondary">{messages.intro}</Typography>
+          {draftErrands.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+              {draftErrands.map(errand => (
+                <Chip
+                  key={errand.id}
+                  label={describeErrand(errand, t)}
+                  color="primary"
+                  variant="outlined"
+                  onDelete={() => handleDeleteErrand(errand.id)}
+                />
+              ))}
+            </Box>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label={messages.name}
+                placeholder={messages.namePlaceholder}
+                value={name}
+                onChange={event => setName(event.target.value)}
+                sx={{ flex: 2 }}
+              />
+              <TextField
+                type="number"
+                label={messages.visitMinutes}
+                value={minutes}
+                onChange={handleMinutesChange}
+                inputProps={{ min: 5, max: MAX_VISIT_MINUTES, step: 5 }}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TimePicker
+                label={messages.opens}
+                value={start}
+                onChange={setStart}
+                ampm={t.clock === '12h'}
+                sx={{ flex: 1 }}
+              />
+              <TimePicker
+                label={messages.closes}
+                value={end}
+                onChange={setEnd}
+                ampm={t.clock === '12h'}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+            <ToggleButtonGroup
+              size="small"
+              color="primary"
+              value={weekdays}
+              onChange={(_, value: number[]) => setWeekdays(value)}
+              aria-label={messages.openOn}
+            >
+              {WEEKDAYS.map(weekday => (
+                <ToggleButton key={weekday} value={weekday} aria-label={formatWeekday(weekday, 'EEEE', t)}>
+                  {formatWeekday(weekday, 'EEEEEE', t)}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <Button
+              variant="outlined"
+              startIcon={<AddRoundedIcon />}
+              onClick={handleAddErrand}
+              disabled={!draft || !isValidErrand(draft)}
+              sx={{ alignSelf: 'flex-start' }}
+            >
+              {messages.addErrand}
+            </Button>
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{common.cancel}</Button>
+        <Button variant="contained" onClick={() => onSave(draftErrands)}>{common.save}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ErrandDialog;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Box, Chip, Typography } from '@mui/material';
+import { Errand } from '../types';
+import { DayFreeTime, summarizeFreeTimeByWeek } from '../utils/freeTime';
+import { formatDuration, getErrandName } from '../utils/planText';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface FreeTimeSummaryProps {
+  days: DayFreeTime[];
+  errands: Errand[];
+}
+
+const FreeTimeSummary: React.FC<FreeTimeSummaryProps> = ({ days, errands }) => {
+  const t = useTranslation();
+  const { freeTime } = t.messages;
+  const weeks = React.useMemo(() => summarizeFreeTimeByWeek(days, errands), [days, errands]);
+
+  if (weeks.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 500, mb: 1 }}>{freeTime.title}</Typography>
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+        {weeks.map(week => (
+          <Box key={week.start.getTime()}>
+            <Typography variant="body2" sx={{ fontWeight: 500 }}>
+              {freeTime.week(t.formatDate(week.start, 'dayMonth'))}
+              <Typography component="span" variant="body2" sx={{ color: 'text.secondary', ml: 1 }}>
+                {freeTime.total(formatDuration(week.minutes, t), week.days)}
+              </Typography>
+            </Typography>
+            {week.errands.length > 0 && (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 0.5 }}>
+                {week.errands.map(({ errand, days: errandDays }) => (
+                  <Chip
+                    key={errand.id}
+                    size="small"
+                    variant="outlined"
+                    color={errandDays > 0 ? 'primary' : 'default'}
+                    label={freeTime.errandDays(getErrandName(errand, t), errandDays)}
+                  />
+                ))}
+              </Box>
+            )}
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default FreeTimeSummary;
@@ -0,0 +1,284 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Typography
+} from '@mui/material';
+import UploadFileRoundedIcon from '@mui/icons-material/UploadFileRounded';
+import { Schedule } from '../types';
+import { parseCsv } from '../utils/csv';
+import { parseIcsShifts } from '../utils/icsImport';
+import { describeParseError, formatShiftTimes } from '../utils/planText';
+import {
+  applyImport,
+  CsvColumnMapping,
+  DATE_FORMATS,
+  diffImport,
+  guessColumnMapping,
+  ImportDiffEntry,
+  ImportStatus,
+  parseRosterCsv
+} from '../utils/shiftImport';
+import { getShiftType } from '../utils/shifts';
+import { Translator } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+// Long error lists are cut off; the first few are usually enough to fix a mapping
+const MAX_ERRORS_SHOWN = 20;
+
+const STATUS_COLORS: Record<ImportStatus, 'success' | 'warning' | 'default' | 'error'> = {
+  added: 'success',
+  changed: 'warning',
+  unchanged: 'default',
+  conflict: 'error',
+};
+
+interface ImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  schedule: Schedule;
+  setSchedule: React.Dispatch<React.SetStateAction<Schedule>>;
+}
+
+const describeEntry = (entry: ImportDiffEntry, t: Translator): string => {
+  const { shiftImport } = t.messages;
+  const hours = formatShiftTimes(entry.workDay, t);
+  if (entry.conflict === 'duplicate') {
+    return shiftImport.duplicate(hours);
+  }
+  if (entry.conflict === 'dayOff') {
+    return shiftImport.dayOff(hours);
+  }
+  if (entry.status === 'changed' && entry.existing) {
+    return shiftImport.was(hours, formatShiftTimes(entry.existing, t));
+  }
+  return hours;
+};
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ open, onClose, schedule, setSchedule }) => {
+  const t = useTranslation();
+  const { common, shiftImport } = t.messages;
+  const [fileName, setFileName] = React.useState('');
+  const [text, setText] = React.useState('');
+  const [readError, setReadError] = React.useState<string | null>(null);
+  const [kind, setKind] = React.useState<'ics' | 'csv' | null>(null);
+  const [mapping, setMapping] = React.useState<CsvColumnMapping | null>(null);
+  const [replaceDaysOff, setReplaceDaysOff] = React.useState(false);
+
+  const csvRows = React.useMemo(() => kind === 'csv' ? parseCsv(text).rows : [], [kind, text]);
+
+  const result = React.useMemo(() => {
+    if (kind === 'ics') return parseIcsShifts(text, schedule.shiftPresets, schedule.timeZone);
+    if (kind === 'csv' && mapping) return parseRosterCsv(text, mapping, schedule.shiftPresets);
+    return { shifts: [], errors: [] };
+  }, [kind, text, mapping, schedule.shiftPresets, schedule.timeZone]);
+
+  const diff = React.useMemo(() => diffImport(schedule, result.shifts), [schedule, result.shifts]);
+  const applicable = diff.filter(entry =>
+    entry.status === 'added' || entry.status === 'changed' ||
+    (entry.conflict === 'dayOff' && replaceDaysOff));
+  const count = (status: ImportStatus) => diff.filter(entry => entry.status === status).length;
+
+  const reset = () => {
+    setFileName('');
+    setReadError(null);
+    setText('');
+    setKind(null);
+    setMapping(null);
+    setReplaceDaysOff(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    let content: string;
+    try {
+      content = await file.text();
+    } catch (error) {
+      reset();
+      setFileName(file.name);
+      setReadError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    setReadError(null);
+    const isIcs = /\.ics$/i.test(file.name) || /^\s*BEGIN:VCALENDAR/i.test(content);
+    setFileName(file.name);
+    setText(content);
+    setKind(isIcs ? 'ics' : 'csv');
+    setMapping(isIcs ? null : guessColumnMapping(parseCsv(content).rows));
+  };
+
+  const handleApply = () => {
+    setSchedule(prev => applyImport(prev, diffImport(prev, result.shifts), replaceDaysOff));
+    handleClose();
+  };
+
+  const columns = csvRows[0]?.cells ?? [];
+  const updateMapping = (change: Partial<CsvColumnMapping>) =>
+    setMapping(prev => prev && { ...prev, ...change });
+
+  const renderColumnSelect = (field: 'date' | 'start' | 'end', label: string) => (
+    <FormControl size="small" sx={{ flex: 1, minWidth: 140 }}>
+      <InputLabel id={`import-${field}-label`}>{label}</InputLabel>
+      <Select
+        labelId={`import-${field}-label`}
+        label={label}
+        value={mapping ? mapping[field] : 0}
+        onChange={event => updateMapping({ [field]: Number(event.target.value) })}
+      >
+        {columns.map((cell, index) => (
+          <MenuItem key={index} value={index}>
+            {mapping?.hasHeader && cell ? cell : shiftImport.column(index + 1)}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="sm">
+      <DialogTitle>{shiftImport.title}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+            {shiftImport.intro}
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Button variant="outlined" component="label" startIcon={<UploadFileRoundedIcon />}>
+              {common.chooseFile}
+              <input
+                hidden
+                type="file"
+                accept=".ics,.csv,text/calendar,text/csv"
+                onChange={handleFile}
+              />
+            </Button>
+            {fileName && <Typography variant="body2">{fileName}</Typography>}
+          </Box>
+
+          {kind === 'csv' && mapping && columns.length > 0 && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={mapping.hasHeader}
+                    onChange={event => updateMapping({ hasHeader: event.target.checked })}
+                  />
+                }
+                label={shiftImport.hasHeader}
+              />
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+                {renderColumnSelect('date', shiftImport.dateColumn)}
+                {renderColumnSelect('start', shiftImport.startColumn)}
+                {renderColumnSelect('end', shiftImport.endColumn)}
+                <FormControl size="small" sx={{ flex: 1, minWidth: 140 }}>
+                  <InputLabel id="import-date-format-label">{shiftImport.dateFormat}</InputLabel>
+                  <Select
+                    labelId="import-date-format-label"
+                    label={shiftImport.dateFormat}
+                    value={mapping.dateFormat}
+                    onChange={event => updateMapping({ dateFormat: event.target.value })}
+                  >
+                    {DATE_FORMATS.map(dateFormat => (
+                      <MenuItem key={dateFormat} value={dateFormat}>{dateFormat}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
+            </Box>
+          )}
+
+          {readError && <Alert severity="error">{common.unreadableFile(fileName, readError)}</Alert>}
+
+          {result.errors.length > 0 && (
+            <Alert severity="error">
+              {shiftImport.unreadable(result.errors.length)}
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {result.errors.slice(0, MAX_ERRORS_SHOWN).map(({ line, error }, index) => (
+                  <li key={index}>{common.lineError(line, describeParseError(error, t))}</li>
+                ))}
+              </Box>
+              {result.errors.length > MAX_ERRORS_SHOWN &&
+                common.andMore(result.errors.length - MAX_ERRORS_SHOWN)}
+            </Alert>
+          )}
+
+          {diff.length > 0 && (
+            <Box>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+                {(Object.keys(STATUS_COLORS) as ImportStatus[]).map(status => (
+                  <Chip
+                    key={status}
+                    size="small"
+                    color={STATUS_COLORS[status]}
+                    variant="outlined"
+                    label={`${shiftImport.statuses[status]}: ${count(status)}`}
+                  />
+                ))}
+              </Box>
+              <List dense sx={{ maxHeight: 320, overflow: 'auto' }}>
+                {diff.map(entry => (
+                  <ListItem
+                    key={`${entry.line}-${entry.workDay.date.getTime()}`}
+                    secondaryAction={
+                      <Chip size="small" color={STATUS_COLORS[entry.status]} label={shiftImport.statuses[entry.status]} />
+                    }
+                  >
+                    <ListItemText
+                      primary={`${t.formatDate(entry.workDay.date, 'medium')} · ${
+                        getShiftType(entry.workDay) === 'night' ? shiftImport.nightShift : shiftImport.dayShift}`}
+                      secondary={describeEntry(entry, t)}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </Box>
+          )}
+
+          {diff.some(entry => entry.conflict === 'dayOff') && (
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={replaceDaysOff}
+                  onChange={event => setReplaceDaysOff(event.target.checked)}
+                />
+              }
+              label={shiftImport.replaceDaysOff}
+            />
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>{common.cancel}</Button>
+        <Button variant="contained" onClick={handleApply} disabled={applicable.length === 0}>
+          {shiftImport.importShifts(applicable.length)}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
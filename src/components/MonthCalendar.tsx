@@ -0,0 +1,197 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import ChevronLeftRoundedIcon from '@mui/icons-material/ChevronLeftRounded';
+import ChevronRightRoundedIcon from '@mui/icons-material/ChevronRightRounded';
+import { addMonths, format, isSameDay, isSameMonth, startOfDay, startOfMonth } from 'date-fns';
+import { Schedule } from '../types';
+import { DayPlan, getDayCategory, getPlanConfig } from '../utils/sleepPlan';
+import { getBackgroundColor, getBorderColor } from '../utils/dayColors';
+import { getMonthGrid } from '../utils/calendar';
+import { formatWindow, getDayTitle, getPresetName } from '../utils/planText';
+import { withTimeZone } from '../utils/i18n';
+import { findPreset } from '../utils/shifts';
+import { toggleWorkDay } from '../utils/scheduleEdits';
+import { assessFatigue } from '../utils/fatigue';
+import { buildGuidance } from '../utils/guidance';
+import { buildMeals } from '../utils/meals';
+import SleepRecommendation from './SleepRecommendation';
+import { useTranslation } from '../hooks/useTranslation';
+
+// In this mode a click opens the day; any preset id makes a click toggle that shift
+const SHOW_DETAILS = 'details';
+
+interface MonthCalendarProps {
+  plans: DayPlan[];
+  schedule: Schedule;
+  setSchedule: React.Dispatch<React.SetStateAction<Schedule>>;
+}
+
+const MonthCalendar: React.FC<MonthCalendarProps> = ({ plans, schedule, setSchedule }) => {
+  const t = useTranslation();
+  const { calendar } = t.messages;
+  const [month, setMonth] = React.useState(() => startOfMonth(new Date()));
+  const [clickAction, setClickAction] = React.useState<string>(SHOW_DETAILS);
+  const [selectedDate, setSelectedDate] = React.useState<Date | null>(null);
+
+  const plansByDay = React.useMemo(
+    () => new Map(plans.map(plan => [startOfDay(plan.date).getTime(), plan])),
+    [plans]
+  );
+  const weeks = React.useMemo(() => getMonthGrid(month), [month]);
+  const fatigue = React.useMemo(() => assessFatigue(plans), [plans]);
+  const config = React.useMemo(() => getPlanConfig(schedule.profile), [schedule.profile]);
+  const guidance = React.useMemo(() => buildGuidance(plans, config), [plans, config]);
+  const meals = React.useMemo(() => buildMeals(plans, config), [plans, config]);
+  const selectedPlan = selectedDate ? plansByDay.get(selectedDate.getTime()) : undefined;
+
+  const handleDayClick = (date: Date) => {
+    const preset = findPreset(schedule.shiftPresets, clickAction);
+    if (preset) {
+      setSchedule(prev => toggleWorkDay(prev, date, { start: preset.start, end: preset.end, presetId: preset.id }));
+    } else {
+      setSelectedDate(date);
+    }
+  };
+
+  const getCaption = (plan: DayPlan): string => {
+    if (plan.shift) return formatWindow(plan.shift, withTimeZone(t, plan.timeZone));
+    if (plan.dayType === 'dayOff') return t.messages.common.off;
+    return calendar.captions[getDayCategory(plan.dayType)];
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+        <IconButton aria-label={calendar.previousMonth} onClick={() => setMonth(prev => addMonths(prev, -1))}>
+          <ChevronLeftRoundedIcon />
+        </IconButton>
+        <Typography variant="h6" sx={{ minWidth: 160, textAlign: 'center', fontWeight: 500 }}>
+          {t.formatDate(month, 'monthYear')}
+        </Typography>
+        <IconButton aria-label={calendar.nextMonth} onClick={() => setMonth(prev => addMonths(prev, 1))}>
+          <ChevronRightRoundedIcon />
+        </IconButton>
+        <Button size="small" onClick={() => setMonth(startOfMonth(new Date()))}>{calendar.today}</Button>
+        <FormControl size="small" sx={{ ml: 'auto', minWidth: 200 }}>
+          <InputLabel id="calendar-click-label">{calendar.clickAction}</InputLabel>
+          <Select
+            labelId="calendar-click-label"
+            label={calendar.clickAction}
+            value={clickAction}
+            onChange={event => setClickAction(event.target.value)}
+          >
+            <MenuItem value={SHOW_DETAILS}>{calendar.showDetails}</MenuItem>
+            {schedule.shiftPresets.map(preset => (
+              <MenuItem key={preset.id} value={preset.id}>{calendar.toggle(getPresetName(preset, t))}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: 0.75 }}>
+        {weeks[0].map(day => (
+          <Typography
+            key={day.getDay()}
+            variant="caption"
+            sx={{ textAlign: 'center', color: 'text.secondary', fontWeight: 500 }}
+          >
+            {format(day, 'EEE', { locale: t.dateLocale })}
+          </Typography>
+        ))}
+        {weeks.flat().map(day => {
+          const plan = plansByDay.get(day.getTime());
+          const inMonth = isSameMonth(day, month);
+          return (
+            <Tooltip key={day.getTime()} title={plan ? getDayTitle(plan, t) : ''}>
+              <Box
+                component="button"
+                type="button"
+                onClick={() => handleDayClick(day)}
+                aria-label={t.formatDate(day, 'long')}
+                sx={{
+                  minHeight: 72,
+                  p: 0.75,
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'flex-start',
+                  textAlign: 'left',
+                  font: 'inherit',
+                  cursor: 'pointer',
+                  opacity: inMonth ? 1 : 0.45,
+                  bgcolor: plan ? getBackgroundColor(plan.dayType) : '#fff',
+                  border: 1,
+                  borderColor: plan ? getBorderColor(plan.dayType) : '#f0f0f0',
+                  borderRadius: 2,
+                  outline: isSameDay(day, new Date()) ? '2px solid' : 'none',
+                  outlineColor: 'primary.light',
+                  transition: 'all 0.2s ease',
+                  '&:hover': { boxShadow: '0 4px 20px rgba(0,0,0,0.05)' }
+                }}
+              >
+                <Typography variant="body2" sx={{ fontWeight: 500 }}>{format(day, 'd')}</Typography>
+                {plan && (
+                  <Typography variant="caption" sx={{ color: 'text.secondary', lineHeight: 1.2 }}>
+                    {getCaption(plan)}
+                    {(plan.shiftSource === 'secondJob' || plan.secondJob) && ` · ${calendar.secondJob}`}
+                  </Typography>
+                )}
+              </Box>
+            </Tooltip>
+          );
+        })}
+      </Box>
+
+      <Dialog open={!!selectedDate} onClose={() => setSelectedDate(null)} fullWidth maxWidth="sm">
+        <DialogTitle>{selectedDate && t.formatDate(selectedDate, 'full')}</DialogTitle>
+        <DialogContent>
+          {selectedPlan ? (
+            <SleepRecommendation
+              plans={[selectedPlan]}
+              schedule={schedule}
+              setSchedule={setSchedule}
+              fatigue={fatigue}
+              guidance={guidance}
+              meals={meals}
+            />
+          ) : (
+            <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+              {calendar.nothingPlanned}
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ flexWrap: 'wrap' }}>
+          {selectedDate && !selectedPlan?.shift && schedule.shiftPresets.map(preset => (
+            <Button
+              key={preset.id}
+              size="small"
+              onClick={() => setSchedule(prev => toggleWorkDay(prev, selectedDate, {
+                start: preset.start,
+                end: preset.end,
+                presetId: preset.id
+              }))}
+            >
+              {calendar.add(getPresetName(preset, t))}
+            </Button>
+          ))}
+          <Button onClick={() => setSelectedDate(null)}>{t.messages.common.close}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default MonthCalendar;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Button, Dialog, DialogActions, DialogContent, DialogTitle } from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { WorkDay } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface MoveShiftDialogProps {
+  workDay: WorkDay | null;
+  isDateTaken: (date: Date) => boolean;
+  onClose: () => void;
+  onMove: (date: Date) => void;
+}
+
+const MoveShiftDialog: React.FC<MoveShiftDialogProps> = ({ workDay, isDateTaken, onClose, onMove }) => {
+  const t = useTranslation();
+  const { moveShift } = t.messages;
+  const [target, setTarget] = React.useState<Date | null>(null);
+
+  React.useEffect(() => {
+    setTarget(null);
+  }, [workDay]);
+
+  const canMove = !!target && !isNaN(target.getTime()) && !isDateTaken(target);
+
+  return (
+    <Dialog open={!!workDay} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>
+        {workDay ? moveShift.titleFrom(t.formatDate(workDay.date, 'long')) : moveShift.title}
+      </DialogTitle>
+      <DialogContent>
+        <DatePicker
+          label={moveShift.newDate}
+          value={target}
+          onChange={setTarget}
+          shouldDisableDate={isDateTaken}
+          sx={{ width: '100%', mt: 1 }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t.messages.common.cancel}</Button>
+        <Button variant="contained" onClick={() => target && onMove(target)} disabled={!canMove}>
+          {moveShift.move}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MoveShiftDialog;
@@ -0,0 +1,147 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Typography
+} from '@mui/material';
+import { format } from 'date-fns';
+import { ReminderKind, ReminderSetting, ReminderSettings } from '../types';
+import { REMINDER_KINDS, ScheduledReminder } from '../utils/reminders';
+import { formatTime, getReminderLabel } from '../utils/planText';
+import { ReminderPermission } from '../hooks/useReminders';
+import { useTranslation } from '../hooks/useTranslation';
+
+const LEAD_TIME_CHOICES = [0, 5, 10, 15, 30, 45, 60, 90, 120];
+const UPCOMING_SHOWN = 5;
+
+interface ReminderDialogProps {
+  open: boolean;
+  settings: ReminderSettings;
+  permission: ReminderPermission;
+  upcoming: ScheduledReminder[];
+  onRequestPermission: () => Promise<ReminderPermission>;
+  onClose: () => void;
+  onSave: (settings: ReminderSettings) => void;
+}
+
+const ReminderDialog: React.FC<ReminderDialogProps> = ({
+  open,
+  settings,
+  permission,
+  upcoming,
+  onRequestPermission,
+  onClose,
+  onSave
+}) => {
+  const t = useTranslation();
+  const { common, reminderDialog } = t.messages;
+  const [draft, setDraft] = React.useState<ReminderSettings>(settings);
+
+  const describeLead = (minutes: number): string =>
+    minutes === 0 ? reminderDialog.atTheTime : common.minutesBefore(minutes);
+
+  React.useEffect(() => {
+    if (open) {
+      setDraft(settings);
+    }
+  }, [open, settings]);
+
+  // Switching reminders on is what asks the browser for permission, so the prompt follows a click
+  const handleEnabled = async (enabled: boolean) => {
+    const allowed = !enabled || permission === 'granted' || await onRequestPermission() === 'granted';
+    setDraft(prev => ({ ...prev, enabled: enabled && allowed }));
+  };
+
+  const updateKind = (kind: ReminderKind, change: Partial<ReminderSetting>) =>
+    setDraft(prev => ({ ...prev, kinds: { ...prev.kinds, [kind]: { ...prev.kinds[kind], ...change } } }));
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{t.messages.app.reminders}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+            {reminderDialog.intro}
+          </Typography>
+
+          {permission === 'unsupported' && (
+            <Alert severity="info">{reminderDialog.unsupported}</Alert>
+          )}
+          {permission === 'denied' && (
+            <Alert severity="warning">{reminderDialog.denied}</Alert>
+          )}
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={draft.enabled}
+                disabled={permission === 'unsupported' || permission === 'denied'}
+                onChange={event => handleEnabled(event.target.checked)}
+              />
+            }
+            label={reminderDialog.remindMe}
+          />
+
+          {REMINDER_KINDS.map(kind => (
+            <Box key={kind} sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <FormControlLabel
+                sx={{ flex: 1 }}
+                control={
+                  <Switch
+                    size="small"
+                    checked={draft.kinds[kind].enabled}
+                    disabled={!draft.enabled}
+                    onChange={event => updateKind(kind, { enabled: event.target.checked })}
+                  />
+                }
+                label={getReminderLabel(kind, t)}
+              />
+              <FormControl size="small" sx={{ minWidth: 150 }} disabled={!draft.enabled || !draft.kinds[kind].enabled}>
+                <InputLabel id={`reminder-${kind}-label`}>{reminderDialog.when}</InputLabel>
+                <Select
+                  labelId={`reminder-${kind}-label`}
+                  label={reminderDialog.when}
+                  value={draft.kinds[kind].leadMinutes}
+                  onChange={event => updateKind(kind, { leadMinutes: Number(event.target.value) })}
+                >
+                  {LEAD_TIME_CHOICES.map(minutes => (
+                    <MenuItem key={minutes} value={minutes}>{describeLead(minutes)}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+          ))}
+
+          {settings.enabled && upcoming.length > 0 && (
+            <Box>
+              <Typography variant="subtitle2">{reminderDialog.comingUp}</Typography>
+              {upcoming.slice(0, UPCOMING_SHOWN).map(reminder => (
+                <Typography key={reminder.id} variant="body2" sx={{ color: 'text.secondary' }}>
+                  {format(reminder.time, 'EEE', { locale: t.dateLocale })} {formatTime(reminder.time, t)}
+                  {' · '}{reminder.title}: {reminder.body}
+                </Typography>
+              ))}
+            </Box>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{common.cancel}</Button>
+        <Button variant="contained" onClick={() => onSave(draft)}>{common.save}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReminderDialog;
@@ -0,0 +1,119 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography
+} from '@mui/material';
+import UploadFileRoundedIcon from '@mui/icons-material/UploadFileRounded';
+import { Schedule } from '../types';
+import { LineError } from '../utils/csv';
+import { parseScheduleCsv } from '../utils/scheduleCsv';
+import { describeParseError } from '../utils/planText';
+import { useTranslation } from '../hooks/useTranslation';
+
+const MAX_ERRORS_SHOWN = 20;
+
+interface RestoreDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onRestore: (schedule: Schedule) => void;
+}
+
+const RestoreDialog: React.FC<RestoreDialogProps> = ({ open, onClose, onRestore }) => {
+  const t = useTranslation();
+  const { common, restore } = t.messages;
+  const [fileName, setFileName] = React.useState('');
+  const [restored, setRestored] = React.useState<Schedule | null>(null);
+  const [errors, setErrors] = React.useState<LineError[]>([]);
+  const [readError, setReadError] = React.useState<string | null>(null);
+
+  const handleClose = () => {
+    setFileName('');
+    setRestored(null);
+    setErrors([]);
+    setReadError(null);
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    setFileName(file.name);
+    let content: string;
+    try {
+      content = await file.text();
+    } catch (error) {
+      setRestored(null);
+      setErrors([]);
+      setReadError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    const result = parseScheduleCsv(content);
+    setReadError(null);
+    setRestored(result.schedule ?? null);
+    setErrors(result.errors);
+  };
+
+  const handleRestore = () => {
+    if (restored) {
+      onRestore(restored);
+      handleClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="xs">
+      <DialogTitle>{restore.title}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+            {restore.intro}
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Button variant="outlined" component="label" startIcon={<UploadFileRoundedIcon />}>
+              {common.chooseFile}
+              <input hidden type="file" accept=".csv,text/csv" onChange={handleFile} />
+            </Button>
+            {fileName && <Typography variant="body2">{fileName}</Typography>}
+          </Box>
+
+          {readError && <Alert severity="error">{common.unreadableFile(fileName, readError)}</Alert>}
+
+          {errors.length > 0 && (
+            <Alert severity="error">
+              {restore.failed}
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {errors.slice(0, MAX_ERRORS_SHOWN).map(({ line, error }, index) => (
+                  <li key={index}>{common.lineError(line, describeParseError(error, t))}</li>
+                ))}
+              </Box>
+              {errors.length > MAX_ERRORS_SHOWN && common.andMore(errors.length - MAX_ERRORS_SHOWN)}
+            </Alert>
+          )}
+
+          {restored && (
+            <Alert severity="info">
+              {restore.found(restored.workDays.length, restored.daysOff.length)}
+            </Alert>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>{common.cancel}</Button>
+        <Button variant="contained" onClick={handleRestore} disabled={!restored}>
+          {restore.replace}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RestoreDialog;
@@ -0,0 +1,225 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  SelectChangeEvent,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { Schedule } from '../types';
+import {
+  applyRotation,
+  generateRotation,
+  parsePattern,
+  previewRotation,
+  ROTATION_TEMPLATES,
+  RotationDay
+} from '../utils/rotations';
+import { findPreset, getShiftType } from '../utils/shifts';
+import { describeParseError, getPresetName, getRotationTemplateName } from '../utils/planText';
+import { useTranslation } from '../hooks/useTranslation';
+
+const CUSTOM_PATTERN = 'custom';
+
+interface RotationBuilderProps {
+  open: boolean;
+  onClose: () => void;
+  schedule: Schedule;
+  setSchedule: React.Dispatch<React.SetStateAction<Schedule>>;
+}
+
+const getChipColor = (day: RotationDay): 'default' | 'primary' | 'secondary' | 'error' => {
+  if (day.conflict) return 'error';
+  if (!day.workDay) return 'default';
+  return getShiftType(day.workDay) === 'night' ? 'secondary' : 'primary';
+};
+
+const RotationBuilder: React.FC<RotationBuilderProps> = ({ open, onClose, schedule, setSchedule }) => {
+  const t = useTranslation();
+  const { common, rotation } = t.messages;
+  const [templateId, setTemplateId] = React.useState<string>(ROTATION_TEMPLATES[0].id);
+  const [pattern, setPattern] = React.useState(ROTATION_TEMPLATES[0].pattern);
+  const [start, setStart] = React.useState<Date | null>(null);
+  const [repeat, setRepeat] = React.useState<'cycles' | 'until'>('cycles');
+  const [cycles, setCycles] = React.useState('1');
+  const [end, setEnd] = React.useState<Date | null>(null);
+  const [replaceConflicts, setReplaceConflicts] = React.useState(false);
+
+  const parsed = React.useMemo(
+    () => parsePattern(pattern, schedule.shiftPresets),
+    [pattern, schedule.shiftPresets]
+  );
+
+  const isValidDate = (value: Date | null): value is Date => !!value && !isNaN(value.getTime());
+  const cycleCount = Math.max(0, Math.floor(Number(cycles)) || 0);
+
+  const preview = React.useMemo(() => {
+    if (!isValidDate(start) || parsed.errors.length > 0 || (repeat === 'until' && !isValidDate(end))) {
+      return [];
+    }
+    const generated = generateRotation({
+      start,
+      steps: parsed.steps,
+      ...(repeat === 'until' ? { end: end! } : { cycles: cycleCount })
+    }, schedule.shiftPresets);
+    return previewRotation(schedule, generated);
+  }, [start, end, repeat, cycleCount, parsed, schedule]);
+
+  const conflicts = preview.filter(day => day.conflict);
+  const shiftCount = preview.filter(day => day.workDay).length;
+
+  const handleTemplateChange = (event: SelectChangeEvent<string>) => {
+    const template = ROTATION_TEMPLATES.find(({ id }) => id === event.target.value);
+    setTemplateId(event.target.value);
+    if (template) {
+      setPattern(template.pattern);
+    }
+  };
+
+  const getPresetLabel = (presetId?: string) => {
+    const preset = findPreset(schedule.shiftPresets, presetId);
+    return preset ? getPresetName(preset, t) : common.shift;
+  };
+
+  const handleApply = () => {
+    setSchedule(prev => applyRotation(prev, previewRotation(prev, preview), replaceConflicts));
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>{rotation.title}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <FormControl>
+            <InputLabel id="rotation-template-label">{rotation.template}</InputLabel>
+            <Select
+              labelId="rotation-template-label"
+              value={templateId}
+              label={rotation.template}
+              onChange={handleTemplateChange}
+            >
+              {ROTATION_TEMPLATES.map(template => (
+                <MenuItem key={template.id} value={template.id}>{getRotationTemplateName(template, t)}</MenuItem>
+              ))}
+              <MenuItem value={CUSTOM_PATTERN}>{rotation.customPattern}</MenuItem>
+            </Select>
+          </FormControl>
+
+          <TextField
+            label={rotation.pattern}
+            value={pattern}
+            onChange={event => {
+              setPattern(event.target.value);
+              setTemplateId(CUSTOM_PATTERN);
+            }}
+            error={parsed.errors.length > 0}
+            helperText={parsed.errors.length > 0
+              ? parsed.errors.map(error => describeParseError(error, t)).join('; ')
+              : rotation.patternHelp}
+          />
+
+          <Box
+            sx={{
+              display: 'flex',
+              flexDirection: { xs: 'column', sm: 'row' },
+              gap: 2,
+              alignItems: { sm: 'center' }
+            }}
+          >
+            <DatePicker label={rotation.firstDay} value={start} onChange={setStart} sx={{ flex: 1 }} />
+            <RadioGroup
+              row
+              value={repeat}
+              onChange={event => setRepeat(event.target.value as 'cycles' | 'until')}
+            >
+              <FormControlLabel value="cycles" control={<Radio />} label={rotation.cycles} />
+              <FormControlLabel value="until" control={<Radio />} label={rotation.until} />
+            </RadioGroup>
+            {repeat === 'cycles' ? (
+              <TextField
+                label={rotation.cycleCount}
+                type="number"
+                value={cycles}
+                onChange={event => setCycles(event.target.value)}
+                slotProps={{ htmlInput: { min: 1 } }}
+                sx={{ flex: 1 }}
+              />
+            ) : (
+              <DatePicker label={rotation.lastDay} value={end} onChange={setEnd} sx={{ flex: 1 }} />
+            )}
+          </Box>
+
+          {preview.length > 0 && (
+            <Box>
+              <Typography variant="subtitle2" sx={{ color: 'text.secondary', mb: 1 }}>
+                {rotation.preview(shiftCount, preview.length)}
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.75 }}>
+                {preview.map(day => (
+                  <Tooltip
+                    key={day.date.getTime()}
+                    title={day.conflict === 'differentShift'
+                      ? rotation.differentShift
+                      : day.conflict === 'dayOff'
+                        ? rotation.dayOff
+                        : ''}
+                  >
+                    <Chip
+                      size="small"
+                      color={getChipColor(day)}
+                      variant={day.workDay ? 'filled' : 'outlined'}
+                      label={`${t.formatDate(day.date, 'short')} · ${day.workDay
+                        ? getPresetLabel(day.workDay.presetId)
+                        : common.off}`}
+                    />
+                  </Tooltip>
+                ))}
+              </Box>
+            </Box>
+          )}
+
+          {conflicts.length > 0 && (
+            <Alert severity="warning">
+              {rotation.conflicts(conflicts.length, conflicts.map(day => t.formatDate(day.date, 'dayMonth')).join(', '))}
+              <FormControlLabel
+                sx={{ display: 'block', mt: 1 }}
+                control={
+                  <Checkbox
+                    checked={replaceConflicts}
+                    onChange={event => setReplaceConflicts(event.target.checked)}
+                  />
+                }
+                label={rotation.replaceConflicts}
+              />
+            </Alert>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{common.cancel}</Button>
+        <Button variant="contained" onClick={handleApply} disabled={shiftCount === 0}>
+          {rotation.addShifts(shiftCount)}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RotationBuilder;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { 
+  Autocomplete,
   Box, 
   Typography, 
   Button, 
@@ -7,115 +8,161 @@ import {
   MenuItem, 
   FormControl, 
   InputLabel,
+  TextField,
+  Chip,
+  ToggleButton,
+  ToggleButtonGroup,
   alpha,
   SelectChangeEvent
 } from '@mui/material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
-import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
-import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { TimePicker } from '@mui/x-date-pickers/TimePicker';
 import AddRoundedIcon from '@mui/icons-material/AddRounded';
-import { addDays, isSameDay } from 'date-fns';
+import BookmarkAddRoundedIcon from '@mui/icons-material/BookmarkAddRounded';
+import AutorenewRoundedIcon from '@mui/icons-material/AutorenewRounded';
+import FileUploadRoundedIcon from '@mui/icons-material/FileUploadRounded';
+import { DEFAULT_SHIFT_PRESETS, Schedule, ShiftTimes } from '../types';
+import { createPresetId, dateToMinutes, findPreset, minutesToDate } from '../utils/shifts';
+import { addSecondJobDay, addWorkDay, changeTimeZone } from '../utils/scheduleEdits';
+import { getPresetName } from '../utils/planText';
+import { listTimeZones } from '../utils/timeZones';
+import { useTranslation } from '../hooks/useTranslation';
+import RotationBuilder from './RotationBuilder';
+import ImportDialog from './ImportDialog';
+
+const CUSTOM_SHIFT = 'custom';
 
 interface ScheduleFormProps {
-  schedule: {
-    workDays: Array<{ date: Date; shiftType: 'day' | 'night' }>;
-    recoveryDays: Date[];
-    productiveDays: Date[];
-    secondJobDays: Date[];
-    preparationDays: Date[];
-  };
-  setSchedule: React.Dispatch<React.SetStateAction<{
-    workDays: Array<{ date: Date; shiftType: 'day' | 'night' }>;
-    recoveryDays: Date[];
-    productiveDays: Date[];
-    secondJobDays: Date[];
-    preparationDays: Date[];
-  }>>;
+  schedule: Schedule;
+  setSchedule: React.Dispatch<React.SetStateAction<Schedule>>;
 }
 
 const ScheduleForm: React.FC<ScheduleFormProps> = ({ schedule, setSchedule }) => {
+  const t = useTranslation();
+  const { common, scheduleForm } = t.messages;
   const [selectedDate, setSelectedDate] = React.useState<Date | null>(null);
-  const [shiftType, setShiftType] = React.useState<'day' | 'night'>('day');
+  const [presetId, setPresetId] = React.useState<string>(DEFAULT_SHIFT_PRESETS[0].id);
+  const [customStart, setCustomStart] = React.useState<Date | null>(minutesToDate(7 * 60));
+  const [customEnd, setCustomEnd] = React.useState<Date | null>(minutesToDate(19 * 60));
+  const [presetName, setPresetName] = React.useState('');
+  const [rotationOpen, setRotationOpen] = React.useState(false);
+  const [importOpen, setImportOpen] = React.useState(false);
+  const [job, setJob] = React.useState<'main' | 'secondJob'>('main');
+
+  const timeZones = React.useMemo(() => listTimeZones(schedule.timeZone), [schedule.timeZone]);
+
+  const selectedPreset = findPreset(schedule.shiftPresets, presetId);
+  const customPresets = schedule.shiftPresets.filter(preset => !findPreset(DEFAULT_SHIFT_PRESETS, preset.id));
+
+  const selectedTimes: ShiftTimes | null = selectedPreset
+    ? { start: selectedPreset.start, end: selectedPreset.end }
+    : customStart && customEnd && !isNaN(customStart.getTime()) && !isNaN(customEnd.getTime())
+      ? { start: dateToMinutes(customStart), end: dateToMinutes(customEnd) }
+      : null;
 
   const handleDateChange = (date: Date | null) => {
     setSelectedDate(date);
   };
 
-  const handleShiftTypeChange = (event: SelectChangeEvent<'day' | 'night'>) => {
-    setShiftType(event.target.value as 'day' | 'night');
+  const handlePresetChange = (event: SelectChangeEvent<string>) => {
+    setPresetId(event.target.value);
+  };
+
+  const handleSavePreset = () => {
+    if (!selectedTimes || !presetName.trim()) {
+      return;
+    }
+    const id = createPresetId(presetName, schedule.shiftPresets);
+    setSchedule(prev => ({
+      ...prev,
+      shiftPresets: [...prev.shiftPresets, { id, name: presetName.trim(), ...selectedTimes }]
+    }));
+    setPresetId(id);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setSchedule(prev => ({
+      ...prev,
+      shiftPresets: prev.shiftPresets.filter(preset => preset.id !== id)
+    }));
+    if (presetId === id) {
+      setPresetId(DEFAULT_SHIFT_PRESETS[0].id);
+    }
   };
 
   const handleAddWorkDay = () => {
-    if (selectedDate) {
-      setSchedule(prev => {
-        // Check if this work day already exists
-        const workDayExists = prev.workDays.some(wd => isSameDay(wd.date, selectedDate));
-        if (workDayExists) {
-          return prev; // Don't make any changes if the work day already exists
-        }
-
-        const newWorkDay = { date: selectedDate, shiftType };
-        const recoveryDay = addDays(selectedDate, 1);
-        const preparationDay = addDays(selectedDate, -1);
-        const choreDay = addDays(selectedDate, -2);
-
-        // Helper function to check if a date has any type of schedule
-        const hasAnySchedule = (date: Date) => {
-          return prev.workDays.some(wd => isSameDay(wd.date, date)) ||
-                 prev.recoveryDays.some(d => isSameDay(d, date)) ||
-                 prev.preparationDays.some(d => isSameDay(d, date)) ||
-                 prev.productiveDays.some(d => isSameDay(d, date)) ||
-                 prev.secondJobDays.some(d => isSameDay(d, date));
-        };
-
-        // Remove any existing days that conflict with the new work day
-        const filteredRecoveryDays = prev.recoveryDays.filter(d => !isSameDay(d, selectedDate));
-        const filteredPreparationDays = prev.preparationDays.filter(d => !isSameDay(d, selectedDate));
-        const filteredProductiveDays = prev.productiveDays.filter(d => !isSameDay(d, selectedDate));
-        const filteredSecondJobDays = prev.secondJobDays.filter(d => !isSameDay(d, selectedDate));
-
-        // Only add auxiliary days if they don't have any schedule yet
-        const newRecoveryDays = [
-          ...filteredRecoveryDays,
-          ...(!hasAnySchedule(recoveryDay) ? [recoveryDay] : [])
-        ];
-        
-        const newPreparationDays = [
-          ...filteredPreparationDays,
-          ...(!hasAnySchedule(preparationDay) ? [preparationDay] : [])
-        ];
-        
-        const newProductiveDays = [
-          ...filteredProductiveDays,
-          ...(!hasAnySchedule(choreDay) ? [choreDay] : [])
-        ];
-
-        return {
-          ...prev,
-          workDays: [...prev.workDays, newWorkDay],
-          recoveryDays: newRecoveryDays,
-          preparationDays: newPreparationDays,
-          productiveDays: newProductiveDays,
-          secondJobDays: filteredSecondJobDays
-        };
-      });
+    if (selectedDate && selectedTimes) {
+      setSchedule(prev => job === 'secondJob'
+        ? addSecondJobDay(prev, { date: selectedDate, ...selectedTimes })
+        : addWorkDay(prev, {
+          date: selectedDate,
+          ...selectedTimes,
+          presetId: selectedPreset?.id
+        }));
       setSelectedDate(null);
     }
   };
 
   return (
     <Box>
-      <Typography 
-        variant="h5" 
-        component="h2" 
-        sx={{ 
-          mb: 3,
-          color: 'primary.main',
-          fontWeight: 500
-        }}
-      >
-        Add Work Days
-      </Typography>
+      <Box sx={{ 
+        display: 'flex', 
+        justifyContent: 'space-between', 
+        alignItems: 'center',
+        mb: 3
+      }}>
+        <Typography 
+          variant="h5" 
+          component="h2" 
+          sx={{ 
+            color: 'primary.main',
+            fontWeight: 500
+          }}
+        >
+          {scheduleForm.title}
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="text"
+            onClick={() => setImportOpen(true)}
+            startIcon={<FileUploadRoundedIcon />}
+          >
+            {scheduleForm.import}
+          </Button>
+          <Button
+            variant="text"
+            onClick={() => setRotationOpen(true)}
+            startIcon={<AutorenewRoundedIcon />}
+          >
+            {scheduleForm.addRotation}
+          </Button>
+        </Box>
+      </Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-start', gap: 2, mb: 2 }}>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          color="primary"
+          value={job}
+          onChange={(_, value) => value && setJob(value)}
+        >
+          <ToggleButton value="main">{scheduleForm.mainJob}</ToggleButton>
+          <ToggleButton value="secondJob">{scheduleForm.secondJob}</ToggleButton>
+        </ToggleButtonGroup>
+        <Autocomplete
+          disableClearable
+          size="small"
+          options={timeZones}
+          value={schedule.timeZone}
+          onChange={(_, timeZone) => setSchedule(prev => changeTimeZone(prev, timeZone))}
+          getOptionLabel={timeZone => timeZone.replace(/_/g, ' ')}
+          renderInput={params => (
+            <TextField {...params} label={scheduleForm.timeZone} helperText={scheduleForm.timeZoneHelp} />
+          )}
+          sx={{ ml: { sm: 'auto' }, width: { xs: '100%', sm: 320 } }}
+        />
+      </Box>
       <Box 
         sx={{ 
           display: 'flex', 
@@ -134,39 +181,39 @@ const ScheduleForm: React.FC<ScheduleFormProps> = ({ schedule, setSchedule }) =>
           }
         }}
       >
-        <LocalizationProvider dateAdapter={AdapterDateFns}>
-          <DatePicker
-            label="Select Work Date"
-            value={selectedDate}
-            onChange={handleDateChange}
-            sx={{ 
-              flex: 2,
-              '& .MuiInputLabel-root': {
-                color: 'text.secondary'
-              }
-            }}
-          />
-        </LocalizationProvider>
+        <DatePicker
+          label={scheduleForm.workDate}
+          value={selectedDate}
+          onChange={handleDateChange}
+          sx={{ 
+            flex: 2,
+            '& .MuiInputLabel-root': {
+              color: 'text.secondary'
+            }
+          }}
+        />
 
         <FormControl sx={{ flex: 1 }}>
           <InputLabel id="shift-type-label" sx={{ color: 'text.secondary' }}>
-            Shift Type
+            {common.shift}
           </InputLabel>
           <Select
             labelId="shift-type-label"
-            value={shiftType}
-            label="Shift Type"
-            onChange={handleShiftTypeChange}
+            value={presetId}
+            label={common.shift}
+            onChange={handlePresetChange}
           >
-            <MenuItem value="day">Day Shift</MenuItem>
-            <MenuItem value="night">Night Shift</MenuItem>
+            {schedule.shiftPresets.map(preset => (
+              <MenuItem key={preset.id} value={preset.id}>{getPresetName(preset, t)}</MenuItem>
+            ))}
+            <MenuItem value={CUSTOM_SHIFT}>{common.customTimes}</MenuItem>
           </Select>
         </FormControl>
 
         <Button
           variant="contained"
           onClick={handleAddWorkDay}
-          disabled={!selectedDate}
+          disabled={!selectedDate || !selectedTimes}
           startIcon={<AddRoundedIcon />}
           sx={{
             flex: { xs: '1', sm: 'none' },
@@ -183,9 +230,77 @@ const ScheduleForm: React.FC<ScheduleFormProps> = ({ schedule, setSchedule }) =>
             }
           }}
         >
-          Add Work Day
+          {job === 'secondJob' ? scheduleForm.addSecondJobShift : scheduleForm.addWorkDay}
         </Button>
       </Box>
+
+      {presetId === CUSTOM_SHIFT && (
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            gap: 2,
+            mt: 2
+          }}
+        >
+          <TimePicker
+            label={common.shiftStart}
+            value={customStart}
+            onChange={setCustomStart}
+            ampm={t.clock === '12h'}
+            sx={{ flex: 1 }}
+          />
+          <TimePicker
+            label={common.shiftEnd}
+            value={customEnd}
+            onChange={setCustomEnd}
+            ampm={t.clock === '12h'}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            label={scheduleForm.presetName}
+            value={presetName}
+            onChange={event => setPresetName(event.target.value)}
+            sx={{ flex: 1 }}
+          />
+          <Button
+            variant="outlined"
+            onClick={handleSavePreset}
+            disabled={!selectedTimes || !presetName.trim()}
+            startIcon={<BookmarkAddRoundedIcon />}
+            sx={{ borderWidth: 2, '&:hover': { borderWidth: 2 } }}
+          >
+            {scheduleForm.savePreset}
+          </Button>
+        </Box>
+      )}
+
+      {customPresets.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 2 }}>
+          {customPresets.map(preset => (
+            <Chip
+              key={preset.id}
+              label={preset.name}
+              color="primary"
+              variant="outlined"
+              onDelete={() => handleDeletePreset(preset.id)}
+            />
+          ))}
+        </Box>
+      )}
+
+      <RotationBuilder
+        open={rotationOpen}
+        onClose={() => setRotationOpen(false)}
+        schedule={schedule}
+        setSchedule={setSchedule}
+      />
+      <ImportDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        schedule={schedule}
+        setSchedule={setSchedule}
+      />
     </Box>
   );
 };
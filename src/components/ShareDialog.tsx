@@ -0,0 +1,134 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  InputAdornment,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import ContentCopyRoundedIcon from '@mui/icons-material/ContentCopyRounded';
+import { Schedule } from '../types';
+import { buildShareUrl } from '../utils/shareLink';
+import { encodeQrCode } from '../utils/qrCode';
+import { useTranslation } from '../hooks/useTranslation';
+
+// Scanners need a light border around the code, four modules wide
+const QUIET_ZONE = 4;
+
+interface ShareDialogProps {
+  open: boolean;
+  schedule: Schedule;
+  onClose: () => void;
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ open, schedule, onClose }) => {
+  const t = useTranslation();
+  const { share } = t.messages;
+  const [copied, setCopied] = React.useState(false);
+  const [copyFailed, setCopyFailed] = React.useState(false);
+  const [showQrCode, setShowQrCode] = React.useState(false);
+
+  const url = React.useMemo(() => buildShareUrl(schedule, window.location), [schedule]);
+  const qrCode = React.useMemo(() => (showQrCode ? encodeQrCode(url) : null), [showQrCode, url]);
+
+  React.useEffect(() => {
+    if (!open) {
+      setCopied(false);
+      setCopyFailed(false);
+    }
+  }, [open]);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(url)
+      .then(() => setCopied(true))
+      .catch(() => setCopyFailed(true));
+  };
+
+  const handleShare = () => {
+    navigator.share({ title: share.shareTitle, url }).catch(() => undefined);
+  };
+
+  const canShare = typeof navigator.share === 'function';
+  const size = qrCode ? qrCode.length + QUIET_ZONE * 2 : 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>{share.title}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" sx={{ color: 'text.secondary', mb: 2 }}>
+          {share.intro}
+        </Typography>
+        <TextField
+          fullWidth
+          size="small"
+          label={share.link}
+          value={url}
+          onFocus={event => event.target.select()}
+          slotProps={{
+            input: {
+              readOnly: true,
+              endAdornment: (
+                <InputAdornment position="end">
+                  <Tooltip title={copied ? share.copied : share.copy}>
+                    <IconButton edge="end" onClick={handleCopy}>
+                      <ContentCopyRoundedIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        {copyFailed && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {share.copyFailed}
+          </Alert>
+        )}
+        <FormControlLabel
+          sx={{ mt: 1 }}
+          control={<Switch checked={showQrCode} onChange={event => setShowQrCode(event.target.checked)} />}
+          label={share.showQrCode}
+        />
+        {showQrCode && (qrCode ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', mt: 1 }}>
+            <svg
+              viewBox={`0 0 ${size} ${size}`}
+              width={Math.min(320, size * 6)}
+              height={Math.min(320, size * 6)}
+              shapeRendering="crispEdges"
+              role="img"
+              aria-label={share.qrCode}
+            >
+              <rect width={size} height={size} fill="#ffffff" />
+              <path
+                fill="#000000"
+                d={qrCode.flatMap((row, y) => row.map((dark, x) => (
+                  dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : ''
+                ))).join('')}
+              />
+            </svg>
+          </Box>
+        ) : (
+          <Alert severity="info" sx={{ mt: 1 }}>
+            {share.tooLong}
+          </Alert>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        {canShare && <Button onClick={handleShare}>{share.shareVia}</Button>}
+        <Button onClick={onClose}>{t.messages.common.close}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
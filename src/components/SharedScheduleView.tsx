@@ -0,0 +1,54 @@
+import React from 'react';
+import { Alert, Box, Button, Paper, Typography } from '@mui/material';
+import { Schedule } from '../types';
+import { buildSleepPlan, getPlanConfig } from '../utils/sleepPlan';
+import SleepRecommendation from './SleepRecommendation';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface SharedScheduleViewProps {
+  schedule: Schedule;
+  onImport: () => void;
+  onClose: () => void;
+}
+
+const ignoreEdits = () => undefined;
+
+const SharedScheduleView: React.FC<SharedScheduleViewProps> = ({ schedule, onImport, onClose }) => {
+  const t = useTranslation();
+  const { sharedView } = t.messages;
+  const plans = React.useMemo(
+    () => buildSleepPlan(schedule, getPlanConfig(schedule.profile)),
+    [schedule]
+  );
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 4,
+        background: 'linear-gradient(135deg, #ffffff 0%, #fdf7ff 100%)',
+        border: '1px solid',
+        borderColor: 'primary.light',
+        boxShadow: '0 4px 20px rgba(156, 39, 176, 0.08)'
+      }}
+    >
+      <Typography variant="h5" component="h2" sx={{ color: 'primary.main', fontWeight: 500, mb: 2 }}>
+        {sharedView.title}
+      </Typography>
+      <Alert severity="info" sx={{ mb: 2 }}>
+        {sharedView.intro}
+      </Alert>
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 3 }}>
+        <Button variant="contained" onClick={onImport}>
+          {sharedView.replace}
+        </Button>
+        <Button variant="outlined" onClick={onClose}>
+          {t.messages.common.close}
+        </Button>
+      </Box>
+      <SleepRecommendation plans={plans} schedule={schedule} setSchedule={ignoreEdits} readOnly />
+    </Paper>
+  );
+};
+
+export default SharedScheduleView;
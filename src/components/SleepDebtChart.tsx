@@ -0,0 +1,80 @@
+import React from 'react';
+import { Alert, Box, Tooltip, Typography } from '@mui/material';
+import { DEBT_THRESHOLD_MINUTES, DEBT_WINDOW_DAYS, DayDebt, getCurrentDebt } from '../utils/sleepDebt';
+import { formatDuration } from '../utils/planText';
+import { useTranslation } from '../hooks/useTranslation';
+
+const CHART_HEIGHT = 96;
+const MAX_CHART_MINUTES = 12 * 60;
+const MAX_DAYS_SHOWN = 14;
+
+interface SleepDebtChartProps {
+  debts: DayDebt[];
+}
+
+const SleepDebtChart: React.FC<SleepDebtChartProps> = ({ debts }) => {
+  const t = useTranslation();
+  const { sleepDebt } = t.messages;
+  const logged = debts.filter(day => day.actualMinutes !== undefined).slice(-MAX_DAYS_SHOWN);
+  const current = getCurrentDebt(debts);
+
+  if (!current) {
+    return null;
+  }
+
+  const barHeight = (minutes: number) => `${(Math.min(minutes, MAX_CHART_MINUTES) / MAX_CHART_MINUTES) * CHART_HEIGHT}px`;
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Alert severity={current.debtMinutes >= DEBT_THRESHOLD_MINUTES ? 'warning' : 'success'} sx={{ mb: 2 }}>
+        {current.debtMinutes > 0
+          ? sleepDebt.debt(formatDuration(current.debtMinutes, t), DEBT_WINDOW_DAYS)
+          : sleepDebt.none(DEBT_WINDOW_DAYS)}
+        {current.debtMinutes >= DEBT_THRESHOLD_MINUTES && sleepDebt.catchUp}
+      </Alert>
+      <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: 1.5, overflowX: 'auto', pb: 0.5 }}>
+        {logged.map(day => (
+          <Tooltip
+            key={day.date.getTime()}
+            title={sleepDebt.day(
+              formatDuration(day.plannedMinutes, t),
+              formatDuration(day.actualMinutes!, t),
+              day.quality!
+            )}
+          >
+            <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', minWidth: 36 }}>
+              <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: 0.5, height: CHART_HEIGHT }}>
+                <Box sx={{ width: 10, height: barHeight(day.plannedMinutes), bgcolor: 'primary.light', borderRadius: 1 }} />
+                <Box
+                  sx={{
+                    width: 10,
+                    height: barHeight(day.actualMinutes!),
+                    bgcolor: day.actualMinutes! < day.plannedMinutes ? 'secondary.main' : 'primary.main',
+                    borderRadius: 1
+                  }}
+                />
+              </Box>
+              <Typography variant="caption" sx={{ color: 'text.secondary' }}>{t.formatDate(day.date, 'dayMonth')}</Typography>
+            </Box>
+          </Tooltip>
+        ))}
+        <Box sx={{ ml: 'auto', display: 'flex', flexDirection: 'column', gap: 0.5, alignSelf: 'flex-start' }}>
+          <Typography variant="caption" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <Box component="span" sx={{ width: 10, height: 10, bgcolor: 'primary.light', borderRadius: 0.5 }} />
+            {sleepDebt.planned}
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <Box component="span" sx={{ width: 10, height: 10, bgcolor: 'primary.main', borderRadius: 0.5 }} />
+            {sleepDebt.actual}
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <Box component="span" sx={{ width: 10, height: 10, bgcolor: 'secondary.main', borderRadius: 0.5 }} />
+            {sleepDebt.short}
+          </Typography>
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default SleepDebtChart;
@@ -0,0 +1,208 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Typography
+} from '@mui/material';
+import UploadFileRoundedIcon from '@mui/icons-material/UploadFileRounded';
+import { Schedule } from '../types';
+import { DayPlan } from '../utils/sleepPlan';
+import { describeParseError, formatHours, formatWindow } from '../utils/planText';
+import {
+  applySleepImport,
+  detectSleepFileFormat,
+  matchSleepSessions,
+  parseSleepFile,
+  SleepFileFormat,
+  SleepImportEntry,
+  SleepImportStatus
+} from '../utils/sleepImport';
+import { Translator } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+const MAX_ERRORS_SHOWN = 20;
+
+const STATUS_COLORS: Record<SleepImportStatus, 'success' | 'warning' | 'default' | 'info'> = {
+  added: 'success',
+  changed: 'warning',
+  unchanged: 'default',
+  nap: 'info',
+  unmatched: 'default',
+};
+
+interface SleepImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  plans: DayPlan[];
+  schedule: Schedule;
+  setSchedule: React.Dispatch<React.SetStateAction<Schedule>>;
+}
+
+const describeEntry = (entry: SleepImportEntry, t: Translator): string => {
+  const { sleepImport } = t.messages;
+  const slept = `${formatWindow(entry.session, t)} (${formatHours(entry.session, t)})`;
+  switch (entry.status) {
+    case 'changed':
+      return entry.existing ? sleepImport.was(slept, formatWindow(entry.existing, t)) : slept;
+    case 'nap':
+      return sleepImport.nap(slept);
+    case 'unmatched':
+      return sleepImport.unmatched(slept);
+    default:
+      return slept;
+  }
+};
+
+const SleepImportDialog: React.FC<SleepImportDialogProps> = ({ open, onClose, plans, schedule, setSchedule }) => {
+  const t = useTranslation();
+  const { common, sleepImport } = t.messages;
+  const [fileName, setFileName] = React.useState('');
+  const [text, setText] = React.useState('');
+  const [readError, setReadError] = React.useState<string | null>(null);
+  const [fileFormat, setFileFormat] = React.useState<SleepFileFormat | null>(null);
+
+  const result = React.useMemo(
+    () => fileFormat ? parseSleepFile(text, fileFormat) : { sessions: [], errors: [] },
+    [fileFormat, text]
+  );
+  const entries = React.useMemo(
+    () => matchSleepSessions(result.sessions, plans, schedule.sleepLog),
+    [result.sessions, plans, schedule.sleepLog]
+  );
+  const applicable = entries.filter(entry => entry.status === 'added' || entry.status === 'changed');
+  const count = (status: SleepImportStatus) => entries.filter(entry => entry.status === status).length;
+  // JSON exports have no meaningful line numbers, so errors point at the entry instead
+  const describeError = fileFormat === 'fitbit' ? sleepImport.entryError : common.lineError;
+
+  const reset = () => {
+    setFileName('');
+    setReadError(null);
+    setText('');
+    setFileFormat(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    let content: string;
+    try {
+      content = await file.text();
+    } catch (error) {
+      reset();
+      setFileName(file.name);
+      setReadError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    setReadError(null);
+    setFileName(file.name);
+    setText(content);
+    setFileFormat(detectSleepFileFormat(file.name, content));
+  };
+
+  const handleApply = () => {
+    setSchedule(prev => applySleepImport(prev, matchSleepSessions(result.sessions, plans, prev.sleepLog)));
+    handleClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="sm">
+      <DialogTitle>{sleepImport.title}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+            {sleepImport.intro}
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Button variant="outlined" component="label" startIcon={<UploadFileRoundedIcon />}>
+              {common.chooseFile}
+              <input
+                hidden
+                type="file"
+                accept=".xml,.json,.csv,text/xml,application/json,text/csv"
+                onChange={handleFile}
+              />
+            </Button>
+            {fileName && fileFormat && (
+              <Typography variant="body2">{fileName} · {sleepImport.formats[fileFormat]}</Typography>
+            )}
+          </Box>
+
+          {readError && <Alert severity="error">{common.unreadableFile(fileName, readError)}</Alert>}
+
+          {result.errors.length > 0 && (
+            <Alert severity="error">
+              {sleepImport.unreadable(result.errors.length)}
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {result.errors.slice(0, MAX_ERRORS_SHOWN).map(({ line, error }, index) => (
+                  <li key={index}>{describeError(line, describeParseError(error, t))}</li>
+                ))}
+              </Box>
+              {result.errors.length > MAX_ERRORS_SHOWN &&
+                common.andMore(result.errors.length - MAX_ERRORS_SHOWN)}
+            </Alert>
+          )}
+
+          {fileFormat && result.errors.length === 0 && entries.length === 0 && (
+            <Alert severity="info">{sleepImport.noSleep}</Alert>
+          )}
+
+          {entries.length > 0 && (
+            <Box>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+                {(Object.keys(STATUS_COLORS) as SleepImportStatus[]).map(status => (
+                  <Chip
+                    key={status}
+                    size="small"
+                    color={STATUS_COLORS[status]}
+                    variant="outlined"
+                    label={`${sleepImport.statuses[status]}: ${count(status)}`}
+                  />
+                ))}
+              </Box>
+              <List dense sx={{ maxHeight: 320, overflow: 'auto' }}>
+                {entries.map(entry => (
+                  <ListItem
+                    key={`${entry.session.line}-${entry.session.start.getTime()}`}
+                    secondaryAction={
+                      <Chip size="small" color={STATUS_COLORS[entry.status]} label={sleepImport.statuses[entry.status]} />
+                    }
+                  >
+                    <ListItemText
+                      primary={t.formatDate(entry.entry?.date ?? entry.session.start, 'medium')}
+                      secondary={describeEntry(entry, t)}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </Box>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>{common.cancel}</Button>
+        <Button variant="contained" onClick={handleApply} disabled={applicable.length === 0}>
+          {sleepImport.logSleep(applicable.length)}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SleepImportDialog;
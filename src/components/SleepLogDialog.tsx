@@ -0,0 +1,111 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Rating,
+  Typography
+} from '@mui/material';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import { differenceInMinutes } from 'date-fns';
+import { SleepLogEntry, SleepQuality } from '../types';
+import { DayPlan } from '../utils/sleepPlan';
+import { formatDuration, formatHours, formatWindow } from '../utils/planText';
+import { useTranslation } from '../hooks/useTranslation';
+
+const MAX_SLEEP_MINUTES = 24 * 60;
+
+interface SleepLogDialogProps {
+  plan: DayPlan | null;
+  entry?: SleepLogEntry;
+  onClose: () => void;
+  onSave: (entry: SleepLogEntry) => void;
+  onDelete: (date: Date) => void;
+}
+
+const SleepLogDialog: React.FC<SleepLogDialogProps> = ({ plan, entry, onClose, onSave, onDelete }) => {
+  const t = useTranslation();
+  const { common, sleepLog } = t.messages;
+  const [start, setStart] = React.useState<Date | null>(null);
+  const [end, setEnd] = React.useState<Date | null>(null);
+  const [quality, setQuality] = React.useState<SleepQuality>(3);
+
+  // Start from what was logged before, or from the planned window
+  React.useEffect(() => {
+    if (plan) {
+      setStart(entry?.start ?? plan.sleep.start);
+      setEnd(entry?.end ?? plan.sleep.end);
+      setQuality(entry?.quality ?? 3);
+    }
+  }, [plan, entry]);
+
+  const isValidTime = (value: Date | null): value is Date => !!value && !isNaN(value.getTime());
+  const minutes = isValidTime(start) && isValidTime(end) ? differenceInMinutes(end, start) : NaN;
+  const error = !isNaN(minutes) && (minutes <= 0 || minutes > MAX_SLEEP_MINUTES)
+    ? sleepLog.invalidRange
+    : undefined;
+
+  const handleSave = () => {
+    if (plan && isValidTime(start) && isValidTime(end) && !error) {
+      onSave({ date: plan.date, start, end, quality });
+    }
+  };
+
+  return (
+    <Dialog open={!!plan} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>
+        {plan ? sleepLog.titleFor(t.formatDate(plan.date, 'long')) : sleepLog.title}
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          {plan && (
+            <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+              {sleepLog.planned(formatWindow(plan.sleep, t), formatHours(plan.sleep, t))}
+            </Typography>
+          )}
+          <DateTimePicker label={sleepLog.fellAsleep} value={start} onChange={setStart} ampm={t.clock === '12h'} />
+          <DateTimePicker
+            label={sleepLog.wokeUp}
+            value={end}
+            onChange={setEnd}
+            ampm={t.clock === '12h'}
+            slotProps={{ textField: { error: !!error, helperText: error } }}
+          />
+          {!error && !isNaN(minutes) && (
+            <Typography variant="body2">{sleepLog.slept(formatDuration(minutes, t))}</Typography>
+          )}
+          <Box>
+            <Typography variant="subtitle2">{sleepLog.quality}</Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Rating
+                value={quality}
+                onChange={(_, value) => value && setQuality(value as SleepQuality)}
+              />
+              <Typography variant="body2" sx={{ color: 'text.secondary' }}>{sleepLog.qualities[quality]}</Typography>
+            </Box>
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        {entry && plan && (
+          <Button color="error" onClick={() => onDelete(plan.date)} sx={{ mr: 'auto' }}>
+            {common.delete}
+          </Button>
+        )}
+        <Button onClick={onClose}>{common.cancel}</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!isValidTime(start) || !isValidTime(end) || !!error}
+        >
+          {common.save}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SleepLogDialog;
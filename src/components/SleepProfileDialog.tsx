@@ -0,0 +1,277 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import { TimePicker } from '@mui/x-date-pickers/TimePicker';
+import AddRoundedIcon from '@mui/icons-material/AddRounded';
+import { Chronotype, FixedCommitment, Schedule, SleepProfile } from '../types';
+import { buildSleepPlan, DEFAULT_PLAN_CONFIG } from '../utils/sleepPlan';
+import { createCommitmentId, isValidCommitment } from '../utils/profile';
+import { dateToMinutes, minutesToDate } from '../utils/shifts';
+import { formatShiftTimes, formatWeekday } from '../utils/planText';
+import { Translator } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+const SLEEP_HOUR_CHOICES = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+const CAFFEINE_CUTOFF_CHOICES = [3, 4, 5, 6, 7, 8, 10];
+const MEAL_BUFFER_CHOICES = [1, 1.5, 2, 2.5, 3, 4];
+const NIGHT_MEAL_WINDOW = DEFAULT_PLAN_CONFIG.nightMealWindow!;
+const MAX_COMMUTE_MINUTES = 4 * 60;
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const CHRONOTYPES: Chronotype[] = ['morning', 'intermediate', 'evening'];
+
+const describeCommitment = (commitment: FixedCommitment, t: Translator): string =>
+  `${commitment.name} · ${commitment.weekdays.map(day => formatWeekday(day, 'EEE', t)).join(', ')} ` +
+  formatShiftTimes(commitment, t);
+
+interface SleepProfileDialogProps {
+  open: boolean;
+  schedule: Schedule;
+  onClose: () => void;
+  onSave: (profile: SleepProfile) => void;
+}
+
+const SleepProfileDialog: React.FC<SleepProfileDialogProps> = ({ open, schedule, onClose, onSave }) => {
+  const t = useTranslation();
+  const { common } = t.messages;
+  const messages = t.messages.profile;
+  const [profile, setProfile] = React.useState<SleepProfile>(schedule.profile);
+  const [name, setName] = React.useState('');
+  const [start, setStart] = React.useState<Date | null>(minutesToDate(15 * 60));
+  const [end, setEnd] = React.useState<Date | null>(minutesToDate(15 * 60 + 30));
+  const [weekdays, setWeekdays] = React.useState<number[]>([1, 2, 3, 4, 5]);
+
+  React.useEffect(() => {
+    if (open) {
+      setProfile(schedule.profile);
+    }
+  }, [open, schedule.profile]);
+
+  // Preview the draft against the current schedule so impossible targets show up before saving
+  const shortDays = React.useMemo(
+    () => open ? buildSleepPlan({ ...schedule, profile }).filter(plan => plan.sleepLimit) : [],
+    [open, schedule, profile]
+  );
+
+  const isValidTime = (value: Date | null): value is Date => !!value && !isNaN(value.getTime());
+
+  const setCommute = (field: 'commuteToWork' | 'commuteFromWork') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const minutes = Math.round(Number(event.target.value));
+    setProfile(prev => ({
+      ...prev,
+      [field]: Number.isFinite(minutes) ? Math.min(MAX_COMMUTE_MINUTES, Math.max(0, minutes)) : 0
+    }));
+  };
+
+  const draft: FixedCommitment | null = isValidTime(start) && isValidTime(end)
+    ? {
+      id: createCommitmentId(name, profile.commitments),
+      name: name.trim(),
+      start: dateToMinutes(start),
+      end: dateToMinutes(end),
+      weekdays: [...weekdays].sort((a, b) => a - b)
+    }
+    : null;
+
+  const handleAddCommitment = () => {
+    if (draft && isValidCommitment(draft)) {
+      setProfile(prev => ({ ...prev, commitments: [...prev.commitments, draft] }));
+      setName('');
+    }
+  };
+
+  const handleDeleteCommitment = (id: string) => {
+    setProfile(prev => ({ ...prev, commitments: prev.commitments.filter(commitment => commitment.id !== id) }));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{messages.title}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2.5, pt: 1 }}>
+          <FormControl>
+            <InputLabel id="sleep-need-label">{messages.sleepNeed}</InputLabel>
+            <Select
+              labelId="sleep-need-label"
+              label={messages.sleepNeed}
+              value={profile.sleepHours}
+              onChange={event => setProfile(prev => ({ ...prev, sleepHours: Number(event.target.value) }))}
+            >
+              {SLEEP_HOUR_CHOICES.map(hours => (
+                <MenuItem key={hours} value={hours}>{messages.hoursANight(t.formatNumber(hours))}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl>
+            <InputLabel id="caffeine-cutoff-label">{messages.caffeineCutoff}</InputLabel>
+            <Select
+              labelId="caffeine-cutoff-label"
+              label={messages.caffeineCutoff}
+              value={profile.caffeineCutoffHours}
+              onChange={event => setProfile(prev => ({ ...prev, caffeineCutoffHours: Number(event.target.value) }))}
+            >
+              {CAFFEINE_CUTOFF_CHOICES.map(hours => (
+                <MenuItem key={hours} value={hours}>{messages.hoursBeforeSleep(t.formatNumber(hours))}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl>
+            <InputLabel id="meal-buffer-label">{messages.lastMeal}</InputLabel>
+            <Select
+              labelId="meal-buffer-label"
+              label={messages.lastMeal}
+              value={profile.mealBufferHours}
+              onChange={event => setProfile(prev => ({ ...prev, mealBufferHours: Number(event.target.value) }))}
+            >
+              {MEAL_BUFFER_CHOICES.map(hours => (
+                <MenuItem key={hours} value={hours}>{messages.hoursBeforeSleep(t.formatNumber(hours))}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={profile.avoidNightMeals}
+                onChange={event => setProfile(prev => ({ ...prev, avoidNightMeals: event.target.checked }))}
+              />
+            }
+            label={messages.avoidNightMeals(
+              t.formatClock(NIGHT_MEAL_WINDOW.start),
+              t.formatClock(NIGHT_MEAL_WINDOW.end)
+            )}
+          />
+
+          <Box>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>{messages.chronotype}</Typography>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              color="primary"
+              value={profile.chronotype}
+              onChange={(_, value) => value && setProfile(prev => ({ ...prev, chronotype: value }))}
+            >
+              {CHRONOTYPES.map(chronotype => (
+                <ToggleButton key={chronotype} value={chronotype}>{messages.chronotypes[chronotype]}</ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              type="number"
+              label={messages.commuteToWork}
+              value={profile.commuteToWork}
+              onChange={setCommute('commuteToWork')}
+              inputProps={{ min: 0, max: MAX_COMMUTE_MINUTES, step: 5 }}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              type="number"
+              label={messages.commuteHome}
+              value={profile.commuteFromWork}
+              onChange={setCommute('commuteFromWork')}
+              inputProps={{ min: 0, max: MAX_COMMUTE_MINUTES, step: 5 }}
+              sx={{ flex: 1 }}
+            />
+          </Box>
+
+          <Box>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>{messages.commitments}</Typography>
+            {profile.commitments.length > 0 && (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+                {profile.commitments.map(commitment => (
+                  <Chip
+                    key={commitment.id}
+                    label={describeCommitment(commitment, t)}
+                    color="primary"
+                    variant="outlined"
+                    onDelete={() => handleDeleteCommitment(commitment.id)}
+                  />
+                ))}
+              </Box>
+            )}
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <TextField
+                label={messages.name}
+                placeholder={messages.namePlaceholder}
+                value={name}
+                onChange={event => setName(event.target.value)}
+              />
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <TimePicker
+                  label={messages.from}
+                  value={start}
+                  onChange={setStart}
+                  ampm={t.clock === '12h'}
+                  sx={{ flex: 1 }}
+                />
+                <TimePicker
+                  label={messages.until}
+                  value={end}
+                  onChange={setEnd}
+                  ampm={t.clock === '12h'}
+                  sx={{ flex: 1 }}
+                />
+              </Box>
+              <ToggleButtonGroup
+                size="small"
+                color="primary"
+                value={weekdays}
+                onChange={(_, value: number[]) => setWeekdays(value)}
+                aria-label={messages.repeatsOn}
+              >
+                {WEEKDAYS.map(weekday => (
+                  <ToggleButton key={weekday} value={weekday} aria-label={formatWeekday(weekday, 'EEEE', t)}>
+                    {formatWeekday(weekday, 'EEEEEE', t)}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+              <Button
+                variant="outlined"
+                startIcon={<AddRoundedIcon />}
+                onClick={handleAddCommitment}
+                disabled={!draft || !isValidCommitment(draft)}
+                sx={{ alignSelf: 'flex-start' }}
+              >
+                {messages.addCommitment}
+              </Button>
+            </Box>
+          </Box>
+
+          {shortDays.length > 0 && (
+            <Alert severity="warning">
+              {messages.shortDays(shortDays.length, shortDays.map(plan => t.formatDate(plan.date, 'short')).join(', '))}
+            </Alert>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{common.cancel}</Button>
+        <Button variant="contained" onClick={() => onSave(profile)}>{common.save}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SleepProfileDialog;
@@ -1,219 +1,232 @@
 import React from 'react';
-import { Box, Typography, List, ListItem, ListItemText, Paper, Tooltip } from '@mui/material';
-import StarRoundedIcon from '@mui/icons-material/StarRounded';
-import { format, isSameDay, addDays, parse } from 'date-fns';
+import { Alert, Box, Chip, Typography, List, ListItem, ListItemText, Paper, Tooltip, IconButton } from '@mui/material';
+import EditRoundedIcon from '@mui/icons-material/EditRounded';
+import EventRepeatRoundedIcon from '@mui/icons-material/EventRepeatRounded';
+import EventBusyRoundedIcon from '@mui/icons-material/EventBusyRounded';
+import EventAvailableRoundedIcon from '@mui/icons-material/EventAvailableRounded';
+import DeleteOutlineRoundedIcon from '@mui/icons-material/DeleteOutlineRounded';
+import WorkOffRoundedIcon from '@mui/icons-material/WorkOffRounded';
+import BedtimeRoundedIcon from '@mui/icons-material/BedtimeRounded';
+import PublicRoundedIcon from '@mui/icons-material/PublicRounded';
+import StorefrontRoundedIcon from '@mui/icons-material/StorefrontRounded';
+import NoDrinksRoundedIcon from '@mui/icons-material/NoDrinksRounded';
+import WbSunnyRoundedIcon from '@mui/icons-material/WbSunnyRounded';
+import DarkModeRoundedIcon from '@mui/icons-material/DarkModeRounded';
+import RestaurantRoundedIcon from '@mui/icons-material/RestaurantRounded';
+import CookieRoundedIcon from '@mui/icons-material/CookieRounded';
+import { isSameDay } from 'date-fns';
+import { Schedule, SleepLogEntry, WorkDay } from '../types';
+import { DayPlan, getPlanConfig } from '../utils/sleepPlan';
+import { getBackgroundColor, getBorderColor } from '../utils/dayColors';
+import {
+  describeClockChange,
+  describeDayPlan,
+  describeErrandSlot,
+  describeFatigueWarning,
+  describeFreeTime,
+  describeGuidance,
+  describeMeal,
+  describeLoggedSleep,
+  describeSecondJobWarning,
+  formatWindow,
+  getDayTitle,
+  getFatigueLevelLabel
+} from '../utils/planText';
+import { assessFatigue, DayFatigue, FatigueLevel, findDayFatigue } from '../utils/fatigue';
+import { DayFreeTime } from '../utils/freeTime';
+import { buildGuidance, DayGuidance, findDayGuidance, GuidanceKind } from '../utils/guidance';
+import { buildMeals, DayMeals, findDayMeals, MealSize } from '../utils/meals';
+import {
+  clearDayOff,
+  findSecondJobDay,
+  findSleepLog,
+  findWorkDay,
+  logSleep,
+  markDayOff,
+  moveWorkDay,
+  removeSecondJobDay,
+  removeSleepLog,
+  removeWorkDay,
+  ShiftChange,
+  updateWorkDay
+} from '../utils/scheduleEdits';
+import { findSecondJobWarnings, getWarningsForDate } from '../utils/secondJob';
+import { withTimeZone } from '../utils/i18n';
+import { getTimeZoneName } from '../utils/timeZones';
+import EditShiftDialog from './EditShiftDialog';
+import MoveShiftDialog from './MoveShiftDialog';
+import SleepLogDialog from './SleepLogDialog';
+import { useTranslation } from '../hooks/useTranslation';
 
-interface SleepRecommendationProps {
-  schedule: {
-    workDays: Array<{ date: Date; shiftType: 'day' | 'night' }>;
-    recoveryDays: Date[];
-    productiveDays: Date[];
-    secondJobDays: Date[];
-    preparationDays: Date[];
-  };
-}
-
-const getBackgroundColor = (type: string): string => {
-  if (type.includes('Night Shift')) return '#f8f1ff'; // Softer purple
-  if (type.includes('Day Shift')) return '#f1f8ff'; // Softer blue
-  if (type.includes('Recovery')) return '#f1fbf3'; // Softer green
-  if (type.includes('Preparation')) return '#fff7f0'; // Softer orange
-  return '#fafafa'; // Light grey for regular days
+const FATIGUE_COLORS: Record<FatigueLevel, 'success' | 'warning' | 'error'> = {
+  low: 'success',
+  moderate: 'warning',
+  high: 'error',
 };
 
-const getBorderColor = (type: string): string => {
-  if (type.includes('Night Shift')) return '#e9d8ff'; // Light purple border
-  if (type.includes('Day Shift')) return '#d8ebff'; // Light blue border
-  if (type.includes('Recovery')) return '#d8f2dc'; // Light green border
-  if (type.includes('Preparation')) return '#ffe4cc'; // Light orange border
-  return '#f0f0f0'; // Light grey border
+const GUIDANCE_ICONS: Record<GuidanceKind, React.ReactElement> = {
+  caffeineCutoff: <NoDrinksRoundedIcon fontSize="small" />,
+  brightLight: <WbSunnyRoundedIcon fontSize="small" />,
+  avoidLight: <DarkModeRoundedIcon fontSize="small" />,
 };
 
-const isChoreDay = (type: string, details: string[]): boolean => {
-  // Night shift workers sleep during day (typically 9am-5pm)
-  if (type.includes('Night Shift')) {
-    return false;
-  }
-
-  // Day shift workers are at work (7am-7pm typically)
-  if (type.includes('Day Shift Work Day')) {
-    return false;
-  }
+const MEAL_ICONS: Record<MealSize, React.ReactElement> = {
+  main: <RestaurantRoundedIcon fontSize="small" />,
+  snack: <CookieRoundedIcon fontSize="small" />,
+};
 
-  // Get sleep time from the first detail
-  const sleepDetail = details[0];
-  const timeRange = sleepDetail.split(': ')[1].split(' - ');
-  const sleepTime = timeRange[0];
-  const wakeTime = timeRange[1].split(' ')[0];
+interface SleepRecommendationProps {
+  plans: DayPlan[];
+  schedule: Schedule;
+  setSchedule: React.Dispatch<React.SetStateAction<Schedule>>;
+  // Scores for the whole schedule, when only some of its days are shown
+  fatigue?: DayFatigue[];
+  // Caffeine and light windows and meal times worked out from the whole schedule, like the scores
+  guidance?: DayGuidance[];
+  meals?: DayMeals[];
+  // Free time and the errands that fit in it, shown when given
+  freeTime?: DayFreeTime[];
+  // Shared schedules are shown without the edit and log actions
+  readOnly?: boolean;
+}
 
-  // Create base date for parsing
-  const baseDate = new Date();
-  
-  // Parse sleep and wake times
-  const sleepDateTime = parse(sleepTime, 'h:mm aa', baseDate);
-  const wakeDateTime = parse(wakeTime, 'h:mm aa', baseDate);
-  
-  // Business hours in 24h format
-  const businessStart = 9; // 9am
-  const businessEnd = 17;  // 5pm
-  
-  // If sleep time is PM and wake time is AM, they sleep at night
-  const sleepHour = sleepDateTime.getHours();
-  const wakeHour = wakeDateTime.getHours();
-  
-  // Calculate available hours during business time
-  let availableHours = 0;
-  
-  if (sleepHour >= businessEnd || sleepHour < businessStart) {
-    // They're awake during business hours
-    availableHours = businessEnd - businessStart;
-  } else if (wakeHour >= businessStart && wakeHour < businessEnd) {
-    // They wake up during business hours
-    availableHours = businessEnd - wakeHour;
-  }
-  
-  return availableHours >= 5;
-};
+const SleepRecommendation: React.FC<SleepRecommendationProps> = ({
+  plans,
+  schedule,
+  setSchedule,
+  fatigue,
+  guidance,
+  meals,
+  freeTime,
+  readOnly
+}) => {
+  const t = useTranslation();
+  const { recommendations } = t.messages;
+  const [editing, setEditing] = React.useState<WorkDay | null>(null);
+  const [moving, setMoving] = React.useState<WorkDay | null>(null);
+  const [logging, setLogging] = React.useState<DayPlan | null>(null);
 
-const SleepRecommendation: React.FC<SleepRecommendationProps> = ({ schedule }) => {
-  const getSleepRecommendation = (date: Date) => {
-    // Check if it's a work day
-    const workDay = schedule.workDays.find(wd => isSameDay(wd.date, date));
-    if (workDay) {
-      if (workDay.shiftType === 'night') {
-        return {
-          recommendation: 'Night Shift Work Day',
-          details: [
-            'Sleep: 9:00 AM - 5:00 PM (8 hours)',
-            'Wake up at 5:00 PM, have a light meal',
-            'Start shift at 7:00 PM',
-            'Stay hydrated throughout your shift'
-          ]
-        };
-      } else {
-        return {
-          recommendation: 'Day Shift Work Day',
-          details: [
-            'Sleep: 10:00 PM - 6:00 AM (8 hours)',
-            'Wake up at 6:00 AM, have breakfast',
-            'Start shift at 7:00 AM',
-            'Stay hydrated and take regular breaks'
-          ]
-        };
-      }
+  const handleSaveShift = (change: ShiftChange) => {
+    if (editing) {
+      setSchedule(prev => updateWorkDay(prev, editing.date, change));
     }
+    setEditing(null);
+  };
 
-    // Check if it's a recovery day
-    if (schedule.recoveryDays.some(d => isSameDay(d, date))) {
-      const workDay = schedule.workDays.find(wd => 
-        isSameDay(wd.date, date) || isSameDay(addDays(wd.date, -1), date)
-      );
-      
-      if (workDay?.shiftType === 'night') {
-        return {
-          recommendation: 'Night Shift Recovery Day',
-          details: [
-            'Sleep: 8:00 AM - 4:00 PM (8 hours)',
-            'Optional nap: 7:00 PM - 8:00 PM',
-            'Light dinner at 8:30 PM',
-            'Stay hydrated and eat nutritious meals'
-          ]
-        };
-      } else {
-        return {
-          recommendation: 'Day Shift Recovery Day',
-          details: [
-            'Sleep: 10:00 PM - 6:00 AM (8 hours)',
-            'Optional nap: 2:00 PM - 3:00 PM',
-            'Light exercise in the morning',
-            'Stay hydrated and eat balanced meals'
-          ]
-        };
-      }
+  const handleMoveShift = (date: Date) => {
+    if (moving) {
+      setSchedule(prev => moveWorkDay(prev, moving.date, date));
     }
+    setMoving(null);
+  };
 
-    // Check if it's a preparation day
-    if (schedule.preparationDays.some(d => isSameDay(d, date))) {
-      const workDay = schedule.workDays.find(wd => 
-        isSameDay(wd.date, date) || isSameDay(addDays(wd.date, 1), date)
-      );
-      
-      if (workDay?.shiftType === 'night') {
-        return {
-          recommendation: 'Night Shift Preparation Day',
-          details: [
-            'Sleep: 11:00 PM - 7:00 AM (8 hours)',
-            'Optional nap: 2:00 PM - 3:00 PM',
-            'Avoid caffeine after 2:00 PM',
-            'Prepare meals and clothes for night shift'
-          ]
-        };
-      } else {
-        return {
-          recommendation: 'Day Shift Preparation Day',
-          details: [
-            'Sleep: 10:00 PM - 6:00 AM (8 hours)',
-            'Avoid caffeine after noon',
-            'Prepare meals and clothes for morning',
-            'Set out work clothes and supplies'
-          ]
-        };
-      }
-    }
+  const handleLogSleep = (entry: SleepLogEntry) => {
+    setSchedule(prev => logSleep(prev, entry));
+    setLogging(null);
+  };
 
-    // Default to productive day
-    return {
-      recommendation: 'Regular Day',
-      details: [
-        'Sleep: 10:00 PM - 6:00 AM (8 hours)',
-        'Exercise in the morning or afternoon',
-        'Limit caffeine after noon',
-        'Maintain regular meal times'
-      ]
-    };
+  const handleDeleteSleepLog = (date: Date) => {
+    setSchedule(prev => removeSleepLog(prev, date));
+    setLogging(null);
   };
 
-  const allScheduledDays = [
-    ...schedule.workDays.map(workDay => ({ 
-      date: workDay.date, 
-      type: `${workDay.shiftType === 'night' ? 'Night' : 'Day'} Shift Work Day` 
-    })),
-    ...schedule.recoveryDays.map(date => ({ 
-      date, 
-      type: 'Recovery Day' 
-    })),
-    ...schedule.preparationDays.map(date => ({ 
-      date, 
-      type: 'Preparation Day' 
-    })),
-    ...schedule.productiveDays.map(date => ({ 
-      date, 
-      type: 'Regular Day' 
-    }))
-  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const isDateTaken = (date: Date) => !!findWorkDay(schedule, date);
+
+  const warnings = React.useMemo(() => findSecondJobWarnings(schedule), [schedule]);
+  const fatigueScores = React.useMemo(() => fatigue ?? assessFatigue(plans), [fatigue, plans]);
+  const config = React.useMemo(() => getPlanConfig(schedule.profile), [schedule.profile]);
+  const dayGuidance = React.useMemo(() => guidance ?? buildGuidance(plans, config), [guidance, plans, config]);
+  const dayMeals = React.useMemo(() => meals ?? buildMeals(plans, config), [meals, plans, config]);
+
+  const renderActions = (plan: DayPlan) => {
+    const workDay = findWorkDay(schedule, plan.date);
+    const secondJobActions = findSecondJobDay(schedule, plan.date) ? [
+      {
+        label: recommendations.deleteSecondJobShift,
+        icon: <WorkOffRoundedIcon fontSize="small" />,
+        onClick: () => setSchedule(prev => removeSecondJobDay(prev, plan.date))
+      }
+    ] : [];
+    const dayActions = workDay ? [
+      {
+        label: recommendations.changeShift,
+        icon: <EditRoundedIcon fontSize="small" />,
+        onClick: () => setEditing(workDay)
+      },
+      {
+        label: recommendations.moveShift,
+        icon: <EventRepeatRoundedIcon fontSize="small" />,
+        onClick: () => setMoving(workDay)
+      },
+      {
+        label: recommendations.markDayOff,
+        icon: <EventBusyRoundedIcon fontSize="small" />,
+        onClick: () => setSchedule(prev => markDayOff(prev, plan.date))
+      },
+      {
+        label: recommendations.deleteShift,
+        icon: <DeleteOutlineRoundedIcon fontSize="small" />,
+        onClick: () => setSchedule(prev => removeWorkDay(prev, plan.date))
+      }
+    ] : plan.dayType === 'dayOff' ? [
+      {
+        label: recommendations.removeDayOff,
+        icon: <EventAvailableRoundedIcon fontSize="small" />,
+        onClick: () => setSchedule(prev => clearDayOff(prev, plan.date))
+      }
+    ] : [];
+    const logAction = {
+      label: findSleepLog(schedule, plan.date) ? recommendations.changeLoggedSleep : recommendations.logSleep,
+      icon: <BedtimeRoundedIcon fontSize="small" />,
+      onClick: () => setLogging(plan)
+    };
+    const actions = [logAction, ...dayActions, ...secondJobActions];
+
+    return (
+      <Box sx={{ ml: 'auto', display: 'flex', gap: 0.5 }}>
+        {actions.map(action => (
+          <Tooltip key={action.label} title={action.label}>
+            <IconButton
+              size="small"
+              aria-label={action.label}
+              onClick={action.onClick}
+              sx={{ color: 'text.secondary' }}
+            >
+              {action.icon}
+            </IconButton>
+          </Tooltip>
+        ))}
+      </Box>
+    );
+  };
 
   return (
     <Box>
-      {allScheduledDays.length > 0 ? (
+      {plans.length > 0 ? (
         <List sx={{ 
           '& .MuiListItem-root': { 
             mb: 2.5,
             '&:last-child': { mb: 0 }
           }
         }}>
-          {allScheduledDays.map(({ date, type }) => {
-            const { details } = getSleepRecommendation(date);
-            const isChoreTime = isChoreDay(type, details);
+          {plans.map(plan => {
+            const details = describeDayPlan(plan, t);
+            const zoned = withTimeZone(t, plan.timeZone);
+            const dayFreeTime = freeTime?.find(free => isSameDay(free.date, plan.date));
+            const dayFatigue = findDayFatigue(fatigueScores, plan.date);
+            const guidanceItems = findDayGuidance(dayGuidance, plan.date)?.items ?? [];
+            const mealItems = findDayMeals(dayMeals, plan.date)?.meals ?? [];
+            const logged = findSleepLog(schedule, plan.date);
             return (
-              <ListItem key={date.getTime()} disableGutters>
+              <ListItem key={plan.date.getTime()} disableGutters>
                 <Paper 
                   elevation={0}
                   sx={{ 
                     p: 3,
                     width: '100%',
-                    bgcolor: getBackgroundColor(type),
+                    bgcolor: getBackgroundColor(plan.dayType),
                     border: 1,
-                    borderColor: getBorderColor(type),
+                    borderColor: getBorderColor(plan.dayType),
                     borderRadius: 2,
                     transition: 'all 0.3s ease',
                     '&:hover': {
@@ -234,24 +247,27 @@ const SleepRecommendation: React.FC<SleepRecommendationProps> = ({ schedule }) =
                             letterSpacing: '0.01em'
                           }}
                         >
-                          {format(date, 'EEEE, MMMM d, yyyy')}
+                          {t.formatDate(plan.date, 'full')}
                         </Typography>
-                        {isChoreTime && (
-                          <Tooltip title="Chore Day - At least 5 hours available during 9am-5pm">
-                            <StarRoundedIcon 
-                              sx={{ 
-                                color: 'warning.light',
-                                fontSize: 22,
-                                filter: 'drop-shadow(0 2px 4px rgba(255, 167, 38, 0.2))',
-                                animation: 'sparkle 1.5s infinite',
-                                '@keyframes sparkle': {
-                                  '0%, 100%': { transform: 'scale(1)' },
-                                  '50%': { transform: 'scale(1.1)' }
-                                }
-                              }} 
+                        {dayFatigue && (
+                          <Tooltip title={recommendations.fatigueHelp}>
+                            <Chip
+                              size="small"
+                              variant="outlined"
+                              color={FATIGUE_COLORS[dayFatigue.level]}
+                              label={recommendations.fatigueChip(getFatigueLevelLabel(dayFatigue.level, t), dayFatigue.score)}
                             />
                           </Tooltip>
                         )}
+                        {plan.timeZone !== schedule.timeZone && (
+                          <Chip
+                            size="small"
+                            variant="outlined"
+                            icon={<PublicRoundedIcon />}
+                            label={recommendations.timeZone(getTimeZoneName(plan.sleep.start, plan.timeZone, t.locale))}
+                          />
+                        )}
+                        {!readOnly && renderActions(plan)}
                       </Box>
                     }
                     secondary={
@@ -265,8 +281,29 @@ const SleepRecommendation: React.FC<SleepRecommendationProps> = ({ schedule }) =
                             mb: 0.5
                           }}
                         >
-                          {type}
+                          {getDayTitle(plan, t)}
+                          {plan.shift && ` · ${formatWindow(plan.shift, zoned)}`}
+                          {plan.shiftSource === 'secondJob' && recommendations.secondJob}
                         </Typography>
+                        {getWarningsForDate(warnings, plan.date).map((warning, index) => (
+                          <Alert key={index} severity="warning" sx={{ py: 0 }}>
+                            {describeSecondJobWarning(warning, t)}
+                          </Alert>
+                        ))}
+                        {dayFatigue?.warnings.map((warning, index) => (
+                          <Alert
+                            key={`fatigue-${index}`}
+                            severity={dayFatigue.level === 'high' ? 'error' : 'warning'}
+                            sx={{ py: 0 }}
+                          >
+                            {describeFatigueWarning(warning, zoned)}
+                          </Alert>
+                        ))}
+                        {plan.clockChanges.map((change, index) => (
+                          <Alert key={`clock-${index}`} severity="warning" sx={{ py: 0 }}>
+                            {describeClockChange(change, plan.timeZone, t)}
+                          </Alert>
+                        ))}
                         <Box component="ul" sx={{ 
                           m: 0, 
                           pl: 2,
@@ -290,6 +327,62 @@ const SleepRecommendation: React.FC<SleepRecommendationProps> = ({ schedule }) =
                             </Typography>
                           ))}
                         </Box>
+                        {guidanceItems.length > 0 && (
+                          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                            {guidanceItems.map((item, index) => (
+                              <Box
+                                key={index}
+                                sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'text.secondary' }}
+                              >
+                                {GUIDANCE_ICONS[item.kind]}
+                                <Typography variant="body2" sx={{ fontSize: '0.9rem' }}>
+                                  {describeGuidance(item, zoned)}
+                                </Typography>
+                              </Box>
+                            ))}
+                          </Box>
+                        )}
+                        {mealItems.length > 0 && (
+                          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+                            {mealItems.map(meal => (
+                              <Box
+                                key={meal.time.getTime()}
+                                sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'text.secondary' }}
+                              >
+                                {MEAL_ICONS[meal.size]}
+                                <Typography variant="body2" sx={{ fontSize: '0.9rem' }}>
+                                  {describeMeal(meal, zoned)}
+                                </Typography>
+                              </Box>
+                            ))}
+                          </Box>
+                        )}
+                        {dayFreeTime && (
+                          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.75 }}>
+                            <Typography variant="body2" sx={{ fontSize: '0.9rem', color: 'text.secondary' }}>
+                              {describeFreeTime(dayFreeTime, zoned)}
+                            </Typography>
+                            {dayFreeTime.errands.length > 0 && (
+                              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                                {dayFreeTime.errands.map(slot => (
+                                  <Chip
+                                    key={slot.errand.id}
+                                    size="small"
+                                    variant="outlined"
+                                    color="primary"
+                                    icon={<StorefrontRoundedIcon />}
+                                    label={describeErrandSlot(slot, zoned)}
+                                  />
+                                ))}
+                              </Box>
+                            )}
+                          </Box>
+                        )}
+                        {logged && (
+                          <Typography variant="body2" sx={{ fontSize: '0.9rem', color: 'text.primary', fontWeight: 500 }}>
+                            {describeLoggedSleep(logged, t)}
+                          </Typography>
+                        )}
                       </Box>
                     }
                   />
@@ -308,9 +401,28 @@ const SleepRecommendation: React.FC<SleepRecommendationProps> = ({ schedule }) =
             fontStyle: 'italic'
           }}
         >
-          Add work days to see your sleep schedule and recommendations
+          {recommendations.empty}
         </Typography>
       )}
+      <EditShiftDialog
+        workDay={editing}
+        presets={schedule.shiftPresets}
+        onClose={() => setEditing(null)}
+        onSave={handleSaveShift}
+      />
+      <MoveShiftDialog
+        workDay={moving}
+        isDateTaken={isDateTaken}
+        onClose={() => setMoving(null)}
+        onMove={handleMoveShift}
+      />
+      <SleepLogDialog
+        plan={logging}
+        entry={logging ? findSleepLog(schedule, logging.date) : undefined}
+        onClose={() => setLogging(null)}
+        onSave={handleLogSleep}
+        onDelete={handleDeleteSleepLog}
+      />
     </Box>
   );
 };
@@ -0,0 +1,202 @@
+import React from 'react';
+import { Alert, Box, Button, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import ImageRoundedIcon from '@mui/icons-material/ImageRounded';
+import { differenceInMinutes, format, max } from 'date-fns';
+import { DayPlan } from '../utils/sleepPlan';
+import { buildTimeline, TimelineBlock, TimelineBlockKind, TimelineHours, TimelineRow } from '../utils/timeline';
+import { downloadBlob, downloadFile, svgToPngBlob } from '../utils/download';
+import { formatDuration, formatWindow } from '../utils/planText';
+import { withTimeZone } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+const LABEL_WIDTH = 120;
+const CHART_WIDTH = 672;
+const HEADER_HEIGHT = 24;
+const ROW_HEIGHT = 30;
+const ROW_GAP = 6;
+const LEGEND_HEIGHT = 36;
+const ARROW_SIZE = 6;
+
+const BLOCK_COLORS: Record<TimelineBlockKind, string> = {
+  work: '#9c27b0',
+  secondJob: '#ff4081',
+  sleep: '#5c6bc0',
+  nap: '#9fa8da',
+  free: '#f1fbf3',
+};
+
+interface SleepTimelineProps {
+  plans: DayPlan[];
+  minimumGap: number;
+}
+
+const SleepTimeline: React.FC<SleepTimelineProps> = ({ plans, minimumGap }) => {
+  const t = useTranslation();
+  const { timeline } = t.messages;
+  const [hours, setHours] = React.useState<TimelineHours>(24);
+  const [exportError, setExportError] = React.useState<string | null>(null);
+  const svgRef = React.useRef<SVGSVGElement>(null);
+
+  const rows = React.useMemo(() => buildTimeline(plans, hours, minimumGap), [plans, hours, minimumGap]);
+  const hourWidth = CHART_WIDTH / hours;
+  const width = LABEL_WIDTH + CHART_WIDTH;
+  const height = HEADER_HEIGHT + rows.length * (ROW_HEIGHT + ROW_GAP) + LEGEND_HEIGHT;
+  const tickEvery = hours === 24 ? 3 : 6;
+
+  const toX = (row: TimelineRow, date: Date) =>
+    LABEL_WIDTH + Math.min(CHART_WIDTH, (differenceInMinutes(date, row.window.start) / 60) * hourWidth);
+
+  const renderBlock = (row: TimelineRow, block: TimelineBlock, y: number, index: number) => {
+    const x = toX(row, block.start);
+    const blockWidth = Math.max(1, toX(row, block.end) - x);
+    const middle = y + ROW_HEIGHT / 2;
+    return (
+      <g key={index}>
+        <rect
+          x={x}
+          y={y + (block.kind === 'nap' ? 6 : 2)}
+          width={blockWidth}
+          height={ROW_HEIGHT - (block.kind === 'nap' ? 12 : 4)}
+          rx={3}
+          fill={BLOCK_COLORS[block.kind]}
+        >
+          <title>{`${timeline.blocks[block.kind]}: ${formatWindow(block, withTimeZone(t, row.timeZone))}`}</title>
+        </rect>
+        {/* Arrows mark blocks that run on from the row above or into the next row */}
+        {block.continuesBefore && (
+          <polygon
+            points={`${x},${middle} ${x + ARROW_SIZE},${middle - ARROW_SIZE} ${x + ARROW_SIZE},${middle + ARROW_SIZE}`}
+            fill="#ffffff"
+          />
+        )}
+        {block.continuesAfter && (
+          <polygon
+            points={`${x + blockWidth},${middle} ${x + blockWidth - ARROW_SIZE},${middle - ARROW_SIZE} ${x + blockWidth - ARROW_SIZE},${middle + ARROW_SIZE}`}
+            fill="#ffffff"
+          />
+        )}
+      </g>
+    );
+  };
+
+  const getSvgMarkup = () => svgRef.current ? new XMLSerializer().serializeToString(svgRef.current) : '';
+  const filename = `nurse-sleep-timeline-${format(new Date(), 'yyyy-MM-dd')}`;
+
+  const handleSvgExport = () => {
+    downloadFile(getSvgMarkup(), `${filename}.svg`, 'image/svg+xml;charset=utf-8');
+  };
+
+  const handlePngExport = async () => {
+    try {
+      setExportError(null);
+      downloadBlob(await svgToPngBlob(getSvgMarkup(), width, height), `${filename}.png`);
+    } catch (error) {
+      setExportError((error as Error).message);
+    }
+  };
+
+  if (rows.length === 0) {
+    return (
+      <Typography variant="body1" color="text.secondary" sx={{ textAlign: 'center', py: 4, fontStyle: 'italic' }}>
+        {timeline.empty}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          color="primary"
+          value={hours}
+          onChange={(_, value) => value && setHours(value)}
+        >
+          <ToggleButton value={24}>{timeline.hours(24)}</ToggleButton>
+          <ToggleButton value={48}>{timeline.hours(48)}</ToggleButton>
+        </ToggleButtonGroup>
+        <Box sx={{ ml: 'auto', display: 'flex', gap: 1 }}>
+          <Button size="small" startIcon={<ImageRoundedIcon />} onClick={handleSvgExport}>SVG</Button>
+          <Button size="small" startIcon={<ImageRoundedIcon />} onClick={handlePngExport}>PNG</Button>
+        </Box>
+      </Box>
+      {exportError && (
+        <Alert severity="error" onClose={() => setExportError(null)} sx={{ mb: 2 }}>
+          {exportError}
+        </Alert>
+      )}
+
+      <Box sx={{ overflowX: 'auto' }}>
+        <svg
+          ref={svgRef}
+          xmlns="http://www.w3.org/2000/svg"
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          fontFamily="'Quicksand', 'Roboto', 'Arial', sans-serif"
+          fontSize={11}
+        >
+          <rect width={width} height={height} fill="#ffffff" />
+          {Array.from({ length: hours / tickEvery + 1 }, (_, index) => {
+            const x = LABEL_WIDTH + index * tickEvery * hourWidth;
+            return (
+              <g key={index}>
+                <line x1={x} y1={HEADER_HEIGHT - 4} x2={x} y2={height - LEGEND_HEIGHT} stroke="#eeeeee" />
+                <text x={x} y={HEADER_HEIGHT - 8} textAnchor="middle" fill="#757575">
+                  {t.formatClock(((index * tickEvery) % 24) * 60)}
+                </text>
+              </g>
+            );
+          })}
+
+          {rows.map((row, rowIndex) => {
+            const y = HEADER_HEIGHT + rowIndex * (ROW_HEIGHT + ROW_GAP);
+            return (
+              <g key={row.date.getTime()}>
+                <text
+                  x={8}
+                  y={y + ROW_HEIGHT / 2 + 4}
+                  fill={row.shortGap ? '#d32f2f' : '#424242'}
+                  fontWeight={row.shortGap ? 600 : 400}
+                >
+                  {row.shortGap ? '⚠ ' : ''}{t.formatDate(row.date, 'short')}
+                </text>
+                {row.blocks.map((block, index) => renderBlock(row, block, y, index))}
+                {row.shortGap && (
+                  <rect
+                    x={toX(row, max([row.shortGap.start, row.window.start]))}
+                    y={y}
+                    width={Math.max(2, toX(row, row.shortGap.end) - toX(row, max([row.shortGap.start, row.window.start])))}
+                    height={ROW_HEIGHT}
+                    fill="none"
+                    stroke="#d32f2f"
+                    strokeWidth={2}
+                    strokeDasharray="4 2"
+                  >
+                    <title>
+                      {timeline.shortGap(formatDuration(differenceInMinutes(row.shortGap.end, row.shortGap.start), t))}
+                    </title>
+                  </rect>
+                )}
+              </g>
+            );
+          })}
+
+          {(Object.keys(BLOCK_COLORS) as TimelineBlockKind[]).map((kind, index) => {
+            const x = LABEL_WIDTH + index * 110;
+            const y = height - LEGEND_HEIGHT + 14;
+            return (
+              <g key={kind}>
+                <rect x={x} y={y} width={14} height={12} rx={2} fill={BLOCK_COLORS[kind]} stroke="#e0e0e0" />
+                <text x={x + 20} y={y + 10} fill="#424242">{timeline.blocks[kind]}</text>
+              </g>
+            );
+          })}
+        </svg>
+      </Box>
+    </Box>
+  );
+};
+
+export default SleepTimeline;
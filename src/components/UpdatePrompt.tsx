@@ -0,0 +1,33 @@
+import React from 'react';
+import { Button, Snackbar } from '@mui/material';
+import { applyUpdate, onUpdateAvailable } from '../serviceWorkerRegistration';
+import { useTranslation } from '../hooks/useTranslation';
+
+// Shown once a new deploy has downloaded in the background; reloading switches to it
+const UpdatePrompt: React.FC = () => {
+  const { update } = useTranslation().messages;
+  const [registration, setRegistration] = React.useState<ServiceWorkerRegistration | null>(null);
+  const [dismissed, setDismissed] = React.useState(false);
+
+  React.useEffect(() => onUpdateAvailable(setRegistration), []);
+
+  return (
+    <Snackbar
+      open={!!registration && !dismissed}
+      message={update.available}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      action={
+        <>
+          <Button color="inherit" size="small" onClick={() => setDismissed(true)}>
+            {update.later}
+          </Button>
+          <Button color="secondary" size="small" onClick={() => registration && applyUpdate(registration)}>
+            {update.reload}
+          </Button>
+        </>
+      }
+    />
+  );
+};
+
+export default UpdatePrompt;
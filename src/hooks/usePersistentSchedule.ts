@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Schedule } from '../types';
+import { loadSchedule, saveSchedule, StorageError } from '../utils/storage';
+
+export const usePersistentSchedule = () => {
+  const [initial] = useState(() => loadSchedule());
+  const [schedule, setSchedule] = useState<Schedule>(initial.schedule);
+  const [storageError, setStorageError] = useState<StorageError | undefined>(initial.error);
+
+  useEffect(() => {
+    const error = saveSchedule(schedule);
+    if (error) {
+      setStorageError(error);
+    }
+  }, [schedule]);
+
+  const dismissStorageError = useCallback(() => setStorageError(undefined), []);
+
+  return { schedule, setSchedule, storageError, dismissStorageError };
+};
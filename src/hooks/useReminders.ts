@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ScheduledReminder } from '../utils/reminders';
+import { isServiceWorkerEnabled } from '../serviceWorkerRegistration';
+
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+const isSupported = (): boolean => isServiceWorkerEnabled() && 'Notification' in window;
+
+// Notification Triggers let the browser show reminders while the app is closed
+const supportsTriggers = (): boolean =>
+  isSupported() && 'showTrigger' in Notification.prototype && 'TimestampTrigger' in window;
+
+// Hands the reminders to the service worker whenever they change; without triggers the page
+// keeps a timer for each one while it is open
+export const useReminders = (reminders: ScheduledReminder[]) => {
+  const [permission, setPermission] = useState<ReminderPermission>(
+    () => isSupported() ? Notification.permission : 'unsupported'
+  );
+  const [registration, setRegistration] = useState<ServiceWorkerRegistration | null>(null);
+
+  useEffect(() => {
+    if (!isSupported()) {
+      return;
+    }
+    let cancelled = false;
+    navigator.serviceWorker.ready.then(ready => !cancelled && setRegistration(ready));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!registration) {
+      return;
+    }
+    const scheduled = permission === 'granted' ? reminders : [];
+    registration.active?.postMessage({ type: 'scheduleReminders', reminders: scheduled });
+    if (supportsTriggers()) {
+      return;
+    }
+
+    const timers = scheduled
+      .filter(reminder => reminder.time.getTime() > Date.now())
+      .map(reminder => window.setTimeout(() => {
+        // Fails when permission was revoked since; picking that up stops the remaining timers
+        registration.showNotification(reminder.title, {
+          body: reminder.body,
+          tag: reminder.id,
+          icon: `${process.env.PUBLIC_URL}/logo192.png`,
+          data: { reminder: true },
+        }).catch(() => setPermission(Notification.permission));
+      }, reminder.time.getTime() - Date.now()));
+    return () => timers.forEach(timer => window.clearTimeout(timer));
+  }, [registration, permission, reminders]);
+
+  const requestPermission = useCallback(async (): Promise<ReminderPermission> => {
+    if (!isSupported()) {
+      return 'unsupported';
+    }
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    return result;
+  }, []);
+
+  return { permission, requestPermission };
+};
@@ -0,0 +1,6 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_TRANSLATOR, Translator } from '../utils/i18n';
+
+export const TranslationContext = createContext<Translator>(DEFAULT_TRANSLATOR);
+
+export const useTranslation = (): Translator => useContext(TranslationContext);
@@ -0,0 +1,551 @@
+import { Messages } from './messages';
+
+const plural = (count: number, one: string, other: string) => `${count} ${count === 1 ? one : other}`;
+
+const de: Messages = {
+  languageName: 'Deutsch',
+  dates: {
+    full: 'EEEE, d. MMMM yyyy',
+    long: 'EEEE, d. MMMM',
+    medium: 'EEE, d. MMM yyyy',
+    short: 'EEE, d. MMM',
+    dayMonth: 'd. MMM',
+    monthYear: 'MMMM yyyy',
+  },
+
+  common: {
+    cancel: 'Abbrechen',
+    save: 'Speichern',
+    close: 'Schließen',
+    delete: 'Löschen',
+    chooseFile: 'Datei wählen',
+    off: 'Frei',
+    shift: 'Dienst',
+    customTimes: 'Eigene Zeiten…',
+    shiftStart: 'Dienstbeginn',
+    shiftEnd: 'Dienstende',
+    hours: (count, formatted) => `${formatted} ${count === 1 ? 'Stunde' : 'Stunden'}`,
+    minutesBefore: minutes => `${minutes} Min. vorher`,
+    lineError: (line, message) => `Zeile ${line}: ${message}`,
+    andMore: count => `…und ${count} weitere`,
+    unreadableFile: (name, reason) => `${name} konnte nicht gelesen werden: ${reason}`,
+  },
+
+  parseErrors: {
+    notJson: 'Die Daten sind kein gültiges JSON',
+    newerVersion: version => `Sie stammt aus einer neueren Version der App (Format ${version})`,
+    notDate: (value, format) => `„${value}“ ist kein Datum im Format ${format}`,
+    notDateTime: value => `„${value}“ ist kein Datum mit Uhrzeit`,
+    unknownTimeZone: value => `„${value}“ ist keine bekannte Zeitzone`,
+    textAfterQuote: 'Unerwarteter Text nach einem schließenden Anführungszeichen',
+    unclosedQuote: 'Ein Feld in Anführungszeichen wird nie geschlossen',
+    missingColumns: columns => `Fehlende Spalten: ${columns}`,
+    notCalendar: 'Die Datei ist keine iCalendar-Datei (.ics)',
+    notProperty: 'Die Zeile ist keine Eigenschaft der Form „NAME:Wert“',
+    noStart: 'Der Termin hat keine Startzeit',
+    noEnd: 'Der Termin hat weder Endzeit noch Dauer',
+    allDayEvent: 'Ein ganztägiger Termin hat keine Dienstzeiten',
+    notDuration: value => `„${value}“ ist keine Dauer`,
+    shiftLength: 'Der Termin ist nicht zwischen 1 Minute und 24 Stunden lang',
+    notStartTime: value => `„${value}“ ist keine Startzeit`,
+    notEndTime: value => `„${value}“ ist keine Endzeit`,
+    shiftTimes: 'Dienstbeginn und -ende müssen Uhrzeiten wie 07:00 sein',
+    duplicateShift: date => `Am ${date} gibt es schon einen Dienst`,
+    presetName: 'Eine Vorlage braucht eine ID und einen Namen',
+    notScheduleCsv: 'Die Datei ist kein CSV-Export des Schlafplans für Pflegekräfte',
+    unknownRowType: value => `„${value}“ ist keine bekannte Zeilenart`,
+    noSleepTimes: 'Der Schlafeintrag hat keine gültige Start- oder Endzeit',
+    noSleepLogs: 'Keine Liste mit Schlafprotokollen gefunden',
+    wakeBeforeSleep: 'Das Aufwachen liegt nicht nach dem Einschlafen',
+    sleepTooLong: 'Der Schlaf dauert länger als 24 Stunden',
+    noVersion: 'Der gespeicherte Plan hat keine Formatversion',
+    noMigration: version => `Keine Umwandlung aus Format ${version}`,
+    missingList: field => `Im gespeicherten Plan fehlt „${field}“`,
+    invalidSaved: {
+      shift: 'Ein gespeicherter Dienst hat ungültige Start- oder Endzeiten',
+      secondJobShift: 'Ein gespeicherter Nebenjob-Dienst hat ungültige Start- oder Endzeiten',
+      preset: 'Eine gespeicherte Dienstvorlage ist unvollständig',
+      commitment: 'Ein gespeicherter fester Termin ist unvollständig',
+      errand: 'Eine gespeicherte Erledigung ist unvollständig',
+      profile: 'Das gespeicherte Schlafprofil ist ungültig',
+      sleepLogEntry: 'Ein gespeicherter Schlafeintrag ist ungültig',
+      reminders: 'Die gespeicherten Erinnerungen sind ungültig',
+      display: 'Die gespeicherten Spracheinstellungen sind ungültig',
+    },
+    notShareLink: 'Das ist kein Link zu einem Plan',
+    damaged: 'Die Daten sind beschädigt',
+    incomplete: 'Der Link ist unvollständig',
+    invalidLink: {
+      time: 'Der Link enthält eine ungültige Uhrzeit',
+      shift: 'Der Link enthält einen ungültigen Dienst',
+      profile: 'Der Link enthält ein ungültiges Schlafprofil',
+      commitment: 'Der Link enthält einen ungültigen festen Termin',
+      timeZone: 'Der Link enthält eine ungültige Zeitzone',
+    },
+    unknownPatternDay: value => `„${value}“ ist weder eine Dienstvorlage noch „off“`,
+    emptyPattern: 'Gib mindestens einen Tag für das Muster ein',
+  },
+
+  presets: {
+    day: 'Tagdienst (7-19 Uhr)',
+    night: 'Nachtdienst (19-7 Uhr)',
+    evening: 'Spätdienst (15-23 Uhr)',
+    overnight: 'Nachtwache (23-7 Uhr)',
+    'day-10': 'Tagdienst 10 Std. (7-17 Uhr)',
+  },
+  errandNames: {
+    bank: 'Bank',
+    pharmacy: 'Apotheke',
+  },
+  rotationTemplates: {
+    dupont: 'DuPont (4-Wochen-Zyklus)',
+    panama: 'Panama / 2-2-3',
+    'four-on-four-off': '4 Dienste, 4 frei',
+    continental: 'Kontinental (2 Tage, 2 Nächte, 4 frei)',
+  },
+
+  dayTypes: {
+    dayShift: 'Tagdienst',
+    nightShift: 'Nachtdienst',
+    firstNight: 'Erster Nachtdienst',
+    middleNight: 'Weiterer Nachtdienst',
+    lastNight: 'Letzter Nachtdienst',
+    nightRunExit: 'Zurück in den Tagrhythmus',
+    dayRecovery: 'Erholungstag',
+    nightRecovery: 'Erholungstag nach Nachtdiensten',
+    dayPreparation: 'Vorbereitungstag',
+    nightPreparation: 'Vorbereitung auf den Nachtdienst',
+    dayOff: 'Freier Tag',
+    regular: 'Normaler Tag',
+  },
+  dayInRun: (label, position, length) => `${label} (${position} von ${length})`,
+  plan: {
+    sleep: (window, hours) => `Schlaf: ${window} (${hours})`,
+    sleepOfNeed: (window, hours, need) => `Schlaf: ${window} (${hours} von den ${need}, die du brauchst)`,
+    sleepLimitCommitment: (name, window) => `Dein voller Schlaf passt nicht um ${name} (${window})`,
+    sleepLimitBetweenShifts:
+      'Dein voller Schlaf passt nicht zwischen deine Dienste, wenn Arbeitsweg und Fertigmachen mitzählen',
+    loggedSleep: (window, hours, quality) => `Tatsächlicher Schlaf: ${window} (${hours}), Qualität ${quality}/5`,
+    nap: window => `Optionales Nickerchen: ${window}`,
+    secondJob: window => `Nebenjob: ${window}`,
+    clockChange: {
+      shift: (forward, change, at) =>
+        `Während dieser Schicht wird die Uhr um ${at} ${forward ? 'vorgestellt' : 'zurückgestellt'} (${change}), ` +
+        `die Schicht ist also ${change} ${forward ? 'kürzer' : 'länger'}`,
+      sleep: (forward, change, at) =>
+        `Während du schläfst, wird die Uhr um ${at} ${forward ? 'vorgestellt' : 'zurückgestellt'} (${change}); ` +
+        'die angezeigten Zeiten berücksichtigen das bereits',
+      nap: (forward, change, at) =>
+        `Während deines Nickerchens wird die Uhr um ${at} ${forward ? 'vorgestellt' : 'zurückgestellt'} (${change}); ` +
+        'stell dir lieber einen Timer, statt nach der Uhr zu gehen',
+    },
+  },
+  advice: {
+    wakeUp: ({ at }) => `Um ${at} aufstehen`,
+    shiftStart: ({ at }) => `Dienstbeginn um ${at}`,
+    hydrateOnShift: () => 'Während des ganzen Dienstes genug trinken',
+    hydrateWithBreaks: () => 'Genug trinken und regelmäßig Pausen machen',
+    hydrateNutritious: () => 'Genug trinken und nahrhaft essen',
+    hydrateBalanced: () => 'Genug trinken und ausgewogen essen',
+    morningExercise: () => 'Leichte Bewegung am Morgen',
+    exercise: () => 'Sport am Vormittag oder Nachmittag',
+    prepareForNightShift: () => 'Essen und Kleidung für den Nachtdienst vorbereiten',
+    prepareForMorning: () => 'Essen und Kleidung für den Morgen vorbereiten',
+    setOutWorkClothes: () => 'Dienstkleidung und Arbeitssachen bereitlegen',
+    preShiftNap: () => 'Vor dem ersten Nachtdienst ein Nickerchen machen',
+    anchorSleep: () => 'Diesen Schlaf nach jeder Nacht der Reihe zur gleichen Zeit halten',
+    lastNightOfRun: () => 'Letzte Nacht der Reihe: den Morgenschlaf morgen kurz halten',
+    afternoonDaylight: () => 'Heute Nachmittag ins Tageslicht gehen',
+    earlyBedtime: ({ at }) => `Früh ins Bett um ${at}`,
+    repaySleepDebt: ({ duration }) =>
+      `Dir fehlen diese Woche ${duration} Schlaf: ausschlafen und ausruhen, um aufzuholen`,
+  },
+  guidance: {
+    caffeineCutoff: (at, before) => `Nach ${at} kein Koffein mehr, ${before} vor dem nächsten Schlaf`,
+    brightLight: {
+      delay: window => `Helles Licht ${window}, um wach zu bleiben und die innere Uhr nach hinten zu verschieben`,
+      advance: window => `Helles Licht ${window}, am besten draußen, um die innere Uhr nach vorn zu verschieben`,
+    },
+    avoidLight: {
+      delay: window => `Helles Licht meiden ${window}: auf dem Heimweg eine Sonnenbrille tragen`,
+      advance: window => `Licht gedämpft halten ${window} vor dem Schlafengehen`,
+    },
+    titles: {
+      caffeineCutoff: 'Kein Koffein',
+      brightLight: 'Helles Licht',
+      avoidLight: 'Helles Licht meiden',
+    },
+  },
+  meals: {
+    main: (time, occasion) => `Hauptmahlzeit um ${time}, ${occasion}`,
+    snack: (time, occasion) => `Leichter Snack um ${time}, ${occasion}`,
+    occasions: {
+      afterWaking: 'nach dem Aufstehen',
+      beforeShift: 'bevor du zur Arbeit gehst',
+      shiftBreak: 'in deiner Pause',
+      beforeSleep: 'bevor du dich aufs Schlafen einstellst',
+      between: 'damit die Energie reicht',
+    },
+    nearSleep: before => `nur ${before} vor dem nächsten Schlaf`,
+    night: window => `keine schweren Mahlzeiten ${window}`,
+    withRule: (meal, rule) => `${meal}: ${rule}`,
+    titles: {
+      main: 'Hauptmahlzeit',
+      snack: 'Snack',
+    },
+  },
+  secondJobWarnings: {
+    overlap: (secondJobDate, workDate) =>
+      `Dein Nebenjob-Dienst am ${secondJobDate} überschneidet sich mit deinem Dienst am ${workDate}`,
+    shortBefore: (gap, secondJobDate, workDate) =>
+      `Nur ${gap} zwischen deinem Nebenjob-Dienst am ${secondJobDate} und deinem Dienst am ${workDate}, ` +
+      'zu wenig Zeit zum Schlafen',
+    shortAfter: (gap, workDate, secondJobDate) =>
+      `Nur ${gap} zwischen deinem Dienst am ${workDate} und deinem Nebenjob-Dienst am ${secondJobDate}, ` +
+      'zu wenig Zeit zum Schlafen',
+  },
+  fatigueLevels: {
+    low: 'Niedrig',
+    moderate: 'Mittel',
+    high: 'Hoch',
+  },
+  fatigue: (level, score) => `Ermüdungsrisiko: ${level} (${score}/100)`,
+  fatigueWarnings: {
+    quickReturn: (gap, recommended) =>
+      `Kurzer Wechsel: nur ${gap} seit dem Ende deines letzten Dienstes, empfohlen sind mindestens ${recommended}`,
+    longNightRun: (nights, maximum) =>
+      `${nights}. Nacht in Folge: mehr als ${maximum} Nächte in Folge lassen die Müdigkeit steigen`,
+    longShiftRun: (shifts, length, maximum) =>
+      `${shifts} Dienste von ${length} oder länger in Folge: mehr als ${maximum} lassen die Müdigkeit steigen`,
+    highScore: (score, time) => `Die Müdigkeit erreicht gegen ${time} voraussichtlich ${score}/100`,
+  },
+  reminders: {
+    labels: {
+      windDown: 'Vor dem Schlafengehen zur Ruhe kommen',
+      nap: 'Beginn des Nickerchens',
+      caffeineCutoff: 'Koffein-Grenze',
+      wakeUp: 'Aufstehen vor einem Dienst',
+    },
+    titles: {
+      windDown: 'Zeit, zur Ruhe zu kommen',
+      nap: 'Zeit für ein Nickerchen',
+      caffeineCutoff: 'Letzter Kaffee',
+      wakeUp: 'Zeit aufzustehen',
+    },
+    windDown: time => `Schlafenszeit um ${time}: Licht dimmen und Bildschirme weglegen`,
+    napAt: time => `Nickerchen um ${time}`,
+    shiftStartsAt: time => `Dein Dienst beginnt um ${time}`,
+    wakeUpAt: time => `Um ${time} aufstehen`,
+    caffeineCutoffAt: time => `Nach ${time} kein Koffein mehr`,
+  },
+
+  app: {
+    title: 'Schlafplan für Pflegekräfte',
+    reminders: 'Erinnerungen',
+    sleepProfile: 'Schlafprofil',
+    errands: 'Erledigungen',
+    display: 'Sprache und Uhrzeit',
+    resetSchedule: 'Plan zurücksetzen',
+    offline: 'Du bist offline. Alles funktioniert weiter, und deine Änderungen werden auf diesem Gerät gespeichert.',
+    scheduleHeading: 'Schlafplan und Empfehlungen',
+    exportCsv: 'Als CSV exportieren',
+    exportCalendar: 'In den Kalender exportieren (.ics)',
+    share: 'Als Link teilen',
+    restore: 'Aus einem CSV-Export wiederherstellen',
+    importSleep: 'Schlaf von einer Uhr oder Schlaf-App importieren',
+    listView: 'Listenansicht',
+    calendarView: 'Kalenderansicht',
+    timelineView: 'Zeitleiste',
+    shareLinkError: error => `Dieser geteilte Link konnte nicht geöffnet werden: ${error}`,
+    storageUnavailable: 'Der Browserspeicher ist nicht verfügbar, deshalb werden Änderungen nicht gespeichert.',
+    storageUnreadable: reason => `Dein gespeicherter Plan konnte nicht geladen werden: ${reason}. ` +
+      'Eine Kopie bleibt im Browserspeicher, und ein neuer Plan wurde begonnen.',
+    storageNotSaved: 'Dein Plan konnte nicht im Browserspeicher gespeichert werden.',
+  },
+  display: {
+    language: 'Sprache',
+    clock: 'Uhrzeit',
+    twelveHour: '12 Stunden (1:00 PM)',
+    twentyFourHour: '24 Stunden (13:00)',
+  },
+  scheduleForm: {
+    title: 'Arbeitstage eintragen',
+    import: 'Importieren',
+    addRotation: 'Dienstrhythmus',
+    mainJob: 'Hauptjob',
+    secondJob: 'Nebenjob',
+    workDate: 'Arbeitstag wählen',
+    addWorkDay: 'Arbeitstag hinzufügen',
+    addSecondJobShift: 'Nebenjob-Dienst hinzufügen',
+    presetName: 'Name der Vorlage',
+    savePreset: 'Vorlage speichern',
+    timeZone: 'Zeitzone',
+    timeZoneHelp: 'Neue Dienste werden in dieser Zeitzone geplant. Bereits eingetragene Dienste behalten ihre.',
+  },
+  recommendations: {
+    logSleep: 'Tatsächlichen Schlaf eintragen',
+    changeLoggedSleep: 'Eingetragenen Schlaf ändern',
+    changeShift: 'Dienst ändern',
+    moveShift: 'Auf einen anderen Tag verschieben',
+    markDayOff: 'Als frei markieren',
+    deleteShift: 'Dienst löschen',
+    removeDayOff: 'Freien Tag entfernen',
+    deleteSecondJobShift: 'Nebenjob-Dienst löschen',
+    fatigueHelp: 'Vorhergesagte Müdigkeit von 0 bis 100, berechnet aus deinen Arbeits- und Schlafzeiten',
+    fatigueChip: (level, score) => `Ermüdungsrisiko ${level.toLowerCase()} · ${score}`,
+    timeZone: name => `Zeiten in ${name}`,
+    secondJob: ' (Nebenjob)',
+    empty: 'Trage Arbeitstage ein, um deinen Schlafplan und Empfehlungen zu sehen',
+  },
+  calendar: {
+    captions: {
+      night: 'Nacht',
+      day: 'Tag',
+      recovery: 'Erholung',
+      preparation: 'Vorb.',
+      regular: '',
+    },
+    previousMonth: 'Vorheriger Monat',
+    nextMonth: 'Nächster Monat',
+    today: 'Heute',
+    clickAction: 'Klick auf einen Tag',
+    showDetails: 'Zeigt Details',
+    toggle: preset => `Schaltet ${preset} um`,
+    add: preset => `${preset} hinzufügen`,
+    secondJob: 'Nebenjob',
+    nothingPlanned: 'Für diesen Tag ist noch nichts geplant. Füge unten einen Dienst hinzu.',
+  },
+  timeline: {
+    blocks: {
+      work: 'Arbeit',
+      secondJob: 'Nebenjob',
+      sleep: 'Schlaf',
+      nap: 'Nickerchen',
+      free: 'Freizeit',
+    },
+    hours: hours => `${hours} Stunden`,
+    shortGap: gap => `Nur ${gap} zwischen den Diensten`,
+    empty: 'Trage Arbeitstage ein, um deine Zeitleiste zu sehen',
+  },
+  freeTime: {
+    day: (blocks, hours) => `Freie Zeit: ${blocks} (${hours})`,
+    none: 'Keine freie Zeit neben Schlaf, Arbeit und Wegen',
+    errand: (name, window) => `${name} · ${window}`,
+    title: 'Freie Zeit pro Woche',
+    week: date => `Woche vom ${date}`,
+    total: (hours, days) => `${hours} frei an ${plural(days, 'geplantem Tag', 'geplanten Tagen')}`,
+    errandDays: (name, days) => `${name}: ${plural(days, 'Tag', 'Tage')}`,
+  },
+  sleepDebt: {
+    debt: (debt, days) => `Schlafdefizit: ${debt} in den letzten ${days} Tagen.`,
+    none: days => `Kein Schlafdefizit in den letzten ${days} Tagen.`,
+    catchUp: ' Deine nächsten Erholungstage enthalten zusätzlichen Schlaf zum Aufholen.',
+    day: (planned, slept, quality) => `Geplant ${planned}, geschlafen ${slept}, Qualität ${quality}/5`,
+    planned: 'Geplant',
+    actual: 'Tatsächlich',
+    short: 'Zu wenig',
+  },
+  editShift: {
+    title: 'Dienst ändern',
+    titleOn: date => `Dienst am ${date} ändern`,
+  },
+  moveShift: {
+    title: 'Dienst verschieben',
+    titleFrom: date => `Dienst vom ${date} verschieben`,
+    newDate: 'Neues Datum',
+    move: 'Verschieben',
+  },
+  sleepLog: {
+    title: 'Schlaf eintragen',
+    titleFor: date => `Schlaf für ${date} eintragen`,
+    planned: (window, hours) => `Geplant: ${window} (${hours})`,
+    fellAsleep: 'Eingeschlafen',
+    wokeUp: 'Aufgewacht',
+    invalidRange: 'Das Aufwachen muss nach dem Einschlafen und innerhalb von 24 Stunden liegen',
+    slept: duration => `${duration} geschlafen`,
+    quality: 'Schlafqualität',
+    qualities: {
+      1: 'Sehr schlecht',
+      2: 'Schlecht',
+      3: 'Mittelmäßig',
+      4: 'Gut',
+      5: 'Sehr gut',
+    },
+  },
+  rotation: {
+    title: 'Dienstrhythmus hinzufügen',
+    template: 'Vorlage',
+    customPattern: 'Eigenes Muster',
+    pattern: 'Muster',
+    patternHelp: 'D = Tag, N = Nacht, E = Spätdienst, off = frei, oder die ID einer Vorlage',
+    firstDay: 'Erster Tag',
+    cycles: 'Durchläufe',
+    until: 'Bis',
+    cycleCount: 'Anzahl der Durchläufe',
+    lastDay: 'Letzter Tag',
+    preview: (shifts, days) => `Vorschau: ${shifts} Dienste an ${days} Tagen`,
+    differentShift: 'An diesem Tag hast du schon einen anderen Dienst',
+    dayOff: 'Diesen Tag hast du als frei markiert',
+    conflicts: (count, dates) =>
+      `${plural(count, 'Tag kollidiert', 'Tage kollidieren')} mit deinen bisherigen Einträgen: ${dates}.`,
+    replaceConflicts: 'Durch den Dienstrhythmus ersetzen',
+    addShifts: count => `${count} Dienste hinzufügen`,
+  },
+  shiftImport: {
+    title: 'Dienste importieren',
+    intro: 'Wähle eine Kalenderdatei (.ics) oder einen als CSV gespeicherten Dienstplan.',
+    statuses: {
+      added: 'Neu',
+      changed: 'Geändert',
+      unchanged: 'Unverändert',
+      conflict: 'Konflikt',
+    },
+    duplicate: hours => `${hours} · kommt mehrmals in der Datei vor, übersprungen`,
+    dayOff: hours => `${hours} · diesen Tag hast du als frei markiert`,
+    was: (hours, previous) => `${hours} · vorher ${previous}`,
+    column: number => `Spalte ${number}`,
+    hasHeader: 'Erste Zeile ist eine Überschrift',
+    dateColumn: 'Spalte Datum',
+    startColumn: 'Spalte Beginn',
+    endColumn: 'Spalte Ende',
+    dateFormat: 'Datumsformat',
+    unreadable: count => `${plural(count, 'Zeile konnte', 'Zeilen konnten')} nicht gelesen werden:`,
+    dayShift: 'Tagdienst',
+    nightShift: 'Nachtdienst',
+    replaceDaysOff: 'Freie Tage durch die importierten Dienste ersetzen',
+    importShifts: count => `${count} Dienste importieren`,
+  },
+  restore: {
+    title: 'Aus CSV wiederherstellen',
+    intro: 'Wähle eine mit „Als CSV exportieren“ gespeicherte Datei. Sie ersetzt deinen aktuellen Plan.',
+    failed: 'Die Datei konnte nicht wiederhergestellt werden:',
+    found: (shifts, daysOff) => `${shifts} Dienste und ${daysOff} freie Tage gefunden.`,
+    replace: 'Plan ersetzen',
+  },
+  calendarExport: {
+    title: 'In den Kalender exportieren',
+    intro: 'Wenn du die Datei später erneut importierst, werden dieselben Termine aktualisiert statt verdoppelt.',
+    categories: {
+      shifts: 'Dienste',
+      secondJob: 'Nebenjob-Dienste',
+      sleep: 'Schlafzeiten',
+      naps: 'Nickerchen',
+      guidance: 'Koffein und Licht',
+      meals: 'Mahlzeiten',
+    },
+    reminder: 'Erinnerung',
+    none: 'Keine',
+    atStart: 'Zu Beginn',
+    download: '.ics herunterladen',
+    events: {
+      shifts: 'Dienst',
+      secondJob: 'Nebenjob-Dienst',
+      sleep: 'Schlaf',
+      naps: 'Nickerchen',
+      guidance: 'Koffein und Licht',
+      meals: 'Mahlzeit',
+    },
+    alarm: (event, minutes) => `${event} in ${minutes} Minuten`,
+  },
+  profile: {
+    title: 'Schlafprofil',
+    sleepNeed: 'Schlafbedarf',
+    hoursANight: hours => `${hours} Stunden pro Nacht`,
+    caffeineCutoff: 'Letztes Koffein',
+    hoursBeforeSleep: hours => `${hours} Stunden vor dem Schlafen`,
+    lastMeal: 'Letzte große Mahlzeit',
+    avoidNightMeals: (from, until) => `Zwischen ${from} und ${until} nur Snacks`,
+    chronotype: 'Chronotyp',
+    chronotypes: {
+      morning: 'Frühaufsteher',
+      intermediate: 'Dazwischen',
+      evening: 'Nachteule',
+    },
+    commuteToWork: 'Weg zur Arbeit (Minuten)',
+    commuteHome: 'Heimweg (Minuten)',
+    commitments: 'Feste Termine',
+    name: 'Name',
+    namePlaceholder: 'Kinder von der Schule abholen',
+    from: 'Von',
+    until: 'Bis',
+    repeatsOn: 'Wiederholt sich am',
+    addCommitment: 'Termin hinzufügen',
+    shortDays: (count, dates) =>
+      `Dein voller Schlaf passt an ${plural(count, 'Tag', 'Tagen')} deines Plans nicht: ${dates}. ` +
+      'Jeder dieser Tage erklärt, was im Weg ist.',
+  },
+  errands: {
+    title: 'Erledigungen',
+    intro: 'Trage die Öffnungszeiten der Orte ein, zu denen du musst. Jeder Tag zeigt, welche davon in deine freie Zeit passen.',
+    name: 'Name',
+    namePlaceholder: 'Kita',
+    opens: 'Öffnet',
+    closes: 'Schließt',
+    openOn: 'Geöffnet am',
+    visitMinutes: 'Dauer (Minuten)',
+    addErrand: 'Erledigung hinzufügen',
+  },
+  sleepImport: {
+    title: 'Schlaf importieren',
+    intro: 'Wähle einen Apple-Health-Export (export.xml), eine Schlafdatei von Fitbit oder Google Fit (.json) ' +
+      'oder eine CSV-Datei mit Beginn und Ende. Die Datei wird auf diesem Gerät gelesen und nie hochgeladen.',
+    formats: {
+      appleHealth: 'Apple-Health-Export',
+      fitbit: 'JSON von Fitbit oder Google Fit',
+      csv: 'CSV mit Beginn und Ende',
+    },
+    statuses: {
+      added: 'Neu',
+      changed: 'Geändert',
+      unchanged: 'Unverändert',
+      nap: 'Nickerchen',
+      unmatched: 'Kein Plan',
+    },
+    was: (slept, previous) => `${slept} · vorher ${previous}`,
+    nap: slept => `${slept} · zählt nicht als Hauptschlaf`,
+    unmatched: slept => `${slept} · kein geplanter Tag, an dem er eingetragen werden kann`,
+    unreadable: count => `${plural(count, 'Eintrag konnte', 'Einträge konnten')} nicht gelesen werden:`,
+    entryError: (entry, message) => `Eintrag ${entry}: ${message}`,
+    noSleep: 'In dieser Datei wurde kein Schlaf gefunden.',
+    logSleep: days => `Schlaf für ${plural(days, 'Tag', 'Tage')} eintragen`,
+  },
+  reminderDialog: {
+    intro: 'Erhalte auf diesem Gerät eine Benachrichtigung vor dem Schlafengehen, vor Nickerchen, vor der ' +
+      'Koffein-Grenze und zum Aufstehen vor einem Dienst. Erinnerungen folgen deinem Plan und verschieben sich, ' +
+      'wenn er sich ändert.',
+    unsupported: 'Dieser Browser kann keine Erinnerungen anzeigen.',
+    denied: 'Benachrichtigungen sind für diese Seite blockiert. Erlaube sie in den Browsereinstellungen, um ' +
+      'Erinnerungen zu erhalten.',
+    remindMe: 'Erinnere mich',
+    when: 'Wann',
+    atTheTime: 'Zur Zeit selbst',
+    comingUp: 'Demnächst',
+  },
+  update: {
+    available: 'Eine neue Version der App ist verfügbar.',
+    later: 'Später',
+    reload: 'Neu laden',
+  },
+  share: {
+    title: 'Plan teilen',
+    intro: 'Der Link enthält deine Dienste, freien Tage und dein Schlafprofil. Schlaftagebuch und Erinnerungen ' +
+      'bleiben auf diesem Gerät. Alle mit dem Link können den Plan sehen; hochgeladen wird nichts.',
+    link: 'Link',
+    copy: 'Link kopieren',
+    copied: 'Kopiert',
+    copyFailed: 'Der Link konnte nicht kopiert werden. Markiere ihn und kopiere ihn von Hand.',
+    showQrCode: 'QR-Code anzeigen',
+    qrCode: 'QR-Code für den geteilten Link',
+    tooLong: 'Dieser Plan ist zu lang für einen QR-Code. Teile stattdessen den Link.',
+    shareVia: 'Teilen…',
+    shareTitle: 'Mein Dienst- und Schlafplan',
+  },
+  sharedView: {
+    title: 'Geteilter Plan',
+    intro: 'Das ist eine schreibgeschützte Ansicht eines fremden Plans. Beim Übernehmen werden deine Dienste und ' +
+      'freien Tage ersetzt; Schlafprofil, Schlaftagebuch und Erinnerungen bleiben erhalten.',
+    replace: 'Meinen Plan durch diesen ersetzen',
+  },
+};
+
+export default de;
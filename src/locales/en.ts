@@ -0,0 +1,545 @@
+import { Messages } from './messages';
+
+const plural = (count: number, one: string, other: string) => `${count} ${count === 1 ? one : other}`;
+
+const en: Messages = {
+  languageName: 'English',
+  dates: {
+    full: 'EEEE, MMMM d, yyyy',
+    long: 'EEEE, MMMM d',
+    medium: 'EEE, MMM d, yyyy',
+    short: 'EEE, MMM d',
+    dayMonth: 'MMM d',
+    monthYear: 'MMMM yyyy',
+  },
+
+  common: {
+    cancel: 'Cancel',
+    save: 'Save',
+    close: 'Close',
+    delete: 'Delete',
+    chooseFile: 'Choose File',
+    off: 'Off',
+    shift: 'Shift',
+    customTimes: 'Custom times…',
+    shiftStart: 'Shift Start',
+    shiftEnd: 'Shift End',
+    hours: (count, formatted) => `${formatted} ${count === 1 ? 'hour' : 'hours'}`,
+    minutesBefore: minutes => `${minutes} min before`,
+    lineError: (line, message) => `Line ${line}: ${message}`,
+    andMore: count => `…and ${count} more`,
+    unreadableFile: (name, reason) => `Could not read ${name}: ${reason}`,
+  },
+
+  parseErrors: {
+    notJson: 'The data is not valid JSON',
+    newerVersion: version => `It was written by a newer version of the app (format ${version})`,
+    notDate: (value, format) => `"${value}" is not a date in the format ${format}`,
+    notDateTime: value => `"${value}" is not a date and time`,
+    unknownTimeZone: value => `"${value}" is not a known time zone`,
+    textAfterQuote: 'Unexpected text after a closing quote',
+    unclosedQuote: 'A quoted field is never closed',
+    missingColumns: columns => `Missing columns: ${columns}`,
+    notCalendar: 'The file is not an iCalendar (.ics) file',
+    notProperty: 'Line is not a "NAME:value" property',
+    noStart: 'Event has no start time',
+    noEnd: 'Event has no end time or duration',
+    allDayEvent: 'All-day event has no shift hours',
+    notDuration: value => `"${value}" is not a duration`,
+    shiftLength: 'Event is not between 1 minute and 24 hours long',
+    notStartTime: value => `"${value}" is not a start time`,
+    notEndTime: value => `"${value}" is not an end time`,
+    shiftTimes: 'Shift start and end must be times such as 07:00',
+    duplicateShift: date => `There is already a shift on ${date}`,
+    presetName: 'A preset needs an id and a name',
+    notScheduleCsv: 'The file is not a Nurse Sleep Schedule CSV export',
+    unknownRowType: value => `"${value}" is not a known row type`,
+    noSleepTimes: 'Sleep record has no valid start or end time',
+    noSleepLogs: 'No list of sleep logs found',
+    wakeBeforeSleep: 'Wake-up is not after falling asleep',
+    sleepTooLong: 'Sleep is longer than 24 hours',
+    noVersion: 'The saved schedule has no format version',
+    noMigration: version => `No migration from format ${version}`,
+    missingList: field => `The saved schedule is missing "${field}"`,
+    invalidSaved: {
+      shift: 'A saved shift has invalid start or end times',
+      secondJobShift: 'A saved second-job shift has invalid start or end times',
+      preset: 'A saved shift preset is incomplete',
+      commitment: 'A saved commitment is incomplete',
+      errand: 'A saved errand is incomplete',
+      profile: 'The saved sleep profile is invalid',
+      sleepLogEntry: 'A saved sleep log entry is invalid',
+      reminders: 'The saved reminder settings are invalid',
+      display: 'The saved language settings are invalid',
+    },
+    notShareLink: 'This is not a schedule link',
+    damaged: 'The data is damaged',
+    incomplete: 'The link is incomplete',
+    invalidLink: {
+      time: 'The link contains an invalid time',
+      shift: 'The link contains an invalid shift',
+      profile: 'The link contains an invalid sleep profile',
+      commitment: 'The link contains an invalid commitment',
+      timeZone: 'The link contains an invalid time zone',
+    },
+    unknownPatternDay: value => `"${value}" is not a shift preset or "off"`,
+    emptyPattern: 'Enter at least one day in the pattern',
+  },
+
+  presets: {
+    day: 'Day (7a-7p)',
+    night: 'Night (7p-7a)',
+    evening: 'Evening (3p-11p)',
+    overnight: 'Overnight (11p-7a)',
+    'day-10': 'Day 10h (7a-5p)',
+  },
+  errandNames: {
+    bank: 'Bank',
+    pharmacy: 'Pharmacy',
+  },
+  rotationTemplates: {
+    dupont: 'DuPont (4-week cycle)',
+    panama: 'Panama / 2-2-3',
+    'four-on-four-off': '4-on-4-off',
+    continental: 'Continental (2 days, 2 nights, 4 off)',
+  },
+
+  dayTypes: {
+    dayShift: 'Day Shift Work Day',
+    nightShift: 'Night Shift Work Day',
+    firstNight: 'First Night Shift',
+    middleNight: 'Consecutive Night Shift',
+    lastNight: 'Last Night Shift',
+    nightRunExit: 'Switch Back to Days',
+    dayRecovery: 'Recovery Day',
+    nightRecovery: 'Night Shift Recovery Day',
+    dayPreparation: 'Preparation Day',
+    nightPreparation: 'Night Shift Preparation Day',
+    dayOff: 'Day Off',
+    regular: 'Regular Day',
+  },
+  dayInRun: (label, position, length) => `${label} (${position} of ${length})`,
+  plan: {
+    sleep: (window, hours) => `Sleep: ${window} (${hours})`,
+    sleepOfNeed: (window, hours, need) => `Sleep: ${window} (${hours} of the ${need} you need)`,
+    sleepLimitCommitment: (name, window) => `Your full sleep does not fit around ${name} (${window})`,
+    sleepLimitBetweenShifts:
+      'Your full sleep does not fit between your shifts once commuting and getting ready are counted',
+    loggedSleep: (window, hours, quality) => `Actual sleep: ${window} (${hours}), quality ${quality}/5`,
+    nap: window => `Optional nap: ${window}`,
+    secondJob: window => `Second job: ${window}`,
+    clockChange: {
+      shift: (forward, change, at) => forward
+        ? `Clocks go forward ${change} at ${at} during this shift, so it is ${change} shorter`
+        : `Clocks go back ${change} at ${at} during this shift, so it is ${change} longer`,
+      sleep: (forward, change, at) =>
+        `Clocks go ${forward ? 'forward' : 'back'} ${change} at ${at} while you sleep; the times shown already allow for it`,
+      nap: (forward, change, at) =>
+        `Clocks go ${forward ? 'forward' : 'back'} ${change} at ${at} during your nap; time it with a timer rather than by the clock`,
+    },
+  },
+  advice: {
+    wakeUp: ({ at }) => `Wake up at ${at}`,
+    shiftStart: ({ at }) => `Start shift at ${at}`,
+    hydrateOnShift: () => 'Stay hydrated throughout your shift',
+    hydrateWithBreaks: () => 'Stay hydrated and take regular breaks',
+    hydrateNutritious: () => 'Stay hydrated and eat nutritious meals',
+    hydrateBalanced: () => 'Stay hydrated and eat balanced meals',
+    morningExercise: () => 'Light exercise in the morning',
+    exercise: () => 'Exercise in the morning or afternoon',
+    prepareForNightShift: () => 'Prepare meals and clothes for night shift',
+    prepareForMorning: () => 'Prepare meals and clothes for morning',
+    setOutWorkClothes: () => 'Set out work clothes and supplies',
+    preShiftNap: () => 'Take a nap before your first night shift',
+    anchorSleep: () => 'Keep this sleep at the same time after every night of the run',
+    lastNightOfRun: () => "Last night in a row: keep tomorrow's morning sleep short",
+    afternoonDaylight: () => 'Get outside in daylight this afternoon',
+    earlyBedtime: ({ at }) => `Go to bed early at ${at}`,
+    repaySleepDebt: ({ duration }) => `You are ${duration} short on sleep this week: sleep in and rest to catch up`,
+  },
+  guidance: {
+    caffeineCutoff: (at, before) => `No caffeine after ${at}, ${before} before your next sleep`,
+    brightLight: {
+      delay: window => `Bright light ${window} to stay alert and move your body clock later`,
+      advance: window => `Bright light ${window}, outdoors if you can, to move your body clock earlier`,
+    },
+    avoidLight: {
+      delay: window => `Avoid bright light ${window}: wear sunglasses on the way home`,
+      advance: window => `Keep the lights dim ${window} before bed`,
+    },
+    titles: {
+      caffeineCutoff: 'No caffeine',
+      brightLight: 'Bright light',
+      avoidLight: 'Avoid bright light',
+    },
+  },
+  meals: {
+    main: (time, occasion) => `Main meal at ${time}, ${occasion}`,
+    snack: (time, occasion) => `Light snack at ${time}, ${occasion}`,
+    occasions: {
+      afterWaking: 'after waking up',
+      beforeShift: 'before leaving for work',
+      shiftBreak: 'on your break',
+      beforeSleep: 'before winding down for sleep',
+      between: 'to keep your energy up',
+    },
+    nearSleep: before => `only ${before} before your next sleep`,
+    night: window => `no heavy meals ${window}`,
+    withRule: (meal, rule) => `${meal}: ${rule}`,
+    titles: {
+      main: 'Main meal',
+      snack: 'Snack',
+    },
+  },
+  secondJobWarnings: {
+    overlap: (secondJobDate, workDate) => `Your second-job shift on ${secondJobDate} overlaps your shift on ${workDate}`,
+    shortBefore: (gap, secondJobDate, workDate) =>
+      `Only ${gap} between your second-job shift on ${secondJobDate} and your shift on ${workDate}, ` +
+      'too little time to sleep',
+    shortAfter: (gap, workDate, secondJobDate) =>
+      `Only ${gap} between your shift on ${workDate} and your second-job shift on ${secondJobDate}, ` +
+      'too little time to sleep',
+  },
+  fatigueLevels: {
+    low: 'Low',
+    moderate: 'Moderate',
+    high: 'High',
+  },
+  fatigue: (level, score) => `Fatigue risk: ${level} (${score}/100)`,
+  fatigueWarnings: {
+    quickReturn: (gap, recommended) =>
+      `Quick return: only ${gap} since your last shift ended, at least ${recommended} are recommended`,
+    longNightRun: (nights, maximum) =>
+      `Night ${nights} in a row: more than ${maximum} nights in a row builds up fatigue`,
+    longShiftRun: (shifts, length, maximum) =>
+      `${shifts} shifts of ${length} or more in a row: more than ${maximum} builds up fatigue`,
+    highScore: (score, time) => `Predicted fatigue peaks at ${score}/100 around ${time}`,
+  },
+  reminders: {
+    labels: {
+      windDown: 'Wind down before bedtime',
+      nap: 'Nap start',
+      caffeineCutoff: 'Caffeine cutoff',
+      wakeUp: 'Wake up before a shift',
+    },
+    titles: {
+      windDown: 'Time to wind down',
+      nap: 'Nap time',
+      caffeineCutoff: 'Last call for caffeine',
+      wakeUp: 'Time to get up',
+    },
+    windDown: time => `Bedtime at ${time}: dim the lights and put screens away`,
+    napAt: time => `Nap at ${time}`,
+    shiftStartsAt: time => `Your shift starts at ${time}`,
+    wakeUpAt: time => `Wake up at ${time}`,
+    caffeineCutoffAt: time => `No more caffeine after ${time}`,
+  },
+
+  app: {
+    title: 'Nurse Sleep Schedule',
+    reminders: 'Reminders',
+    sleepProfile: 'Sleep profile',
+    errands: 'Errands',
+    display: 'Language and clock',
+    resetSchedule: 'Reset Schedule',
+    offline: 'You are offline. Everything keeps working, and your changes are saved on this device.',
+    scheduleHeading: 'Sleep Schedule and Recommendations',
+    exportCsv: 'Export to CSV',
+    exportCalendar: 'Export to calendar (.ics)',
+    share: 'Share as a link',
+    restore: 'Restore from a CSV export',
+    importSleep: 'Import sleep from a watch or sleep app',
+    listView: 'List view',
+    calendarView: 'Calendar view',
+    timelineView: 'Timeline view',
+    shareLinkError: error => `This share link could not be opened: ${error}`,
+    storageUnavailable: 'Browser storage is not available, so changes will not be saved.',
+    storageUnreadable: reason => `Your saved schedule could not be loaded: ${reason}. ` +
+      'A copy was kept in browser storage and a new schedule was started.',
+    storageNotSaved: 'Your schedule could not be saved to browser storage.',
+  },
+  display: {
+    language: 'Language',
+    clock: 'Clock',
+    twelveHour: '12-hour (1:00 PM)',
+    twentyFourHour: '24-hour (13:00)',
+  },
+  scheduleForm: {
+    title: 'Add Work Days',
+    import: 'Import',
+    addRotation: 'Add Rotation',
+    mainJob: 'Main job',
+    secondJob: 'Second job',
+    workDate: 'Select Work Date',
+    addWorkDay: 'Add Work Day',
+    addSecondJobShift: 'Add Second-Job Shift',
+    presetName: 'Preset Name',
+    savePreset: 'Save Preset',
+    timeZone: 'Time Zone',
+    timeZoneHelp: 'New shifts are planned in this zone. Shifts you already entered keep theirs.',
+  },
+  recommendations: {
+    logSleep: 'Log actual sleep',
+    changeLoggedSleep: 'Change logged sleep',
+    changeShift: 'Change shift',
+    moveShift: 'Move to another date',
+    markDayOff: 'Mark as day off',
+    deleteShift: 'Delete shift',
+    removeDayOff: 'Remove day off',
+    deleteSecondJobShift: 'Delete second-job shift',
+    fatigueHelp: 'Predicted fatigue from 0 to 100, based on your work and sleep times',
+    fatigueChip: (level, score) => `${level} fatigue risk · ${score}`,
+    timeZone: name => `Times in ${name}`,
+    secondJob: ' (second job)',
+    empty: 'Add work days to see your sleep schedule and recommendations',
+  },
+  calendar: {
+    captions: {
+      night: 'Night',
+      day: 'Day',
+      recovery: 'Recovery',
+      preparation: 'Prep',
+      regular: '',
+    },
+    previousMonth: 'Previous month',
+    nextMonth: 'Next month',
+    today: 'Today',
+    clickAction: 'Clicking a day',
+    showDetails: 'Shows its details',
+    toggle: preset => `Toggles ${preset}`,
+    add: preset => `Add ${preset}`,
+    secondJob: '2nd job',
+    nothingPlanned: 'Nothing is planned for this day yet. Add a shift below.',
+  },
+  timeline: {
+    blocks: {
+      work: 'Work',
+      secondJob: 'Second job',
+      sleep: 'Sleep',
+      nap: 'Nap',
+      free: 'Free time',
+    },
+    hours: hours => `${hours} hours`,
+    shortGap: gap => `Only ${gap} between shifts`,
+    empty: 'Add work days to see your timeline',
+  },
+  freeTime: {
+    day: (blocks, hours) => `Free time: ${blocks} (${hours})`,
+    none: 'No free time outside sleep, work and travel',
+    errand: (name, window) => `${name} · ${window}`,
+    title: 'Free time by week',
+    week: date => `Week of ${date}`,
+    total: (hours, days) => `${hours} free over ${plural(days, 'planned day', 'planned days')}`,
+    errandDays: (name, days) => `${name}: ${plural(days, 'day', 'days')}`,
+  },
+  sleepDebt: {
+    debt: (debt, days) => `Sleep debt: ${debt} over the last ${days} days.`,
+    none: days => `No sleep debt over the last ${days} days.`,
+    catchUp: ' Your next recovery days include extra sleep to catch up.',
+    day: (planned, slept, quality) => `Planned ${planned}, slept ${slept}, quality ${quality}/5`,
+    planned: 'Planned',
+    actual: 'Actual',
+    short: 'Short',
+  },
+  editShift: {
+    title: 'Change shift',
+    titleOn: date => `Change shift on ${date}`,
+  },
+  moveShift: {
+    title: 'Move shift',
+    titleFrom: date => `Move shift from ${date}`,
+    newDate: 'New Date',
+    move: 'Move',
+  },
+  sleepLog: {
+    title: 'Log sleep',
+    titleFor: date => `Log sleep for ${date}`,
+    planned: (window, hours) => `Planned: ${window} (${hours})`,
+    fellAsleep: 'Fell asleep',
+    wokeUp: 'Woke up',
+    invalidRange: 'Wake-up has to be after falling asleep, and within 24 hours',
+    slept: duration => `Slept ${duration}`,
+    quality: 'Sleep quality',
+    qualities: {
+      1: 'Very poor',
+      2: 'Poor',
+      3: 'Fair',
+      4: 'Good',
+      5: 'Very good',
+    },
+  },
+  rotation: {
+    title: 'Add a Rotation',
+    template: 'Template',
+    customPattern: 'Custom pattern',
+    pattern: 'Pattern',
+    patternHelp: 'D = day, N = night, E = evening, off = day off, or any preset id',
+    firstDay: 'First Day',
+    cycles: 'Cycles',
+    until: 'Until',
+    cycleCount: 'Number of Cycles',
+    lastDay: 'Last Day',
+    preview: (shifts, days) => `Preview: ${shifts} shifts over ${days} days`,
+    differentShift: 'You already have a different shift on this day',
+    dayOff: 'You marked this day as off',
+    conflicts: (count, dates) =>
+      `${count} ${count === 1 ? 'day clashes' : 'days clash'} with what you already entered: ${dates}.`,
+    replaceConflicts: 'Replace them with the rotation',
+    addShifts: count => `Add ${count} Shifts`,
+  },
+  shiftImport: {
+    title: 'Import Shifts',
+    intro: 'Choose a calendar file (.ics) or a roster spreadsheet saved as CSV.',
+    statuses: {
+      added: 'New',
+      changed: 'Changed',
+      unchanged: 'Unchanged',
+      conflict: 'Conflict',
+    },
+    duplicate: hours => `${hours} · appears more than once in the file, skipped`,
+    dayOff: hours => `${hours} · you marked this day as off`,
+    was: (hours, previous) => `${hours} · was ${previous}`,
+    column: number => `Column ${number}`,
+    hasHeader: 'First row is a header',
+    dateColumn: 'Date Column',
+    startColumn: 'Start Column',
+    endColumn: 'End Column',
+    dateFormat: 'Date Format',
+    unreadable: count => `${plural(count, 'line', 'lines')} could not be read:`,
+    dayShift: 'Day shift',
+    nightShift: 'Night shift',
+    replaceDaysOff: 'Replace days off with the imported shifts',
+    importShifts: count => `Import ${count} Shifts`,
+  },
+  restore: {
+    title: 'Restore from CSV',
+    intro: 'Choose a file saved with "Export to CSV". It replaces your current schedule.',
+    failed: 'The file could not be restored:',
+    found: (shifts, daysOff) => `Found ${shifts} shifts and ${daysOff} days off.`,
+    replace: 'Replace Schedule',
+  },
+  calendarExport: {
+    title: 'Export to Calendar',
+    intro: 'Importing the file again later updates the same events instead of adding copies.',
+    categories: {
+      shifts: 'Work shifts',
+      secondJob: 'Second-job shifts',
+      sleep: 'Sleep windows',
+      naps: 'Naps',
+      guidance: 'Caffeine and light',
+      meals: 'Meals',
+    },
+    reminder: 'Reminder',
+    none: 'None',
+    atStart: 'At start',
+    download: 'Download .ics',
+    events: {
+      shifts: 'Work shift',
+      secondJob: 'Second-job shift',
+      sleep: 'Sleep',
+      naps: 'Nap',
+      guidance: 'Caffeine and light',
+      meals: 'Meal',
+    },
+    alarm: (event, minutes) => `${event} in ${minutes} minutes`,
+  },
+  profile: {
+    title: 'Sleep profile',
+    sleepNeed: 'Sleep need',
+    hoursANight: hours => `${hours} hours a night`,
+    caffeineCutoff: 'Last caffeine',
+    hoursBeforeSleep: hours => `${hours} hours before sleep`,
+    lastMeal: 'Last large meal',
+    avoidNightMeals: (from, until) => `Keep to snacks between ${from} and ${until}`,
+    chronotype: 'Chronotype',
+    chronotypes: {
+      morning: 'Morning person',
+      intermediate: 'In between',
+      evening: 'Evening person',
+    },
+    commuteToWork: 'Commute to work (minutes)',
+    commuteHome: 'Commute home (minutes)',
+    commitments: 'Fixed commitments',
+    name: 'Name',
+    namePlaceholder: 'School pickup',
+    from: 'From',
+    until: 'Until',
+    repeatsOn: 'Repeats on',
+    addCommitment: 'Add Commitment',
+    shortDays: (count, dates) =>
+      `Your full sleep does not fit on ${plural(count, 'day', 'days')} of your schedule: ${dates}. ` +
+      'Each of those days explains what is in the way.',
+  },
+  errands: {
+    title: 'Errands',
+    intro: 'Add the opening hours of places you need to get to. Each day shows which of them fit into your free time.',
+    name: 'Name',
+    namePlaceholder: 'Childcare',
+    opens: 'Opens',
+    closes: 'Closes',
+    openOn: 'Open on',
+    visitMinutes: 'Visit takes (minutes)',
+    addErrand: 'Add Errand',
+  },
+  sleepImport: {
+    title: 'Import Sleep',
+    intro: 'Choose an Apple Health export (export.xml), a Fitbit or Google Fit sleep file (.json), or a CSV ' +
+      'with start and end times. The file is read on this device and never uploaded.',
+    formats: {
+      appleHealth: 'Apple Health export',
+      fitbit: 'Fitbit or Google Fit JSON',
+      csv: 'CSV of start and end times',
+    },
+    statuses: {
+      added: 'New',
+      changed: 'Changed',
+      unchanged: 'Unchanged',
+      nap: 'Nap',
+      unmatched: 'No plan',
+    },
+    was: (slept, previous) => `${slept} · was ${previous}`,
+    nap: slept => `${slept} · not counted as main sleep`,
+    unmatched: slept => `${slept} · no scheduled day to log it on`,
+    unreadable: count => `${plural(count, 'record', 'records')} could not be read:`,
+    entryError: (entry, message) => `Entry ${entry}: ${message}`,
+    noSleep: 'No sleep was found in this file.',
+    logSleep: days => `Log Sleep for ${days} ${days === 1 ? 'Day' : 'Days'}`,
+  },
+  reminderDialog: {
+    intro: 'Get a notification on this device before bedtime, naps, the caffeine cutoff and the wake-up before ' +
+      'a shift. Reminders follow your plan and move whenever your schedule changes.',
+    unsupported: 'This browser cannot show reminders.',
+    denied: 'Notifications are blocked for this site. Allow them in your browser settings to get reminders.',
+    remindMe: 'Remind me',
+    when: 'When',
+    atTheTime: 'At the time',
+    comingUp: 'Coming up',
+  },
+  update: {
+    available: 'A new version of the app is available.',
+    later: 'Later',
+    reload: 'Reload',
+  },
+  share: {
+    title: 'Share Schedule',
+    intro: 'The link holds your shifts, days off and sleep profile. Your sleep log and reminders stay on this ' +
+      'device. Anyone with the link can see the schedule, and nothing is uploaded.',
+    link: 'Link',
+    copy: 'Copy link',
+    copied: 'Copied',
+    copyFailed: 'The link could not be copied. Select it and copy it by hand.',
+    showQrCode: 'Show QR code',
+    qrCode: 'QR code for the share link',
+    tooLong: 'This schedule is too long for a QR code. Share the link instead.',
+    shareVia: 'Share…',
+    shareTitle: 'My shift and sleep schedule',
+  },
+  sharedView: {
+    title: 'Shared Schedule',
+    intro: "This is a read-only view of someone else's schedule. Importing it replaces your shifts and days " +
+      'off; your sleep profile, sleep log and reminders are kept.',
+    replace: 'Replace my schedule with this one',
+  },
+};
+
+export default en;
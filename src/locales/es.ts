@@ -0,0 +1,551 @@
+import { Messages } from './messages';
+
+const plural = (count: number, one: string, other: string) => `${count} ${count === 1 ? one : other}`;
+
+const es: Messages = {
+  languageName: 'Español',
+  dates: {
+    full: "EEEE, d 'de' MMMM 'de' yyyy",
+    long: "EEEE, d 'de' MMMM",
+    medium: 'EEE, d MMM yyyy',
+    short: 'EEE, d MMM',
+    dayMonth: 'd MMM',
+    monthYear: "MMMM 'de' yyyy",
+  },
+
+  common: {
+    cancel: 'Cancelar',
+    save: 'Guardar',
+    close: 'Cerrar',
+    delete: 'Eliminar',
+    chooseFile: 'Elegir archivo',
+    off: 'Libre',
+    shift: 'Turno',
+    customTimes: 'Horario personalizado…',
+    shiftStart: 'Inicio del turno',
+    shiftEnd: 'Fin del turno',
+    hours: (count, formatted) => `${formatted} ${count === 1 ? 'hora' : 'horas'}`,
+    minutesBefore: minutes => `${minutes} min antes`,
+    lineError: (line, message) => `Línea ${line}: ${message}`,
+    andMore: count => `…y ${count} más`,
+    unreadableFile: (name, reason) => `No se pudo leer ${name}: ${reason}`,
+  },
+
+  parseErrors: {
+    notJson: 'Los datos no son JSON válido',
+    newerVersion: version => `Se creó con una versión más reciente de la app (formato ${version})`,
+    notDate: (value, format) => `«${value}» no es una fecha con el formato ${format}`,
+    notDateTime: value => `«${value}» no es una fecha y hora`,
+    unknownTimeZone: value => `«${value}» no es una zona horaria conocida`,
+    textAfterQuote: 'Hay texto inesperado después de unas comillas de cierre',
+    unclosedQuote: 'Un campo entre comillas nunca se cierra',
+    missingColumns: columns => `Faltan columnas: ${columns}`,
+    notCalendar: 'El archivo no es un archivo iCalendar (.ics)',
+    notProperty: 'La línea no es una propiedad «NOMBRE:valor»',
+    noStart: 'El evento no tiene hora de inicio',
+    noEnd: 'El evento no tiene hora de fin ni duración',
+    allDayEvent: 'Un evento de todo el día no tiene horas de turno',
+    notDuration: value => `«${value}» no es una duración`,
+    shiftLength: 'El evento no dura entre 1 minuto y 24 horas',
+    notStartTime: value => `«${value}» no es una hora de inicio`,
+    notEndTime: value => `«${value}» no es una hora de fin`,
+    shiftTimes: 'El inicio y el fin del turno deben ser horas como 07:00',
+    duplicateShift: date => `Ya hay un turno el ${date}`,
+    presetName: 'Un turno guardado necesita un id y un nombre',
+    notScheduleCsv: 'El archivo no es una exportación CSV del horario de sueño para enfermería',
+    unknownRowType: value => `«${value}» no es un tipo de fila conocido`,
+    noSleepTimes: 'El registro de sueño no tiene una hora de inicio o de fin válida',
+    noSleepLogs: 'No se encontró ninguna lista de registros de sueño',
+    wakeBeforeSleep: 'El despertar no es posterior al momento de dormirse',
+    sleepTooLong: 'El sueño dura más de 24 horas',
+    noVersion: 'El horario guardado no tiene versión de formato',
+    noMigration: version => `No hay conversión desde el formato ${version}`,
+    missingList: field => `Al horario guardado le falta «${field}»`,
+    invalidSaved: {
+      shift: 'Un turno guardado tiene horas de inicio o de fin no válidas',
+      secondJobShift: 'Un turno guardado del segundo trabajo tiene horas de inicio o de fin no válidas',
+      preset: 'Un turno predefinido guardado está incompleto',
+      commitment: 'Un compromiso guardado está incompleto',
+      errand: 'Un recado guardado está incompleto',
+      profile: 'El perfil de sueño guardado no es válido',
+      sleepLogEntry: 'Un registro de sueño guardado no es válido',
+      reminders: 'Los recordatorios guardados no son válidos',
+      display: 'La configuración de idioma guardada no es válida',
+    },
+    notShareLink: 'Esto no es un enlace a un horario',
+    damaged: 'Los datos están dañados',
+    incomplete: 'El enlace está incompleto',
+    invalidLink: {
+      time: 'El enlace contiene una hora no válida',
+      shift: 'El enlace contiene un turno no válido',
+      profile: 'El enlace contiene un perfil de sueño no válido',
+      commitment: 'El enlace contiene un compromiso no válido',
+      timeZone: 'El enlace contiene una zona horaria no válida',
+    },
+    unknownPatternDay: value => `«${value}» no es un turno guardado ni «off»`,
+    emptyPattern: 'Escribe al menos un día en el patrón',
+  },
+
+  presets: {
+    day: 'Día (7-19 h)',
+    night: 'Noche (19-7 h)',
+    evening: 'Tarde (15-23 h)',
+    overnight: 'Madrugada (23-7 h)',
+    'day-10': 'Día 10 h (7-17 h)',
+  },
+  errandNames: {
+    bank: 'Banco',
+    pharmacy: 'Farmacia',
+  },
+  rotationTemplates: {
+    dupont: 'DuPont (ciclo de 4 semanas)',
+    panama: 'Panamá / 2-2-3',
+    'four-on-four-off': '4 turnos, 4 libres',
+    continental: 'Continental (2 días, 2 noches, 4 libres)',
+  },
+
+  dayTypes: {
+    dayShift: 'Turno de día',
+    nightShift: 'Turno de noche',
+    firstNight: 'Primera noche',
+    middleNight: 'Noche consecutiva',
+    lastNight: 'Última noche',
+    nightRunExit: 'Vuelta al horario de día',
+    dayRecovery: 'Día de recuperación',
+    nightRecovery: 'Recuperación tras las noches',
+    dayPreparation: 'Día de preparación',
+    nightPreparation: 'Preparación para el turno de noche',
+    dayOff: 'Día libre',
+    regular: 'Día normal',
+  },
+  dayInRun: (label, position, length) => `${label} (${position} de ${length})`,
+  plan: {
+    sleep: (window, hours) => `Sueño: ${window} (${hours})`,
+    sleepOfNeed: (window, hours, need) => `Sueño: ${window} (${hours} de las ${need} que necesitas)`,
+    sleepLimitCommitment: (name, window) => `Tu sueño completo no cabe alrededor de ${name} (${window})`,
+    sleepLimitBetweenShifts:
+      'Tu sueño completo no cabe entre tus turnos si se cuentan el trayecto y el tiempo para prepararte',
+    loggedSleep: (window, hours, quality) => `Sueño real: ${window} (${hours}), calidad ${quality}/5`,
+    nap: window => `Siesta opcional: ${window}`,
+    secondJob: window => `Segundo trabajo: ${window}`,
+    clockChange: {
+      shift: (forward, change, at) =>
+        `Durante este turno la hora se ${forward ? 'adelanta' : 'atrasa'} ${change} a las ${at}, ` +
+        `así que dura ${change} ${forward ? 'menos' : 'más'}`,
+      sleep: (forward, change, at) =>
+        `Mientras duermes la hora se ${forward ? 'adelanta' : 'atrasa'} ${change} a las ${at}; ` +
+        'los horarios mostrados ya lo tienen en cuenta',
+      nap: (forward, change, at) =>
+        `Durante la siesta la hora se ${forward ? 'adelanta' : 'atrasa'} ${change} a las ${at}; ` +
+        'mejor usa un temporizador que el reloj',
+    },
+  },
+  advice: {
+    wakeUp: ({ at }) => `Levántate a las ${at}`,
+    shiftStart: ({ at }) => `Empieza el turno a las ${at}`,
+    hydrateOnShift: () => 'Mantente hidratada durante todo el turno',
+    hydrateWithBreaks: () => 'Mantente hidratada y haz pausas regulares',
+    hydrateNutritious: () => 'Mantente hidratada y come alimentos nutritivos',
+    hydrateBalanced: () => 'Mantente hidratada y come de forma equilibrada',
+    morningExercise: () => 'Ejercicio suave por la mañana',
+    exercise: () => 'Haz ejercicio por la mañana o por la tarde',
+    prepareForNightShift: () => 'Prepara la comida y la ropa para el turno de noche',
+    prepareForMorning: () => 'Prepara la comida y la ropa para la mañana',
+    setOutWorkClothes: () => 'Deja listos el uniforme y lo necesario para el trabajo',
+    preShiftNap: () => 'Duerme una siesta antes de tu primera noche',
+    anchorSleep: () => 'Mantén este sueño a la misma hora después de cada noche de la serie',
+    lastNightOfRun: () => 'Última noche seguida: mañana acorta el sueño de la mañana',
+    afternoonDaylight: () => 'Sal a la luz del día esta tarde',
+    earlyBedtime: ({ at }) => `Acuéstate temprano, a las ${at}`,
+    repaySleepDebt: ({ duration }) =>
+      `Esta semana te faltan ${duration} de sueño: duerme más y descansa para recuperarte`,
+  },
+  guidance: {
+    caffeineCutoff: (at, before) => `Nada de cafeína después de las ${at}, ${before} antes de tu próximo sueño`,
+    brightLight: {
+      delay: window => `Luz intensa ${window} para seguir alerta y retrasar tu reloj interno`,
+      advance: window => `Luz intensa ${window}, al aire libre si puedes, para adelantar tu reloj interno`,
+    },
+    avoidLight: {
+      delay: window => `Evita la luz intensa ${window}: usa gafas de sol de camino a casa`,
+      advance: window => `Mantén la luz tenue ${window} antes de dormir`,
+    },
+    titles: {
+      caffeineCutoff: 'Sin cafeína',
+      brightLight: 'Luz intensa',
+      avoidLight: 'Evitar luz intensa',
+    },
+  },
+  meals: {
+    main: (time, occasion) => `Comida principal a las ${time}, ${occasion}`,
+    snack: (time, occasion) => `Tentempié ligero a las ${time}, ${occasion}`,
+    occasions: {
+      afterWaking: 'al despertar',
+      beforeShift: 'antes de salir al trabajo',
+      shiftBreak: 'en tu descanso',
+      beforeSleep: 'antes de prepararte para dormir',
+      between: 'para mantener la energía',
+    },
+    nearSleep: before => `solo ${before} antes de tu próximo sueño`,
+    night: window => `nada de comidas pesadas ${window}`,
+    withRule: (meal, rule) => `${meal}: ${rule}`,
+    titles: {
+      main: 'Comida principal',
+      snack: 'Tentempié',
+    },
+  },
+  secondJobWarnings: {
+    overlap: (secondJobDate, workDate) =>
+      `Tu turno del segundo trabajo del ${secondJobDate} se solapa con tu turno del ${workDate}`,
+    shortBefore: (gap, secondJobDate, workDate) =>
+      `Solo ${gap} entre tu turno del segundo trabajo del ${secondJobDate} y tu turno del ${workDate}, ` +
+      'muy poco tiempo para dormir',
+    shortAfter: (gap, workDate, secondJobDate) =>
+      `Solo ${gap} entre tu turno del ${workDate} y tu turno del segundo trabajo del ${secondJobDate}, ` +
+      'muy poco tiempo para dormir',
+  },
+  fatigueLevels: {
+    low: 'Bajo',
+    moderate: 'Moderado',
+    high: 'Alto',
+  },
+  fatigue: (level, score) => `Riesgo de fatiga: ${level} (${score}/100)`,
+  fatigueWarnings: {
+    quickReturn: (gap, recommended) =>
+      `Retorno rápido: solo ${gap} desde el final de tu último turno; se recomiendan al menos ${recommended}`,
+    longNightRun: (nights, maximum) =>
+      `Noche ${nights} seguida: más de ${maximum} noches seguidas acumulan fatiga`,
+    longShiftRun: (shifts, length, maximum) =>
+      `${shifts} turnos de ${length} o más seguidos: más de ${maximum} acumulan fatiga`,
+    highScore: (score, time) => `La fatiga prevista llega a ${score}/100 hacia las ${time}`,
+  },
+  reminders: {
+    labels: {
+      windDown: 'Relajarse antes de dormir',
+      nap: 'Inicio de la siesta',
+      caffeineCutoff: 'Límite de cafeína',
+      wakeUp: 'Levantarse antes de un turno',
+    },
+    titles: {
+      windDown: 'Hora de relajarse',
+      nap: 'Hora de la siesta',
+      caffeineCutoff: 'Último café',
+      wakeUp: 'Hora de levantarse',
+    },
+    windDown: time => `A dormir a las ${time}: baja las luces y aparta las pantallas`,
+    napAt: time => `Siesta a las ${time}`,
+    shiftStartsAt: time => `Tu turno empieza a las ${time}`,
+    wakeUpAt: time => `Levántate a las ${time}`,
+    caffeineCutoffAt: time => `Nada más de cafeína después de las ${time}`,
+  },
+
+  app: {
+    title: 'Horario de sueño para enfermería',
+    reminders: 'Recordatorios',
+    sleepProfile: 'Perfil de sueño',
+    errands: 'Recados',
+    display: 'Idioma y hora',
+    resetSchedule: 'Reiniciar horario',
+    offline: 'Estás sin conexión. Todo sigue funcionando y tus cambios se guardan en este dispositivo.',
+    scheduleHeading: 'Horario de sueño y recomendaciones',
+    exportCsv: 'Exportar a CSV',
+    exportCalendar: 'Exportar al calendario (.ics)',
+    share: 'Compartir como enlace',
+    restore: 'Restaurar desde una exportación CSV',
+    importSleep: 'Importar el sueño de un reloj o una app de sueño',
+    listView: 'Vista de lista',
+    calendarView: 'Vista de calendario',
+    timelineView: 'Vista de línea de tiempo',
+    shareLinkError: error => `No se pudo abrir este enlace compartido: ${error}`,
+    storageUnavailable: 'El almacenamiento del navegador no está disponible, así que los cambios no se guardarán.',
+    storageUnreadable: reason => `No se pudo cargar tu horario guardado: ${reason}. ` +
+      'Se guardó una copia en el almacenamiento del navegador y se empezó un horario nuevo.',
+    storageNotSaved: 'No se pudo guardar tu horario en el almacenamiento del navegador.',
+  },
+  display: {
+    language: 'Idioma',
+    clock: 'Hora',
+    twelveHour: '12 horas (1:00 p. m.)',
+    twentyFourHour: '24 horas (13:00)',
+  },
+  scheduleForm: {
+    title: 'Añadir días de trabajo',
+    import: 'Importar',
+    addRotation: 'Añadir rotación',
+    mainJob: 'Trabajo principal',
+    secondJob: 'Segundo trabajo',
+    workDate: 'Elige el día de trabajo',
+    addWorkDay: 'Añadir día de trabajo',
+    addSecondJobShift: 'Añadir turno del segundo trabajo',
+    presetName: 'Nombre del turno',
+    savePreset: 'Guardar turno',
+    timeZone: 'Zona horaria',
+    timeZoneHelp: 'Los turnos nuevos se planifican en esta zona. Los que ya has añadido conservan la suya.',
+  },
+  recommendations: {
+    logSleep: 'Registrar el sueño real',
+    changeLoggedSleep: 'Cambiar el sueño registrado',
+    changeShift: 'Cambiar turno',
+    moveShift: 'Mover a otra fecha',
+    markDayOff: 'Marcar como día libre',
+    deleteShift: 'Eliminar turno',
+    removeDayOff: 'Quitar día libre',
+    deleteSecondJobShift: 'Eliminar turno del segundo trabajo',
+    fatigueHelp: 'Fatiga prevista de 0 a 100, según tus horarios de trabajo y de sueño',
+    fatigueChip: (level, score) => `Riesgo de fatiga ${level.toLowerCase()} · ${score}`,
+    timeZone: name => `Horas en ${name}`,
+    secondJob: ' (segundo trabajo)',
+    empty: 'Añade días de trabajo para ver tu horario de sueño y las recomendaciones',
+  },
+  calendar: {
+    captions: {
+      night: 'Noche',
+      day: 'Día',
+      recovery: 'Recup.',
+      preparation: 'Prep.',
+      regular: '',
+    },
+    previousMonth: 'Mes anterior',
+    nextMonth: 'Mes siguiente',
+    today: 'Hoy',
+    clickAction: 'Al hacer clic en un día',
+    showDetails: 'Muestra los detalles',
+    toggle: preset => `Activa o quita ${preset}`,
+    add: preset => `Añadir ${preset}`,
+    secondJob: '2.º trabajo',
+    nothingPlanned: 'Todavía no hay nada planificado para este día. Añade un turno abajo.',
+  },
+  timeline: {
+    blocks: {
+      work: 'Trabajo',
+      secondJob: 'Segundo trabajo',
+      sleep: 'Sueño',
+      nap: 'Siesta',
+      free: 'Tiempo libre',
+    },
+    hours: hours => `${hours} horas`,
+    shortGap: gap => `Solo ${gap} entre turnos`,
+    empty: 'Añade días de trabajo para ver tu línea de tiempo',
+  },
+  freeTime: {
+    day: (blocks, hours) => `Tiempo libre: ${blocks} (${hours})`,
+    none: 'Sin tiempo libre fuera del sueño, el trabajo y los trayectos',
+    errand: (name, window) => `${name} · ${window}`,
+    title: 'Tiempo libre por semana',
+    week: date => `Semana del ${date}`,
+    total: (hours, days) => `${hours} libres en ${plural(days, 'día planificado', 'días planificados')}`,
+    errandDays: (name, days) => `${name}: ${plural(days, 'día', 'días')}`,
+  },
+  sleepDebt: {
+    debt: (debt, days) => `Deuda de sueño: ${debt} en los últimos ${days} días.`,
+    none: days => `Sin deuda de sueño en los últimos ${days} días.`,
+    catchUp: ' Tus próximos días de recuperación incluyen sueño extra para ponerte al día.',
+    day: (planned, slept, quality) => `Previsto ${planned}, dormido ${slept}, calidad ${quality}/5`,
+    planned: 'Previsto',
+    actual: 'Real',
+    short: 'Insuficiente',
+  },
+  editShift: {
+    title: 'Cambiar turno',
+    titleOn: date => `Cambiar el turno del ${date}`,
+  },
+  moveShift: {
+    title: 'Mover turno',
+    titleFrom: date => `Mover el turno del ${date}`,
+    newDate: 'Nueva fecha',
+    move: 'Mover',
+  },
+  sleepLog: {
+    title: 'Registrar sueño',
+    titleFor: date => `Registrar el sueño del ${date}`,
+    planned: (window, hours) => `Previsto: ${window} (${hours})`,
+    fellAsleep: 'Me dormí',
+    wokeUp: 'Me desperté',
+    invalidRange: 'El despertar tiene que ser después de dormirte y dentro de las 24 horas',
+    slept: duration => `Dormiste ${duration}`,
+    quality: 'Calidad del sueño',
+    qualities: {
+      1: 'Muy mala',
+      2: 'Mala',
+      3: 'Regular',
+      4: 'Buena',
+      5: 'Muy buena',
+    },
+  },
+  rotation: {
+    title: 'Añadir una rotación',
+    template: 'Plantilla',
+    customPattern: 'Patrón personalizado',
+    pattern: 'Patrón',
+    patternHelp: 'D = día, N = noche, E = tarde, off = libre, o el id de cualquier turno',
+    firstDay: 'Primer día',
+    cycles: 'Ciclos',
+    until: 'Hasta',
+    cycleCount: 'Número de ciclos',
+    lastDay: 'Último día',
+    preview: (shifts, days) => `Vista previa: ${shifts} turnos en ${days} días`,
+    differentShift: 'Ya tienes otro turno este día',
+    dayOff: 'Marcaste este día como libre',
+    conflicts: (count, dates) =>
+      `${plural(count, 'día choca', 'días chocan')} con lo que ya tenías: ${dates}.`,
+    replaceConflicts: 'Sustituirlos por la rotación',
+    addShifts: count => `Añadir ${count} turnos`,
+  },
+  shiftImport: {
+    title: 'Importar turnos',
+    intro: 'Elige un archivo de calendario (.ics) o un cuadrante guardado como CSV.',
+    statuses: {
+      added: 'Nuevo',
+      changed: 'Cambiado',
+      unchanged: 'Sin cambios',
+      conflict: 'Conflicto',
+    },
+    duplicate: hours => `${hours} · aparece más de una vez en el archivo, se omite`,
+    dayOff: hours => `${hours} · marcaste este día como libre`,
+    was: (hours, previous) => `${hours} · antes ${previous}`,
+    column: number => `Columna ${number}`,
+    hasHeader: 'La primera fila es un encabezado',
+    dateColumn: 'Columna de fecha',
+    startColumn: 'Columna de inicio',
+    endColumn: 'Columna de fin',
+    dateFormat: 'Formato de fecha',
+    unreadable: count => `No se ${count === 1 ? 'pudo' : 'pudieron'} leer ${plural(count, 'línea', 'líneas')}:`,
+    dayShift: 'Turno de día',
+    nightShift: 'Turno de noche',
+    replaceDaysOff: 'Sustituir los días libres por los turnos importados',
+    importShifts: count => `Importar ${count} turnos`,
+  },
+  restore: {
+    title: 'Restaurar desde CSV',
+    intro: 'Elige un archivo guardado con «Exportar a CSV». Sustituye tu horario actual.',
+    failed: 'No se pudo restaurar el archivo:',
+    found: (shifts, daysOff) => `Se encontraron ${shifts} turnos y ${daysOff} días libres.`,
+    replace: 'Sustituir horario',
+  },
+  calendarExport: {
+    title: 'Exportar al calendario',
+    intro: 'Si vuelves a importar el archivo más adelante, se actualizan los mismos eventos en lugar de duplicarlos.',
+    categories: {
+      shifts: 'Turnos de trabajo',
+      secondJob: 'Turnos del segundo trabajo',
+      sleep: 'Horas de sueño',
+      naps: 'Siestas',
+      guidance: 'Cafeína y luz',
+      meals: 'Comidas',
+    },
+    reminder: 'Aviso',
+    none: 'Ninguno',
+    atStart: 'Al empezar',
+    download: 'Descargar .ics',
+    events: {
+      shifts: 'Turno de trabajo',
+      secondJob: 'Turno del segundo trabajo',
+      sleep: 'Sueño',
+      naps: 'Siesta',
+      guidance: 'Cafeína y luz',
+      meals: 'Comida',
+    },
+    alarm: (event, minutes) => `${event} en ${minutes} minutos`,
+  },
+  profile: {
+    title: 'Perfil de sueño',
+    sleepNeed: 'Necesidad de sueño',
+    hoursANight: hours => `${hours} horas por noche`,
+    caffeineCutoff: 'Última cafeína',
+    hoursBeforeSleep: hours => `${hours} horas antes de dormir`,
+    lastMeal: 'Última comida fuerte',
+    avoidNightMeals: (from, until) => `Solo tentempiés entre las ${from} y las ${until}`,
+    chronotype: 'Cronotipo',
+    chronotypes: {
+      morning: 'Madrugadora',
+      intermediate: 'Intermedio',
+      evening: 'Nocturna',
+    },
+    commuteToWork: 'Trayecto al trabajo (minutos)',
+    commuteHome: 'Trayecto a casa (minutos)',
+    commitments: 'Compromisos fijos',
+    name: 'Nombre',
+    namePlaceholder: 'Recoger a los niños del colegio',
+    from: 'Desde',
+    until: 'Hasta',
+    repeatsOn: 'Se repite el',
+    addCommitment: 'Añadir compromiso',
+    shortDays: (count, dates) =>
+      `Tu sueño completo no cabe en ${plural(count, 'día', 'días')} de tu horario: ${dates}. ` +
+      'Cada uno de esos días explica qué lo impide.',
+  },
+  errands: {
+    title: 'Recados',
+    intro: 'Añade el horario de los sitios a los que tienes que ir. Cada día muestra cuáles caben en tu tiempo libre.',
+    name: 'Nombre',
+    namePlaceholder: 'Guardería',
+    opens: 'Abre',
+    closes: 'Cierra',
+    openOn: 'Abierto el',
+    visitMinutes: 'La visita dura (minutos)',
+    addErrand: 'Añadir recado',
+  },
+  sleepImport: {
+    title: 'Importar sueño',
+    intro: 'Elige una exportación de Apple Salud (export.xml), un archivo de sueño de Fitbit o Google Fit (.json) ' +
+      'o un CSV con horas de inicio y fin. El archivo se lee en este dispositivo y nunca se sube.',
+    formats: {
+      appleHealth: 'Exportación de Apple Salud',
+      fitbit: 'JSON de Fitbit o Google Fit',
+      csv: 'CSV con horas de inicio y fin',
+    },
+    statuses: {
+      added: 'Nuevo',
+      changed: 'Cambiado',
+      unchanged: 'Sin cambios',
+      nap: 'Siesta',
+      unmatched: 'Sin plan',
+    },
+    was: (slept, previous) => `${slept} · antes ${previous}`,
+    nap: slept => `${slept} · no cuenta como sueño principal`,
+    unmatched: slept => `${slept} · no hay ningún día planificado donde registrarlo`,
+    unreadable: count =>
+      `No se ${count === 1 ? 'pudo' : 'pudieron'} leer ${plural(count, 'registro', 'registros')}:`,
+    entryError: (entry, message) => `Entrada ${entry}: ${message}`,
+    noSleep: 'No se encontró ningún sueño en este archivo.',
+    logSleep: days => `Registrar el sueño de ${plural(days, 'día', 'días')}`,
+  },
+  reminderDialog: {
+    intro: 'Recibe una notificación en este dispositivo antes de acostarte, de las siestas, del límite de ' +
+      'cafeína y para levantarte antes de un turno. Los recordatorios siguen tu plan y se mueven cuando cambia.',
+    unsupported: 'Este navegador no puede mostrar recordatorios.',
+    denied: 'Las notificaciones están bloqueadas para este sitio. Permítelas en los ajustes del navegador para ' +
+      'recibir recordatorios.',
+    remindMe: 'Recordármelo',
+    when: 'Cuándo',
+    atTheTime: 'A la hora',
+    comingUp: 'Próximos',
+  },
+  update: {
+    available: 'Hay una nueva versión de la app.',
+    later: 'Más tarde',
+    reload: 'Recargar',
+  },
+  share: {
+    title: 'Compartir horario',
+    intro: 'El enlace contiene tus turnos, días libres y perfil de sueño. Tu registro de sueño y tus ' +
+      'recordatorios se quedan en este dispositivo. Cualquiera con el enlace puede ver el horario; no se sube nada.',
+    link: 'Enlace',
+    copy: 'Copiar enlace',
+    copied: 'Copiado',
+    copyFailed: 'No se pudo copiar el enlace. Selecciónalo y cópialo a mano.',
+    showQrCode: 'Mostrar código QR',
+    qrCode: 'Código QR del enlace compartido',
+    tooLong: 'Este horario es demasiado largo para un código QR. Comparte el enlace.',
+    shareVia: 'Compartir…',
+    shareTitle: 'Mi horario de turnos y sueño',
+  },
+  sharedView: {
+    title: 'Horario compartido',
+    intro: 'Esta es una vista de solo lectura del horario de otra persona. Al importarlo se sustituyen tus turnos ' +
+      'y días libres; tu perfil de sueño, tu registro de sueño y tus recordatorios se conservan.',
+    replace: 'Sustituir mi horario por este',
+  },
+};
+
+export default es;
@@ -0,0 +1,407 @@
+import { Chronotype, ReminderKind, SleepQuality } from '../types';
+import { AdviceKind, DayCategory, DayType, PlanClockChange } from '../utils/sleepPlan';
+import { FatigueLevel } from '../utils/fatigue';
+import { CircadianDirection, GuidanceKind } from '../utils/guidance';
+import { MealOccasion, MealSize } from '../utils/meals';
+import { TimelineBlockKind } from '../utils/timeline';
+import { ImportStatus } from '../utils/shiftImport';
+import { SleepFileFormat, SleepImportStatus } from '../utils/sleepImport';
+import { IcsCategory } from '../utils/icsExport';
+import { LinkPart, SavedPart } from '../utils/parseErrors';
+
+// Values are already formatted for the locale (times, dates, durations) unless they are counts
+export interface AdviceValues {
+  at: string;
+  duration: string;
+}
+
+// date-fns patterns; names and word order differ between languages
+export interface DateFormats {
+  // Monday, May 12, 2025
+  full: string;
+  // Monday, May 12
+  long: string;
+  // Mon, May 12, 2025
+  medium: string;
+  // Mon, May 12
+  short: string;
+  // May 12
+  dayMonth: string;
+  // May 2025
+  monthYear: string;
+}
+
+export interface Messages {
+  // In the language itself, for the language picker
+  languageName: string;
+  dates: DateFormats;
+
+  common: {
+    cancel: string;
+    save: string;
+    close: string;
+    delete: string;
+    chooseFile: string;
+    off: string;
+    shift: string;
+    customTimes: string;
+    shiftStart: string;
+    shiftEnd: string;
+    hours: (count: number, formatted: string) => string;
+    minutesBefore: (minutes: number) => string;
+    lineError: (line: number, message: string) => string;
+    andMore: (count: number) => string;
+    // `reason` is the browser's own description of why the file could not be read
+    unreadableFile: (name: string, reason: string) => string;
+  };
+
+  // Problems reading files, links and saved data; values are quoted as they appear in the source
+  parseErrors: {
+    notJson: string;
+    newerVersion: (version: number) => string;
+    notDate: (value: string, format: string) => string;
+    notDateTime: (value: string) => string;
+    unknownTimeZone: (value: string) => string;
+    textAfterQuote: string;
+    unclosedQuote: string;
+    missingColumns: (columns: string) => string;
+    notCalendar: string;
+    notProperty: string;
+    noStart: string;
+    noEnd: string;
+    allDayEvent: string;
+    notDuration: (value: string) => string;
+    shiftLength: string;
+    notStartTime: (value: string) => string;
+    notEndTime: (value: string) => string;
+    shiftTimes: string;
+    duplicateShift: (date: string) => string;
+    presetName: string;
+    notScheduleCsv: string;
+    unknownRowType: (value: string) => string;
+    noSleepTimes: string;
+    noSleepLogs: string;
+    wakeBeforeSleep: string;
+    sleepTooLong: string;
+    noVersion: string;
+    noMigration: (version: number) => string;
+    missingList: (field: string) => string;
+    invalidSaved: Record<SavedPart, string>;
+    notShareLink: string;
+    damaged: string;
+    incomplete: string;
+    invalidLink: Record<LinkPart, string>;
+    unknownPatternDay: (value: string) => string;
+    emptyPattern: string;
+  };
+
+  // Names of the built-in shift presets, by id
+  presets: Record<string, string>;
+  // Names of the built-in errands, by id
+  errandNames: Record<string, string>;
+  // Names of the built-in rotation templates, by id
+  rotationTemplates: Record<string, string>;
+
+  dayTypes: Record<DayType, string>;
+  dayInRun: (label: string, position: number, length: number) => string;
+  plan: {
+    sleep: (window: string, hours: string) => string;
+    sleepOfNeed: (window: string, hours: string, need: string) => string;
+    sleepLimitCommitment: (name: string, window: string) => string;
+    sleepLimitBetweenShifts: string;
+    loggedSleep: (window: string, hours: string, quality: number) => string;
+    nap: (window: string) => string;
+    secondJob: (window: string) => string;
+    // `change` is the size of the change as a duration, `at` the clock time it happens
+    clockChange: Record<PlanClockChange['window'], (forward: boolean, change: string, at: string) => string>;
+  };
+  advice: Record<AdviceKind, (values: AdviceValues) => string>;
+  guidance: {
+    // `before` is how long that is before the next sleep
+    caffeineCutoff: (at: string, before: string) => string;
+    brightLight: Record<CircadianDirection, (window: string) => string>;
+    avoidLight: Record<CircadianDirection, (window: string) => string>;
+    titles: Record<GuidanceKind, string>;
+  };
+  meals: {
+    main: (time: string, occasion: string) => string;
+    snack: (time: string, occasion: string) => string;
+    occasions: Record<MealOccasion, string>;
+    // Why a meal is only a snack, added after it by `withRule`
+    nearSleep: (before: string) => string;
+    night: (window: string) => string;
+    withRule: (meal: string, rule: string) => string;
+    titles: Record<MealSize, string>;
+  };
+  secondJobWarnings: {
+    overlap: (secondJobDate: string, workDate: string) => string;
+    shortBefore: (gap: string, secondJobDate: string, workDate: string) => string;
+    shortAfter: (gap: string, workDate: string, secondJobDate: string) => string;
+  };
+  fatigueLevels: Record<FatigueLevel, string>;
+  fatigue: (level: string, score: number) => string;
+  fatigueWarnings: {
+    quickReturn: (gap: string, recommended: string) => string;
+    longNightRun: (nights: number, maximum: number) => string;
+    longShiftRun: (shifts: number, length: string, maximum: number) => string;
+    highScore: (score: number, time: string) => string;
+  };
+  reminders: {
+    labels: Record<ReminderKind, string>;
+    titles: Record<ReminderKind, string>;
+    windDown: (time: string) => string;
+    napAt: (time: string) => string;
+    shiftStartsAt: (time: string) => string;
+    wakeUpAt: (time: string) => string;
+    caffeineCutoffAt: (time: string) => string;
+  };
+
+  app: {
+    title: string;
+    reminders: string;
+    sleepProfile: string;
+    errands: string;
+    display: string;
+    resetSchedule: string;
+    offline: string;
+    scheduleHeading: string;
+    exportCsv: string;
+    exportCalendar: string;
+    share: string;
+    restore: string;
+    importSleep: string;
+    listView: string;
+    calendarView: string;
+    timelineView: string;
+    shareLinkError: (error: string) => string;
+    storageUnavailable: string;
+    // `reason` is the problem that stopped the saved schedule from loading
+    storageUnreadable: (reason: string) => string;
+    storageNotSaved: string;
+  };
+  display: {
+    language: string;
+    clock: string;
+    twelveHour: string;
+    twentyFourHour: string;
+  };
+  scheduleForm: {
+    title: string;
+    import: string;
+    addRotation: string;
+    mainJob: string;
+    secondJob: string;
+    workDate: string;
+    addWorkDay: string;
+    addSecondJobShift: string;
+    presetName: string;
+    savePreset: string;
+    timeZone: string;
+    timeZoneHelp: string;
+  };
+  recommendations: {
+    logSleep: string;
+    changeLoggedSleep: string;
+    changeShift: string;
+    moveShift: string;
+    markDayOff: string;
+    deleteShift: string;
+    removeDayOff: string;
+    deleteSecondJobShift: string;
+    fatigueHelp: string;
+    fatigueChip: (level: string, score: number) => string;
+    timeZone: (name: string) => string;
+    secondJob: string;
+    empty: string;
+  };
+  calendar: {
+    captions: Record<DayCategory, string>;
+    previousMonth: string;
+    nextMonth: string;
+    today: string;
+    clickAction: string;
+    showDetails: string;
+    toggle: (preset: string) => string;
+    add: (preset: string) => string;
+    secondJob: string;
+    nothingPlanned: string;
+  };
+  timeline: {
+    blocks: Record<TimelineBlockKind, string>;
+    hours: (hours: number) => string;
+    shortGap: (gap: string) => string;
+    empty: string;
+  };
+  freeTime: {
+    day: (blocks: string, hours: string) => string;
+    none: string;
+    // `window` is the part of the free time the place is open in
+    errand: (name: string, window: string) => string;
+    title: string;
+    week: (date: string) => string;
+    total: (hours: string, days: number) => string;
+    errandDays: (name: string, days: number) => string;
+  };
+  sleepDebt: {
+    debt: (debt: string, days: number) => string;
+    none: (days: number) => string;
+    catchUp: string;
+    day: (planned: string, slept: string, quality: number) => string;
+    planned: string;
+    actual: string;
+    short: string;
+  };
+  editShift: {
+    title: string;
+    titleOn: (date: string) => string;
+  };
+  moveShift: {
+    title: string;
+    titleFrom: (date: string) => string;
+    newDate: string;
+    move: string;
+  };
+  sleepLog: {
+    title: string;
+    titleFor: (date: string) => string;
+    planned: (window: string, hours: string) => string;
+    fellAsleep: string;
+    wokeUp: string;
+    invalidRange: string;
+    slept: (duration: string) => string;
+    quality: string;
+    qualities: Record<SleepQuality, string>;
+  };
+  rotation: {
+    title: string;
+    template: string;
+    customPattern: string;
+    pattern: string;
+    patternHelp: string;
+    firstDay: string;
+    cycles: string;
+    until: string;
+    cycleCount: string;
+    lastDay: string;
+    preview: (shifts: number, days: number) => string;
+    differentShift: string;
+    dayOff: string;
+    conflicts: (count: number, dates: string) => string;
+    replaceConflicts: string;
+    addShifts: (count: number) => string;
+  };
+  shiftImport: {
+    title: string;
+    intro: string;
+    statuses: Record<ImportStatus, string>;
+    duplicate: (hours: string) => string;
+    dayOff: (hours: string) => string;
+    was: (hours: string, previous: string) => string;
+    column: (number: number) => string;
+    hasHeader: string;
+    dateColumn: string;
+    startColumn: string;
+    endColumn: string;
+    dateFormat: string;
+    unreadable: (count: number) => string;
+    dayShift: string;
+    nightShift: string;
+    replaceDaysOff: string;
+    importShifts: (count: number) => string;
+  };
+  restore: {
+    title: string;
+    intro: string;
+    failed: string;
+    found: (shifts: number, daysOff: number) => string;
+    replace: string;
+  };
+  calendarExport: {
+    title: string;
+    intro: string;
+    categories: Record<IcsCategory, string>;
+    reminder: string;
+    none: string;
+    atStart: string;
+    download: string;
+    events: Record<IcsCategory, string>;
+    alarm: (event: string, minutes: number) => string;
+  };
+  profile: {
+    title: string;
+    sleepNeed: string;
+    hoursANight: (hours: string) => string;
+    caffeineCutoff: string;
+    hoursBeforeSleep: (hours: string) => string;
+    lastMeal: string;
+    avoidNightMeals: (from: string, until: string) => string;
+    chronotype: string;
+    chronotypes: Record<Chronotype, string>;
+    commuteToWork: string;
+    commuteHome: string;
+    commitments: string;
+    name: string;
+    namePlaceholder: string;
+    from: string;
+    until: string;
+    repeatsOn: string;
+    addCommitment: string;
+    shortDays: (count: number, dates: string) => string;
+  };
+  errands: {
+    title: string;
+    intro: string;
+    name: string;
+    namePlaceholder: string;
+    opens: string;
+    closes: string;
+    openOn: string;
+    visitMinutes: string;
+    addErrand: string;
+  };
+  sleepImport: {
+    title: string;
+    intro: string;
+    formats: Record<SleepFileFormat, string>;
+    statuses: Record<SleepImportStatus, string>;
+    was: (slept: string, previous: string) => string;
+    nap: (slept: string) => string;
+    unmatched: (slept: string) => string;
+    unreadable: (count: number) => string;
+    entryError: (entry: number, message: string) => string;
+    noSleep: string;
+    logSleep: (days: number) => string;
+  };
+  reminderDialog: {
+    intro: string;
+    unsupported: string;
+    denied: string;
+    remindMe: string;
+    when: string;
+    atTheTime: string;
+    comingUp: string;
+  };
+  update: {
+    available: string;
+    later: string;
+    reload: string;
+  };
+  share: {
+    title: string;
+    intro: string;
+    link: string;
+    copy: string;
+    copied: string;
+    copyFailed: string;
+    showQrCode: string;
+    qrCode: string;
+    tooLong: string;
+    shareVia: string;
+    shareTitle: string;
+  };
+  sharedView: {
+    title: string;
+    intro: string;
+    replace: string;
+  };
+}
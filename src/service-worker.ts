@@ -0,0 +1,161 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Built into service-worker.js by the production build, which fills in self.__WB_MANIFEST with every
+// hashed asset. A new deploy changes that list, so the browser installs a new worker next to the old
+// one; it waits until the page asks it to take over (see serviceWorkerRegistration.ts).
+
+export {};
+
+interface PrecacheEntry {
+  url: string;
+  revision: string | null;
+}
+
+declare const self: ServiceWorkerGlobalScope & { __WB_MANIFEST: Array<PrecacheEntry | string> };
+
+interface ReminderMessage {
+  id: string;
+  time: Date;
+  title: string;
+  body: string;
+}
+
+const CACHE_PREFIX = 'nursesleep-';
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime`;
+// Copied from public/ rather than built, so the build does not list them
+const PUBLIC_FILES = ['manifest.json', 'favicon.ico', 'logo192.png', 'logo512.png'];
+
+const manifest = self.__WB_MANIFEST.map(entry => typeof entry === 'string' ? { url: entry, revision: null } : entry);
+
+// Each build gets its own cache, named after its asset list
+const hash = (text: string): string => {
+  let value = 0;
+  for (let i = 0; i < text.length; i++) {
+    value = (value * 31 + text.charCodeAt(i)) | 0;
+  }
+  return (value >>> 0).toString(36);
+};
+const PRECACHE = `${CACHE_PREFIX}${hash(JSON.stringify(manifest))}`;
+
+const scopeUrl = (path: string): string => new URL(path, self.registration.scope).href;
+const INDEX_URL = scopeUrl('index.html');
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(PRECACHE).then(cache => cache.addAll([
+      ...manifest.map(entry => entry.revision ? `${entry.url}?__rev=${entry.revision}` : entry.url),
+      ...PUBLIC_FILES.map(scopeUrl),
+    ]))
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith(CACHE_PREFIX) && key !== PRECACHE && key !== RUNTIME_CACHE)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Revisioned entries are stored under a cache-busting URL; look them up by their plain URL too
+const matchPrecache = async (request: Request): Promise<Response | undefined> => {
+  const cache = await caches.open(PRECACHE);
+  return (await cache.match(request, { ignoreSearch: true })) ?? undefined;
+};
+
+// Pages come from the network when there is one so a deploy shows up, and from the cache otherwise
+const handleNavigation = async (request: Request): Promise<Response> => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cached = await caches.match(INDEX_URL, { ignoreSearch: true });
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+// Anything else that was not precached, such as web fonts, is kept after the first successful load
+const handleAsset = async (request: Request): Promise<Response> => {
+  const cached = await matchPrecache(request) ?? await caches.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const copy = response.clone();
+    caches.open(RUNTIME_CACHE).then(cache => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || !request.url.startsWith('http')) {
+    return;
+  }
+  event.respondWith(request.mode === 'navigate' ? handleNavigation(request) : handleAsset(request));
+});
+
+// Reminders come from the page as { type: 'scheduleReminders', reminders }. Browsers stop idle workers,
+// so timers cannot live here; where Notification Triggers are available the browser shows them at the
+// right time even with the app closed, otherwise the page keeps the timers and shows them itself.
+// Notification Triggers are experimental, so the DOM typings do not have them
+declare class TimestampTrigger {
+  constructor(timestamp: number);
+}
+
+interface TriggerNotificationOptions extends NotificationOptions {
+  showTrigger: TimestampTrigger;
+}
+
+interface TriggerGetNotificationOptions extends GetNotificationOptions {
+  includeTriggered: boolean;
+}
+
+const supportsTriggers = (): boolean => 'showTrigger' in Notification.prototype && 'TimestampTrigger' in self;
+
+const scheduleReminders = async (reminders: ReminderMessage[]): Promise<void> => {
+  if (!supportsTriggers()) {
+    return;
+  }
+  const filter: TriggerGetNotificationOptions = { includeTriggered: true };
+  const pending = await self.registration.getNotifications(filter);
+  pending
+    .filter(notification => notification.data?.reminder)
+    .forEach(notification => notification.close());
+
+  await Promise.all(reminders.map(reminder => {
+    const options: TriggerNotificationOptions = {
+      body: reminder.body,
+      tag: reminder.id,
+      icon: scopeUrl('logo192.png'),
+      data: { reminder: true },
+      showTrigger: new TimestampTrigger(new Date(reminder.time).getTime()),
+    };
+    return self.registration.showNotification(reminder.title, options);
+  }));
+};
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'skipWaiting') {
+    self.skipWaiting();
+  } else if (event.data?.type === 'scheduleReminders') {
+    event.waitUntil(scheduleReminders(event.data.reminders));
+  }
+});
+
+// Tapping a reminder brings the app forward, or opens it if it was closed
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => 'focus' in client);
+      return open ? open.focus().then(() => undefined) : self.clients.openWindow(self.registration.scope).then(() => undefined);
+    })
+  );
+});
@@ -0,0 +1,63 @@
+// The worker is only built for production; in development the page talks to the dev server directly
+export const isServiceWorkerEnabled = (): boolean =>
+  process.env.NODE_ENV === 'production' && typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+type UpdateListener = (registration: ServiceWorkerRegistration) => void;
+
+const SERVICE_WORKER_URL = `${process.env.PUBLIC_URL}/service-worker.js`;
+
+const updateListeners = new Set<UpdateListener>();
+let waitingRegistration: ServiceWorkerRegistration | null = null;
+
+const announceUpdate = (registration: ServiceWorkerRegistration) => {
+  waitingRegistration = registration;
+  updateListeners.forEach(listener => listener(registration));
+};
+
+// A worker that finishes installing while an older one controls the page is a new deploy
+const watchForUpdates = (registration: ServiceWorkerRegistration) => {
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    announceUpdate(registration);
+  }
+  registration.addEventListener('updatefound', () => {
+    const installing = registration.installing;
+    installing?.addEventListener('statechange', () => {
+      if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+        announceUpdate(registration);
+      }
+    });
+  });
+  // Tabs stay open through whole shifts, so look for a deploy whenever the app comes back into view
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') {
+      registration.update().catch(() => undefined);
+    }
+  });
+};
+
+export const register = () => {
+  if (!isServiceWorkerEnabled()) {
+    return;
+  }
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL)
+      .then(watchForUpdates)
+      .catch(error => console.error('Service worker registration failed:', error));
+  });
+};
+
+export const onUpdateAvailable = (listener: UpdateListener): (() => void) => {
+  updateListeners.add(listener);
+  if (waitingRegistration) {
+    listener(waitingRegistration);
+  }
+  return () => {
+    updateListeners.delete(listener);
+  };
+};
+
+// The waiting worker takes over and the page reloads onto the new version
+export const applyUpdate = (registration: ServiceWorkerRegistration) => {
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  registration.waiting?.postMessage({ type: 'skipWaiting' });
+};
@@ -0,0 +1,158 @@
+export type ShiftType = 'day' | 'night';
+
+// Shift times are minutes after midnight; an end at or before the start runs into the next day
+export interface ShiftTimes {
+  start: number;
+  end: number;
+}
+
+export interface ShiftPreset extends ShiftTimes {
+  id: string;
+  name: string;
+}
+
+// Shifts without a time zone are in the schedule's zone; travel assignments keep the zone they were entered in
+export interface WorkDay extends ShiftTimes {
+  date: Date;
+  presetId?: string;
+  timeZone?: string;
+}
+
+// Agency or per-diem shifts outside the main job; they may share a date with a WorkDay
+export interface SecondJobDay extends ShiftTimes {
+  date: Date;
+  timeZone?: string;
+}
+
+// Second-job days saved before they had hours are read back as a day shift
+export const LEGACY_SECOND_JOB_TIMES: ShiftTimes = { start: 7 * 60, end: 19 * 60 };
+
+export type Chronotype = 'morning' | 'intermediate' | 'evening';
+
+// Repeats every week on the given weekdays (0 is Sunday), e.g. a school pickup
+export interface FixedCommitment extends ShiftTimes {
+  id: string;
+  name: string;
+  weekdays: number[];
+}
+
+// Opening hours of a place the nurse needs to get to, e.g. the bank; a visit takes `minutes`
+export interface Errand extends FixedCommitment {
+  minutes: number;
+}
+
+// Commutes are minutes of travel before and after every shift
+export interface SleepProfile {
+  sleepHours: number;
+  chronotype: Chronotype;
+  // How long before going to sleep the last caffeine should be
+  caffeineCutoffHours: number;
+  // How long before going to sleep the last large meal should be, and whether to keep
+  // to snacks in the small hours
+  mealBufferHours: number;
+  avoidNightMeals: boolean;
+  commuteToWork: number;
+  commuteFromWork: number;
+  commitments: FixedCommitment[];
+}
+
+export type SleepQuality = 1 | 2 | 3 | 4 | 5;
+
+// What actually happened for the sleep planned on `date`; start and end are full date-times
+export interface SleepLogEntry {
+  date: Date;
+  start: Date;
+  end: Date;
+  quality: SleepQuality;
+}
+
+export type ReminderKind = 'windDown' | 'nap' | 'caffeineCutoff' | 'wakeUp';
+
+// leadMinutes is how long before the planned time the reminder goes off
+export interface ReminderSetting {
+  enabled: boolean;
+  leadMinutes: number;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  kinds: Record<ReminderKind, ReminderSetting>;
+}
+
+export type AppLocale = 'en' | 'de' | 'es';
+
+export type ClockFormat = '12h' | '24h';
+
+// Language and clock for everything the app shows; exports meant to be read back stay in a fixed format
+export interface DisplaySettings {
+  locale: AppLocale;
+  clock: ClockFormat;
+}
+
+// Only what the user entered; recovery and preparation days and free time are derived from it
+export interface Schedule {
+  workDays: WorkDay[];
+  secondJobDays: SecondJobDay[];
+  daysOff: Date[];
+  shiftPresets: ShiftPreset[];
+  profile: SleepProfile;
+  sleepLog: SleepLogEntry[];
+  reminders: ReminderSettings;
+  display: DisplaySettings;
+  errands: Errand[];
+  // IANA name of the zone the user is in now, e.g. "America/Chicago"
+  timeZone: string;
+}
+
+export const DEFAULT_SHIFT_PRESETS: ShiftPreset[] = [
+  { id: 'day', name: 'Day (7a-7p)', start: 7 * 60, end: 19 * 60 },
+  { id: 'night', name: 'Night (7p-7a)', start: 19 * 60, end: 7 * 60 },
+  { id: 'evening', name: 'Evening (3p-11p)', start: 15 * 60, end: 23 * 60 },
+  { id: 'overnight', name: 'Overnight (11p-7a)', start: 23 * 60, end: 7 * 60 },
+  { id: 'day-10', name: 'Day 10h (7a-5p)', start: 7 * 60, end: 17 * 60 },
+];
+
+export const DEFAULT_ERRANDS: Errand[] = [
+  { id: 'bank', name: 'Bank', start: 9 * 60, end: 17 * 60, weekdays: [1, 2, 3, 4, 5], minutes: 30 },
+  { id: 'pharmacy', name: 'Pharmacy', start: 9 * 60, end: 19 * 60, weekdays: [1, 2, 3, 4, 5, 6], minutes: 15 },
+];
+
+export const DEFAULT_SLEEP_PROFILE: SleepProfile = {
+  sleepHours: 8,
+  chronotype: 'intermediate',
+  caffeineCutoffHours: 6,
+  mealBufferHours: 2,
+  avoidNightMeals: true,
+  commuteToWork: 0,
+  commuteFromWork: 0,
+  commitments: [],
+};
+
+// Off until the user allows notifications
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  kinds: {
+    windDown: { enabled: true, leadMinutes: 60 },
+    nap: { enabled: true, leadMinutes: 5 },
+    caffeineCutoff: { enabled: true, leadMinutes: 15 },
+    wakeUp: { enabled: true, leadMinutes: 0 },
+  },
+};
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  locale: 'en',
+  clock: '12h',
+};
+
+export const createEmptySchedule = (): Schedule => ({
+  workDays: [],
+  secondJobDays: [],
+  daysOff: [],
+  shiftPresets: DEFAULT_SHIFT_PRESETS,
+  profile: DEFAULT_SLEEP_PROFILE,
+  sleepLog: [],
+  reminders: DEFAULT_REMINDER_SETTINGS,
+  display: DEFAULT_DISPLAY_SETTINGS,
+  errands: DEFAULT_ERRANDS,
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+});
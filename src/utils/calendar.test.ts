@@ -0,0 +1,25 @@
+import { getMonthGrid } from './calendar';
+
+describe('getMonthGrid', () => {
+  test('covers the month in whole weeks starting on Sunday', () => {
+    const weeks = getMonthGrid(new Date(2025, 4, 17));
+
+    expect(weeks).toHaveLength(5);
+    expect(weeks[0][0]).toEqual(new Date(2025, 3, 27));
+    expect(weeks[4][6]).toEqual(new Date(2025, 4, 31));
+    weeks.forEach(week => expect(week).toHaveLength(7));
+  });
+
+  test('can start weeks on Monday', () => {
+    const weeks = getMonthGrid(new Date(2025, 5, 1), 1);
+
+    expect(weeks[0][0]).toEqual(new Date(2025, 4, 26));
+    expect(weeks[weeks.length - 1][6]).toEqual(new Date(2025, 6, 6));
+  });
+
+  test('keeps local midnight across a daylight saving change', () => {
+    getMonthGrid(new Date(2025, 2, 1)).flat().forEach(day => {
+      expect(day.getHours()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,13 @@
+import { addDays, endOfMonth, endOfWeek, startOfMonth, startOfWeek } from 'date-fns';
+
+// Whole weeks covering the month, including the spill-over days of the neighbouring months
+export const getMonthGrid = (month: Date, weekStartsOn: 0 | 1 = 0): Date[][] => {
+  const first = startOfWeek(startOfMonth(month), { weekStartsOn });
+  const last = endOfWeek(endOfMonth(month), { weekStartsOn });
+  const weeks: Date[][] = [];
+
+  for (let day = first; day <= last; day = addDays(day, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, index) => addDays(day, index)));
+  }
+  return weeks;
+};
@@ -0,0 +1,42 @@
+import { formatCsv, parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  test('splits plain rows and skips blank lines', () => {
+    expect(parseCsv('a,b,c\r\n\r\n1,2,3\n').rows).toEqual([
+      { line: 1, cells: ['a', 'b', 'c'] },
+      { line: 3, cells: ['1', '2', '3'] },
+    ]);
+  });
+
+  test('reads quoted fields with commas, doubled quotes and line breaks', () => {
+    const { rows, errors } = parseCsv('"Smith, J","say ""hi""","two\nlines"\nnext,row');
+
+    expect(errors).toEqual([]);
+    expect(rows[0].cells).toEqual(['Smith, J', 'say "hi"', 'two\nlines']);
+    expect(rows[1]).toEqual({ line: 3, cells: ['next', 'row'] });
+  });
+
+  test('reports an unterminated quote on the line where the record starts', () => {
+    expect(parseCsv('ok,row\n"never closed,1\n2').errors).toEqual([
+      { line: 2, error: { kind: 'unclosedQuote' } },
+    ]);
+  });
+
+  test('ignores a leading byte order mark', () => {
+    expect(parseCsv('\uFEFFDate,Start').rows[0].cells).toEqual(['Date', 'Start']);
+  });
+});
+
+describe('formatCsv', () => {
+  test('quotes only the cells that need it and ends records with CRLF', () => {
+    expect(formatCsv([['plain', 'a,b', 'say "hi"', 'two\nlines', ' padded']])).toBe(
+      'plain,"a,b","say ""hi""","two\nlines"," padded"\r\n'
+    );
+  });
+
+  test('round-trips through parseCsv', () => {
+    const rows = [['a,b', '"quoted"', ''], ['multi\r\nline', 'x', 'y']];
+
+    expect(parseCsv(formatCsv(rows)).rows.map(row => row.cells)).toEqual(rows);
+  });
+});
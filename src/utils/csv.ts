@@ -0,0 +1,95 @@
+import { ParseError } from './parseErrors';
+
+export interface CsvRow {
+  // 1-based line in the source text where the record starts
+  line: number;
+  cells: string[];
+}
+
+export interface LineError {
+  line: number;
+  error: ParseError;
+}
+
+export interface CsvParseResult {
+  rows: CsvRow[];
+  errors: LineError[];
+}
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+export const parseCsv = (text: string): CsvParseResult => {
+  const rows: CsvRow[] = [];
+  const errors: LineError[] = [];
+  const source = text.replace(/^\uFEFF/, '');
+
+  let line = 1;
+  let rowLine = 1;
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let afterQuote = false;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+    afterQuote = false;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+        afterQuote = true;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '' && !afterQuote) {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+      afterQuote = false;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      if (afterQuote) {
+        errors.push({ line, error: { kind: 'textAfterQuote' } });
+        afterQuote = false;
+      }
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    errors.push({ line: rowLine, error: { kind: 'unclosedQuote' } });
+  }
+  if (cell !== '' || cells.length > 0) {
+    endRow();
+  }
+  return { rows, errors };
+};
+
+const NEEDS_QUOTES = /[",\r\n]|^\s|\s$/;
+
+export const formatCsvCell = (value: string): string =>
+  NEEDS_QUOTES.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Records end with CRLF as RFC 4180 asks; spreadsheet apps accept it everywhere
+export const formatCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(formatCsvCell).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,19 @@
+import { DayType, getDayCategory } from './sleepPlan';
+
+export const getBackgroundColor = (dayType: DayType): string => {
+  const category = getDayCategory(dayType);
+  if (category === 'night') return '#f8f1ff'; // Softer purple
+  if (category === 'day') return '#f1f8ff'; // Softer blue
+  if (category === 'recovery') return '#f1fbf3'; // Softer green
+  if (category === 'preparation') return '#fff7f0'; // Softer orange
+  return '#fafafa'; // Light grey for regular days
+};
+
+export const getBorderColor = (dayType: DayType): string => {
+  const category = getDayCategory(dayType);
+  if (category === 'night') return '#e9d8ff'; // Light purple border
+  if (category === 'day') return '#d8ebff'; // Light blue border
+  if (category === 'recovery') return '#d8f2dc'; // Light green border
+  if (category === 'preparation') return '#ffe4cc'; // Light orange border
+  return '#f0f0f0'; // Light grey border
+};
@@ -0,0 +1,136 @@
+import { WorkDay } from '../types';
+import { DayRule, DEFAULT_DAY_RULES, deriveScheduledDays } from './dayRules';
+
+const NIGHT = { start: 19 * 60, end: 7 * 60 };
+const DAY = { start: 7 * 60, end: 19 * 60 };
+const day = (d: number) => new Date(2025, 4, d);
+
+const summarize = (workDays: WorkDay[], rules?: DayRule[]) =>
+  deriveScheduledDays(workDays, rules).map(({ date, kind }) => `${date.getDate()}:${kind}`);
+
+describe('deriveScheduledDays', () => {
+  test('surrounds a single shift with chore, preparation and recovery days', () => {
+    expect(summarize([{ date: day(10), ...DAY }])).toEqual([
+      '8:productive',
+      '9:preparation',
+      '10:work',
+      '11:recovery',
+    ]);
+  });
+
+  test('adds two recovery days after three or more nights', () => {
+    expect(summarize([10, 11, 12].map(d => ({ date: day(d), ...NIGHT })))).toEqual([
+      '8:productive',
+      '9:preparation',
+      '10:work',
+      '11:work',
+      '12:work',
+      '13:recovery',
+      '14:recovery',
+    ]);
+  });
+
+  test('keeps a single recovery day after two nights', () => {
+    expect(summarize([10, 11].map(d => ({ date: day(d), ...NIGHT })))).toContain('12:recovery');
+    expect(summarize([10, 11].map(d => ({ date: day(d), ...NIGHT })))).not.toContain('13:recovery');
+  });
+
+  describe('adjacent shifts', () => {
+    test('leaves no auxiliary days between shifts on consecutive days', () => {
+      expect(summarize([{ date: day(10), ...DAY }, { date: day(11), ...DAY }])).toEqual([
+        '8:productive',
+        '9:preparation',
+        '10:work',
+        '11:work',
+        '12:recovery',
+      ]);
+    });
+
+    test('recovers from a night shift before preparing for a day shift', () => {
+      expect(summarize([{ date: day(10), ...NIGHT }, { date: day(11), ...DAY }])).toEqual([
+        '8:productive',
+        '9:preparation',
+        '10:work',
+        '11:work',
+        '12:recovery',
+      ]);
+    });
+
+    test('prefers recovery over preparation on a single day between two shifts', () => {
+      expect(summarize([{ date: day(10), ...DAY }, { date: day(12), ...DAY }])).toEqual([
+        '8:productive',
+        '9:preparation',
+        '10:work',
+        '11:recovery',
+        '12:work',
+        '13:recovery',
+      ]);
+    });
+
+    test('upgrades a chore day to preparation when another shift moves closer', () => {
+      expect(summarize([{ date: day(10), ...DAY }, { date: day(13), ...DAY }])).toEqual([
+        '8:productive',
+        '9:preparation',
+        '10:work',
+        '11:recovery',
+        '12:preparation',
+        '13:work',
+        '14:recovery',
+      ]);
+    });
+  });
+
+  describe('overlapping shifts', () => {
+    test('never replaces a shift with a derived day', () => {
+      const days = summarize([10, 11, 12].map(d => ({ date: day(d), ...NIGHT })).concat([
+        { date: day(14), ...DAY },
+      ]));
+
+      expect(days).toContain('14:work');
+      expect(days).toContain('13:recovery');
+      expect(days).not.toContain('14:recovery');
+    });
+
+    test('lists a date only once when two shifts share it', () => {
+      expect(summarize([{ date: day(10), ...DAY }, { date: day(10), ...NIGHT }])).toEqual([
+        '8:productive',
+        '9:preparation',
+        '10:work',
+        '11:recovery',
+      ]);
+    });
+
+    test('ignores the time of day on entered dates', () => {
+      const days = deriveScheduledDays([{ date: new Date(2025, 4, 10, 13, 45), ...DAY }]);
+
+      expect(days.map(d => d.date.getDate())).toEqual([8, 9, 10, 11]);
+    });
+  });
+
+  test('keeps days the user marked as off', () => {
+    expect(deriveScheduledDays([{ date: day(10), ...DAY }], DEFAULT_DAY_RULES, [day(9), day(20)])
+      .map(({ date, kind }) => `${date.getDate()}:${kind}`)).toEqual([
+      '8:productive',
+      '9:off',
+      '10:work',
+      '11:recovery',
+      '20:off',
+    ]);
+  });
+
+  test('applies custom rules', () => {
+    const rules: DayRule[] = [
+      ...DEFAULT_DAY_RULES.filter(rule => rule.kind !== 'productive'),
+      { kind: 'recovery', placement: 'after', offset: 1, count: 3, shiftType: 'night', minRunLength: 2 },
+    ];
+
+    expect(summarize([10, 11].map(d => ({ date: day(d), ...NIGHT })), rules)).toEqual([
+      '9:preparation',
+      '10:work',
+      '11:work',
+      '12:recovery',
+      '13:recovery',
+      '14:recovery',
+    ]);
+  });
+});
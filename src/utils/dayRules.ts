@@ -0,0 +1,80 @@
+import { addDays, startOfDay } from 'date-fns';
+import { ShiftType, WorkDay } from '../types';
+import { findShiftRuns, ShiftRun } from './shiftRuns';
+
+export type AuxiliaryDayKind = 'recovery' | 'preparation' | 'productive';
+
+export type ScheduledDayKind = 'work' | 'off' | AuxiliaryDayKind;
+
+export interface ScheduledDay {
+  date: Date;
+  kind: ScheduledDayKind;
+}
+
+// Places `count` days of `kind` before or after every matching run of shifts.
+// `offset` is the distance in days from the run to the first derived day.
+export interface DayRule {
+  kind: AuxiliaryDayKind;
+  placement: 'before' | 'after';
+  offset: number;
+  count: number;
+  shiftType?: ShiftType;
+  minRunLength?: number;
+}
+
+export const DEFAULT_DAY_RULES: DayRule[] = [
+  { kind: 'recovery', placement: 'after', offset: 1, count: 1 },
+  { kind: 'recovery', placement: 'after', offset: 1, count: 2, shiftType: 'night', minRunLength: 3 },
+  { kind: 'preparation', placement: 'before', offset: 1, count: 1 },
+  { kind: 'productive', placement: 'before', offset: 2, count: 1 },
+];
+
+// When rules land on the same date the more demanding day wins; days the user
+// marked as off still beat anything derived
+const PRIORITY: Record<ScheduledDayKind, number> = {
+  work: 4,
+  off: 3,
+  recovery: 2,
+  preparation: 1,
+  productive: 0,
+};
+
+const appliesTo = (rule: DayRule, run: ShiftRun): boolean =>
+  (!rule.shiftType || rule.shiftType === run.shiftType) &&
+  run.workDays.length >= (rule.minRunLength ?? 1);
+
+export const deriveScheduledDays = (
+  workDays: WorkDay[],
+  rules: DayRule[] = DEFAULT_DAY_RULES,
+  daysOff: Date[] = []
+): ScheduledDay[] => {
+  const days = new Map<number, ScheduledDay>();
+  const place = (day: ScheduledDay) => {
+    const key = startOfDay(day.date).getTime();
+    const existing = days.get(key);
+    if (!existing || PRIORITY[day.kind] > PRIORITY[existing.kind]) {
+      days.set(key, day);
+    }
+  };
+
+  const runs = findShiftRuns(workDays);
+  runs.forEach(run => run.workDays.forEach(wd => place({ date: wd.date, kind: 'work' })));
+  daysOff.forEach(date => place({ date, kind: 'off' }));
+
+  runs.forEach(run => {
+    const first = run.workDays[0].date;
+    const last = run.workDays[run.workDays.length - 1].date;
+
+    rules.filter(rule => appliesTo(rule, run)).forEach(rule => {
+      for (let i = 0; i < rule.count; i++) {
+        const distance = rule.offset + i;
+        place({
+          date: startOfDay(rule.placement === 'after' ? addDays(last, distance) : addDays(first, -distance)),
+          kind: rule.kind,
+        });
+      }
+    });
+  });
+
+  return Array.from(days.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+};
@@ -0,0 +1,68 @@
+import { createEmptySchedule, Schedule } from '../types';
+import { buildSleepPlan } from './sleepPlan';
+import { assessFatigue, findDayFatigue } from './fatigue';
+
+const day = (d: number) => new Date(2025, 4, d);
+const NIGHT = { start: 19 * 60, end: 7 * 60 };
+const DAY = { start: 7 * 60, end: 19 * 60 };
+const SHORT_DAY = { start: 8 * 60, end: 16 * 60 };
+
+const assess = (workDays: Schedule['workDays']) =>
+  assessFatigue(buildSleepPlan({ ...createEmptySchedule(), workDays }));
+const kinds = (fatigue: ReturnType<typeof assess>, d: number) =>
+  findDayFatigue(fatigue, day(d))?.warnings.map(warning => warning.kind);
+
+describe('assessFatigue', () => {
+  test('flags a shift starting less than 11 hours after the last one ended', () => {
+    const fatigue = assess([{ date: day(10), ...NIGHT }, { date: day(11), start: 15 * 60, end: 23 * 60 }]);
+
+    expect(findDayFatigue(fatigue, day(11))).toMatchObject({
+      level: 'high',
+      warnings: expect.arrayContaining([{ kind: 'quickReturn', gapMinutes: 8 * 60 }]),
+    });
+    expect(kinds(fatigue, 10)).not.toContain('quickReturn');
+  });
+
+  test('flags the fifth night in a row but not the fourth', () => {
+    const fatigue = assess([11, 12, 13, 14, 15].map(d => ({ date: day(d), ...NIGHT })));
+
+    expect(kinds(fatigue, 14)).not.toContain('longNightRun');
+    expect(findDayFatigue(fatigue, day(15))?.warnings).toContainEqual({ kind: 'longNightRun', nights: 5 });
+  });
+
+  test('flags the fourth 12-hour shift in a row', () => {
+    const fatigue = assess([11, 12, 13, 14].map(d => ({ date: day(d), ...DAY })));
+
+    expect(kinds(fatigue, 13)).toEqual([]);
+    expect(findDayFatigue(fatigue, day(14))).toMatchObject({
+      level: 'moderate',
+      warnings: [{ kind: 'longShiftRun', shifts: 4 }],
+    });
+  });
+
+  test('does not count shifts with a day off between them as a run', () => {
+    const fatigue = assess([11, 12, 14, 15].map(d => ({ date: day(d), ...DAY })));
+
+    expect(fatigue.flatMap(d => d.warnings)).toEqual([]);
+  });
+
+  test('scores night shifts as more tiring than day shifts and free days', () => {
+    const fatigue = assess([{ date: day(10), ...NIGHT }, { date: day(13), ...SHORT_DAY }]);
+    const night = findDayFatigue(fatigue, day(10))!;
+
+    expect(night.score).toBeGreaterThan(findDayFatigue(fatigue, day(13))!.score);
+    expect(night.score).toBeGreaterThan(findDayFatigue(fatigue, day(12))!.score);
+    expect(night.warnings).toContainEqual(expect.objectContaining({ kind: 'highScore', score: night.score }));
+    expect(findDayFatigue(fatigue, day(13))?.level).toBe('low');
+  });
+
+  test('reads the body clock in the zone the days are planned in', () => {
+    const inZone = (timeZone: string) => assessFatigue(buildSleepPlan({
+      ...createEmptySchedule(),
+      timeZone,
+      workDays: [{ date: day(10), ...NIGHT }, { date: day(13), ...SHORT_DAY }],
+    }));
+
+    expect(inZone('Asia/Tokyo').map(d => d.score)).toEqual(inZone('UTC').map(d => d.score));
+  });
+});
@@ -0,0 +1,214 @@
+import { addDays, addMinutes, differenceInMinutes, isSameDay, max } from 'date-fns';
+import { DayPlan, getDayCategory } from './sleepPlan';
+import { atMinutes, overlapMinutes, TimeWindow } from './time';
+import { toZonedClock } from './timeZones';
+
+export type FatigueLevel = 'low' | 'moderate' | 'high';
+
+export type FatigueWarning =
+  | { kind: 'quickReturn'; gapMinutes: number }
+  | { kind: 'longNightRun'; nights: number }
+  | { kind: 'longShiftRun'; shifts: number }
+  | { kind: 'highScore'; score: number; time: Date };
+
+export interface DayFatigue {
+  date: Date;
+  // Predicted peak fatigue from 0 (fully alert) to 100, during the shift on work days
+  score: number;
+  level: FatigueLevel;
+  warnings: FatigueWarning[];
+}
+
+export const QUICK_RETURN_MINUTES = 11 * 60;
+export const MAX_NIGHTS_IN_ROW = 4;
+export const LONG_SHIFT_MINUTES = 12 * 60;
+export const MAX_LONG_SHIFTS_IN_ROW = 3;
+
+const MODERATE_SCORE = 60;
+const HIGH_SCORE = 75;
+
+// Simplified two-process model: sleep pressure builds while awake and drains while asleep,
+// and a circadian term adds sleepiness that peaks in the early morning
+const STEP_MINUTES = 15;
+const INITIAL_PRESSURE = 0.7;
+const WAKE_TIME_CONSTANT = 18.2 * 60;
+const SLEEP_TIME_CONSTANT = 4.2 * 60;
+const CIRCADIAN_PEAK = 5 * 60;
+const PRESSURE_WEIGHT = 0.6;
+
+const LEVEL_ORDER: FatigueLevel[] = ['low', 'moderate', 'high'];
+
+const RULE_LEVELS: Record<Exclude<FatigueWarning['kind'], 'highScore'>, FatigueLevel> = {
+  quickReturn: 'high',
+  longNightRun: 'high',
+  longShiftRun: 'moderate',
+};
+
+interface FatigueSample {
+  time: Date;
+  fatigue: number;
+  awake: boolean;
+}
+
+const getShiftWindows = (plan: DayPlan): TimeWindow[] => [
+  ...(plan.shift ? [plan.shift] : []),
+  ...(plan.secondJob ? [plan.secondJob] : []),
+];
+
+const getScoreLevel = (score: number): FatigueLevel => {
+  if (score >= HIGH_SCORE) return 'high';
+  if (score >= MODERATE_SCORE) return 'moderate';
+  return 'low';
+};
+
+const highestLevel = (levels: FatigueLevel[]): FatigueLevel =>
+  LEVEL_ORDER[Math.max(0, ...levels.map(level => LEVEL_ORDER.indexOf(level)))];
+
+// Reads the hour off the clock of the zone the sampled day is planned in
+const circadianSleepiness = (time: Date, timeZone: string): number => {
+  const clock = toZonedClock(time, timeZone);
+  const minutes = clock.getHours() * 60 + clock.getMinutes();
+  return (Math.cos((2 * Math.PI * (minutes - CIRCADIAN_PEAK)) / (24 * 60)) + 1) / 2;
+};
+
+// Samples every STEP_MINUTES from the first planned sleep, in time order
+const simulateFatigue = (plans: DayPlan[]): FatigueSample[] => {
+  if (plans.length === 0) {
+    return [];
+  }
+  const asleep = plans
+    .flatMap(plan => [plan.sleep, ...plan.naps])
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const start = new Date(Math.min(...asleep.map(window => window.start.getTime())));
+  const end = max([
+    atMinutes(plans[plans.length - 1].date, 24 * 60, plans[plans.length - 1].timeZone),
+    ...plans.flatMap(getShiftWindows).map(window => window.end),
+  ]);
+
+  const samples: FatigueSample[] = [];
+  let pressure = INITIAL_PRESSURE;
+  let next = 0;
+  let day = 0;
+  for (let time = start; time < end; time = addMinutes(time, STEP_MINUTES)) {
+    const step = { start: time, end: addMinutes(time, STEP_MINUTES) };
+    while (day + 1 < plans.length && atMinutes(plans[day + 1].date, 0, plans[day + 1].timeZone) <= time) {
+      day++;
+    }
+    while (next < asleep.length && asleep[next].end <= step.start) {
+      next++;
+    }
+    let awake = true;
+    for (let i = next; i < asleep.length && asleep[i].start < step.end; i++) {
+      awake = awake && overlapMinutes(asleep[i], step) === 0;
+    }
+    pressure = awake
+      ? 1 - (1 - pressure) * Math.exp(-STEP_MINUTES / WAKE_TIME_CONSTANT)
+      : pressure * Math.exp(-STEP_MINUTES / SLEEP_TIME_CONSTANT);
+    const fatigue = PRESSURE_WEIGHT * pressure + (1 - PRESSURE_WEIGHT) * circadianSleepiness(time, plans[day].timeZone);
+    samples.push({ time, fatigue: Math.round(fatigue * 100), awake });
+  }
+  return samples;
+};
+
+const samplesDuring = (samples: FatigueSample[], window: TimeWindow): FatigueSample[] => {
+  if (samples.length === 0) {
+    return [];
+  }
+  const stepMs = STEP_MINUTES * 60000;
+  const origin = samples[0].time.getTime();
+  return samples.slice(
+    Math.max(0, Math.ceil((window.start.getTime() - origin) / stepMs)),
+    Math.max(0, Math.ceil((window.end.getTime() - origin) / stepMs))
+  );
+};
+
+// Work days are scored over their shifts; other days from waking up until midnight where they are planned,
+// leaving out any shift from the day before that is still running
+const getScoredWindows = (plan: DayPlan, plans: DayPlan[]): { windows: TimeWindow[]; exclude: TimeWindow[] } => {
+  const shifts = getShiftWindows(plan);
+  if (shifts.length > 0) {
+    return { windows: shifts, exclude: [] };
+  }
+  return {
+    windows: [{
+      start: max([atMinutes(plan.date, 0, plan.timeZone), plan.sleep.end]),
+      end: atMinutes(plan.date, 24 * 60, plan.timeZone),
+    }],
+    exclude: plans.flatMap(getShiftWindows),
+  };
+};
+
+const countStreak = (plans: DayPlan[], index: number, matches: (plan: DayPlan) => boolean): number => {
+  let count = 0;
+  for (let i = index; i >= 0 && matches(plans[i]); i--) {
+    if (i < index && !isSameDay(addDays(plans[i].date, 1), plans[i + 1].date)) {
+      break;
+    }
+    count++;
+  }
+  return count;
+};
+
+const isNightShift = (plan: DayPlan): boolean => !!plan.shift && getDayCategory(plan.dayType) === 'night';
+
+const isLongShift = (plan: DayPlan): boolean =>
+  getShiftWindows(plan).some(window => differenceInMinutes(window.end, window.start) >= LONG_SHIFT_MINUTES);
+
+const findRuleWarnings = (plans: DayPlan[], index: number): FatigueWarning[] => {
+  const plan = plans[index];
+  const warnings: FatigueWarning[] = [];
+  const shifts = plans.flatMap(getShiftWindows).sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const quickReturn = getShiftWindows(plan)
+    .map(window => {
+      const previous = shifts.filter(shift => shift.start < window.start).pop();
+      return previous ? differenceInMinutes(window.start, previous.end) : Infinity;
+    })
+    .reduce((shortest, gap) => Math.min(shortest, gap), Infinity);
+  if (quickReturn < QUICK_RETURN_MINUTES) {
+    warnings.push({ kind: 'quickReturn', gapMinutes: Math.max(0, quickReturn) });
+  }
+
+  const nights = countStreak(plans, index, isNightShift);
+  if (nights > MAX_NIGHTS_IN_ROW) {
+    warnings.push({ kind: 'longNightRun', nights });
+  }
+
+  const longShifts = countStreak(plans, index, isLongShift);
+  if (longShifts > MAX_LONG_SHIFTS_IN_ROW) {
+    warnings.push({ kind: 'longShiftRun', shifts: longShifts });
+  }
+  return warnings;
+};
+
+export const assessFatigue = (plans: DayPlan[]): DayFatigue[] => {
+  const sorted = [...plans].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const samples = simulateFatigue(sorted);
+
+  return sorted.map((plan, index) => {
+    const { windows, exclude } = getScoredWindows(plan, sorted);
+    const peak = windows
+      .flatMap(window => samplesDuring(samples, window))
+      .filter(sample => sample.awake && !exclude.some(window => sample.time >= window.start && sample.time < window.end))
+      .reduce<FatigueSample | undefined>((highest, sample) =>
+        !highest || sample.fatigue > highest.fatigue ? sample : highest, undefined);
+
+    const score = peak?.fatigue ?? 0;
+    const warnings = findRuleWarnings(sorted, index);
+    if (peak && score >= MODERATE_SCORE) {
+      warnings.push({ kind: 'highScore', score, time: peak.time });
+    }
+    return {
+      date: plan.date,
+      score,
+      level: highestLevel([
+        getScoreLevel(score),
+        ...warnings.flatMap(warning => warning.kind === 'highScore' ? [] : [RULE_LEVELS[warning.kind]]),
+      ]),
+      warnings,
+    };
+  });
+};
+
+export const findDayFatigue = (fatigue: DayFatigue[], date: Date): DayFatigue | undefined =>
+  fatigue.find(day => isSameDay(day.date, date));
@@ -0,0 +1,86 @@
+import { createEmptySchedule, DEFAULT_ERRANDS, DEFAULT_SLEEP_PROFILE, Errand, Schedule } from '../types';
+import { buildSleepPlan, getPlanConfig } from './sleepPlan';
+import { buildFreeTime, createErrandId, isValidErrand, summarizeFreeTimeByWeek } from './freeTime';
+
+const day = (d: number, hours = 0, minutes = 0) => new Date(2025, 4, d, hours, minutes);
+const [BANK, PHARMACY] = DEFAULT_ERRANDS;
+
+// Monday, May 12, with half an hour of travel each way
+const dayShiftSchedule = (profile = {}): Schedule => ({
+  ...createEmptySchedule(),
+  workDays: [{ date: day(12), start: 7 * 60, end: 19 * 60 }],
+  profile: { ...DEFAULT_SLEEP_PROFILE, commuteToWork: 30, commuteFromWork: 30, ...profile },
+});
+
+const freeTimeFor = (schedule: Schedule, errands: Errand[] = DEFAULT_ERRANDS) => {
+  const config = getPlanConfig(schedule.profile);
+  return buildFreeTime(buildSleepPlan(schedule, config), errands, config);
+};
+
+describe('buildFreeTime', () => {
+  test('leaves out sleep, the shift and the commute either side of it', () => {
+    const shiftDay = freeTimeFor(dayShiftSchedule()).find(free => free.date.getDate() === 12)!;
+
+    expect(shiftDay.blocks).toEqual([
+      { start: day(12, 5, 30), end: day(12, 6, 30) },
+      { start: day(12, 19, 30), end: day(12, 22) },
+    ]);
+    expect(shiftDay.minutes).toBe(210);
+    expect(shiftDay.errands).toEqual([]);
+  });
+
+  test('fits errands into the first free stretch that is open long enough', () => {
+    const dayAfter = freeTimeFor(dayShiftSchedule()).find(free => free.date.getDate() === 13)!;
+
+    expect(dayAfter.errands).toEqual([
+      { errand: BANK, window: { start: day(13, 9), end: day(13, 14) } },
+      { errand: PHARMACY, window: { start: day(13, 9), end: day(13, 14) } },
+    ]);
+  });
+
+  test('keeps fixed commitments out of the free time', () => {
+    const commitment = { id: 'class', name: 'Class', start: 9 * 60, end: 13 * 60 + 45, weekdays: [2] };
+    const dayAfter = freeTimeFor(dayShiftSchedule({ commitments: [commitment] }))
+      .find(free => free.date.getDate() === 13)!;
+
+    expect(dayAfter.blocks[0]).toEqual({ start: day(13, 6), end: day(13, 9) });
+    expect(dayAfter.errands).toEqual([
+      { errand: BANK, window: { start: day(13, 15), end: day(13, 17) } },
+      { errand: PHARMACY, window: { start: day(13, 15), end: day(13, 19) } },
+    ]);
+  });
+
+  test('only counts errands on the weekdays they are open', () => {
+    const sunday = freeTimeFor(dayShiftSchedule()).find(free => free.date.getDay() === 0)!;
+
+    expect(sunday.errands).toEqual([]);
+  });
+});
+
+describe('summarizeFreeTimeByWeek', () => {
+  test('adds up the free time and errand days of each week', () => {
+    const days = freeTimeFor(dayShiftSchedule());
+    const thisWeek = days.filter(free => free.date >= day(12));
+    const weeks = summarizeFreeTimeByWeek(days, DEFAULT_ERRANDS, 1);
+    const week = weeks[weeks.length - 1];
+
+    expect(weeks.map(({ start }) => start)).toEqual([day(5), day(12)]);
+    expect(week.days).toBe(thisWeek.length);
+    expect(week.minutes).toBe(thisWeek.reduce((total, free) => total + free.minutes, 0));
+    expect(week.errands.map(({ errand, days: count }) => [errand.id, count])).toEqual([['bank', 1], ['pharmacy', 1]]);
+  });
+});
+
+describe('errands', () => {
+  test('need a name, a weekday and a visit that fits the opening hours', () => {
+    expect(isValidErrand(BANK)).toBe(true);
+    expect(isValidErrand({ ...BANK, name: ' ' })).toBe(false);
+    expect(isValidErrand({ ...BANK, weekdays: [] })).toBe(false);
+    expect(isValidErrand({ ...BANK, minutes: 9 * 60 })).toBe(false);
+  });
+
+  test('get ids that are not taken yet', () => {
+    expect(createErrandId('Gym', DEFAULT_ERRANDS)).toBe('gym');
+    expect(createErrandId('Bank', DEFAULT_ERRANDS)).toBe('bank-2');
+  });
+});
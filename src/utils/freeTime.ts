@@ -0,0 +1,109 @@
+import { addDays, addMinutes, differenceInMinutes, isSameDay, max, min, startOfWeek } from 'date-fns';
+import { Errand } from '../types';
+import { DayPlan, DEFAULT_PLAN_CONFIG, getUsualSleep, PlanConfig } from './sleepPlan';
+import { getCommitmentWindows } from './profile';
+import { createUniqueId, getShiftMinutes } from './shifts';
+import { atMinutes, subtractWindows, TimeWindow } from './time';
+
+// Gaps shorter than this are not worth counting as free time
+export const MIN_FREE_MINUTES = 30;
+
+// Where in the day's free time a place is open long enough for the visit
+export interface ErrandSlot {
+  errand: Errand;
+  window: TimeWindow;
+}
+
+export interface DayFreeTime {
+  date: Date;
+  blocks: TimeWindow[];
+  minutes: number;
+  errands: ErrandSlot[];
+}
+
+// `errands` counts the days of the week each errand fits on
+export interface WeekFreeTime {
+  start: Date;
+  days: number;
+  minutes: number;
+  errands: { errand: Errand; days: number }[];
+}
+
+const minutesBetween = (window: TimeWindow): number => differenceInMinutes(window.end, window.start);
+
+export const isValidErrand = (errand: Errand): boolean =>
+  errand.name.trim() !== '' && errand.weekdays.length > 0 &&
+  errand.minutes > 0 && errand.minutes <= getShiftMinutes(errand);
+
+export const createErrandId = (name: string, errands: Errand[]): string =>
+  createUniqueId(name, errands.map(errand => errand.id), 'errand');
+
+// Sleep, naps and shifts with the travel either side of them. A day with no plan after it
+// ends in the usual night's sleep, since nothing else is known about that night.
+const getBusyWindows = (plans: DayPlan[], config: PlanConfig): TimeWindow[] => plans.flatMap(plan => {
+  const hasNextPlan = plans.some(next => isSameDay(next.date, addDays(plan.date, 1)));
+  return [
+    plan.sleep,
+    ...plan.naps,
+    ...[plan.shift, plan.secondJob].flatMap(shift => shift ? [{
+      start: addMinutes(shift.start, -config.commuteToWork),
+      end: addMinutes(shift.end, config.commuteFromWork),
+    }] : []),
+    ...(hasNextPlan ? [] : [getUsualSleep(plan.date, plan.timeZone, config)]),
+  ];
+});
+
+// Awake time between midnight and midnight that is not spent at work, commuting or on a commitment,
+// and the first stretch of it each errand is open long enough to fit in
+export const buildFreeTime = (
+  plans: DayPlan[],
+  errands: Errand[],
+  config: PlanConfig = DEFAULT_PLAN_CONFIG
+): DayFreeTime[] => {
+  const busy = getBusyWindows(plans, config);
+  return plans.map(plan => {
+    const day = { start: atMinutes(plan.date, 0, plan.timeZone), end: atMinutes(plan.date, 24 * 60, plan.timeZone) };
+    const blocks = subtractWindows(day, [...busy, ...getCommitmentWindows(config.commitments, day, plan.timeZone)])
+      .filter(block => minutesBetween(block) >= MIN_FREE_MINUTES);
+    const openings = getCommitmentWindows(errands, day, plan.timeZone);
+    const slots = errands.flatMap(errand => {
+      const window = openings
+        .filter(opening => opening.commitment.id === errand.id)
+        .flatMap(opening => blocks.map(block => ({
+          start: max([block.start, opening.start]),
+          end: min([block.end, opening.end]),
+        })))
+        .find(part => minutesBetween(part) >= errand.minutes);
+      return window ? [{ errand, window }] : [];
+    });
+    return {
+      date: plan.date,
+      blocks,
+      minutes: blocks.reduce((total, block) => total + minutesBetween(block), 0),
+      errands: slots,
+    };
+  });
+};
+
+export const summarizeFreeTimeByWeek = (
+  days: DayFreeTime[],
+  errands: Errand[],
+  weekStartsOn: 0 | 1 = 0
+): WeekFreeTime[] => {
+  const weeks = new Map<number, DayFreeTime[]>();
+  days.forEach(day => {
+    const key = startOfWeek(day.date, { weekStartsOn }).getTime();
+    weeks.set(key, [...(weeks.get(key) ?? []), day]);
+  });
+  return Array.from(weeks.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, weekDays]) => ({
+      start: new Date(start),
+      days: weekDays.length,
+      minutes: weekDays.reduce((total, day) => total + day.minutes, 0),
+      errands: errands.map(errand => ({
+        errand,
+        days: weekDays.filter(day => day.errands.some(slot => slot.errand.id === errand.id)).length,
+      })),
+    }));
+};
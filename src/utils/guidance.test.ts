@@ -0,0 +1,59 @@
+import { createEmptySchedule, Schedule } from '../types';
+import { buildSleepPlan, DEFAULT_PLAN_CONFIG } from './sleepPlan';
+import { buildGuidance, findDayGuidance, getCircadianDirection } from './guidance';
+
+const day = (d: number, hours = 0, minutes = 0) => new Date(2025, 4, d, hours, minutes);
+
+const nightSchedule = (): Schedule => ({
+  ...createEmptySchedule(),
+  workDays: [{ date: day(10), start: 19 * 60, end: 7 * 60 }],
+});
+
+const guidanceFor = (d: number, config = DEFAULT_PLAN_CONFIG) =>
+  findDayGuidance(buildGuidance(buildSleepPlan(nightSchedule(), config), config), day(d))!.items;
+
+describe('buildGuidance', () => {
+  test('stops caffeine a set time before the next sleep', () => {
+    expect(guidanceFor(10)).toContainEqual({ kind: 'caffeineCutoff', window: { start: day(11, 2), end: day(11, 8) } });
+    expect(guidanceFor(10, { ...DEFAULT_PLAN_CONFIG, caffeineCutoffMinutes: 4 * 60 }))
+      .toContainEqual({ kind: 'caffeineCutoff', window: { start: day(11, 4), end: day(11, 8) } });
+  });
+
+  test('never starts the caffeine cutoff before waking up', () => {
+    expect(guidanceFor(11)).toContainEqual({ kind: 'caffeineCutoff', window: { start: day(11, 16), end: day(11, 22) } });
+  });
+
+  test('seeks light early in a night shift and avoids it on the way home', () => {
+    expect(guidanceFor(10)).toEqual(expect.arrayContaining([
+      { kind: 'brightLight', direction: 'delay', window: { start: day(10, 19), end: day(11, 1) } },
+      { kind: 'avoidLight', direction: 'delay', window: { start: day(11, 7), end: day(11, 8) } },
+    ]));
+  });
+
+  test('keeps the evening bright before the first night', () => {
+    expect(guidanceFor(9)).toContainEqual(
+      { kind: 'brightLight', direction: 'delay', window: { start: day(9, 20), end: day(9, 22) } }
+    );
+  });
+
+  test('moves the body clock back with morning light and a dim evening after nights', () => {
+    expect(guidanceFor(11)).toEqual(expect.arrayContaining([
+      { kind: 'brightLight', direction: 'advance', window: { start: day(11, 16), end: day(11, 18) } },
+      { kind: 'avoidLight', direction: 'advance', window: { start: day(11, 20), end: day(11, 22) } },
+    ]));
+  });
+
+  test('gives no light advice on ordinary days off', () => {
+    const plans = buildSleepPlan({ ...createEmptySchedule(), daysOff: [day(14)] });
+
+    expect(findDayGuidance(buildGuidance(plans), day(14))?.items.map(item => item.kind)).toEqual(['caffeineCutoff']);
+  });
+});
+
+describe('getCircadianDirection', () => {
+  test('delays for nights and advances when returning to days', () => {
+    expect(getCircadianDirection('firstNight')).toBe('delay');
+    expect(getCircadianDirection('nightRecovery')).toBe('advance');
+    expect(getCircadianDirection('dayOff')).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { addMinutes, isSameDay, max, min } from 'date-fns';
+import { DayPlan, DayType, DEFAULT_PLAN_CONFIG, getNextSleep, getUsualSleep, PlanConfig } from './sleepPlan';
+import { TimeWindow } from './time';
+
+// Which way the body clock has to move: later for night shifts, earlier when going back to days
+export type CircadianDirection = 'delay' | 'advance';
+
+export type GuidanceKind = 'caffeineCutoff' | 'brightLight' | 'avoidLight';
+
+// Every item is a window: no caffeine from the cutoff until the next sleep, or when to seek out or avoid light
+export type GuidanceItem =
+  | { kind: 'caffeineCutoff'; window: TimeWindow }
+  | { kind: 'brightLight' | 'avoidLight'; window: TimeWindow; direction: CircadianDirection };
+
+export interface DayGuidance {
+  date: Date;
+  items: GuidanceItem[];
+}
+
+export const LIGHT_WINDOW_MINUTES = 2 * 60;
+
+const DIRECTIONS: Partial<Record<DayType, CircadianDirection>> = {
+  nightPreparation: 'delay',
+  nightShift: 'delay',
+  firstNight: 'delay',
+  middleNight: 'delay',
+  lastNight: 'delay',
+  nightRunExit: 'advance',
+  nightRecovery: 'advance',
+  dayPreparation: 'advance',
+  dayShift: 'advance',
+};
+
+export const getCircadianDirection = (dayType: DayType): CircadianDirection | undefined => DIRECTIONS[dayType];
+
+const windowFrom = (start: Date, minutes: number): TimeWindow => ({ start, end: addMinutes(start, minutes) });
+
+const windowUntil = (end: Date, minutes: number): TimeWindow => ({ start: addMinutes(end, -minutes), end });
+
+// Moving later: light in the first half of the night shift, none on the way home to sleep.
+// Before the first night, light in the evening keeps the nurse up past the usual bedtime.
+const getDelayWindows = (plan: DayPlan, nextSleep: TimeWindow, config: PlanConfig): GuidanceItem[] => {
+  const { shift } = plan;
+  if (!shift) {
+    const usualBedtime = getUsualSleep(plan.date, plan.timeZone, config).start;
+    return [{ kind: 'brightLight', direction: 'delay', window: windowUntil(usualBedtime, LIGHT_WINDOW_MINUTES) }];
+  }
+  const middle = new Date((shift.start.getTime() + shift.end.getTime()) / 2);
+  return [
+    { kind: 'brightLight', direction: 'delay', window: { start: shift.start, end: middle } },
+    ...(nextSleep.start > shift.end ? [{
+      kind: 'avoidLight' as const,
+      direction: 'delay' as const,
+      window: { start: shift.end, end: min([nextSleep.start, addMinutes(shift.end, LIGHT_WINDOW_MINUTES)]) },
+    }] : []),
+  ];
+};
+
+// Moving earlier: light straight after waking and dim light before the next sleep
+const getAdvanceWindows = (plan: DayPlan, nextSleep: TimeWindow): GuidanceItem[] => {
+  const wake = plan.sleep.end;
+  const dim = windowUntil(nextSleep.start, LIGHT_WINDOW_MINUTES);
+  return [
+    { kind: 'brightLight', direction: 'advance', window: windowFrom(wake, LIGHT_WINDOW_MINUTES) },
+    { kind: 'avoidLight', direction: 'advance', window: { start: max([dim.start, wake]), end: dim.end } },
+  ];
+};
+
+export const buildGuidance = (plans: DayPlan[], config: PlanConfig = DEFAULT_PLAN_CONFIG): DayGuidance[] =>
+  plans.map(plan => {
+    const nextSleep = getNextSleep(plans, plan, config);
+    const cutoff = max([addMinutes(nextSleep.start, -config.caffeineCutoffMinutes), plan.sleep.end]);
+    const direction = getCircadianDirection(plan.dayType);
+    const light = direction === 'delay'
+      ? getDelayWindows(plan, nextSleep, config)
+      : direction === 'advance' ? getAdvanceWindows(plan, nextSleep) : [];
+    return {
+      date: plan.date,
+      items: [
+        ...(cutoff < nextSleep.start ? [{ kind: 'caffeineCutoff' as const, window: { start: cutoff, end: nextSleep.start } }] : []),
+        ...light.filter(item => item.window.end > item.window.start),
+      ],
+    };
+  });
+
+export const findDayGuidance = (guidance: DayGuidance[], date: Date): DayGuidance | undefined =>
+  guidance.find(day => isSameDay(day.date, date));
@@ -0,0 +1,70 @@
+import { createEmptySchedule, DEFAULT_DISPLAY_SETTINGS, DEFAULT_SHIFT_PRESETS } from '../types';
+import { buildSleepPlan } from './sleepPlan';
+import { describeDayPlan, formatDuration, getPresetName } from './planText';
+import { createTranslator, detectDisplaySettings, getMessages, LOCALES, withTimeZone } from './i18n';
+
+const day = (d: number, hours = 0, minutes = 0) => new Date(2025, 4, d, hours, minutes);
+
+// Every key path in a catalog, with functions and strings as leaves
+const keyPaths = (value: object, prefix = ''): string[] =>
+  Object.entries(value).flatMap(([key, child]) => typeof child === 'object' && child !== null
+    ? keyPaths(child, `${prefix}${key}.`)
+    : [`${prefix}${key}`]).sort();
+
+describe('createTranslator', () => {
+  test('formats times on the chosen clock', () => {
+    expect(createTranslator({ locale: 'en', clock: '12h' }).formatTime(day(10, 19, 30))).toBe('7:30 PM');
+    expect(createTranslator({ locale: 'en', clock: '24h' }).formatTime(day(10, 19, 30))).toBe('19:30');
+  });
+
+  test('formats dates and numbers for the language', () => {
+    const t = createTranslator({ locale: 'de', clock: '24h' });
+
+    expect(t.formatDate(day(12), 'full')).toBe('Montag, 12. Mai 2025');
+    expect(formatDuration(450, t)).toBe('7,5 Stunden');
+  });
+
+  test('writes the recommendations in the chosen language and clock', () => {
+    const plans = buildSleepPlan({ ...createEmptySchedule(), workDays: [{ date: day(10), start: 7 * 60, end: 19 * 60 }] });
+    const details = plans.flatMap(plan => describeDayPlan(plan, createTranslator({ locale: 'de', clock: '24h' })));
+
+    expect(details.some(detail => detail.startsWith('Schlaf: '))).toBe(true);
+    expect(details.join(' ')).not.toMatch(/AM|PM/);
+  });
+
+  test('shows times on a clock in another zone but leaves dates and clock values alone', () => {
+    const t = withTimeZone(createTranslator({ locale: 'en', clock: '24h' }), 'America/Chicago');
+
+    expect(t.formatTime(day(10, 19, 30))).toBe('14:30');
+    expect(t.formatDate(day(10), 'short')).toBe('Sat, May 10');
+    expect(t.formatClock(19 * 60 + 30)).toBe('19:30');
+  });
+});
+
+describe('message catalogs', () => {
+  test.each(LOCALES)('%s has every message the English catalog has', locale => {
+    expect(keyPaths(getMessages(locale))).toEqual(keyPaths(getMessages('en')));
+  });
+
+  test('translate built-in presets until they are renamed', () => {
+    const t = createTranslator({ locale: 'es', clock: '24h' });
+    const preset = DEFAULT_SHIFT_PRESETS[0];
+
+    expect(getPresetName(preset, t)).toBe(getMessages('es').presets[preset.id]);
+    expect(getPresetName({ ...preset, name: 'Früh' }, t)).toBe('Früh');
+    expect(getPresetName({ ...preset, id: 'mine', name: 'Mine' }, t)).toBe('Mine');
+  });
+});
+
+describe('detectDisplaySettings', () => {
+  test('picks the first supported browser language with its usual clock', () => {
+    expect(detectDisplaySettings(['fr-FR', 'de-DE', 'en-US'])).toEqual({ locale: 'de', clock: '24h' });
+    expect(detectDisplaySettings(['en-US'])).toEqual({ locale: 'en', clock: '12h' });
+    expect(detectDisplaySettings(['en-GB'])).toEqual({ locale: 'en', clock: '24h' });
+  });
+
+  test('falls back to the defaults for unsupported languages', () => {
+    expect(detectDisplaySettings(['fr-FR'])).toEqual(DEFAULT_DISPLAY_SETTINGS);
+    expect(detectDisplaySettings([])).toEqual(DEFAULT_DISPLAY_SETTINGS);
+  });
+});
@@ -0,0 +1,82 @@
+import { format, Locale } from 'date-fns';
+import { de, enUS, es } from 'date-fns/locale';
+import { AppLocale, ClockFormat, DEFAULT_DISPLAY_SETTINGS, DisplaySettings } from '../types';
+import { DateFormats, Messages } from '../locales/messages';
+import en from '../locales/en';
+import deMessages from '../locales/de';
+import esMessages from '../locales/es';
+import { getDeviceTimeZone, toZonedClock } from './timeZones';
+
+export const LOCALES: AppLocale[] = ['en', 'de', 'es'];
+
+const CATALOGS: Record<AppLocale, Messages> = {
+  en,
+  de: deMessages,
+  es: esMessages,
+};
+
+const DATE_LOCALES: Record<AppLocale, Locale> = {
+  en: enUS,
+  de,
+  es,
+};
+
+// Times are shown on a clock in `timeZone`, or the device's without one. Dates are calendar days
+// and are never converted; clock values such as shift hours are minutes after midnight.
+export interface Translator {
+  locale: AppLocale;
+  clock: ClockFormat;
+  timeZone?: string;
+  messages: Messages;
+  dateLocale: Locale;
+  formatDate: (date: Date, style: keyof DateFormats) => string;
+  formatTime: (date: Date) => string;
+  formatClock: (minutes: number) => string;
+  formatNumber: (value: number) => string;
+}
+
+export const getMessages = (locale: AppLocale): Messages => CATALOGS[locale];
+
+export const createTranslator = ({ locale, clock }: DisplaySettings, timeZone?: string): Translator => {
+  const messages = CATALOGS[locale];
+  const dateLocale = DATE_LOCALES[locale];
+  const numberFormat = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 });
+  const timeFormat = clock === '12h' ? 'h:mm a' : 'HH:mm';
+  return {
+    locale,
+    clock,
+    ...(timeZone ? { timeZone } : {}),
+    messages,
+    dateLocale,
+    formatDate: (date, style) => format(date, messages.dates[style], { locale: dateLocale }),
+    formatTime: date => format(timeZone ? toZonedClock(date, timeZone) : date, timeFormat, { locale: dateLocale }),
+    formatClock: minutes => format(new Date(2000, 0, 1, 0, minutes), timeFormat, { locale: dateLocale }),
+    formatNumber: value => numberFormat.format(value),
+  };
+};
+
+// The same language and clock, showing times as they read in another zone
+export const withTimeZone = (t: Translator, timeZone: string): Translator =>
+  (t.timeZone ?? getDeviceTimeZone()) === timeZone ? t : createTranslator({ locale: t.locale, clock: t.clock }, timeZone);
+
+export const DEFAULT_TRANSLATOR = createTranslator(DEFAULT_DISPLAY_SETTINGS);
+
+const usesTwelveHourClock = (language: string): boolean => {
+  try {
+    return new Intl.DateTimeFormat(language, { hour: 'numeric' }).resolvedOptions().hour12 ?? false;
+  } catch {
+    return false;
+  }
+};
+
+// First browser language we have a catalog for, with that region's usual clock
+export const detectDisplaySettings = (
+  languages: readonly string[] = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language]
+): DisplaySettings => {
+  const language = languages.find(tag => LOCALES.includes(tag.split('-')[0].toLowerCase() as AppLocale));
+  if (!language) return DEFAULT_DISPLAY_SETTINGS;
+  return {
+    locale: language.split('-')[0].toLowerCase() as AppLocale,
+    clock: usesTwelveHourClock(language) ? '12h' : '24h',
+  };
+};
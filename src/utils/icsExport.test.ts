@@ -0,0 +1,127 @@
+import { createEmptySchedule, Schedule } from '../types';
+import { buildSleepPlan } from './sleepPlan';
+import { buildIcsCalendar, escapeText, foldLine, getEventUid } from './icsExport';
+import { buildGuidance, findDayGuidance } from './guidance';
+import { DEFAULT_TRANSLATOR, withTimeZone } from './i18n';
+import { describeGuidance } from './planText';
+
+const schedule: Schedule = {
+  ...createEmptySchedule(),
+  workDays: [{ date: new Date(2025, 4, 10), start: 19 * 60, end: 7 * 60, presetId: 'night' }],
+};
+const now = new Date(Date.UTC(2025, 4, 1, 12, 0));
+
+const unfold = (ics: string): string[] => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('buildIcsCalendar', () => {
+  test('writes one event per shift, sleep window and nap with UTC times', () => {
+    const plans = buildSleepPlan(schedule);
+    const lines = unfold(buildIcsCalendar(plans, { include: { shifts: true, secondJob: true, sleep: true, naps: true, guidance: false, meals: false }, reminders: {} }, now));
+    const naps = plans.reduce((count, plan) => count + plan.naps.length, 0);
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(1 + plans.length + naps);
+    expect(lines).toContain('UID:shifts-20250510@nursesleep.app');
+    expect(lines).toContain(`DTSTART:${new Date(2025, 4, 10, 19).toISOString().replace(/[-:]/g, '').replace('.000', '')}`);
+    expect(lines).toContain('DTSTAMP:20250501T120000Z');
+  });
+
+  test('keeps UIDs stable between exports so calendars update in place', () => {
+    const plans = buildSleepPlan(schedule);
+    const uids = (ics: string) => unfold(ics).filter(line => line.startsWith('UID:'));
+
+    expect(uids(buildIcsCalendar(plans, undefined, now)))
+      .toEqual(uids(buildIcsCalendar(plans, undefined, new Date())));
+  });
+
+  test('leaves out categories that are not selected', () => {
+    const ics = buildIcsCalendar(
+      buildSleepPlan(schedule),
+      { include: { shifts: true, secondJob: false, sleep: false, naps: false, guidance: false, meals: false }, reminders: {} },
+      now
+    );
+
+    expect(unfold(ics).filter(line => line === 'BEGIN:VEVENT')).toHaveLength(1);
+  });
+
+  test('adds the caffeine cutoff and light windows as guidance events', () => {
+    const ics = buildIcsCalendar(
+      buildSleepPlan(schedule),
+      { include: { shifts: false, secondJob: false, sleep: false, naps: false, guidance: true, meals: false }, reminders: {} },
+      now
+    );
+
+    expect(unfold(ics)).toEqual(expect.arrayContaining([
+      'UID:guidance-20250510@nursesleep.app',
+      'SUMMARY:No caffeine',
+      'CATEGORIES:GUIDANCE',
+    ]));
+  });
+
+  test('writes clock times in the text in the zone the day is planned in', () => {
+    const travelling: Schedule = {
+      ...schedule,
+      workDays: [{ ...schedule.workDays[0], timeZone: 'America/New_York' }],
+    };
+    const plans = buildSleepPlan(travelling);
+    const [cutoff] = findDayGuidance(buildGuidance(plans), new Date(2025, 4, 10))!.items;
+    const ics = buildIcsCalendar(
+      plans,
+      { include: { shifts: false, secondJob: false, sleep: false, naps: false, guidance: true, meals: false }, reminders: {} },
+      now
+    );
+
+    expect(unfold(ics).join('\n'))
+      .toContain(escapeText(describeGuidance(cutoff, withTimeZone(DEFAULT_TRANSLATOR, 'America/New_York'))));
+  });
+
+  test('adds each planned meal as a short event', () => {
+    const ics = buildIcsCalendar(
+      buildSleepPlan(schedule),
+      { include: { shifts: false, secondJob: false, sleep: false, naps: false, guidance: false, meals: true }, reminders: {} },
+      now
+    );
+
+    expect(unfold(ics)).toEqual(expect.arrayContaining([
+      'UID:meals-20250510@nursesleep.app',
+      'SUMMARY:Main meal',
+      'SUMMARY:Snack',
+      'CATEGORIES:MEALS',
+    ]));
+  });
+
+  test('adds a display alarm before events that have a reminder', () => {
+    const ics = buildIcsCalendar(
+      buildSleepPlan(schedule),
+      { include: { shifts: true, secondJob: false, sleep: false, naps: false, guidance: false, meals: false }, reminders: { shifts: 30 } },
+      now
+    );
+
+    expect(unfold(ics)).toEqual(expect.arrayContaining(['BEGIN:VALARM', 'ACTION:DISPLAY', 'TRIGGER:-PT30M']));
+  });
+
+  test('ends every line with CRLF and keeps lines within 75 octets', () => {
+    const ics = buildIcsCalendar(buildSleepPlan(schedule), undefined, now);
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '').includes('\n')).toBe(false);
+    ics.split('\r\n').forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+  });
+});
+
+describe('text helpers', () => {
+  test('escapes commas, semicolons, backslashes and newlines', () => {
+    expect(escapeText('Wake up, eat; rest\\relax\nsleep')).toBe('Wake up\\, eat\\; rest\\\\relax\\nsleep');
+  });
+
+  test('folds long lines without splitting multi-byte characters', () => {
+    const folded = foldLine(`DESCRIPTION:${'é'.repeat(60)}`);
+
+    expect(folded.split('\r\n ').join('')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+    folded.split('\r\n').forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+  });
+
+  test('numbers additional events of the same kind on one day', () => {
+    expect(getEventUid('naps', new Date(2025, 4, 10), 1)).toBe('naps-20250510-1@nursesleep.app');
+  });
+});
@@ -0,0 +1,232 @@
+import { addMinutes, format } from 'date-fns';
+import { DayPlan, DEFAULT_PLAN_CONFIG, PlanConfig } from './sleepPlan';
+import {
+  describeAdvice,
+  describeFatigue,
+  describeFatigueWarning,
+  describeGuidance,
+  describeMeal,
+  getDayTitle,
+  getGuidanceTitle,
+  getMealTitle
+} from './planText';
+import { assessFatigue, findDayFatigue } from './fatigue';
+import { buildGuidance, findDayGuidance } from './guidance';
+import { buildMeals, findDayMeals, MealSize } from './meals';
+import { TimeWindow } from './time';
+import { DEFAULT_TRANSLATOR, Translator, withTimeZone } from './i18n';
+
+export type IcsCategory = 'shifts' | 'secondJob' | 'sleep' | 'naps' | 'guidance' | 'meals';
+
+export interface IcsExportOptions {
+  include: Record<IcsCategory, boolean>;
+  // Minutes before the event start; omitted categories get no reminder
+  reminders: Partial<Record<IcsCategory, number>>;
+}
+
+export const DEFAULT_ICS_OPTIONS: IcsExportOptions = {
+  include: { shifts: true, secondJob: true, sleep: true, naps: true, guidance: true, meals: true },
+  reminders: { sleep: 30 },
+};
+
+const UID_DOMAIN = 'nursesleep.app';
+
+const CATEGORY_NAMES: Record<IcsCategory, string> = {
+  shifts: 'SHIFTS',
+  secondJob: 'SECOND-JOB',
+  sleep: 'SLEEP',
+  naps: 'NAPS',
+  guidance: 'GUIDANCE',
+  meals: 'MEALS',
+};
+
+// Meals only have a start, so their events get a nominal length
+const MEAL_EVENT_MINUTES: Record<MealSize, number> = {
+  main: 30,
+  snack: 15,
+};
+
+interface IcsEvent {
+  category: IcsCategory;
+  date: Date;
+  // Distinguishes several events of the same category on one day
+  index: number;
+  window: TimeWindow;
+  summary: string;
+  description: string[];
+}
+
+const toUtcStamp = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+// RFC 5545 section 3.1: lines longer than 75 octets continue on the next line after a space
+export const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  Array.from(line).forEach(char => {
+    const bytes = utf8Length(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  });
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+// The UID depends only on the day and category, so re-importing updates the same events
+export const getEventUid = (category: IcsCategory, date: Date, index = 0): string =>
+  `${category}-${format(date, 'yyyyMMdd')}${index > 0 ? `-${index}` : ''}@${UID_DOMAIN}`;
+
+const collectEvents = (
+  plans: DayPlan[],
+  include: IcsExportOptions['include'],
+  config: PlanConfig,
+  t: Translator
+): IcsEvent[] => {
+  const fatigue = assessFatigue(plans);
+  const guidance = buildGuidance(plans, config);
+  const meals = buildMeals(plans, config);
+
+  return plans.flatMap(plan => {
+    // Clock times in the text read as they do where the day is planned, like the event times
+    const zoned = withTimeZone(t, plan.timeZone);
+    const title = getDayTitle(plan, t);
+    const dayFatigue = findDayFatigue(fatigue, plan.date);
+    // Shift events carry the fatigue score so it shows up where the shift is
+    const shiftDescription = dayFatigue
+      ? [title, describeFatigue(dayFatigue, t), ...dayFatigue.warnings.map(warning => describeFatigueWarning(warning, zoned))]
+      : [title];
+    const events: IcsEvent[] = [];
+
+    if (include.shifts && plan.shift && plan.shiftSource !== 'secondJob') {
+      events.push({
+        category: 'shifts',
+        date: plan.date,
+        index: 0,
+        window: plan.shift,
+        summary: t.messages.calendarExport.events.shifts,
+        description: shiftDescription,
+      });
+    }
+    const secondJob = plan.shiftSource === 'secondJob' ? plan.shift : plan.secondJob;
+    if (include.secondJob && secondJob) {
+      events.push({
+        category: 'secondJob',
+        date: plan.date,
+        index: 0,
+        window: secondJob,
+        summary: t.messages.calendarExport.events.secondJob,
+        description: shiftDescription,
+      });
+    }
+    if (include.sleep) {
+      events.push({
+        category: 'sleep',
+        date: plan.date,
+        index: 0,
+        window: plan.sleep,
+        summary: t.messages.calendarExport.events.sleep,
+        description: [title, ...plan.advice.map(advice => describeAdvice(advice, zoned))],
+      });
+    }
+    if (include.naps) {
+      plan.naps.forEach((nap, index) => events.push({
+        category: 'naps',
+        date: plan.date,
+        index,
+        window: nap,
+        summary: t.messages.calendarExport.events.naps,
+        description: [title],
+      }));
+    }
+    if (include.guidance) {
+      findDayGuidance(guidance, plan.date)?.items.forEach((item, index) => events.push({
+        category: 'guidance',
+        date: plan.date,
+        index,
+        window: item.window,
+        summary: getGuidanceTitle(item, t),
+        description: [title, describeGuidance(item, zoned)],
+      }));
+    }
+    if (include.meals) {
+      findDayMeals(meals, plan.date)?.meals.forEach((meal, index) => events.push({
+        category: 'meals',
+        date: plan.date,
+        index,
+        window: { start: meal.time, end: addMinutes(meal.time, MEAL_EVENT_MINUTES[meal.size]) },
+        summary: getMealTitle(meal, t),
+        description: [title, describeMeal(meal, zoned)],
+      }));
+    }
+    return events;
+  });
+};
+
+export const buildIcsCalendar = (
+  plans: DayPlan[],
+  options: IcsExportOptions = DEFAULT_ICS_OPTIONS,
+  now: Date = new Date(),
+  t: Translator = DEFAULT_TRANSLATOR,
+  config: PlanConfig = DEFAULT_PLAN_CONFIG
+): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Nurse Sleep Schedule//nursesleep//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(t.messages.app.title)}`,
+  ];
+
+  collectEvents(plans, options.include, config, t).forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${getEventUid(event.category, event.date, event.index)}`,
+      `DTSTAMP:${toUtcStamp(now)}`,
+      `DTSTART:${toUtcStamp(event.window.start)}`,
+      `DTEND:${toUtcStamp(event.window.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description.join('\n'))}`,
+      `CATEGORIES:${CATEGORY_NAMES[event.category]}`,
+      `TRANSP:${event.category === 'shifts' || event.category === 'secondJob' ? 'OPAQUE' : 'TRANSPARENT'}`
+    );
+
+    const reminder = options.reminders[event.category];
+    if (reminder !== undefined) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(t.messages.calendarExport.alarm(event.summary, reminder))}`,
+        `TRIGGER:-PT${reminder}M`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
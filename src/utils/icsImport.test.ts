@@ -0,0 +1,108 @@
+import { DEFAULT_SHIFT_PRESETS } from '../types';
+import { parseIcsShifts } from './icsImport';
+
+const calendar = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('parseIcsShifts', () => {
+  test('reads shift times from DTSTART and DTEND and matches presets', () => {
+    const { shifts, errors } = parseIcsShifts(calendar(
+      'BEGIN:VEVENT',
+      'SUMMARY:Nights',
+      'DTSTART:20250510T190000',
+      'DTEND:20250511T070000',
+      'END:VEVENT'
+    ), DEFAULT_SHIFT_PRESETS);
+
+    expect(errors).toEqual([]);
+    expect(shifts).toEqual([{
+      line: 3,
+      workDay: { date: new Date(2025, 4, 10), start: 19 * 60, end: 7 * 60, presetId: 'night' },
+    }]);
+  });
+
+  test('converts UTC times to the schedule\'s wall-clock times', () => {
+    const { shifts } = parseIcsShifts(calendar(
+      'BEGIN:VEVENT',
+      'DTSTART:20250510T063000Z',
+      'DURATION:PT8H',
+      'END:VEVENT'
+    ), [], 'America/New_York');
+
+    expect(shifts[0].workDay).toEqual({ date: new Date(2025, 4, 10), start: 2 * 60 + 30, end: 10 * 60 + 30 });
+  });
+
+  test('keeps shifts given in another zone in that zone', () => {
+    const { shifts, errors } = parseIcsShifts(calendar(
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=Europe/Berlin:20250510T190000',
+      'DTEND:20250511T050000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=Windows Standard Time:20250512T070000',
+      'DTEND;TZID=Windows Standard Time:20250512T190000',
+      'END:VEVENT'
+    ), DEFAULT_SHIFT_PRESETS, 'America/New_York');
+
+    expect(errors).toEqual([]);
+    expect(shifts.map(shift => shift.workDay)).toEqual([
+      { date: new Date(2025, 4, 10), start: 19 * 60, end: 7 * 60, presetId: 'night', timeZone: 'Europe/Berlin' },
+      { date: new Date(2025, 4, 12), start: 7 * 60, end: 19 * 60, presetId: 'day' },
+    ]);
+  });
+
+  test('ignores alarm properties and unfolds continuation lines', () => {
+    const { shifts, errors } = parseIcsShifts(calendar(
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=Europe/Berlin:20250510T0700',
+      ' 00',
+      'DTEND;TZID=Europe/Berlin:20250510T190000',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT30M',
+      'DURATION:PT5M',
+      'END:VALARM',
+      'END:VEVENT'
+    ), DEFAULT_SHIFT_PRESETS);
+
+    expect(errors).toEqual([]);
+    expect(shifts[0].workDay.presetId).toBe('day');
+  });
+
+  test('reports problems with the line they occur on', () => {
+    const { shifts, errors } = parseIcsShifts(calendar(
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20250510',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:yesterday',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20250512T070000',
+      'END:VEVENT'
+    ), []);
+
+    expect(shifts).toEqual([]);
+    expect(errors).toEqual([
+      { line: 4, error: { kind: 'allDayEvent' } },
+      { line: 7, error: { kind: 'notDateTime', value: 'yesterday' } },
+      { line: 9, error: { kind: 'noEnd' } },
+    ]);
+  });
+
+  test('skips cancelled events', () => {
+    const { shifts, errors } = parseIcsShifts(calendar(
+      'BEGIN:VEVENT',
+      'STATUS:CANCELLED',
+      'DTSTART:20250510T070000',
+      'DTEND:20250510T190000',
+      'END:VEVENT'
+    ), []);
+
+    expect(shifts).toEqual([]);
+    expect(errors).toEqual([]);
+  });
+
+  test('rejects files that are not calendars', () => {
+    expect(parseIcsShifts('Date,Start,End', []).errors[0].error).toEqual({ kind: 'notCalendar' });
+  });
+});
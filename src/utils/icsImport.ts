@@ -0,0 +1,175 @@
+import { ShiftPreset } from '../types';
+import { LineError } from './csv';
+import { dateToMinutes } from './shifts';
+import { ImportedShift, ShiftImportResult, toWorkDay } from './shiftImport';
+import { getDeviceTimeZone, isValidTimeZone, toZonedClock, zonedTime } from './timeZones';
+
+interface IcsProperty {
+  line: number;
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const MAX_SHIFT_MINUTES = 24 * 60;
+
+const DATE_TIME = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?(Z)?$/;
+const DURATION = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+// Continuation lines start with a space or tab and belong to the line before
+const unfoldLines = (text: string): Array<{ line: number; text: string }> =>
+  text.split(/\r?\n/).reduce<Array<{ line: number; text: string }>>((lines, raw, index) => {
+    if (/^[ \t]/.test(raw) && lines.length > 0) {
+      lines[lines.length - 1].text += raw.slice(1);
+    } else if (raw.trim() !== '') {
+      lines.push({ line: index + 1, text: raw });
+    }
+    return lines;
+  }, []);
+
+const parseProperty = ({ line, text }: { line: number; text: string }): IcsProperty | null => {
+  const colon = text.indexOf(':');
+  if (colon < 0) {
+    return null;
+  }
+  const [name, ...paramParts] = text.slice(0, colon).split(';');
+  const params = Object.fromEntries(paramParts.map(part => {
+    const [key, ...rest] = part.split('=');
+    return [key.toUpperCase(), rest.join('=')];
+  }));
+  return { line, name: name.toUpperCase(), params, value: text.slice(colon + 1).trim() };
+};
+
+// A known TZID is the zone of the shift; floating times and unknown TZIDs are in the schedule's zone
+const getEventZone = (property: IcsProperty, timeZone: string): string => {
+  const tzid = property.params.TZID;
+  return tzid && isValidTimeZone(tzid) ? tzid : timeZone;
+};
+
+// The wall-clock time in `timeZone`, converting UTC times and times given in another zone
+const parseDateTime = (property: IcsProperty, timeZone: string, scheduleZone: string): Date | null => {
+  const match = DATE_TIME.exec(property.value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(part => Number(part ?? 0));
+  const clock = new Date(year, month - 1, day, hours, minutes, seconds);
+  if (isNaN(clock.getTime())) {
+    return null;
+  }
+  if (match[7]) {
+    return toZonedClock(new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds)), timeZone);
+  }
+  const zone = getEventZone(property, scheduleZone);
+  return zone === timeZone ? clock : toZonedClock(zonedTime(clock, hours * 60 + minutes, zone), timeZone);
+};
+
+const parseDuration = (value: string): number | null => {
+  const match = DURATION.exec(value.replace(/^\+/, ''));
+  if (!match || value === 'P' || value.endsWith('T')) {
+    return null;
+  }
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map(part => Number(part ?? 0));
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes + Math.round(seconds / 60);
+};
+
+const readEvent = (
+  properties: IcsProperty[],
+  line: number,
+  presets: ShiftPreset[],
+  scheduleZone: string
+): ImportedShift | LineError | null => {
+  const find = (name: string) => properties.find(p => p.name === name);
+  const dtStart = find('DTSTART');
+  const dtEnd = find('DTEND');
+  const duration = find('DURATION');
+
+  if (find('STATUS')?.value.toUpperCase() === 'CANCELLED') {
+    return null;
+  }
+  if (!dtStart) {
+    return { line, error: { kind: 'noStart' } };
+  }
+  if (dtStart.params.VALUE === 'DATE' || /^\d{8}$/.test(dtStart.value)) {
+    return { line: dtStart.line, error: { kind: 'allDayEvent' } };
+  }
+
+  const timeZone = getEventZone(dtStart, scheduleZone);
+  const start = parseDateTime(dtStart, timeZone, scheduleZone);
+  if (!start) {
+    return { line: dtStart.line, error: { kind: 'notDateTime', value: dtStart.value } };
+  }
+
+  let minutes: number | null;
+  if (dtEnd) {
+    const end = parseDateTime(dtEnd, timeZone, scheduleZone);
+    if (!end) {
+      return { line: dtEnd.line, error: { kind: 'notDateTime', value: dtEnd.value } };
+    }
+    minutes = Math.round((end.getTime() - start.getTime()) / 60000);
+  } else if (duration) {
+    minutes = parseDuration(duration.value);
+    if (minutes === null) {
+      return { line: duration.line, error: { kind: 'notDuration', value: duration.value } };
+    }
+  } else {
+    return { line, error: { kind: 'noEnd' } };
+  }
+
+  if (minutes <= 0 || minutes > MAX_SHIFT_MINUTES) {
+    return { line, error: { kind: 'shiftLength' } };
+  }
+
+  const end = new Date(start.getTime() + minutes * 60000);
+  const workDay = toWorkDay(start, { start: dateToMinutes(start), end: dateToMinutes(end) }, presets);
+  return { line, workDay: timeZone === scheduleZone ? workDay : { ...workDay, timeZone } };
+};
+
+// Shifts are placed in `timeZone`, the schedule's zone, unless the calendar names another one
+export const parseIcsShifts = (
+  text: string,
+  presets: ShiftPreset[],
+  timeZone: string = getDeviceTimeZone()
+): ShiftImportResult => {
+  const shifts: ImportedShift[] = [];
+  const errors: LineError[] = [];
+  let event: { line: number; properties: IcsProperty[] } | null = null;
+  // Components nested in an event, such as VALARM, have properties of their own
+  let nested = 0;
+  let sawCalendar = false;
+
+  unfoldLines(text).forEach(entry => {
+    const property = parseProperty(entry);
+    if (!property) {
+      errors.push({ line: entry.line, error: { kind: 'notProperty' } });
+      return;
+    }
+    const value = property.value.toUpperCase();
+
+    if (property.name === 'BEGIN' && value === 'VCALENDAR') {
+      sawCalendar = true;
+    } else if (property.name === 'BEGIN' && value === 'VEVENT') {
+      event = { line: property.line, properties: [] };
+      nested = 0;
+    } else if (property.name === 'END' && value === 'VEVENT' && event) {
+      const result = readEvent(event.properties, event.line, presets, timeZone);
+      if (result && 'workDay' in result) {
+        shifts.push(result);
+      } else if (result) {
+        errors.push(result);
+      }
+      event = null;
+    } else if (event && property.name === 'BEGIN') {
+      nested++;
+    } else if (event && property.name === 'END') {
+      nested = Math.max(0, nested - 1);
+    } else if (event && nested === 0) {
+      event.properties.push(property);
+    }
+  });
+
+  if (!sawCalendar) {
+    errors.unshift({ line: 1, error: { kind: 'notCalendar' } });
+  }
+  return { shifts, errors };
+};
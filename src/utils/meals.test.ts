@@ -0,0 +1,68 @@
+import { createEmptySchedule, DEFAULT_SLEEP_PROFILE, Schedule } from '../types';
+import { buildSleepPlan, DEFAULT_PLAN_CONFIG, getPlanConfig } from './sleepPlan';
+import { buildMeals, findDayMeals } from './meals';
+import { describeMeal } from './planText';
+
+const day = (d: number, hours = 0, minutes = 0) => new Date(2025, 4, d, hours, minutes);
+
+const withShift = (start: number, end: number, profile = {}): Schedule => ({
+  ...createEmptySchedule(),
+  workDays: [{ date: day(10), start, end }],
+  profile: { ...DEFAULT_SLEEP_PROFILE, ...profile },
+});
+
+const mealsFor = (schedule: Schedule, d: number, config = getPlanConfig(schedule.profile)) =>
+  findDayMeals(buildMeals(buildSleepPlan(schedule, config), config), day(d))!.meals;
+
+describe('buildMeals', () => {
+  test('places meals around waking, the shift break and the next sleep', () => {
+    expect(mealsFor(withShift(7 * 60, 19 * 60), 10)).toEqual([
+      { time: day(10, 6, 30), size: 'main', occasion: 'afterWaking' },
+      { time: day(10, 13), size: 'main', occasion: 'shiftBreak' },
+      { time: day(10, 20), size: 'main', occasion: 'beforeSleep' },
+    ]);
+  });
+
+  test('keeps to snacks between midnight and 6 AM on a night shift', () => {
+    expect(mealsFor(withShift(19 * 60, 7 * 60), 10)).toEqual([
+      { time: day(10, 17, 30), size: 'main', occasion: 'afterWaking' },
+      { time: day(10, 21, 15), size: 'main', occasion: 'between' },
+      {
+        time: day(11, 1),
+        size: 'snack',
+        occasion: 'shiftBreak',
+        rule: { kind: 'night', window: { start: day(11), end: day(11, 6) } },
+      },
+      { time: day(11, 6), size: 'main', occasion: 'beforeSleep' },
+    ]);
+  });
+
+  test('follows the meal rules in the sleep profile', () => {
+    const meals = mealsFor(withShift(19 * 60, 7 * 60, { mealBufferHours: 3, avoidNightMeals: false }), 10);
+
+    expect(meals.every(meal => meal.size === 'main')).toBe(true);
+    expect(meals[meals.length - 1]).toEqual({ time: day(11, 5), size: 'main', occasion: 'beforeSleep' });
+  });
+
+  test('keeps meals light once the next sleep is too close', () => {
+    const config = { ...DEFAULT_PLAN_CONFIG, mealSleepBuffer: 6 * 60 };
+
+    expect(mealsFor(withShift(19 * 60, 7 * 60), 11, config)).toEqual([
+      { time: day(11, 16, 30), size: 'snack', occasion: 'afterWaking', rule: { kind: 'nearSleep', sleep: day(11, 22) } },
+    ]);
+  });
+
+  test('adds a meal between ones that are far apart on a day off', () => {
+    const meals = mealsFor({ ...createEmptySchedule(), daysOff: [day(14)] }, 14);
+
+    expect(meals.map(meal => meal.time)).toEqual([day(14, 6, 30), day(14, 13, 15), day(14, 20)]);
+  });
+});
+
+describe('describeMeal', () => {
+  test('says why a meal is kept to a snack', () => {
+    const [, , snack] = mealsFor(withShift(19 * 60, 7 * 60), 10);
+
+    expect(describeMeal(snack)).toBe('Light snack at 1:00 AM, on your break: no heavy meals 12:00 AM - 6:00 AM');
+  });
+});
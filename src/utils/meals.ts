@@ -0,0 +1,105 @@
+import { addDays, addMinutes, differenceInMinutes, isSameDay, roundToNearestMinutes } from 'date-fns';
+import { DayPlan, DEFAULT_PLAN_CONFIG, getNextSleep, PlanConfig } from './sleepPlan';
+import { atMinutes, TimeWindow } from './time';
+
+export type MealSize = 'main' | 'snack';
+
+// What a meal is placed around
+export type MealOccasion = 'afterWaking' | 'beforeShift' | 'shiftBreak' | 'beforeSleep' | 'between';
+
+// Why a meal is kept to a snack: it is too close to the next sleep, or inside the night window
+export type MealRule =
+  | { kind: 'nearSleep'; sleep: Date }
+  | { kind: 'night'; window: TimeWindow };
+
+export interface Meal {
+  time: Date;
+  size: MealSize;
+  occasion: MealOccasion;
+  rule?: MealRule;
+}
+
+export interface DayMeals {
+  date: Date;
+  meals: Meal[];
+}
+
+export const WAKE_MEAL_DELAY = 30;
+export const PRE_SHIFT_MEAL_LEAD = 60;
+// Meals closer than the minimum gap fold into the earlier one; longer than the maximum get one in between
+export const MIN_MEAL_GAP = 150;
+export const MAX_MEAL_GAP = 7 * 60;
+
+interface MealSlot {
+  time: Date;
+  occasion: MealOccasion;
+}
+
+const midpoint = (window: TimeWindow): Date => new Date((window.start.getTime() + window.end.getTime()) / 2);
+
+const moveOutOfNaps = (time: Date, naps: TimeWindow[]): Date =>
+  naps.find(nap => time >= nap.start && time < nap.end)?.end ?? time;
+
+// Waking, each shift (before leaving for it and at its break) and the last large meal before sleep
+const getAnchors = (plan: DayPlan, nextSleep: TimeWindow, config: PlanConfig): MealSlot[] => {
+  const shifts = [plan.shift, plan.secondJob].filter((shift): shift is TimeWindow => !!shift);
+  return [
+    { time: addMinutes(plan.sleep.end, WAKE_MEAL_DELAY), occasion: 'afterWaking' as const },
+    ...shifts.flatMap(shift => [
+      { time: addMinutes(shift.start, -(config.commuteToWork + PRE_SHIFT_MEAL_LEAD)), occasion: 'beforeShift' as const },
+      { time: midpoint(shift), occasion: 'shiftBreak' as const },
+    ]),
+    { time: addMinutes(nextSleep.start, -config.mealSleepBuffer), occasion: 'beforeSleep' as const },
+  ];
+};
+
+const fillGaps = (slots: MealSlot[]): MealSlot[] => slots.flatMap((slot, index) => {
+  const next = slots[index + 1];
+  const count = next ? Math.ceil(differenceInMinutes(next.time, slot.time) / MAX_MEAL_GAP) - 1 : 0;
+  const step = next ? (next.time.getTime() - slot.time.getTime()) / (count + 1) : 0;
+  return [
+    slot,
+    ...Array.from({ length: count }, (_, i) => ({
+      time: roundToNearestMinutes(new Date(slot.time.getTime() + step * (i + 1)), { nearestTo: 15 }),
+      occasion: 'between' as const,
+    })),
+  ];
+});
+
+// The night window on the day and the one after, which between them cover the time up to the next sleep
+const getNightWindows = (plan: DayPlan, config: PlanConfig): TimeWindow[] => {
+  const { nightMealWindow } = config;
+  return nightMealWindow ? [0, 1].map(offset => ({
+    start: atMinutes(addDays(plan.date, offset), nightMealWindow.start, plan.timeZone),
+    end: atMinutes(addDays(plan.date, offset), nightMealWindow.end, plan.timeZone),
+  })) : [];
+};
+
+const planMeals = (plan: DayPlan, nextSleep: TimeWindow, config: PlanConfig): Meal[] => {
+  const firstMeal = addMinutes(plan.sleep.end, WAKE_MEAL_DELAY);
+  const lastMain = addMinutes(nextSleep.start, -config.mealSleepBuffer);
+  const nightWindows = getNightWindows(plan, config);
+  const anchors = getAnchors(plan, nextSleep, config)
+    .map(anchor => ({ ...anchor, time: moveOutOfNaps(anchor.time, plan.naps) }))
+    .filter(anchor => anchor.time >= firstMeal && anchor.time < nextSleep.start)
+    .sort((a, b) => a.time.getTime() - b.time.getTime())
+    .reduce<MealSlot[]>((kept, anchor) => {
+      const previous = kept[kept.length - 1];
+      return previous && differenceInMinutes(anchor.time, previous.time) < MIN_MEAL_GAP ? kept : [...kept, anchor];
+    }, []);
+
+  return fillGaps(anchors).map(({ time, occasion }) => {
+    const night = nightWindows.find(window => time >= window.start && time < window.end);
+    const rule: MealRule | undefined = time > lastMain
+      ? { kind: 'nearSleep', sleep: nextSleep.start }
+      : night && { kind: 'night', window: night };
+    return { time, size: rule ? 'snack' : 'main', occasion, ...(rule && { rule }) };
+  });
+};
+
+// Main meals and snacks from waking until the next sleep
+export const buildMeals = (plans: DayPlan[], config: PlanConfig = DEFAULT_PLAN_CONFIG): DayMeals[] =>
+  plans.map(plan => ({ date: plan.date, meals: planMeals(plan, getNextSleep(plans, plan, config), config) }));
+
+export const findDayMeals = (meals: DayMeals[], date: Date): DayMeals | undefined =>
+  meals.find(day => isSameDay(day.date, date));
@@ -0,0 +1,78 @@
+// Problems found reading files, share links, rotation patterns and saved data; the text for each is in
+// the message catalogs, so parsers return these and screens describe them in the user's language
+
+// The part of a saved schedule that failed its checks
+export type SavedPart =
+  | 'shift'
+  | 'secondJobShift'
+  | 'preset'
+  | 'commitment'
+  | 'errand'
+  | 'profile'
+  | 'sleepLogEntry'
+  | 'reminders'
+  | 'display';
+
+// The part of a share link that decoded to something out of range
+export type LinkPart = 'time' | 'shift' | 'profile' | 'commitment' | 'timeZone';
+
+export type ParseError =
+  // Any file
+  | { kind: 'notJson' }
+  | { kind: 'newerVersion'; version: number }
+  | { kind: 'notDate'; value: string; format: string }
+  | { kind: 'notDateTime'; value: string }
+  | { kind: 'unknownTimeZone'; value: string }
+  // CSV
+  | { kind: 'textAfterQuote' }
+  | { kind: 'unclosedQuote' }
+  | { kind: 'missingColumns'; columns: string[] }
+  // Calendars
+  | { kind: 'notCalendar' }
+  | { kind: 'notProperty' }
+  | { kind: 'noStart' }
+  | { kind: 'noEnd' }
+  | { kind: 'allDayEvent' }
+  | { kind: 'notDuration'; value: string }
+  | { kind: 'shiftLength' }
+  // Rosters and schedule exports
+  | { kind: 'notStartTime'; value: string }
+  | { kind: 'notEndTime'; value: string }
+  | { kind: 'shiftTimes' }
+  | { kind: 'duplicateShift'; date: string }
+  | { kind: 'presetName' }
+  | { kind: 'notScheduleCsv' }
+  | { kind: 'unknownRowType'; value: string }
+  // Sleep data
+  | { kind: 'noSleepTimes' }
+  | { kind: 'noSleepLogs' }
+  | { kind: 'wakeBeforeSleep' }
+  | { kind: 'sleepTooLong' }
+  // Saved schedules
+  | { kind: 'noVersion' }
+  | { kind: 'noMigration'; version: number }
+  | { kind: 'missingList'; field: string }
+  | { kind: 'invalidSaved'; part: SavedPart }
+  // Share links
+  | { kind: 'notShareLink' }
+  | { kind: 'damaged' }
+  | { kind: 'incomplete' }
+  | { kind: 'invalidLink'; part: LinkPart }
+  // Rotation patterns
+  | { kind: 'unknownPatternDay'; value: string }
+  | { kind: 'emptyPattern' };
+
+// Thrown by readers that stop at the first problem; the message is only for logs
+export class ParseFailure extends Error {
+  readonly error: ParseError;
+
+  constructor(error: ParseError) {
+    super(JSON.stringify(error));
+    this.name = 'ParseFailure';
+    this.error = error;
+  }
+}
+
+// Anything else thrown while reading means the data is not what the reader expected
+export const toParseError = (error: unknown): ParseError =>
+  error instanceof ParseFailure ? error.error : { kind: 'damaged' };
@@ -0,0 +1,262 @@
+import { differenceInMinutes, format } from 'date-fns';
+import { DEFAULT_ERRANDS, DEFAULT_SHIFT_PRESETS, Errand, ReminderKind, ShiftPreset, ShiftTimes, SleepLogEntry } from '../types';
+import { AdviceItem, DayPlan, DayType, PlanClockChange, SleepLimit } from './sleepPlan';
+import { SecondJobWarning } from './secondJob';
+import { ReminderEvent } from './reminders';
+import {
+  DayFatigue,
+  FatigueLevel,
+  FatigueWarning,
+  LONG_SHIFT_MINUTES,
+  MAX_LONG_SHIFTS_IN_ROW,
+  MAX_NIGHTS_IN_ROW,
+  QUICK_RETURN_MINUTES
+} from './fatigue';
+import { RotationTemplate } from './rotations';
+import { DayFreeTime, ErrandSlot } from './freeTime';
+import { GuidanceItem } from './guidance';
+import { Meal, MealRule } from './meals';
+import { ParseError } from './parseErrors';
+import { StorageError } from './storage';
+import { TimeWindow } from './time';
+import { DEFAULT_TRANSLATOR, Translator, withTimeZone } from './i18n';
+import { toZonedClock } from './timeZones';
+
+export const getDayTypeLabel = (dayType: DayType, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.dayTypes[dayType];
+
+export const getDayTitle = (plan: DayPlan, t: Translator = DEFAULT_TRANSLATOR): string => plan.run
+  ? t.messages.dayInRun(getDayTypeLabel(plan.dayType, t), plan.run.index + 1, plan.run.length)
+  : getDayTypeLabel(plan.dayType, t);
+
+// Built-in presets follow the language until the user renames them
+export const getPresetName = (preset: ShiftPreset, t: Translator = DEFAULT_TRANSLATOR): string => {
+  const builtIn = DEFAULT_SHIFT_PRESETS.find(({ id }) => id === preset.id);
+  return builtIn && builtIn.name === preset.name ? t.messages.presets[preset.id] ?? preset.name : preset.name;
+};
+
+export const getErrandName = (errand: Errand, t: Translator = DEFAULT_TRANSLATOR): string => {
+  const builtIn = DEFAULT_ERRANDS.find(({ id }) => id === errand.id);
+  return builtIn && builtIn.name === errand.name ? t.messages.errandNames[errand.id] ?? errand.name : errand.name;
+};
+
+export const getRotationTemplateName = (template: RotationTemplate, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.rotationTemplates[template.id] ?? template.name;
+
+export const formatTime = (date: Date, t: Translator = DEFAULT_TRANSLATOR): string => t.formatTime(date);
+
+export const formatDuration = (minutes: number, t: Translator = DEFAULT_TRANSLATOR): string => {
+  const hours = Math.round(minutes / 30) / 2;
+  return t.messages.common.hours(hours, t.formatNumber(hours));
+};
+
+export const formatHours = (window: TimeWindow, t: Translator = DEFAULT_TRANSLATOR): string =>
+  formatDuration(differenceInMinutes(window.end, window.start), t);
+
+export const formatWindow = (window: TimeWindow, t: Translator = DEFAULT_TRANSLATOR): string =>
+  `${formatTime(window.start, t)} - ${formatTime(window.end, t)}`;
+
+export const formatShiftTimes = ({ start, end }: ShiftTimes, t: Translator = DEFAULT_TRANSLATOR): string =>
+  `${t.formatClock(start)} - ${t.formatClock(end)}`;
+
+// Any week works for weekday names; this one starts on a Sunday
+export const formatWeekday = (weekday: number, pattern: string, t: Translator = DEFAULT_TRANSLATOR): string =>
+  format(new Date(2024, 0, 7 + weekday), pattern, { locale: t.dateLocale });
+
+export const describeSleep = (window: TimeWindow, limit?: SleepLimit, t: Translator = DEFAULT_TRANSLATOR): string =>
+  limit
+    ? t.messages.plan.sleepOfNeed(formatWindow(window, t), formatHours(window, t), formatDuration(limit.targetMinutes, t))
+    : t.messages.plan.sleep(formatWindow(window, t), formatHours(window, t));
+
+export const describeSleepLimit = ({ reason, commitment }: SleepLimit, t: Translator = DEFAULT_TRANSLATOR): string => {
+  switch (reason) {
+    case 'commitment':
+      return t.messages.plan.sleepLimitCommitment(commitment!.name, formatShiftTimes(commitment!, t));
+    case 'betweenShifts':
+      return t.messages.plan.sleepLimitBetweenShifts;
+  }
+};
+
+export const describeLoggedSleep = (entry: SleepLogEntry, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.plan.loggedSleep(formatWindow(entry, t), formatHours(entry, t), entry.quality);
+
+export const describeNap = (window: TimeWindow, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.plan.nap(formatWindow(window, t));
+
+export const describeSecondJob = (window: TimeWindow, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.plan.secondJob(formatWindow(window, t));
+
+export const describeSecondJobWarning = (
+  { kind, secondJob, workDay, gapMinutes }: SecondJobWarning,
+  t: Translator = DEFAULT_TRANSLATOR
+): string => {
+  const secondJobDate = t.formatDate(secondJob.date, 'short');
+  const workDate = t.formatDate(workDay.date, 'short');
+  const warnings = t.messages.secondJobWarnings;
+  switch (kind) {
+    case 'overlap':
+      return warnings.overlap(secondJobDate, workDate);
+    case 'shortBefore':
+      return warnings.shortBefore(formatDuration(gapMinutes, t), secondJobDate, workDate);
+    case 'shortAfter':
+      return warnings.shortAfter(formatDuration(gapMinutes, t), workDate, secondJobDate);
+  }
+};
+
+export const getFatigueLevelLabel = (level: FatigueLevel, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.fatigueLevels[level];
+
+export const describeFatigue = ({ level, score }: DayFatigue, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.fatigue(getFatigueLevelLabel(level, t), score);
+
+export const describeFatigueWarning = (warning: FatigueWarning, t: Translator = DEFAULT_TRANSLATOR): string => {
+  const warnings = t.messages.fatigueWarnings;
+  switch (warning.kind) {
+    case 'quickReturn':
+      return warnings.quickReturn(formatDuration(warning.gapMinutes, t), formatDuration(QUICK_RETURN_MINUTES, t));
+    case 'longNightRun':
+      return warnings.longNightRun(warning.nights, MAX_NIGHTS_IN_ROW);
+    case 'longShiftRun':
+      return warnings.longShiftRun(warning.shifts, formatDuration(LONG_SHIFT_MINUTES, t), MAX_LONG_SHIFTS_IN_ROW);
+    case 'highScore':
+      return warnings.highScore(warning.score, formatTime(warning.time, t));
+  }
+};
+
+export const describeAdvice = ({ kind, time, minutes }: AdviceItem, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.advice[kind]({
+    at: time ? formatTime(time, t) : '',
+    duration: formatDuration(minutes ?? 0, t),
+  });
+
+export const getGuidanceTitle = ({ kind }: GuidanceItem, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.guidance.titles[kind];
+
+export const describeGuidance = (item: GuidanceItem, t: Translator = DEFAULT_TRANSLATOR): string => {
+  const { guidance } = t.messages;
+  switch (item.kind) {
+    case 'caffeineCutoff':
+      return guidance.caffeineCutoff(formatTime(item.window.start, t), formatHours(item.window, t));
+    case 'brightLight':
+      return guidance.brightLight[item.direction](formatWindow(item.window, t));
+    case 'avoidLight':
+      return guidance.avoidLight[item.direction](formatWindow(item.window, t));
+  }
+};
+
+export const getMealTitle = ({ size }: Meal, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.meals.titles[size];
+
+const describeMealRule = (time: Date, rule: MealRule, t: Translator): string => rule.kind === 'nearSleep'
+  ? t.messages.meals.nearSleep(formatHours({ start: time, end: rule.sleep }, t))
+  : t.messages.meals.night(formatWindow(rule.window, t));
+
+export const describeMeal = ({ time, size, occasion, rule }: Meal, t: Translator = DEFAULT_TRANSLATOR): string => {
+  const { meals } = t.messages;
+  const meal = meals[size](formatTime(time, t), meals.occasions[occasion]);
+  return rule ? meals.withRule(meal, describeMealRule(time, rule, t)) : meal;
+};
+
+// Named by the clock reading the change happens at, e.g. 2:00 rather than the 3:00 it jumps to
+export const describeClockChange = (
+  { window, at, minutes }: PlanClockChange,
+  timeZone: string,
+  t: Translator = DEFAULT_TRANSLATOR
+): string => {
+  const clock = toZonedClock(at, timeZone);
+  const before = clock.getHours() * 60 + clock.getMinutes() - minutes;
+  return t.messages.plan.clockChange[window](minutes > 0, formatDuration(Math.abs(minutes), t), t.formatClock(before));
+};
+
+export const describeFreeTime = ({ blocks, minutes }: DayFreeTime, t: Translator = DEFAULT_TRANSLATOR): string =>
+  blocks.length > 0
+    ? t.messages.freeTime.day(blocks.map(block => formatWindow(block, t)).join(', '), formatDuration(minutes, t))
+    : t.messages.freeTime.none;
+
+export const describeErrandSlot = ({ errand, window }: ErrandSlot, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.freeTime.errand(getErrandName(errand, t), formatWindow(window, t));
+
+export const getReminderLabel = (kind: ReminderKind, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.reminders.labels[kind];
+
+export const getReminderTitle = (kind: ReminderKind, t: Translator = DEFAULT_TRANSLATOR): string =>
+  t.messages.reminders.titles[kind];
+
+export const describeReminder = ({ kind, at, plan }: ReminderEvent, t: Translator = DEFAULT_TRANSLATOR): string => {
+  const reminders = t.messages.reminders;
+  switch (kind) {
+    case 'windDown':
+      return reminders.windDown(formatTime(at, t));
+    case 'nap': {
+      const nap = plan.naps.find(window => window.start.getTime() === at.getTime());
+      return nap ? describeNap(nap, t) : reminders.napAt(formatTime(at, t));
+    }
+    case 'caffeineCutoff':
+      return reminders.caffeineCutoffAt(formatTime(at, t));
+    case 'wakeUp':
+      return plan.shift ? reminders.shiftStartsAt(formatTime(plan.shift.start, t)) : reminders.wakeUpAt(formatTime(at, t));
+  }
+};
+
+export const describeParseError = (error: ParseError, t: Translator = DEFAULT_TRANSLATOR): string => {
+  const errors = t.messages.parseErrors;
+  switch (error.kind) {
+    case 'newerVersion':
+      return errors.newerVersion(error.version);
+    case 'notDate':
+      return errors.notDate(error.value, error.format);
+    case 'notDateTime':
+      return errors.notDateTime(error.value);
+    case 'unknownTimeZone':
+      return errors.unknownTimeZone(error.value);
+    case 'missingColumns':
+      return errors.missingColumns(error.columns.join(', '));
+    case 'notDuration':
+      return errors.notDuration(error.value);
+    case 'notStartTime':
+      return errors.notStartTime(error.value);
+    case 'notEndTime':
+      return errors.notEndTime(error.value);
+    case 'duplicateShift':
+      return errors.duplicateShift(error.date);
+    case 'unknownRowType':
+      return errors.unknownRowType(error.value);
+    case 'noMigration':
+      return errors.noMigration(error.version);
+    case 'missingList':
+      return errors.missingList(error.field);
+    case 'invalidSaved':
+      return errors.invalidSaved[error.part];
+    case 'invalidLink':
+      return errors.invalidLink[error.part];
+    case 'unknownPatternDay':
+      return errors.unknownPatternDay(error.value);
+    default:
+      return errors[error.kind];
+  }
+};
+
+export const describeStorageError = (error: StorageError, t: Translator = DEFAULT_TRANSLATOR): string => {
+  const { app } = t.messages;
+  switch (error.kind) {
+    case 'unavailable':
+      return app.storageUnavailable;
+    case 'unreadable':
+      return app.storageUnreadable(describeParseError(error.error, t));
+    case 'notSaved':
+      return app.storageNotSaved;
+  }
+};
+
+// Times read as they do where the day is planned
+export const describeDayPlan = (plan: DayPlan, t: Translator = DEFAULT_TRANSLATOR): string[] => {
+  const zoned = withTimeZone(t, plan.timeZone);
+  return [
+    ...(plan.shiftSource === 'secondJob' && plan.shift ? [describeSecondJob(plan.shift, zoned)] : []),
+    ...(plan.secondJob ? [describeSecondJob(plan.secondJob, zoned)] : []),
+    describeSleep(plan.sleep, plan.sleepLimit, zoned),
+    ...(plan.sleepLimit ? [describeSleepLimit(plan.sleepLimit, zoned)] : []),
+    ...plan.naps.map(nap => describeNap(nap, zoned)),
+    ...plan.advice.map(advice => describeAdvice(advice, zoned)),
+  ];
+};
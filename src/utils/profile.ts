@@ -0,0 +1,34 @@
+import { addDays, startOfDay } from 'date-fns';
+import { FixedCommitment } from '../types';
+import { createUniqueId, getShiftWindow } from './shifts';
+import { overlapMinutes, TimeWindow } from './time';
+
+export interface CommitmentWindow<T extends FixedCommitment = FixedCommitment> extends TimeWindow {
+  commitment: T;
+}
+
+export const isValidCommitment = (commitment: FixedCommitment): boolean =>
+  commitment.name.trim() !== '' && commitment.weekdays.length > 0;
+
+// Occurrences that overlap the window, including ones starting the day before and running past midnight
+export const getCommitmentWindows = <T extends FixedCommitment>(
+  commitments: T[],
+  window: TimeWindow,
+  timeZone?: string
+): CommitmentWindow<T>[] => {
+  const windows: CommitmentWindow<T>[] = [];
+  for (let date = addDays(startOfDay(window.start), -1); date < window.end; date = addDays(date, 1)) {
+    commitments
+      .filter(commitment => commitment.weekdays.includes(date.getDay()))
+      .forEach(commitment => {
+        const occurrence = { ...getShiftWindow({ date, start: commitment.start, end: commitment.end }, timeZone), commitment };
+        if (overlapMinutes(occurrence, window) > 0) {
+          windows.push(occurrence);
+        }
+      });
+  }
+  return windows.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+export const createCommitmentId = (name: string, commitments: FixedCommitment[]): string =>
+  createUniqueId(name, commitments.map(commitment => commitment.id), 'commitment');
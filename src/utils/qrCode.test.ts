@@ -0,0 +1,47 @@
+import { encodeQrCode, getErrorCorrection, getFormatBits, QrMatrix } from './qrCode';
+
+const readFormatBits = (modules: QrMatrix): number => {
+  const positions = [
+    ...[0, 1, 2, 3, 4, 5].map(y => [8, y]),
+    [8, 7], [8, 8], [7, 8],
+    ...[9, 10, 11, 12, 13, 14].map(i => [14 - i, 8]),
+  ];
+  return positions.reduce((bits, [x, y], i) => bits | (modules[y][x] ? 1 << i : 0), 0);
+};
+
+const hasFinder = (modules: QrMatrix, left: number, top: number): boolean =>
+  [0, 1, 2, 3, 4, 5, 6].every(dy => [0, 1, 2, 3, 4, 5, 6].every(dx => {
+    const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+    return modules[top + dy][left + dx] === (ring !== 2);
+  }));
+
+describe('getErrorCorrection', () => {
+  test('matches the Reed-Solomon codewords of the standard HELLO WORLD example', () => {
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+
+    expect(getErrorCorrection(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+});
+
+describe('encodeQrCode', () => {
+  test('fits short text in a version 1 code with finder patterns in three corners', () => {
+    const modules = encodeQrCode('HELLO')!;
+
+    expect(modules).toHaveLength(21);
+    expect(hasFinder(modules, 0, 0)).toBe(true);
+    expect(hasFinder(modules, 14, 0)).toBe(true);
+    expect(hasFinder(modules, 0, 14)).toBe(true);
+  });
+
+  test('writes valid format information for the chosen mask', () => {
+    const modules = encodeQrCode('https://example.com/nursesleep/#share=1.AQIDBAUGBwgJ')!;
+    const masks = [0, 1, 2, 3, 4, 5, 6, 7].map(getFormatBits);
+
+    expect(masks).toContain(readFormatBits(modules));
+  });
+
+  test('grows with the text and gives up past the largest version', () => {
+    expect(encodeQrCode('x'.repeat(300))!.length).toBe(4 * 13 + 17);
+    expect(encodeQrCode('x'.repeat(2400))).toBeNull();
+  });
+});
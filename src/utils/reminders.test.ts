@@ -0,0 +1,63 @@
+import { createEmptySchedule, DEFAULT_REMINDER_SETTINGS, ReminderSettings } from '../types';
+import { buildSleepPlan } from './sleepPlan';
+import { buildGuidance, findDayGuidance } from './guidance';
+import { buildReminders, getReminderEvents } from './reminders';
+
+const day = (d: number, hours = 0, minutes = 0) => new Date(2025, 4, d, hours, minutes);
+const NIGHT = { start: 19 * 60, end: 7 * 60 };
+
+const plans = buildSleepPlan({ ...createEmptySchedule(), workDays: [{ date: day(10), ...NIGHT }] });
+const findPlan = (d: number) => plans.find(plan => plan.date.getDate() === d)!;
+const enabled: ReminderSettings = { ...DEFAULT_REMINDER_SETTINGS, enabled: true };
+
+describe('getReminderEvents', () => {
+  test('covers bedtime, naps, the caffeine cutoff and the wake-up before a shift', () => {
+    const plan = findPlan(10);
+    const guidance = findDayGuidance(buildGuidance(plans), plan.date);
+    const events = getReminderEvents(plan, guidance).map(({ kind, at }) => ({ kind, at }));
+
+    expect(events).toEqual(expect.arrayContaining([
+      { kind: 'windDown', at: plan.sleep.start },
+      ...plan.naps.map(nap => ({ kind: 'nap', at: nap.start })),
+      { kind: 'caffeineCutoff', at: guidance?.items.find(item => item.kind === 'caffeineCutoff')?.window.start },
+      { kind: 'wakeUp', at: [plan.sleep, ...plan.naps].map(window => window.end).sort((a, b) => b.getTime() - a.getTime())[0] },
+    ]));
+  });
+
+  test('has no wake-up reminder on days without a shift', () => {
+    expect(getReminderEvents(findPlan(11)).some(event => event.kind === 'wakeUp')).toBe(false);
+  });
+});
+
+describe('buildReminders', () => {
+  test('schedules nothing while reminders are off', () => {
+    expect(buildReminders(plans, DEFAULT_REMINDER_SETTINGS, day(7))).toEqual([]);
+  });
+
+  test('takes the lead time off and skips reminders in the past', () => {
+    const now = day(10, 7);
+    const reminders = buildReminders(plans, enabled, now);
+    const windDown = reminders.find(reminder => reminder.kind === 'windDown');
+
+    expect(reminders.every(reminder => reminder.time > now)).toBe(true);
+    expect(reminders.map(reminder => reminder.time)).toEqual([...reminders.map(reminder => reminder.time)].sort(
+      (a, b) => a.getTime() - b.getTime()));
+    expect(windDown).toEqual({
+      id: `windDown-${day(10, 9).toISOString()}`,
+      kind: 'windDown',
+      time: day(10, 8),
+      title: 'Time to wind down',
+      body: 'Bedtime at 9:00 AM: dim the lights and put screens away',
+    });
+  });
+
+  test('leaves out reminder types that are switched off', () => {
+    const settings = { ...enabled, kinds: { ...enabled.kinds, windDown: { enabled: false, leadMinutes: 60 } } };
+
+    expect(buildReminders(plans, settings, day(7)).some(reminder => reminder.kind === 'windDown')).toBe(false);
+  });
+
+  test('only looks a week ahead', () => {
+    expect(buildReminders(plans, enabled, day(1)).every(reminder => reminder.time <= day(8))).toBe(true);
+  });
+});
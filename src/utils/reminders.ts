@@ -0,0 +1,77 @@
+import { addDays, addMinutes } from 'date-fns';
+import { ReminderKind, ReminderSettings } from '../types';
+import { DayPlan, DEFAULT_PLAN_CONFIG, PlanConfig } from './sleepPlan';
+import { buildGuidance, DayGuidance, findDayGuidance } from './guidance';
+import { describeReminder, getReminderTitle } from './planText';
+import { DEFAULT_TRANSLATOR, Translator } from './i18n';
+
+export interface ReminderEvent {
+  kind: ReminderKind;
+  // The planned time the reminder is about, before its lead time is taken off
+  at: Date;
+  plan: DayPlan;
+}
+
+export interface ScheduledReminder {
+  // Stable across rebuilds, so a rescheduled reminder replaces its earlier notification
+  id: string;
+  kind: ReminderKind;
+  time: Date;
+  title: string;
+  body: string;
+}
+
+export const REMINDER_KINDS: ReminderKind[] = ['windDown', 'nap', 'caffeineCutoff', 'wakeUp'];
+
+// The page is rebuilt often enough that only the coming week needs scheduling
+export const REMINDER_HORIZON_DAYS = 7;
+
+// The wake-up before a shift is the end of the last sleep or nap before it starts
+const getWakeUp = (plan: DayPlan): Date | undefined => {
+  const { shift } = plan;
+  if (!shift) {
+    return undefined;
+  }
+  return [plan.sleep, ...plan.naps]
+    .map(window => window.end)
+    .filter(end => end <= shift.start)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+};
+
+export const getReminderEvents = (plan: DayPlan, guidance?: DayGuidance): ReminderEvent[] => {
+  const caffeine = guidance?.items.find(item => item.kind === 'caffeineCutoff')?.window.start;
+  const wakeUp = getWakeUp(plan);
+  return [
+    { kind: 'windDown' as const, at: plan.sleep.start, plan },
+    ...plan.naps.map(nap => ({ kind: 'nap' as const, at: nap.start, plan })),
+    ...(caffeine ? [{ kind: 'caffeineCutoff' as const, at: caffeine, plan }] : []),
+    ...(wakeUp ? [{ kind: 'wakeUp' as const, at: wakeUp, plan }] : []),
+  ];
+};
+
+export const buildReminders = (
+  plans: DayPlan[],
+  settings: ReminderSettings,
+  now: Date = new Date(),
+  t: Translator = DEFAULT_TRANSLATOR,
+  config: PlanConfig = DEFAULT_PLAN_CONFIG
+): ScheduledReminder[] => {
+  if (!settings.enabled) {
+    return [];
+  }
+  const horizon = addDays(now, REMINDER_HORIZON_DAYS);
+  const guidance = buildGuidance(plans, config);
+
+  return plans
+    .flatMap(plan => getReminderEvents(plan, findDayGuidance(guidance, plan.date)))
+    .filter(event => settings.kinds[event.kind].enabled)
+    .map(event => ({
+      id: `${event.kind}-${event.at.toISOString()}`,
+      kind: event.kind,
+      time: addMinutes(event.at, -settings.kinds[event.kind].leadMinutes),
+      title: getReminderTitle(event.kind, t),
+      body: describeReminder(event, t),
+    }))
+    .filter(reminder => reminder.time > now && reminder.time <= horizon)
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+};
@@ -0,0 +1,102 @@
+import { createEmptySchedule, DEFAULT_SHIFT_PRESETS, Schedule } from '../types';
+import {
+  applyRotation,
+  generateRotation,
+  MAX_ROTATION_DAYS,
+  parsePattern,
+  previewRotation,
+  ROTATION_TEMPLATES,
+} from './rotations';
+
+const day = (d: number) => new Date(2025, 4, d);
+const presets = DEFAULT_SHIFT_PRESETS;
+
+const generate = (pattern: string, options: { cycles?: number; end?: Date }) =>
+  generateRotation({ start: day(1), steps: parsePattern(pattern, presets).steps, ...options }, presets);
+
+const summarize = (days: ReturnType<typeof generate>) =>
+  days.map(({ date, workDay }) => `${date.getDate()}:${workDay?.presetId ?? 'off'}`);
+
+describe('parsePattern', () => {
+  test('accepts shorthands, preset ids and separators', () => {
+    const { steps, errors } = parsePattern('D, n  off overnight -', presets);
+
+    expect(errors).toEqual([]);
+    expect(steps.map(step => step.presetId)).toEqual(['day', 'night', null, 'overnight', null]);
+  });
+
+  test('reports unknown tokens', () => {
+    expect(parsePattern('D Q', presets).errors).toEqual([{ kind: 'unknownPatternDay', value: 'Q' }]);
+    expect(parsePattern('  ', presets).errors).toHaveLength(1);
+  });
+
+  test('parses every built-in template', () => {
+    ROTATION_TEMPLATES.forEach(template => {
+      expect(parsePattern(template.pattern, presets).errors).toEqual([]);
+    });
+  });
+
+  test('uses 28-day and 14-day cycles for DuPont and Panama', () => {
+    const length = (id: string) =>
+      parsePattern(ROTATION_TEMPLATES.find(t => t.id === id)!.pattern, presets).steps.length;
+
+    expect(length('dupont')).toBe(28);
+    expect(length('panama')).toBe(14);
+  });
+});
+
+describe('generateRotation', () => {
+  test('repeats the pattern for a number of cycles', () => {
+    expect(summarize(generate('D N off', { cycles: 2 }))).toEqual([
+      '1:day', '2:night', '3:off', '4:day', '5:night', '6:off',
+    ]);
+  });
+
+  test('stops at the end date even in the middle of a cycle', () => {
+    expect(summarize(generate('D D off off', { end: day(6) }))).toEqual([
+      '1:day', '2:day', '3:off', '4:off', '5:day', '6:day',
+    ]);
+  });
+
+  test('copies the preset times onto each shift', () => {
+    const [first] = generate('N', { cycles: 1 });
+
+    expect(first.workDay).toEqual({ date: day(1), start: 19 * 60, end: 7 * 60, presetId: 'night' });
+  });
+
+  test('caps runaway ranges', () => {
+    expect(generate('D', { end: new Date(2030, 0, 1) })).toHaveLength(MAX_ROTATION_DAYS);
+  });
+});
+
+describe('previewRotation and applyRotation', () => {
+  const existing: Schedule = {
+    ...createEmptySchedule(),
+    workDays: [
+      { date: day(1), start: 7 * 60, end: 19 * 60, presetId: 'day' },
+      { date: day(2), start: 7 * 60, end: 19 * 60, presetId: 'day' },
+    ],
+    daysOff: [day(4)],
+  };
+  const preview = previewRotation(existing, generate('D N off D', { cycles: 1 }));
+
+  test('flags clashes with existing shifts and days off', () => {
+    expect(preview.map(d => d.conflict)).toEqual([undefined, 'differentShift', undefined, 'dayOff']);
+  });
+
+  test('keeps existing entries unless asked to replace them', () => {
+    const kept = applyRotation(existing, preview, false);
+
+    expect(kept.workDays.map(wd => wd.presetId)).toEqual(['day', 'day']);
+    expect(kept.daysOff).toEqual([day(4)]);
+  });
+
+  test('replaces clashing entries when asked', () => {
+    const replaced = applyRotation(existing, preview, true);
+
+    expect(replaced.workDays.map(wd => `${wd.date.getDate()}:${wd.presetId}`)).toEqual([
+      '1:day', '2:night', '4:day',
+    ]);
+    expect(replaced.daysOff).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { Schedule, ShiftPreset, WorkDay } from '../types';
+import { findPreset } from './shifts';
+import { addWorkDay, findWorkDay, isDayOff, updateWorkDay } from './scheduleEdits';
+import { ParseError } from './parseErrors';
+
+export interface RotationTemplate {
+  id: string;
+  name: string;
+  pattern: string;
+}
+
+export const ROTATION_TEMPLATES: RotationTemplate[] = [
+  {
+    id: 'dupont',
+    name: 'DuPont (4-week cycle)',
+    pattern: 'N N N N off off off D D D off N N N off off off D D D D off off off off off off off',
+  },
+  { id: 'panama', name: 'Panama / 2-2-3', pattern: 'D D off off D D D off off D D off off off' },
+  { id: 'four-on-four-off', name: '4-on-4-off', pattern: 'D D D D off off off off' },
+  { id: 'continental', name: 'Continental (2 days, 2 nights, 4 off)', pattern: 'D D N N off off off off' },
+];
+
+// Single-letter shorthands for the built-in presets; any preset id works as a token too
+const TOKEN_ALIASES: Record<string, string | null> = {
+  d: 'day',
+  n: 'night',
+  e: 'evening',
+  o: null,
+  off: null,
+  x: null,
+  '-': null,
+};
+
+// Guards against typing a year-long end date with a one-day pattern by accident
+export const MAX_ROTATION_DAYS = 366;
+
+export interface RotationStep {
+  token: string;
+  presetId: string | null;
+}
+
+export interface ParsedPattern {
+  steps: RotationStep[];
+  errors: ParseError[];
+}
+
+export interface RotationOptions {
+  start: Date;
+  steps: RotationStep[];
+  cycles?: number;
+  end?: Date;
+}
+
+export interface GeneratedDay {
+  date: Date;
+  workDay: WorkDay | null;
+}
+
+export interface RotationDay extends GeneratedDay {
+  conflict?: 'differentShift' | 'dayOff';
+}
+
+export const parsePattern = (pattern: string, presets: ShiftPreset[]): ParsedPattern => {
+  const tokens = pattern.split(/[\s,]+/).filter(Boolean);
+  const errors: ParseError[] = [];
+  const steps = tokens.map(token => {
+    const key = token.toLowerCase();
+    const presetId = Object.prototype.hasOwnProperty.call(TOKEN_ALIASES, key) ? TOKEN_ALIASES[key] : key;
+    if (presetId !== null && !findPreset(presets, presetId)) {
+      errors.push({ kind: 'unknownPatternDay', value: token });
+    }
+    return { token, presetId };
+  });
+
+  if (tokens.length === 0) {
+    errors.push({ kind: 'emptyPattern' });
+  }
+  return { steps, errors };
+};
+
+export const getRotationLength = ({ start, steps, cycles, end }: RotationOptions): number => {
+  const days = end
+    ? differenceInCalendarDays(end, start) + 1
+    : steps.length * (cycles ?? 1);
+  return Math.max(0, Math.min(days, MAX_ROTATION_DAYS));
+};
+
+export const generateRotation = (
+  options: RotationOptions,
+  presets: ShiftPreset[]
+): GeneratedDay[] => {
+  const start = startOfDay(options.start);
+  const length = options.steps.length > 0 ? getRotationLength(options) : 0;
+
+  return Array.from({ length }, (_, index) => {
+    const date = addDays(start, index);
+    const preset = findPreset(presets, options.steps[index % options.steps.length].presetId ?? undefined);
+    return {
+      date,
+      workDay: preset ? { date, start: preset.start, end: preset.end, presetId: preset.id } : null,
+    };
+  });
+};
+
+// Flags generated shifts that would land on a different existing shift or on a day off
+export const previewRotation = (
+  schedule: Schedule,
+  generated: GeneratedDay[]
+): RotationDay[] => generated.map(({ date, workDay }) => {
+  if (!workDay) {
+    return { date, workDay };
+  }
+  const existing = findWorkDay(schedule, date);
+  if (existing && (existing.start !== workDay.start || existing.end !== workDay.end)) {
+    return { date, workDay, conflict: 'differentShift' };
+  }
+  if (isDayOff(schedule, date)) {
+    return { date, workDay, conflict: 'dayOff' };
+  }
+  return { date, workDay };
+});
+
+export const applyRotation = (
+  schedule: Schedule,
+  preview: RotationDay[],
+  replaceConflicts: boolean
+): Schedule => preview.reduce((current, { date, workDay, conflict }) => {
+  if (!workDay || (conflict && !replaceConflicts)) {
+    return current;
+  }
+  return findWorkDay(current, date)
+    ? updateWorkDay(current, date, workDay)
+    : addWorkDay(current, workDay);
+}, schedule);
@@ -0,0 +1,131 @@
+import { createEmptySchedule, DEFAULT_SHIFT_PRESETS, Schedule } from '../types';
+import { parseCsv } from './csv';
+import { describeDayPlan, describeFatigueWarning, describeGuidance, describeMeal, getFatigueLevelLabel } from './planText';
+import { assessFatigue, findDayFatigue } from './fatigue';
+import { buildGuidance, findDayGuidance } from './guidance';
+import { buildMeals, findDayMeals } from './meals';
+import { buildScheduleCsv, parseScheduleCsv } from './scheduleCsv';
+import { buildSleepPlan, getDayPlan } from './sleepPlan';
+
+const schedule: Schedule = {
+  ...createEmptySchedule(),
+  workDays: [
+    { date: new Date(2025, 4, 10), start: 19 * 60, end: 7 * 60, presetId: 'night' },
+    { date: new Date(2025, 4, 11), start: 6 * 60 + 45, end: 15 * 60 + 15, presetId: 'early' },
+  ],
+  daysOff: [new Date(2025, 4, 14)],
+  secondJobDays: [{ date: new Date(2025, 4, 16), start: 8 * 60, end: 16 * 60 }],
+  shiftPresets: [...DEFAULT_SHIFT_PRESETS, { id: 'early', name: 'Early, "short"', start: 405, end: 915 }],
+};
+
+const exportCsv = (value: Schedule) => buildScheduleCsv(value, buildSleepPlan(value));
+
+describe('buildScheduleCsv', () => {
+  test('starts with a versioned header row', () => {
+    expect(exportCsv(schedule).split('\r\n')[0]).toBe(
+      'nursesleep-csv/2,Date,Day Type,Shift Start,Shift End,Preset,Time Zone,Sleep Time,Wake Time,' +
+        'Fatigue Score,Fatigue Risk,Fatigue Warnings,Recommendations'
+    );
+  });
+
+  test('quotes fields with commas and quotes so every row keeps its columns', () => {
+    const { rows, errors } = parseCsv(exportCsv(schedule));
+
+    expect(errors).toEqual([]);
+    rows.forEach(row => expect(row.cells).toHaveLength(13));
+    expect(rows.find(row => row.cells[0] === 'preset')?.cells[2]).toBe('Early, "short"');
+  });
+
+  test('writes shift rows with ISO dates, shift hours and the plan', () => {
+    const { rows } = parseCsv(exportCsv(schedule));
+    const shift = rows.find(row => row.cells[1] === '2025-05-10');
+    const fatigue = findDayFatigue(assessFatigue(buildSleepPlan(schedule)), new Date(2025, 4, 10))!;
+    const guidance = findDayGuidance(buildGuidance(buildSleepPlan(schedule)), new Date(2025, 4, 10))!;
+    const meals = findDayMeals(buildMeals(buildSleepPlan(schedule)), new Date(2025, 4, 10))!;
+
+    expect(shift?.cells).toEqual([
+      'shift',
+      '2025-05-10',
+      'Night Shift Work Day',
+      '19:00',
+      '07:00',
+      'night',
+      'UTC',
+      '9:00 AM',
+      '5:00 PM',
+      String(fatigue.score),
+      getFatigueLevelLabel(fatigue.level),
+      fatigue.warnings.map(warning => describeFatigueWarning(warning)).join('; '),
+      [
+        ...describeDayPlan(getDayPlan(schedule, new Date(2025, 4, 10))),
+        ...guidance.items.map(item => describeGuidance(item)),
+        ...meals.meals.map(meal => describeMeal(meal)),
+      ].join('; '),
+    ]);
+  });
+});
+
+describe('parseScheduleCsv', () => {
+  test('reads an export back into the same schedule', () => {
+    expect(parseScheduleCsv(exportCsv(schedule))).toEqual({ schedule, errors: [] });
+  });
+
+  test('finds columns by name when a spreadsheet reorders them', () => {
+    const csv = [
+      'nursesleep-csv/1,Preset,Shift End,Shift Start,Date',
+      'shift,,19:00,07:00,2025-05-10',
+    ].join('\n');
+
+    expect(parseScheduleCsv(csv).schedule?.workDays).toEqual([
+      { date: new Date(2025, 4, 10), start: 7 * 60, end: 19 * 60 },
+    ]);
+  });
+
+  test('gives second-job rows from format 1 files a day shift', () => {
+    const csv = [
+      'nursesleep-csv/1,Date,Shift Start,Shift End,Preset',
+      'second-job,2025-05-12,,,',
+    ].join('\n');
+
+    expect(parseScheduleCsv(csv).schedule?.secondJobDays).toEqual([
+      { date: new Date(2025, 4, 12), start: 7 * 60, end: 19 * 60 },
+    ]);
+  });
+
+  test('reports each unreadable row and restores nothing', () => {
+    const csv = [
+      'nursesleep-csv/1,Date,Shift Start,Shift End,Preset',
+      'shift,2025-05-10,19:00,07:00,night',
+      'shift,10.05.2025,19:00,07:00,night',
+      'shift,2025-05-10,07:00,19:00,day',
+      'vacation,2025-05-12,,,',
+    ].join('\n');
+
+    expect(parseScheduleCsv(csv)).toEqual({
+      errors: [
+        { line: 3, error: { kind: 'notDate', value: '10.05.2025', format: 'yyyy-MM-dd' } },
+        { line: 4, error: { kind: 'duplicateShift', date: '2025-05-10' } },
+        { line: 5, error: { kind: 'unknownRowType', value: 'vacation' } },
+      ],
+    });
+  });
+
+  test('keeps the zones of shifts entered elsewhere and rejects unknown ones', () => {
+    const travelling: Schedule = {
+      ...schedule,
+      workDays: [{ date: new Date(2025, 4, 10), start: 19 * 60, end: 7 * 60, presetId: 'night', timeZone: 'America/Denver' }],
+    };
+    const csv = [
+      'nursesleep-csv/1,Date,Shift Start,Shift End,Preset,Time Zone',
+      'shift,2025-05-10,19:00,07:00,night,Mars/Olympus',
+    ].join('\n');
+
+    expect(parseScheduleCsv(exportCsv(travelling)).schedule?.workDays).toEqual(travelling.workDays);
+    expect(parseScheduleCsv(csv).errors).toEqual([{ line: 2, error: { kind: 'unknownTimeZone', value: 'Mars/Olympus' } }]);
+  });
+
+  test('rejects other CSV files and newer format versions', () => {
+    expect(parseScheduleCsv('Date,Start,End').errors[0].error).toEqual({ kind: 'notScheduleCsv' });
+    expect(parseScheduleCsv('nursesleep-csv/3,Date').errors[0].error).toEqual({ kind: 'newerVersion', version: 3 });
+  });
+});
@@ -0,0 +1,207 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { createEmptySchedule, DEFAULT_SHIFT_PRESETS, LEGACY_SECOND_JOB_TIMES, Schedule, ShiftPreset, WorkDay } from '../types';
+import { formatCsv, LineError, parseCsv } from './csv';
+import { DayPlan, getPlanConfig } from './sleepPlan';
+import {
+  describeClockChange,
+  describeDayPlan,
+  describeFatigueWarning,
+  describeGuidance,
+  describeMeal,
+  formatTime,
+  getDayTypeLabel,
+  getFatigueLevelLabel
+} from './planText';
+import { assessFatigue, findDayFatigue } from './fatigue';
+import { buildGuidance, findDayGuidance } from './guidance';
+import { buildMeals, findDayMeals } from './meals';
+import { findWorkDay, isDayOff } from './scheduleEdits';
+import { findPreset, minutesToDate } from './shifts';
+import { parseClockTime } from './shiftImport';
+import { DEFAULT_TRANSLATOR, Translator, withTimeZone } from './i18n';
+import { isValidTimeZone } from './timeZones';
+
+// The first header cell names the format so an import can tell our files from other CSVs
+export const CSV_FORMAT = 'nursesleep-csv';
+// 2: second-job rows carry their hours; format 1 wrote them without
+export const CSV_VERSION = 2;
+
+// Only shift, off, second-job and preset rows are read back; plan rows are for people
+export type CsvRecordKind = 'shift' | 'off' | 'plan' | 'second-job' | 'preset';
+
+const COLUMNS = [
+  `${CSV_FORMAT}/${CSV_VERSION}`,
+  'Date',
+  'Day Type',
+  'Shift Start',
+  'Shift End',
+  'Preset',
+  'Time Zone',
+  'Sleep Time',
+  'Wake Time',
+  'Fatigue Score',
+  'Fatigue Risk',
+  'Fatigue Warnings',
+  'Recommendations',
+] as const;
+
+type Column = typeof COLUMNS[number];
+type CsvRecord = Partial<Record<Column, string>>;
+
+export interface ScheduleCsvResult {
+  schedule?: Schedule;
+  errors: LineError[];
+}
+
+const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+const toClock = (minutes: number): string => format(minutesToDate(minutes), 'HH:mm');
+
+const toRow = (kind: CsvRecordKind, record: CsvRecord): string[] =>
+  COLUMNS.map((column, index) => index === 0 ? kind : record[column] ?? '');
+
+const getRecordKind = (schedule: Schedule, plan: DayPlan): CsvRecordKind => {
+  if (findWorkDay(schedule, plan.date)) return 'shift';
+  if (isDayOff(schedule, plan.date)) return 'off';
+  return 'plan';
+};
+
+// Column headers stay in English so an export made in any language can be restored
+export const buildScheduleCsv = (schedule: Schedule, plans: DayPlan[], t: Translator = DEFAULT_TRANSLATOR): string => {
+  const fatigue = assessFatigue(plans);
+  const config = getPlanConfig(schedule.profile);
+  const guidance = buildGuidance(plans, config);
+  const meals = buildMeals(plans, config);
+  const planRows = plans.map(plan => {
+    const workDay = findWorkDay(schedule, plan.date);
+    const dayFatigue = findDayFatigue(fatigue, plan.date);
+    const dayGuidance = findDayGuidance(guidance, plan.date);
+    const dayMeals = findDayMeals(meals, plan.date);
+    const zoned = withTimeZone(t, plan.timeZone);
+    return toRow(getRecordKind(schedule, plan), {
+      Date: toDateKey(plan.date),
+      'Day Type': getDayTypeLabel(plan.dayType, t),
+      'Shift Start': workDay ? toClock(workDay.start) : '',
+      'Shift End': workDay ? toClock(workDay.end) : '',
+      Preset: workDay?.presetId ?? '',
+      'Time Zone': plan.timeZone,
+      'Sleep Time': formatTime(plan.sleep.start, zoned),
+      'Wake Time': formatTime(plan.sleep.end, zoned),
+      'Fatigue Score': dayFatigue ? String(dayFatigue.score) : '',
+      'Fatigue Risk': dayFatigue ? getFatigueLevelLabel(dayFatigue.level, t) : '',
+      'Fatigue Warnings': dayFatigue?.warnings.map(warning => describeFatigueWarning(warning, zoned)).join('; ') ?? '',
+      Recommendations: [
+        ...describeDayPlan(plan, t),
+        ...plan.clockChanges.map(change => describeClockChange(change, plan.timeZone, t)),
+        ...(dayGuidance?.items.map(item => describeGuidance(item, zoned)) ?? []),
+        ...(dayMeals?.meals.map(meal => describeMeal(meal, zoned)) ?? []),
+      ].join('; '),
+    });
+  });
+
+  const secondJobRows = schedule.secondJobDays.map(sj => toRow('second-job', {
+    Date: toDateKey(sj.date),
+    'Shift Start': toClock(sj.start),
+    'Shift End': toClock(sj.end),
+    'Time Zone': sj.timeZone ?? schedule.timeZone,
+  }));
+
+  // Built-in presets are always available, so only the user's own are written out
+  const presetRows = schedule.shiftPresets
+    .filter(preset => !findPreset(DEFAULT_SHIFT_PRESETS, preset.id))
+    .map(preset => toRow('preset', {
+      'Day Type': preset.name,
+      'Shift Start': toClock(preset.start),
+      'Shift End': toClock(preset.end),
+      Preset: preset.id,
+    }));
+
+  return formatCsv([[...COLUMNS], ...planRows, ...secondJobRows, ...presetRows]);
+};
+
+export const parseScheduleCsv = (text: string): ScheduleCsvResult => {
+  const { rows, errors } = parseCsv(text);
+  const [header, ...records] = rows;
+  const version = new RegExp(`^${CSV_FORMAT}/(\\d+)$`).exec(header?.cells[0] ?? '');
+  const fileVersion = Number(version?.[1]);
+
+  if (!version) {
+    return { errors: [{ line: header?.line ?? 1, error: { kind: 'notScheduleCsv' } }] };
+  }
+  if (fileVersion > CSV_VERSION) {
+    return { errors: [{ line: header.line, error: { kind: 'newerVersion', version: fileVersion } }] };
+  }
+
+  // Columns are looked up by name, so a spreadsheet may reorder or drop the informational ones
+  const indices = new Map(header.cells.map((cell, index) => [index === 0 ? COLUMNS[0] : cell.trim(), index]));
+  const missing = (['Date', 'Shift Start', 'Shift End', 'Preset'] as Column[]).filter(column => !indices.has(column));
+  if (missing.length > 0) {
+    return { errors: [{ line: header.line, error: { kind: 'missingColumns', columns: missing } }] };
+  }
+
+  const schedule = createEmptySchedule();
+  const workDays: WorkDay[] = [];
+  const presets: ShiftPreset[] = [];
+
+  records.forEach(({ line, cells }) => {
+    const cell = (column: Column) => (cells[indices.get(column) ?? -1] ?? '').trim();
+    const kind = cell(COLUMNS[0]) as CsvRecordKind;
+    const date = parseISO(cell('Date'));
+    const untimed = fileVersion < 2 && kind === 'second-job' && !cell('Shift Start') && !cell('Shift End');
+    const start = untimed ? LEGACY_SECOND_JOB_TIMES.start : parseClockTime(cell('Shift Start'));
+    const end = untimed ? LEGACY_SECOND_JOB_TIMES.end : parseClockTime(cell('Shift End'));
+    // Files from before time zones have no such column; their shifts are in the importing device's zone
+    const timeZone = cell('Time Zone');
+    const zone = timeZone && timeZone !== schedule.timeZone ? { timeZone } : {};
+    const needsDate = kind === 'shift' || kind === 'off' || kind === 'second-job';
+    const needsTimes = kind === 'shift' || kind === 'second-job' || kind === 'preset';
+
+    if (needsDate && !isValid(date)) {
+      errors.push({ line, error: { kind: 'notDate', value: cell('Date'), format: 'yyyy-MM-dd' } });
+    } else if (needsTimes && (start === null || end === null)) {
+      errors.push({ line, error: { kind: 'shiftTimes' } });
+    } else if (needsTimes && timeZone && !isValidTimeZone(timeZone)) {
+      errors.push({ line, error: { kind: 'unknownTimeZone', value: timeZone } });
+    } else if (kind === 'shift') {
+      if (workDays.some(wd => toDateKey(wd.date) === toDateKey(date))) {
+        errors.push({ line, error: { kind: 'duplicateShift', date: cell('Date') } });
+      } else {
+        workDays.push({
+          date,
+          start: start!,
+          end: end!,
+          ...(cell('Preset') ? { presetId: cell('Preset') } : {}),
+          ...zone,
+        });
+      }
+    } else if (kind === 'off') {
+      schedule.daysOff.push(date);
+    } else if (kind === 'second-job') {
+      schedule.secondJobDays.push({ date, start: start!, end: end!, ...zone });
+    } else if (kind === 'preset') {
+      if (!cell('Preset') || !cell('Day Type')) {
+        errors.push({ line, error: { kind: 'presetName' } });
+      } else if (!findPreset(schedule.shiftPresets, cell('Preset'))) {
+        presets.push({ id: cell('Preset'), name: cell('Day Type'), start: start!, end: end! });
+      }
+    } else if (kind !== 'plan') {
+      errors.push({ line, error: { kind: 'unknownRowType', value: cell(COLUMNS[0]) } });
+    }
+  });
+
+  if (errors.length > 0) {
+    return { errors: errors.sort((a, b) => a.line - b.line) };
+  }
+
+  const shiftPresets = [...schedule.shiftPresets, ...presets];
+  return {
+    schedule: {
+      ...schedule,
+      shiftPresets,
+      // Shifts whose preset was not exported keep their hours but lose the link
+      workDays: workDays.map(({ presetId, ...wd }) => presetId && findPreset(shiftPresets, presetId)
+        ? { ...wd, presetId }
+        : wd),
+    },
+    errors,
+  };
+};
@@ -0,0 +1,159 @@
+import { createEmptySchedule, Schedule } from '../types';
+import { buildSleepPlan } from './sleepPlan';
+import {
+  addSecondJobDay,
+  addWorkDay,
+  changeTimeZone,
+  clearDayOff,
+  logSleep,
+  markDayOff,
+  moveWorkDay,
+  removeSecondJobDay,
+  removeSleepLog,
+  removeWorkDay,
+  resetSchedule,
+  toggleWorkDay,
+  updateWorkDay,
+} from './scheduleEdits';
+
+const NIGHT = { start: 19 * 60, end: 7 * 60 };
+const DAY = { start: 7 * 60, end: 19 * 60 };
+const day = (d: number) => new Date(2025, 4, d);
+
+const schedule = (): Schedule => ({
+  ...createEmptySchedule(),
+  workDays: [
+    { date: day(10), ...NIGHT, presetId: 'night' },
+    { date: day(11), ...NIGHT, presetId: 'night' },
+  ],
+});
+
+const dayTypes = (s: Schedule) =>
+  buildSleepPlan(s).map(plan => `${plan.date.getDate()}:${plan.dayType}`);
+
+describe('schedule edits', () => {
+  test('adding a shift clears a day off on the same date', () => {
+    const edited = addWorkDay({ ...schedule(), daysOff: [day(12)] }, { date: day(12), ...DAY });
+
+    expect(edited.daysOff).toEqual([]);
+    expect(edited.workDays).toHaveLength(3);
+  });
+
+  test('a second-job shift can share a date with a main-job shift', () => {
+    const edited = addSecondJobDay(schedule(), { date: day(11), start: 8 * 60, end: 12 * 60 });
+
+    expect(edited.secondJobDays).toEqual([{ date: day(11), start: 8 * 60, end: 12 * 60 }]);
+    expect(addWorkDay(edited, { date: day(12), ...DAY }).secondJobDays).toHaveLength(1);
+    expect(removeSecondJobDay(edited, day(11)).secondJobDays).toEqual([]);
+  });
+
+  test('marking a day off also clears its second-job shift', () => {
+    const edited = addSecondJobDay(schedule(), { date: day(11), start: 8 * 60, end: 12 * 60 });
+
+    expect(markDayOff(edited, day(11)).secondJobDays).toEqual([]);
+  });
+
+  test('deleting a shift updates the derived days around it', () => {
+    expect(dayTypes(removeWorkDay(schedule(), day(11)))).toEqual([
+      '8:regular',
+      '9:nightPreparation',
+      '10:nightShift',
+      '11:nightRecovery',
+    ]);
+  });
+
+  test('changing the shift times re-plans the day', () => {
+    const edited = updateWorkDay(schedule(), day(11), { ...DAY, presetId: 'day' });
+
+    expect(edited.workDays[1]).toEqual({ date: day(11), ...DAY, presetId: 'day' });
+    expect(dayTypes(edited)).toContain('11:dayShift');
+  });
+
+  test('editing a shift keeps its time zone unless the change has one', () => {
+    const travelling = updateWorkDay(schedule(), day(11), { ...NIGHT, timeZone: 'Europe/Berlin' });
+
+    expect(travelling.workDays[1].timeZone).toBe('Europe/Berlin');
+    expect(updateWorkDay(travelling, day(11), DAY).workDays[1].timeZone).toBe('Europe/Berlin');
+  });
+
+  test('moving a shift carries its times to the new date', () => {
+    const edited = moveWorkDay(schedule(), day(11), day(14));
+
+    expect(edited.workDays).toContainEqual({ date: day(14), ...NIGHT, presetId: 'night' });
+    expect(dayTypes(edited)).toEqual([
+      '8:regular',
+      '9:nightPreparation',
+      '10:nightShift',
+      '11:nightRecovery',
+      '12:regular',
+      '13:nightPreparation',
+      '14:nightShift',
+      '15:nightRecovery',
+    ]);
+  });
+
+  test('toggling adds a shift, replaces a different one and removes the same one', () => {
+    const added = toggleWorkDay(schedule(), day(13), { ...DAY, presetId: 'day' });
+    const replaced = toggleWorkDay(added, day(13), { ...NIGHT, presetId: 'night' });
+
+    expect(added.workDays).toContainEqual({ date: day(13), ...DAY, presetId: 'day' });
+    expect(replaced.workDays).toContainEqual({ date: day(13), ...NIGHT, presetId: 'night' });
+    expect(toggleWorkDay(replaced, day(13), { ...NIGHT, presetId: 'night' }).workDays).toHaveLength(2);
+  });
+
+  test('refuses to move a shift onto another shift', () => {
+    const original = schedule();
+
+    expect(moveWorkDay(original, day(11), day(10))).toBe(original);
+  });
+
+  test('marking a shift as a day off keeps the date in the plan', () => {
+    const edited = markDayOff(schedule(), day(11));
+
+    expect(edited.workDays).toHaveLength(1);
+    expect(dayTypes(edited)).toContain('11:dayOff');
+    expect(dayTypes(clearDayOff(edited, day(11)))).toContain('11:nightRecovery');
+  });
+
+  test('a day off after a night shift still starts with the post-shift sleep', () => {
+    const plan = buildSleepPlan(markDayOff(schedule(), day(11)))
+      .find(p => p.dayType === 'dayOff')!;
+
+    expect(plan.sleep).toEqual({ start: new Date(2025, 4, 11, 8), end: new Date(2025, 4, 11, 16) });
+  });
+
+  test('logging sleep again for a day replaces the earlier entry', () => {
+    const first = { date: day(11), start: new Date(2025, 4, 11, 8), end: new Date(2025, 4, 11, 13), quality: 2 as const };
+    const second = { ...first, end: new Date(2025, 4, 11, 15), quality: 4 as const };
+    const edited = logSleep(logSleep(schedule(), first), second);
+
+    expect(edited.sleepLog).toEqual([second]);
+    expect(removeSleepLog(edited, day(11)).sleepLog).toEqual([]);
+  });
+
+  test('changing the time zone keeps shifts already entered at their real times', () => {
+    const before = { ...schedule(), timeZone: 'America/Chicago' };
+    const moved = changeTimeZone(addWorkDay(before, { date: day(13), ...DAY, timeZone: 'America/Denver' }), 'America/Denver');
+
+    expect(moved.timeZone).toBe('America/Denver');
+    expect(moved.workDays.map(wd => wd.timeZone)).toEqual(['America/Chicago', 'America/Chicago', undefined]);
+
+    const firstShift = (s: Schedule) => buildSleepPlan(s).find(plan => plan.shift)?.shift;
+    expect(firstShift(moved)).toEqual(firstShift(before));
+  });
+
+  test('resetting clears the roster but keeps the presets and settings', () => {
+    const preset = { id: 'short-night', name: 'Short night', start: 21 * 60, end: 5 * 60 };
+    const before = {
+      ...markDayOff(schedule(), day(12)),
+      shiftPresets: [...createEmptySchedule().shiftPresets, preset],
+      timeZone: 'America/Denver',
+    };
+    const reset = resetSchedule(before);
+
+    expect(reset.workDays).toEqual([]);
+    expect(reset.daysOff).toEqual([]);
+    expect(reset.shiftPresets).toContainEqual(preset);
+    expect(reset.timeZone).toBe('America/Denver');
+  });
+});
@@ -0,0 +1,128 @@
+import { isSameDay } from 'date-fns';
+import { createEmptySchedule, Schedule, SecondJobDay, ShiftTimes, SleepLogEntry, WorkDay } from '../types';
+
+// Changes without a time zone leave the shift in the zone it already has
+export type ShiftChange = ShiftTimes & { presetId?: string; timeZone?: string };
+
+const withoutDate = (dates: Date[], date: Date): Date[] => dates.filter(d => !isSameDay(d, date));
+
+export const findWorkDay = (schedule: Schedule, date: Date): WorkDay | undefined =>
+  schedule.workDays.find(wd => isSameDay(wd.date, date));
+
+export const findSecondJobDay = (schedule: Schedule, date: Date): SecondJobDay | undefined =>
+  schedule.secondJobDays.find(sj => isSameDay(sj.date, date));
+
+export const findSleepLog = (schedule: Schedule, date: Date): SleepLogEntry | undefined =>
+  schedule.sleepLog.find(entry => isSameDay(entry.date, date));
+
+export const isDayOff = (schedule: Schedule, date: Date): boolean =>
+  schedule.daysOff.some(d => isSameDay(d, date));
+
+// Adding a shift replaces a day off on that date; a second-job shift can stay alongside it
+export const addWorkDay = (schedule: Schedule, workDay: WorkDay): Schedule => {
+  if (findWorkDay(schedule, workDay.date)) {
+    return schedule;
+  }
+  return {
+    ...schedule,
+    workDays: [...schedule.workDays, workDay],
+    daysOff: withoutDate(schedule.daysOff, workDay.date),
+  };
+};
+
+// There is at most one second-job shift per date; a new one replaces the old
+export const addSecondJobDay = (schedule: Schedule, secondJobDay: SecondJobDay): Schedule => ({
+  ...schedule,
+  secondJobDays: [
+    ...schedule.secondJobDays.filter(sj => !isSameDay(sj.date, secondJobDay.date)),
+    secondJobDay,
+  ],
+  daysOff: withoutDate(schedule.daysOff, secondJobDay.date),
+});
+
+export const removeSecondJobDay = (schedule: Schedule, date: Date): Schedule => ({
+  ...schedule,
+  secondJobDays: schedule.secondJobDays.filter(sj => !isSameDay(sj.date, date)),
+});
+
+export const removeWorkDay = (schedule: Schedule, date: Date): Schedule => ({
+  ...schedule,
+  workDays: schedule.workDays.filter(wd => !isSameDay(wd.date, date)),
+});
+
+export const updateWorkDay = (schedule: Schedule, date: Date, change: ShiftChange): Schedule => ({
+  ...schedule,
+  workDays: schedule.workDays.map(wd => isSameDay(wd.date, date)
+    ? { date: wd.date, start: change.start, end: change.end, presetId: change.presetId, timeZone: change.timeZone ?? wd.timeZone }
+    : wd),
+});
+
+// Moving onto a date that already has a shift is refused rather than merged
+export const moveWorkDay = (schedule: Schedule, from: Date, to: Date): Schedule => {
+  const workDay = findWorkDay(schedule, from);
+  if (!workDay || isSameDay(from, to) || findWorkDay(schedule, to)) {
+    return schedule;
+  }
+  return addWorkDay(removeWorkDay(schedule, from), { ...workDay, date: to });
+};
+
+// Clicking the same shift again removes it; a different shift replaces it
+export const toggleWorkDay = (schedule: Schedule, date: Date, shift: ShiftChange): Schedule => {
+  const existing = findWorkDay(schedule, date);
+  if (!existing) {
+    return addWorkDay(schedule, { date, ...shift });
+  }
+  return existing.start === shift.start && existing.end === shift.end
+    ? removeWorkDay(schedule, date)
+    : updateWorkDay(schedule, date, shift);
+};
+
+export const markDayOff = (schedule: Schedule, date: Date): Schedule => {
+  const cleared = removeSecondJobDay(removeWorkDay(schedule, date), date);
+  return {
+    ...cleared,
+    daysOff: [...withoutDate(cleared.daysOff, date), date],
+  };
+};
+
+export const clearDayOff = (schedule: Schedule, date: Date): Schedule => ({
+  ...schedule,
+  daysOff: withoutDate(schedule.daysOff, date),
+});
+
+// A shift's zone once the schedule's zone becomes `to`; it is left out when the two match
+export const pinTimeZone = <T extends { timeZone?: string }>({ timeZone, ...shift }: T, from: string, to: string) => {
+  const zone = timeZone ?? from;
+  return zone === to ? shift : { ...shift, timeZone: zone };
+};
+
+// Shifts already entered stay where they were, so a travel nurse can move on without redoing them
+export const changeTimeZone = (schedule: Schedule, timeZone: string): Schedule => ({
+  ...schedule,
+  timeZone,
+  workDays: schedule.workDays.map(wd => pinTimeZone(wd, schedule.timeZone, timeZone)),
+  secondJobDays: schedule.secondJobDays.map(sj => pinTimeZone(sj, schedule.timeZone, timeZone)),
+});
+
+// One entry per planned day; logging again replaces it
+export const logSleep = (schedule: Schedule, entry: SleepLogEntry): Schedule => ({
+  ...schedule,
+  sleepLog: [...schedule.sleepLog.filter(e => !isSameDay(e.date, entry.date)), entry],
+});
+
+export const removeSleepLog = (schedule: Schedule, date: Date): Schedule => ({
+  ...schedule,
+  sleepLog: schedule.sleepLog.filter(entry => !isSameDay(entry.date, date)),
+});
+
+// The shift presets, sleep profile, errands, reminders, display settings and time zone describe the nurse
+// rather than the roster, so they survive a reset
+export const resetSchedule = (schedule: Schedule): Schedule => ({
+  ...createEmptySchedule(),
+  shiftPresets: schedule.shiftPresets,
+  profile: schedule.profile,
+  errands: schedule.errands,
+  reminders: schedule.reminders,
+  display: schedule.display,
+  timeZone: schedule.timeZone,
+});
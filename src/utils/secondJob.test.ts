@@ -0,0 +1,40 @@
+import { createEmptySchedule, Schedule } from '../types';
+import { describeSecondJobWarning } from './planText';
+import { findSecondJobWarnings, getMinimumTurnaround } from './secondJob';
+
+const day = (d: number) => new Date(2025, 4, d);
+
+const withSecondJob = (d: number, start: number, end: number): Schedule => ({
+  ...createEmptySchedule(),
+  workDays: [{ date: day(10), start: 7 * 60, end: 19 * 60, presetId: 'day' }],
+  secondJobDays: [{ date: day(d), start, end }],
+});
+
+describe('findSecondJobWarnings', () => {
+  test('needs wind-down, a full sleep and time to get ready between shifts', () => {
+    expect(getMinimumTurnaround()).toBe(10 * 60);
+  });
+
+  test('flags a second job that overlaps a main-job shift', () => {
+    expect(findSecondJobWarnings(withSecondJob(10, 17 * 60, 23 * 60)).map(w => w.kind)).toEqual(['overlap']);
+  });
+
+  test('flags a second job that ends shortly before a main-job shift', () => {
+    const [warning] = findSecondJobWarnings(withSecondJob(9, 23 * 60, 3 * 60));
+
+    expect(warning).toMatchObject({ kind: 'shortBefore', gapMinutes: 4 * 60 });
+    expect(describeSecondJobWarning(warning)).toBe(
+      'Only 4 hours between your second-job shift on Fri, May 9 and your shift on Sat, May 10, too little time to sleep'
+    );
+  });
+
+  test('flags a second job that starts shortly after a main-job shift', () => {
+    expect(findSecondJobWarnings(withSecondJob(11, 3 * 60, 11 * 60))).toMatchObject([
+      { kind: 'shortAfter', gapMinutes: 8 * 60 },
+    ]);
+  });
+
+  test('accepts shifts with enough time to sleep in between', () => {
+    expect(findSecondJobWarnings(withSecondJob(11, 9 * 60, 17 * 60))).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { addDays, differenceInMinutes, isSameDay } from 'date-fns';
+import { Schedule, SecondJobDay, WorkDay } from '../types';
+import { DEFAULT_PLAN_CONFIG, getPlanConfig, PlanConfig } from './sleepPlan';
+import { getShiftWindow } from './shifts';
+import { overlapMinutes } from './time';
+
+export type SecondJobWarningKind = 'overlap' | 'shortBefore' | 'shortAfter';
+
+// `shortBefore`: the second job ends too soon before a main-job shift starts.
+// `shortAfter`: the second job starts too soon after a main-job shift ends.
+export interface SecondJobWarning {
+  kind: SecondJobWarningKind;
+  secondJob: SecondJobDay;
+  workDay: WorkDay;
+  gapMinutes: number;
+}
+
+// Time needed between two shifts to travel home, wind down, sleep in full, get ready and travel back
+export const getMinimumTurnaround = (config: PlanConfig = DEFAULT_PLAN_CONFIG): number =>
+  config.commuteFromWork + config.windDownMinutes + config.sleepHours * 60 + config.dayShiftWakeLead +
+  config.commuteToWork;
+
+export const findSecondJobWarnings = (
+  schedule: Schedule,
+  config: PlanConfig = getPlanConfig(schedule.profile)
+): SecondJobWarning[] => {
+  const minimum = getMinimumTurnaround(config);
+
+  return schedule.secondJobDays.flatMap(secondJob => {
+    const extra = getShiftWindow(secondJob, schedule.timeZone);
+    const neighbours = schedule.workDays.filter(wd =>
+      [-1, 0, 1].some(offset => isSameDay(wd.date, addDays(secondJob.date, offset))));
+
+    return neighbours.flatMap((workDay): SecondJobWarning[] => {
+      const main = getShiftWindow(workDay, schedule.timeZone);
+      if (overlapMinutes(extra, main) > 0) {
+        return [{ kind: 'overlap', secondJob, workDay, gapMinutes: 0 }];
+      }
+      const kind: SecondJobWarningKind = main.start >= extra.end ? 'shortBefore' : 'shortAfter';
+      const gapMinutes = kind === 'shortBefore'
+        ? differenceInMinutes(main.start, extra.end)
+        : differenceInMinutes(extra.start, main.end);
+      return gapMinutes < minimum ? [{ kind, secondJob, workDay, gapMinutes }] : [];
+    });
+  }).sort((a, b) => a.secondJob.date.getTime() - b.secondJob.date.getTime());
+};
+
+export const getWarningsForDate = (warnings: SecondJobWarning[], date: Date): SecondJobWarning[] =>
+  warnings.filter(warning => isSameDay(warning.secondJob.date, date) || isSameDay(warning.workDay.date, date));
@@ -0,0 +1,134 @@
+import { addDays } from 'date-fns';
+import { createEmptySchedule, Schedule } from '../types';
+import { buildShareUrl, decodeSchedule, encodeSchedule, importSharedSchedule, readShareHash } from './shareLink';
+import { ParseFailure } from './parseErrors';
+
+const day = (d: number) => new Date(2025, 4, d);
+const DAY = { start: 7 * 60, end: 19 * 60 };
+const NIGHT = { start: 19 * 60, end: 7 * 60 };
+
+const schedule: Schedule = {
+  ...createEmptySchedule(),
+  workDays: [
+    { date: day(12), ...NIGHT, presetId: 'night' },
+    { date: day(10), ...DAY, presetId: 'day' },
+    { date: day(13), start: 6 * 60 + 45, end: 15 * 60 + 15 },
+  ],
+  secondJobDays: [{ date: day(15), start: 8 * 60, end: 12 * 60 }],
+  daysOff: [day(11), day(14)],
+  profile: {
+    sleepHours: 7.5,
+    chronotype: 'evening',
+    caffeineCutoffHours: 5,
+    mealBufferHours: 3,
+    avoidNightMeals: false,
+    commuteToWork: 30,
+    commuteFromWork: 45,
+    commitments: [{ id: 'school-run-caf', name: 'School run & café', start: 8 * 60, end: 9 * 60, weekdays: [1, 3, 5] }],
+  },
+};
+
+describe('encodeSchedule', () => {
+  test('round-trips shifts, days off and the sleep profile', () => {
+    const decoded = decodeSchedule(encodeSchedule(schedule));
+
+    expect(decoded.workDays).toEqual([
+      { date: day(10), ...DAY, presetId: 'day' },
+      { date: day(12), ...NIGHT, presetId: 'night' },
+      { date: day(13), start: 6 * 60 + 45, end: 15 * 60 + 15 },
+    ]);
+    expect(decoded.secondJobDays).toEqual(schedule.secondJobDays);
+    expect(decoded.daysOff).toEqual(schedule.daysOff);
+    expect(decoded.profile).toEqual(schedule.profile);
+  });
+
+  test('keeps a month of shifts short enough for a QR code', () => {
+    const month: Schedule = {
+      ...createEmptySchedule(),
+      workDays: Array.from({ length: 16 }, (_, i) => ({ date: addDays(day(1), i * 2), ...(i % 4 < 2 ? DAY : NIGHT) })),
+      daysOff: Array.from({ length: 15 }, (_, i) => addDays(day(2), i * 2)),
+    };
+
+    expect(encodeSchedule(month).length).toBeLessThan(150);
+    expect(decodeSchedule(encodeSchedule(month)).workDays).toHaveLength(16);
+  });
+
+  test('leaves the sleep log and reminders out', () => {
+    const decoded = decodeSchedule(encodeSchedule({
+      ...schedule,
+      sleepLog: [{ date: day(10), start: day(10), end: day(10), quality: 3 }],
+    }));
+
+    expect(decoded.sleepLog).toEqual([]);
+    expect(decoded.reminders).toEqual(createEmptySchedule().reminders);
+  });
+
+  test('keeps the time zone and the zones of shifts entered elsewhere', () => {
+    const decoded = decodeSchedule(encodeSchedule({
+      ...schedule,
+      timeZone: 'America/Chicago',
+      secondJobDays: [{ date: day(15), start: 8 * 60, end: 12 * 60, timeZone: 'America/Denver' }],
+    }));
+
+    expect(decoded.timeZone).toBe('America/Chicago');
+    expect(decoded.workDays.map(wd => wd.timeZone)).toEqual([undefined, undefined, undefined]);
+    expect(decoded.secondJobDays[0].timeZone).toBe('America/Denver');
+  });
+});
+
+describe('decodeSchedule', () => {
+  test('refuses links from a newer format version', () => {
+    const [, payload] = encodeSchedule(schedule).split('.');
+
+    expect(() => decodeSchedule(`5.${payload}`)).toThrow(new ParseFailure({ kind: 'newerVersion', version: 5 }));
+  });
+
+  test('refuses damaged links', () => {
+    const encoded = encodeSchedule(schedule);
+
+    expect(() => decodeSchedule(encoded.slice(0, -6))).toThrow();
+    expect(() => decodeSchedule('nonsense')).toThrow(new ParseFailure({ kind: 'notShareLink' }));
+  });
+});
+
+describe('readShareHash', () => {
+  test('reads the schedule from a share URL', () => {
+    const url = new URL(buildShareUrl(schedule, { origin: 'https://example.com', pathname: '/nursesleep/' }));
+
+    expect(url.pathname).toBe('/nursesleep/');
+    expect(readShareHash(url.hash)?.schedule?.daysOff).toEqual(schedule.daysOff);
+  });
+
+  test('ignores hashes without a shared schedule and reports broken ones', () => {
+    expect(readShareHash('')).toBeNull();
+    expect(readShareHash('#top')).toBeNull();
+    expect(readShareHash('#share=1.%%%')?.error).toEqual({ kind: 'damaged' });
+  });
+});
+
+describe('importSharedSchedule', () => {
+  test('replaces the roster and keeps the receiver\'s own settings', () => {
+    const own: Schedule = {
+      ...createEmptySchedule(),
+      workDays: [{ date: day(1), ...DAY }],
+      shiftPresets: [{ id: 'early', name: 'Early', start: 6 * 60 + 45, end: 15 * 60 + 15 }],
+      profile: { ...createEmptySchedule().profile, sleepHours: 9 },
+    };
+    const imported = importSharedSchedule(own, decodeSchedule(encodeSchedule(schedule)));
+
+    expect(imported.workDays.map(wd => wd.presetId)).toEqual([undefined, undefined, 'early']);
+    expect(imported.daysOff).toEqual(schedule.daysOff);
+    expect(imported.shiftPresets).toBe(own.shiftPresets);
+    expect(imported.profile.sleepHours).toBe(9);
+  });
+
+  test('keeps shared shifts at their real times when the receiver is in another zone', () => {
+    const own: Schedule = { ...createEmptySchedule(), timeZone: 'Europe/Berlin' };
+    const shared = decodeSchedule(encodeSchedule({ ...schedule, timeZone: 'America/Chicago' }));
+    const imported = importSharedSchedule(own, shared);
+
+    expect(imported.timeZone).toBe('Europe/Berlin');
+    expect(imported.workDays.map(wd => wd.timeZone)).toEqual(['America/Chicago', 'America/Chicago', 'America/Chicago']);
+    expect(imported.secondJobDays[0].timeZone).toBe('America/Chicago');
+  });
+});
@@ -0,0 +1,357 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import {
+  Chronotype,
+  createEmptySchedule,
+  DEFAULT_SHIFT_PRESETS,
+  DEFAULT_SLEEP_PROFILE,
+  FixedCommitment,
+  Schedule,
+  ShiftTimes,
+  SleepProfile
+} from '../types';
+import { createCommitmentId } from './profile';
+import { toWorkDay } from './shiftImport';
+import { ParseError, ParseFailure, toParseError } from './parseErrors';
+import { pinTimeZone } from './scheduleEdits';
+import { isValidTimeZone } from './timeZones';
+
+// Share links put the schedule after the hash, so it never reaches a server:
+//   #share=<format version>.<base64url payload>
+// The payload packs what a shared plan needs (shifts, days off and the sleep profile) into bytes.
+// Dates are stored as gaps from the previous date and every distinct pair of shift hours is stored
+// once and referred to by position, which keeps a month of shifts to around a hundred characters.
+// Format 2 adds the schedule's time zone and, for shifts entered elsewhere, their own zones,
+// format 3 the caffeine cutoff and format 4 the meal rules. The sleep log and reminders stay on the device.
+export const SHARE_VERSION = 4;
+export const SHARE_PARAM = 'share';
+
+export interface ShareLinkResult {
+  schedule?: Schedule;
+  error?: ParseError;
+}
+
+const EPOCH = new Date(2000, 0, 1);
+const CHRONOTYPES: Chronotype[] = ['morning', 'intermediate', 'evening'];
+
+interface ByteWriter {
+  uint: (value: number) => void;
+  text: (value: string) => void;
+  toBase64Url: () => string;
+}
+
+interface ByteReader {
+  uint: () => number;
+  text: () => string;
+  isDone: () => boolean;
+}
+
+const createWriter = (): ByteWriter => {
+  const bytes: number[] = [];
+
+  // Unsigned LEB128: seven bits per byte, high bit set while more follow
+  const uint = (value: number) => {
+    let rest = value;
+    while (rest >= 0x80) {
+      bytes.push((rest & 0x7f) | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    bytes.push(rest);
+  };
+
+  // Percent-encoding keeps names to single bytes without needing TextEncoder
+  const text = (value: string) => {
+    const encoded = encodeURIComponent(value);
+    uint(encoded.length);
+    for (let i = 0; i < encoded.length; i++) {
+      bytes.push(encoded.charCodeAt(i));
+    }
+  };
+
+  const toBase64Url = () =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+  return { uint, text, toBase64Url };
+};
+
+const createReader = (payload: string): ByteReader => {
+  let binary: string;
+  try {
+    binary = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+  } catch {
+    throw new ParseFailure({ kind: 'damaged' });
+  }
+  let offset = 0;
+
+  const byte = (): number => {
+    if (offset >= binary.length) {
+      throw new ParseFailure({ kind: 'incomplete' });
+    }
+    return binary.charCodeAt(offset++);
+  };
+
+  const uint = (): number => {
+    let value = 0;
+    for (let scale = 1; scale <= 2 ** 28; scale *= 0x80) {
+      const next = byte();
+      value += (next & 0x7f) * scale;
+      if (next < 0x80) {
+        return value;
+      }
+    }
+    throw new ParseFailure({ kind: 'damaged' });
+  };
+
+  const text = (): string => {
+    let encoded = '';
+    for (let length = uint(); length > 0; length--) {
+      encoded += String.fromCharCode(byte());
+    }
+    try {
+      return decodeURIComponent(encoded);
+    } catch {
+      throw new ParseFailure({ kind: 'damaged' });
+    }
+  };
+
+  return { uint, text, isDone: () => offset >= binary.length };
+};
+
+const timesKey = ({ start, end }: ShiftTimes) => `${start}-${end}`;
+
+const writeDates = (writer: ByteWriter, dates: Date[]) => {
+  const sorted = [...dates].sort((a, b) => a.getTime() - b.getTime());
+  writer.uint(sorted.length);
+  sorted.reduce((previous, date) => {
+    writer.uint(differenceInCalendarDays(date, previous));
+    return date;
+  }, EPOCH);
+};
+
+const readDates = (reader: ByteReader): Date[] => {
+  const dates: Date[] = [];
+  let previous = EPOCH;
+  for (let count = reader.uint(); count > 0; count--) {
+    previous = addDays(previous, reader.uint());
+    dates.push(previous);
+  }
+  return dates;
+};
+
+const readMinutes = (reader: ByteReader): number => {
+  const minutes = reader.uint();
+  if (minutes >= 24 * 60) {
+    throw new ParseFailure({ kind: 'invalidLink', part: 'time' });
+  }
+  return minutes;
+};
+
+const writeProfile = (writer: ByteWriter, profile: SleepProfile, timeIndex: (times: ShiftTimes) => number) => {
+  writer.uint(Math.round(profile.sleepHours * 2));
+  writer.uint(CHRONOTYPES.indexOf(profile.chronotype));
+  writer.uint(profile.commuteToWork);
+  writer.uint(profile.commuteFromWork);
+  writer.uint(profile.commitments.length);
+  profile.commitments.forEach(commitment => {
+    writer.text(commitment.name);
+    writer.uint(timeIndex(commitment));
+    writer.uint(commitment.weekdays.reduce((mask, day) => mask | (1 << day), 0));
+  });
+};
+
+// Fields added in later formats come last, after the time zones
+type LaterProfileField = 'caffeineCutoffHours' | 'mealBufferHours' | 'avoidNightMeals';
+
+const readProfile = (reader: ByteReader, times: ShiftTimes[]): Omit<SleepProfile, LaterProfileField> => {
+  const sleepHours = reader.uint() / 2;
+  const chronotype = CHRONOTYPES[reader.uint()];
+  const commuteToWork = reader.uint();
+  const commuteFromWork = reader.uint();
+  if (sleepHours < 4 || sleepHours > 12 || !chronotype) {
+    throw new ParseFailure({ kind: 'invalidLink', part: 'profile' });
+  }
+
+  const commitments: FixedCommitment[] = [];
+  for (let count = reader.uint(); count > 0; count--) {
+    const name = reader.text();
+    const hours = times[reader.uint()];
+    const mask = reader.uint();
+    if (!hours) {
+      throw new ParseFailure({ kind: 'invalidLink', part: 'commitment' });
+    }
+    commitments.push({
+      id: createCommitmentId(name, commitments),
+      name,
+      ...hours,
+      weekdays: [0, 1, 2, 3, 4, 5, 6].filter(day => mask & (1 << day)),
+    });
+  }
+  return { sleepHours, chronotype, commuteToWork, commuteFromWork, commitments };
+};
+
+const readHoursBeforeSleep = (reader: ByteReader): number => {
+  const hours = reader.uint() / 2;
+  if (hours < 1 || hours > 12) {
+    throw new ParseFailure({ kind: 'invalidLink', part: 'profile' });
+  }
+  return hours;
+};
+
+const readMealRules = (reader: ByteReader): Pick<SleepProfile, 'mealBufferHours' | 'avoidNightMeals'> => {
+  const mealBufferHours = readHoursBeforeSleep(reader);
+  const avoidNightMeals = reader.uint();
+  if (avoidNightMeals > 1) {
+    throw new ParseFailure({ kind: 'invalidLink', part: 'profile' });
+  }
+  return { mealBufferHours, avoidNightMeals: avoidNightMeals === 1 };
+};
+
+// The schedule's zone, then any other zones and the shifts that were entered in them by position
+const writeTimeZones = (writer: ByteWriter, schedule: Schedule, shifts: { timeZone?: string }[]) => {
+  const zones = [schedule.timeZone];
+  const elsewhere = shifts.flatMap((shift, position) => {
+    if (!shift.timeZone || shift.timeZone === schedule.timeZone) {
+      return [];
+    }
+    const index = zones.indexOf(shift.timeZone);
+    return [{ position, zone: index >= 0 ? index : zones.push(shift.timeZone) - 1 }];
+  });
+  writer.uint(zones.length);
+  zones.forEach(zone => writer.text(zone));
+  writer.uint(elsewhere.length);
+  elsewhere.forEach(({ position, zone }) => {
+    writer.uint(position);
+    writer.uint(zone);
+  });
+};
+
+const readTimeZones = (reader: ByteReader): { timeZone: string; shiftZones: Map<number, string> } => {
+  const zones: string[] = [];
+  for (let count = reader.uint(); count > 0; count--) {
+    const zone = reader.text();
+    if (!isValidTimeZone(zone)) {
+      throw new ParseFailure({ kind: 'unknownTimeZone', value: zone });
+    }
+    zones.push(zone);
+  }
+  const shiftZones = new Map<number, string>();
+  for (let count = reader.uint(); count > 0; count--) {
+    const position = reader.uint();
+    const zone = zones[reader.uint()];
+    if (!zone) {
+      throw new ParseFailure({ kind: 'invalidLink', part: 'timeZone' });
+    }
+    shiftZones.set(position, zone);
+  }
+  if (zones.length === 0) {
+    throw new ParseFailure({ kind: 'damaged' });
+  }
+  return { timeZone: zones[0], shiftZones };
+};
+
+export const encodeSchedule = (schedule: Schedule): string => {
+  const times: ShiftTimes[] = [];
+  const timeIndex = (value: ShiftTimes): number => {
+    const index = times.findIndex(known => timesKey(known) === timesKey(value));
+    return index >= 0 ? index : times.push({ start: value.start, end: value.end }) - 1;
+  };
+  const workDays = [...schedule.workDays].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const secondJobDays = [...schedule.secondJobDays].sort((a, b) => a.date.getTime() - b.date.getTime());
+  // Gather the hours first so the table can go ahead of the days that refer to it
+  [...workDays, ...secondJobDays, ...schedule.profile.commitments].forEach(timeIndex);
+
+  const writer = createWriter();
+  writer.uint(times.length);
+  times.forEach(({ start, end }) => {
+    writer.uint(start);
+    writer.uint(end);
+  });
+  writeDates(writer, workDays.map(wd => wd.date));
+  workDays.forEach(wd => writer.uint(timeIndex(wd)));
+  writeDates(writer, secondJobDays.map(sj => sj.date));
+  secondJobDays.forEach(sj => writer.uint(timeIndex(sj)));
+  writeDates(writer, schedule.daysOff);
+  writeProfile(writer, schedule.profile, timeIndex);
+  writeTimeZones(writer, schedule, [...workDays, ...secondJobDays]);
+  writer.uint(Math.round(schedule.profile.caffeineCutoffHours * 2));
+  writer.uint(Math.round(schedule.profile.mealBufferHours * 2));
+  writer.uint(schedule.profile.avoidNightMeals ? 1 : 0);
+  return `${SHARE_VERSION}.${writer.toBase64Url()}`;
+};
+
+export const decodeSchedule = (value: string): Schedule => {
+  const [version, payload] = value.split('.');
+  if (!/^[1-9]\d*$/.test(version ?? '') || payload === undefined) {
+    throw new ParseFailure({ kind: 'notShareLink' });
+  }
+  if (Number(version) > SHARE_VERSION) {
+    throw new ParseFailure({ kind: 'newerVersion', version: Number(version) });
+  }
+
+  const reader = createReader(payload);
+  const times: ShiftTimes[] = [];
+  for (let count = reader.uint(); count > 0; count--) {
+    times.push({ start: readMinutes(reader), end: readMinutes(reader) });
+  }
+  const readTimes = (): ShiftTimes => {
+    const hours = times[reader.uint()];
+    if (!hours) {
+      throw new ParseFailure({ kind: 'invalidLink', part: 'shift' });
+    }
+    return hours;
+  };
+
+  const workDays = readDates(reader).map(date => toWorkDay(date, readTimes(), DEFAULT_SHIFT_PRESETS));
+  const secondJobDays = readDates(reader).map(date => ({ date, ...readTimes() }));
+  const daysOff = readDates(reader);
+  const profile = readProfile(reader, times);
+  // Format 1 links were planned in the zone of whoever opens them
+  const empty = createEmptySchedule();
+  const { timeZone, shiftZones } = Number(version) >= 2
+    ? readTimeZones(reader)
+    : { timeZone: empty.timeZone, shiftZones: new Map<number, string>() };
+  const caffeineCutoffHours = Number(version) >= 3
+    ? readHoursBeforeSleep(reader)
+    : DEFAULT_SLEEP_PROFILE.caffeineCutoffHours;
+  const { mealBufferHours, avoidNightMeals } = Number(version) >= 4 ? readMealRules(reader) : DEFAULT_SLEEP_PROFILE;
+  if (!reader.isDone()) {
+    throw new ParseFailure({ kind: 'damaged' });
+  }
+
+  const zoneOf = (position: number) => shiftZones.has(position) ? { timeZone: shiftZones.get(position) } : {};
+  return {
+    ...empty,
+    workDays: workDays.map((wd, index) => ({ ...wd, ...zoneOf(index) })),
+    secondJobDays: secondJobDays.map((sj, index) => ({ ...sj, ...zoneOf(workDays.length + index) })),
+    daysOff,
+    profile: { ...profile, caffeineCutoffHours, mealBufferHours, avoidNightMeals },
+    timeZone,
+  };
+};
+
+export const buildShareUrl = (schedule: Schedule, location: { origin: string; pathname: string }): string =>
+  `${location.origin}${location.pathname}#${SHARE_PARAM}=${encodeSchedule(schedule)}`;
+
+// Null when the hash holds no shared schedule at all
+export const readShareHash = (hash: string): ShareLinkResult | null => {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM);
+  if (value === null) {
+    return null;
+  }
+  try {
+    return { schedule: decodeSchedule(value) };
+  } catch (error) {
+    return { error: toParseError(error) };
+  }
+};
+
+// The roster replaces the user's own; their presets, profile, sleep log and reminders stay
+export const importSharedSchedule = (schedule: Schedule, shared: Schedule): Schedule => ({
+  ...schedule,
+  workDays: shared.workDays.map(wd => pinTimeZone(
+    { ...toWorkDay(wd.date, wd, schedule.shiftPresets), timeZone: wd.timeZone },
+    shared.timeZone,
+    schedule.timeZone
+  )),
+  secondJobDays: shared.secondJobDays.map(sj => pinTimeZone(sj, shared.timeZone, schedule.timeZone)),
+  daysOff: shared.daysOff,
+});
@@ -0,0 +1,101 @@
+import { createEmptySchedule, DEFAULT_SHIFT_PRESETS, Schedule } from '../types';
+import { parseCsv } from './csv';
+import {
+  applyImport,
+  diffImport,
+  guessColumnMapping,
+  parseClockTime,
+  parseRosterCsv
+} from './shiftImport';
+
+const roster = [
+  'Employee,Shift Date,Start Time,End Time',
+  'J. Doe,05/10/2025,19:00,07:00',
+  'J. Doe,05/11/2025,7:00 PM,7:00 AM',
+  'J. Doe,05/12/2025,noon,19:00',
+].join('\n');
+
+describe('parseClockTime', () => {
+  test.each([
+    ['07:00', 420],
+    ['0700', 420],
+    ['19', 1140],
+    ['7:30 pm', 1170],
+    ['12 AM', 0],
+    ['12:15 p.m.', 735],
+  ])('reads %s', (value, minutes) => {
+    expect(parseClockTime(value)).toBe(minutes);
+  });
+
+  test.each(['24:00', '13 PM', '7:75', 'noon'])('rejects %s', value => {
+    expect(parseClockTime(value)).toBeNull();
+  });
+});
+
+describe('parseRosterCsv', () => {
+  test('guesses the columns and date format from the header and first row', () => {
+    expect(guessColumnMapping(parseCsv(roster).rows)).toEqual({
+      hasHeader: true,
+      date: 1,
+      start: 2,
+      end: 3,
+      dateFormat: 'MM/dd/yyyy',
+    });
+  });
+
+  test('reads shifts and reports unreadable rows by line', () => {
+    const mapping = guessColumnMapping(parseCsv(roster).rows);
+    const { shifts, errors } = parseRosterCsv(roster, mapping, DEFAULT_SHIFT_PRESETS);
+
+    expect(shifts.map(shift => shift.workDay)).toEqual([
+      { date: new Date(2025, 4, 10), start: 19 * 60, end: 7 * 60, presetId: 'night' },
+      { date: new Date(2025, 4, 11), start: 19 * 60, end: 7 * 60, presetId: 'night' },
+    ]);
+    expect(errors).toEqual([{ line: 4, error: { kind: 'notStartTime', value: 'noon' } }]);
+  });
+});
+
+describe('diffImport', () => {
+  const schedule: Schedule = {
+    ...createEmptySchedule(),
+    workDays: [
+      { date: new Date(2025, 4, 10), start: 7 * 60, end: 19 * 60, presetId: 'day' },
+      { date: new Date(2025, 4, 11), start: 19 * 60, end: 7 * 60, presetId: 'night' },
+    ],
+    daysOff: [new Date(2025, 4, 12)],
+  };
+  const night = (day: number, line: number) => ({
+    line,
+    workDay: { date: new Date(2025, 4, day), start: 19 * 60, end: 7 * 60, presetId: 'night' },
+  });
+  const imported = [night(10, 1), night(11, 2), night(12, 3), night(13, 4), night(13, 5)];
+
+  test('sorts imported shifts into added, changed, unchanged and conflicting days', () => {
+    expect(diffImport(schedule, imported).map(entry => [entry.line, entry.status, entry.conflict])).toEqual([
+      [1, 'changed', undefined],
+      [2, 'unchanged', undefined],
+      [3, 'conflict', 'dayOff'],
+      [4, 'added', undefined],
+      [5, 'conflict', 'duplicate'],
+    ]);
+  });
+
+  test('counts a shift moved into another time zone as changed', () => {
+    const travelling = { ...night(11, 1), workDay: { ...night(11, 1).workDay, timeZone: 'Europe/Berlin' } };
+    const diff = diffImport(schedule, [travelling]);
+
+    expect(diff.map(entry => entry.status)).toEqual(['changed']);
+    expect(applyImport(schedule, diff, false).workDays[1].timeZone).toBe('Europe/Berlin');
+  });
+
+  test('applies new and changed shifts and only replaces days off on request', () => {
+    const diff = diffImport(schedule, imported);
+    const kept = applyImport(schedule, diff, false);
+    const replaced = applyImport(schedule, diff, true);
+
+    expect(kept.workDays.map(wd => [wd.date.getDate(), wd.start])).toEqual([[10, 1140], [11, 1140], [13, 1140]]);
+    expect(kept.daysOff).toHaveLength(1);
+    expect(replaced.workDays).toHaveLength(4);
+    expect(replaced.daysOff).toEqual([]);
+  });
+});
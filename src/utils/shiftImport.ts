@@ -0,0 +1,154 @@
+import { isSameDay, isValid, parse, startOfDay } from 'date-fns';
+import { Schedule, ShiftPreset, ShiftTimes, WorkDay } from '../types';
+import { CsvRow, LineError, parseCsv } from './csv';
+import { addWorkDay, findWorkDay, isDayOff, updateWorkDay } from './scheduleEdits';
+
+export interface ImportedShift {
+  line: number;
+  workDay: WorkDay;
+}
+
+export interface ShiftImportResult {
+  shifts: ImportedShift[];
+  errors: LineError[];
+}
+
+export type ImportStatus = 'added' | 'changed' | 'unchanged' | 'conflict';
+
+export interface ImportDiffEntry extends ImportedShift {
+  status: ImportStatus;
+  existing?: WorkDay;
+  conflict?: 'dayOff' | 'duplicate';
+}
+
+// Column indices are 0-based positions in each CSV row
+export interface CsvColumnMapping {
+  hasHeader: boolean;
+  date: number;
+  start: number;
+  end: number;
+  dateFormat: string;
+}
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'dd/MM/yyyy', 'dd.MM.yyyy'];
+
+const CLOCK_TIME = /^(\d{1,2}):?(\d{2})?\s*(a\.?m\.?|p\.?m\.?|a|p)?$/i;
+
+export const parseClockTime = (value: string): number | null => {
+  const match = CLOCK_TIME.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase().charAt(0);
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+// Reuses a preset id when the imported hours match one exactly
+export const toWorkDay = (date: Date, times: ShiftTimes, presets: ShiftPreset[]): WorkDay => {
+  const preset = presets.find(p => p.start === times.start && p.end === times.end);
+  return {
+    date: startOfDay(date),
+    start: times.start,
+    end: times.end,
+    ...(preset ? { presetId: preset.id } : {}),
+  };
+};
+
+export const guessColumnMapping = (rows: CsvRow[]): CsvColumnMapping => {
+  const header = rows[0]?.cells ?? [];
+  const find = (pattern: RegExp, fallback: number) => {
+    const index = header.findIndex(cell => pattern.test(cell));
+    return index >= 0 ? index : fallback;
+  };
+  const hasHeader = header.some(cell => /[a-z]/i.test(cell) && parseClockTime(cell) === null);
+  const date = find(/date|day|datum|fecha/i, 0);
+  const sample = (rows[hasHeader ? 1 : 0]?.cells[date] ?? '').trim();
+
+  return {
+    hasHeader,
+    date,
+    start: find(/start|begin|from|von|inicio/i, 1),
+    end: find(/end|finish|until|to\b|bis|fin/i, 2),
+    dateFormat: DATE_FORMATS.find(f => isValid(parse(sample, f, new Date()))) ?? DATE_FORMATS[0],
+  };
+};
+
+export const parseRosterCsv = (
+  text: string,
+  mapping: CsvColumnMapping,
+  presets: ShiftPreset[]
+): ShiftImportResult => {
+  const { rows, errors } = parseCsv(text);
+  const shifts: ImportedShift[] = [];
+
+  rows.slice(mapping.hasHeader ? 1 : 0).forEach(({ line, cells }) => {
+    const cell = (index: number) => (cells[index] ?? '').trim();
+    const date = parse(cell(mapping.date), mapping.dateFormat, new Date());
+    const start = parseClockTime(cell(mapping.start));
+    const end = parseClockTime(cell(mapping.end));
+
+    if (!isValid(date)) {
+      errors.push({ line, error: { kind: 'notDate', value: cell(mapping.date), format: mapping.dateFormat } });
+    } else if (start === null) {
+      errors.push({ line, error: { kind: 'notStartTime', value: cell(mapping.start) } });
+    } else if (end === null) {
+      errors.push({ line, error: { kind: 'notEndTime', value: cell(mapping.end) } });
+    } else {
+      shifts.push({ line, workDay: toWorkDay(date, { start, end }, presets) });
+    }
+  });
+
+  errors.sort((a, b) => a.line - b.line);
+  return { shifts, errors };
+};
+
+export const diffImport = (schedule: Schedule, shifts: ImportedShift[]): ImportDiffEntry[] => {
+  const seen: Date[] = [];
+
+  return [...shifts]
+    .sort((a, b) => a.workDay.date.getTime() - b.workDay.date.getTime() || a.line - b.line)
+    .map(shift => {
+      const { date } = shift.workDay;
+      const existing = findWorkDay(schedule, date);
+      const duplicate = seen.some(d => isSameDay(d, date));
+      seen.push(date);
+
+      if (duplicate) {
+        return { ...shift, status: 'conflict', existing, conflict: 'duplicate' };
+      }
+      if (existing) {
+        const same = existing.start === shift.workDay.start && existing.end === shift.workDay.end &&
+          (existing.timeZone ?? schedule.timeZone) === (shift.workDay.timeZone ?? schedule.timeZone);
+        return { ...shift, status: same ? 'unchanged' : 'changed', existing };
+      }
+      if (isDayOff(schedule, date)) {
+        return { ...shift, status: 'conflict', conflict: 'dayOff' };
+      }
+      return { ...shift, status: 'added' };
+    });
+};
+
+// Only the first of several shifts on the same date is applied; days off are only replaced on request
+export const applyImport = (
+  schedule: Schedule,
+  diff: ImportDiffEntry[],
+  replaceDaysOff: boolean
+): Schedule => diff.reduce((current, entry) => {
+  switch (entry.status) {
+    case 'added':
+      return addWorkDay(current, entry.workDay);
+    case 'changed':
+      return updateWorkDay(current, entry.workDay.date, entry.workDay);
+    case 'conflict':
+      return entry.conflict === 'dayOff' && replaceDaysOff ? addWorkDay(current, entry.workDay) : current;
+    default:
+      return current;
+  }
+}, schedule);
@@ -0,0 +1,42 @@
+import { findRunPlacement, findShiftRuns, getRunPosition } from './shiftRuns';
+
+const NIGHT = { start: 19 * 60, end: 7 * 60 };
+const DAY = { start: 7 * 60, end: 19 * 60 };
+const day = (d: number) => new Date(2025, 4, d);
+
+describe('findShiftRuns', () => {
+  test('groups consecutive shifts of the same type regardless of input order', () => {
+    const runs = findShiftRuns([
+      { date: day(12), ...NIGHT },
+      { date: day(10), ...NIGHT },
+      { date: day(11), ...NIGHT },
+      { date: day(14), ...NIGHT },
+    ]);
+
+    expect(runs.map(run => run.workDays.map(wd => wd.date.getDate()))).toEqual([[10, 11, 12], [14]]);
+  });
+
+  test('splits a run when the shift type changes', () => {
+    const runs = findShiftRuns([
+      { date: day(10), ...DAY },
+      { date: day(11), ...DAY },
+      { date: day(12), ...NIGHT },
+    ]);
+
+    expect(runs.map(run => [run.shiftType, run.workDays.length])).toEqual([['day', 2], ['night', 1]]);
+  });
+});
+
+describe('getRunPosition', () => {
+  const runs = findShiftRuns([10, 11, 12, 13, 20].map(d => ({ date: day(d), ...NIGHT })));
+
+  test.each([
+    [10, 'first'],
+    [11, 'middle'],
+    [12, 'middle'],
+    [13, 'last'],
+    [20, 'single'],
+  ])('places May %i as %s', (date, position) => {
+    expect(getRunPosition(findRunPlacement(runs, day(date))!)).toBe(position);
+  });
+});
@@ -0,0 +1,50 @@
+import { addDays, isSameDay } from 'date-fns';
+import { ShiftType, WorkDay } from '../types';
+import { getShiftType } from './shifts';
+
+export interface ShiftRun {
+  shiftType: ShiftType;
+  workDays: WorkDay[];
+}
+
+export interface RunPlacement {
+  run: ShiftRun;
+  index: number;
+}
+
+export type RunPosition = 'single' | 'first' | 'middle' | 'last';
+
+// Groups shifts of the same type that fall on consecutive calendar days
+export const findShiftRuns = (workDays: WorkDay[]): ShiftRun[] => {
+  const sorted = [...workDays].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return sorted.reduce<ShiftRun[]>((runs, workDay) => {
+    const shiftType = getShiftType(workDay);
+    const current = runs[runs.length - 1];
+    const previous = current?.workDays[current.workDays.length - 1];
+
+    if (current && current.shiftType === shiftType && isSameDay(addDays(previous.date, 1), workDay.date)) {
+      current.workDays.push(workDay);
+    } else if (!current || !isSameDay(previous.date, workDay.date)) {
+      runs.push({ shiftType, workDays: [workDay] });
+    }
+    return runs;
+  }, []);
+};
+
+export const findRunPlacement = (runs: ShiftRun[], date: Date): RunPlacement | undefined => {
+  for (const run of runs) {
+    const index = run.workDays.findIndex(wd => isSameDay(wd.date, date));
+    if (index >= 0) {
+      return { run, index };
+    }
+  }
+  return undefined;
+};
+
+export const getRunPosition = ({ run, index }: RunPlacement): RunPosition => {
+  if (run.workDays.length === 1) return 'single';
+  if (index === 0) return 'first';
+  if (index === run.workDays.length - 1) return 'last';
+  return 'middle';
+};
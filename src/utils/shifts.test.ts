@@ -0,0 +1,40 @@
+import { DEFAULT_SHIFT_PRESETS } from '../types';
+import { createPresetId, getShiftMinutes, getShiftType, getShiftWindow } from './shifts';
+
+const hours = (start: number, end: number) => ({ start: start * 60, end: end * 60 });
+
+describe('getShiftType', () => {
+  test.each([
+    ['7a-7p', hours(7, 19), 'day'],
+    ['7p-7a', hours(19, 7), 'night'],
+    ['3p-11p', hours(15, 23), 'day'],
+    ['11p-7a', hours(23, 7), 'night'],
+    ['7a-5p', hours(7, 17), 'day'],
+    ['9p-7a', hours(21, 7), 'night'],
+    ['6p-1a', hours(18, 1), 'day'],
+  ])('classifies %s', (_, shift, expected) => {
+    expect(getShiftType(shift)).toBe(expected);
+  });
+});
+
+describe('getShiftMinutes', () => {
+  test('handles shifts that cross midnight', () => {
+    expect(getShiftMinutes(hours(19, 7))).toBe(12 * 60);
+    expect(getShiftMinutes(hours(7, 17))).toBe(10 * 60);
+  });
+});
+
+describe('getShiftWindow', () => {
+  test('ends an overnight shift on the following day', () => {
+    const window = getShiftWindow({ date: new Date(2025, 4, 10), ...hours(23, 7) });
+
+    expect(window).toEqual({ start: new Date(2025, 4, 10, 23), end: new Date(2025, 4, 11, 7) });
+  });
+});
+
+describe('createPresetId', () => {
+  test('creates unique slugs', () => {
+    expect(createPresetId('Evening (3p-11p)', [])).toBe('evening-3p-11p');
+    expect(createPresetId('Night', DEFAULT_SHIFT_PRESETS)).toBe('night-2');
+  });
+});
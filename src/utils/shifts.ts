@@ -0,0 +1,54 @@
+import { ShiftPreset, ShiftTimes, ShiftType, WorkDay } from '../types';
+import { atMinutes, TimeWindow } from './time';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// A shift counts as a night shift when it covers most of the early-morning hours
+const NIGHT_CORE_END = 6 * 60;
+const NIGHT_CORE_MIN_MINUTES = 3 * 60;
+
+export const crossesMidnight = ({ start, end }: ShiftTimes): boolean => end <= start;
+
+export const getShiftMinutes = (shift: ShiftTimes): number =>
+  crossesMidnight(shift) ? shift.end + MINUTES_PER_DAY - shift.start : shift.end - shift.start;
+
+export const getShiftType = (shift: ShiftTimes): ShiftType => {
+  const end = crossesMidnight(shift) ? shift.end + MINUTES_PER_DAY : shift.end;
+  // Overlap with 00:00-06:00 on either the shift day or the following day
+  const overlap = [0, MINUTES_PER_DAY].reduce((total, dayOffset) => {
+    const coreStart = dayOffset;
+    const coreEnd = dayOffset + NIGHT_CORE_END;
+    return total + Math.max(0, Math.min(end, coreEnd) - Math.max(shift.start, coreStart));
+  }, 0);
+  return overlap >= NIGHT_CORE_MIN_MINUTES ? 'night' : 'day';
+};
+
+// The real start and end, so a night shift over a clock change lasts 11 or 13 hours rather than 12
+export const getShiftWindow = (workDay: WorkDay, timeZone?: string): TimeWindow => {
+  const zone = workDay.timeZone ?? timeZone;
+  return {
+    start: atMinutes(workDay.date, workDay.start, zone),
+    end: atMinutes(workDay.date, crossesMidnight(workDay) ? workDay.end + MINUTES_PER_DAY : workDay.end, zone),
+  };
+};
+
+export const findPreset = (presets: ShiftPreset[], id?: string): ShiftPreset | undefined =>
+  presets.find(preset => preset.id === id);
+
+// A slug of the name, numbered when it is already taken; `fallback` stands in for names without letters or digits
+export const createUniqueId = (name: string, takenIds: string[], fallback: string): string => {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
+  const taken = new Set(takenIds);
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+};
+
+export const createPresetId = (name: string, presets: ShiftPreset[]): string =>
+  createUniqueId(name, presets.map(p => p.id), 'shift');
+
+export const minutesToDate = (minutes: number, base: Date = new Date()): Date => atMinutes(base, minutes);
+
+export const dateToMinutes = (date: Date): number => date.getHours() * 60 + date.getMinutes();
@@ -0,0 +1,66 @@
+import { createEmptySchedule, Schedule, SleepLogEntry } from '../types';
+import { buildSleepPlan, DEFAULT_PLAN_CONFIG } from './sleepPlan';
+import { adaptForSleepDebt, getCurrentDebt, trackSleepDebt } from './sleepDebt';
+
+const day = (d: number, hours = 0, minutes = 0) => new Date(2025, 4, d, hours, minutes);
+const NIGHT = { start: 19 * 60, end: 7 * 60 };
+
+const schedule = (extra: Partial<Schedule> = {}): Schedule => ({
+  ...createEmptySchedule(),
+  workDays: [{ date: day(10), ...NIGHT }],
+  ...extra,
+});
+const entry = (d: number, start: Date, end: Date): SleepLogEntry => ({ date: day(d), start, end, quality: 3 });
+const findDay = <T extends { date: Date }>(days: T[], d: number) => days.find(item => item.date.getDate() === d);
+
+describe('trackSleepDebt', () => {
+  test('adds up the shortfall against the planned sleep of logged days', () => {
+    const debts = trackSleepDebt(buildSleepPlan(schedule()), [
+      entry(8, day(7, 22), day(8, 5)),
+      entry(10, day(10, 10), day(10, 14)),
+    ]);
+
+    expect(findDay(debts, 8)).toMatchObject({ plannedMinutes: 480, actualMinutes: 420, debtMinutes: 60 });
+    expect(findDay(debts, 9)?.debtMinutes).toBe(60);
+    expect(findDay(debts, 10)?.debtMinutes).toBe(300);
+    expect(getCurrentDebt(debts)?.date).toEqual(day(10));
+  });
+
+  test('lets extra sleep pay the debt back without going below zero', () => {
+    const debts = trackSleepDebt(buildSleepPlan(schedule()), [
+      entry(8, day(7, 22), day(8, 5)),
+      entry(9, day(8, 21), day(9, 9)),
+    ]);
+
+    expect(findDay(debts, 9)?.debtMinutes).toBe(0);
+  });
+
+  test('forgets shortfalls older than a week', () => {
+    const plans = buildSleepPlan(schedule({ workDays: [{ date: day(10), ...NIGHT }, { date: day(17), ...NIGHT }] }));
+    const debts = trackSleepDebt(plans, [entry(10, day(10, 10), day(10, 14)), entry(17, day(17, 9), day(17, 17))]);
+
+    expect(findDay(debts, 10)?.debtMinutes).toBe(240);
+    expect(findDay(debts, 17)?.debtMinutes).toBe(0);
+  });
+});
+
+describe('adaptForSleepDebt', () => {
+  test('leaves the plan alone while the debt is small', () => {
+    const plans = buildSleepPlan(schedule());
+
+    expect(adaptForSleepDebt(plans, [entry(10, day(10, 9), day(10, 16))], DEFAULT_PLAN_CONFIG)).toBe(plans);
+  });
+
+  test('extends the sleep on the following recovery days and adds a nap on a day off', () => {
+    const value = schedule({ daysOff: [day(12)] });
+    const plans = adaptForSleepDebt(buildSleepPlan(value), [entry(10, day(10, 10), day(10, 14))], DEFAULT_PLAN_CONFIG);
+    const recovery = findDay(plans, 11)!;
+    const dayOff = findDay(plans, 12)!;
+
+    expect(recovery.sleep).toEqual({ start: day(11, 8), end: day(11, 17, 30) });
+    expect(recovery.advice[0]).toEqual({ kind: 'repaySleepDebt', minutes: 240 });
+    expect(dayOff.sleep.end).toEqual(day(12, 7, 30));
+    expect(dayOff.naps).toEqual([{ start: day(12, 14), end: day(12, 15) }]);
+    expect(findDay(plans, 10)?.sleep).toEqual({ start: day(10, 9), end: day(10, 17) });
+  });
+});
@@ -0,0 +1,93 @@
+import { addDays, addMinutes, differenceInMinutes, isSameDay, min } from 'date-fns';
+import { SleepLogEntry, SleepQuality } from '../types';
+import { DayPlan, getDayCategory, PlanConfig, withClockChanges } from './sleepPlan';
+import { getCommitmentWindows } from './profile';
+import { atMinutes, overlapMinutes } from './time';
+
+export interface DayDebt {
+  date: Date;
+  plannedMinutes: number;
+  actualMinutes?: number;
+  quality?: SleepQuality;
+  // Running total over the last DEBT_WINDOW_DAYS days; extra sleep pays it back but it never goes below zero
+  debtMinutes: number;
+}
+
+export const DEBT_WINDOW_DAYS = 7;
+export const DEBT_THRESHOLD_MINUTES = 2 * 60;
+const MAX_SLEEP_EXTENSION = 90;
+
+export const getLoggedMinutes = (entry: SleepLogEntry): number => differenceInMinutes(entry.end, entry.start);
+
+const findEntry = (log: SleepLogEntry[], date: Date): SleepLogEntry | undefined =>
+  log.find(entry => isSameDay(entry.date, date));
+
+// Only the main sleep counts as planned; naps are optional
+export const trackSleepDebt = (plans: DayPlan[], log: SleepLogEntry[]): DayDebt[] => {
+  const days = plans.map(plan => {
+    const entry = findEntry(log, plan.date);
+    return {
+      date: plan.date,
+      plannedMinutes: differenceInMinutes(plan.sleep.end, plan.sleep.start),
+      ...(entry ? { actualMinutes: getLoggedMinutes(entry), quality: entry.quality } : {}),
+    };
+  });
+
+  return days.map(day => {
+    const windowStart = addDays(day.date, -(DEBT_WINDOW_DAYS - 1));
+    const balance = days
+      .filter(other => other.actualMinutes !== undefined && other.date >= windowStart && other.date <= day.date)
+      .reduce((total, other) => total + other.plannedMinutes - other.actualMinutes!, 0);
+    return { ...day, debtMinutes: Math.max(0, balance) };
+  });
+};
+
+// The debt as of the most recent logged day
+export const getCurrentDebt = (debts: DayDebt[]): DayDebt | undefined =>
+  [...debts].reverse().find(day => day.actualMinutes !== undefined);
+
+const isRecoveryDay = (plan: DayPlan): boolean =>
+  plan.dayType === 'dayOff' || (getDayCategory(plan.dayType) === 'recovery' && plan.dayType !== 'nightRunExit');
+
+// Recovery days after the last logged night sleep longer, and take an extra nap when the debt is large,
+// until the planned extra rest covers the debt
+export const adaptForSleepDebt = (plans: DayPlan[], log: SleepLogEntry[], config: PlanConfig): DayPlan[] => {
+  const current = getCurrentDebt(trackSleepDebt(plans, log));
+  if (!current || current.debtMinutes < DEBT_THRESHOLD_MINUTES) {
+    return plans;
+  }
+
+  let remaining = current.debtMinutes;
+  return plans.map(plan => {
+    if (plan.date <= current.date || remaining < DEBT_THRESHOLD_MINUTES || !isRecoveryDay(plan)) {
+      return plan;
+    }
+
+    const latestEnd = addMinutes(plan.sleep.end, Math.min(remaining, MAX_SLEEP_EXTENSION));
+    const commitments = getCommitmentWindows(config.commitments, { start: plan.sleep.end, end: latestEnd }, plan.timeZone);
+    const naps = plan.naps.filter(nap => nap.start >= plan.sleep.end);
+    const sleep = {
+      start: plan.sleep.start,
+      end: min([latestEnd, ...commitments.map(window => window.start), ...naps.map(nap => nap.start)]),
+    };
+    const extension = differenceInMinutes(sleep.end, plan.sleep.end);
+
+    const extraNap = {
+      start: atMinutes(plan.date, config.afternoonNapStart, plan.timeZone),
+      end: atMinutes(plan.date, config.afternoonNapStart + config.napMinutes, plan.timeZone),
+    };
+    const addNap = plan.naps.length === 0 &&
+      remaining - extension >= config.napMinutes &&
+      overlapMinutes(extraNap, sleep) === 0 &&
+      getCommitmentWindows(config.commitments, extraNap, plan.timeZone).length === 0;
+
+    const debtBefore = remaining;
+    remaining -= extension + (addNap ? config.napMinutes : 0);
+    return withClockChanges({
+      ...plan,
+      sleep,
+      naps: addNap ? [...plan.naps, extraNap] : plan.naps,
+      advice: [{ kind: 'repaySleepDebt', minutes: debtBefore }, ...plan.advice],
+    });
+  });
+};
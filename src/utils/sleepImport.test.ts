@@ -0,0 +1,239 @@
+import { createEmptySchedule, Schedule } from '../types';
+import { buildSleepPlan } from './sleepPlan';
+import {
+  applySleepImport,
+  detectSleepFileFormat,
+  matchSleepSessions,
+  mergeSleepSessions,
+  parseAppleHealthSleep,
+  parseFitbitSleep,
+  parseSleepCsv,
+  SleepSession
+} from './sleepImport';
+
+const day = (d: number, hours = 0, minutes = 0) => new Date(2025, 4, d, hours, minutes);
+const NIGHT = { start: 19 * 60, end: 7 * 60 };
+
+const schedule: Schedule = {
+  ...createEmptySchedule(),
+  workDays: [{ date: day(10), ...NIGHT }],
+};
+const session = (line: number, start: Date, end: Date, extra: Partial<SleepSession> = {}): SleepSession =>
+  ({ line, start, end, ...extra });
+
+describe('detectSleepFileFormat', () => {
+  test.each([
+    ['export.xml', '<?xml version="1.0"?>', 'appleHealth'],
+    ['sleep-2025-05-10.json', '[]', 'fitbit'],
+    ['download', ' {"sleep": []}', 'fitbit'],
+    ['sleep.csv', 'Start,End', 'csv'],
+  ])('recognises %s', (fileName, text, format) => {
+    expect(detectSleepFileFormat(fileName, text)).toBe(format);
+  });
+});
+
+describe('parseAppleHealthSleep', () => {
+  const record = (value: string, start: string, end: string) =>
+    ` <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Watch" value="${value}" ` +
+    `startDate="${start}" endDate="${end}"/>`;
+
+  test('reads asleep stages in UTC and ignores time in bed on nights with stages', () => {
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<HealthData locale="en_US">',
+      ' <Record type="HKQuantityTypeIdentifierHeartRate" value="60" startDate="2025-05-10 23:00:00 +0000"/>',
+      record('HKCategoryValueSleepAnalysisInBed', '2025-05-10 22:30:00 +0000', '2025-05-11 06:30:00 +0000'),
+      record('HKCategoryValueSleepAnalysisAsleepCore', '2025-05-10 23:00:00 +0000', '2025-05-11 01:00:00 +0000'),
+      record('HKCategoryValueSleepAnalysisAwake', '2025-05-11 01:00:00 +0000', '2025-05-11 01:10:00 +0000'),
+      record('HKCategoryValueSleepAnalysisAsleepDeep', '2025-05-11 03:10:00 -0200', '2025-05-11 04:00:00 -0200'),
+      '</HealthData>',
+    ].join('\n');
+
+    expect(parseAppleHealthSleep(xml)).toEqual({
+      sessions: [
+        { line: 5, start: new Date(Date.UTC(2025, 4, 10, 23)), end: new Date(Date.UTC(2025, 4, 11, 1)) },
+        { line: 7, start: new Date(Date.UTC(2025, 4, 11, 5, 10)), end: new Date(Date.UTC(2025, 4, 11, 6)) },
+      ],
+      errors: [],
+    });
+  });
+
+  test('chooses between stages and time in bed night by night', () => {
+    const xml = [
+      record('HKCategoryValueSleepAnalysisInBed', '2025-05-09 22:00:00 +0000', '2025-05-10 06:00:00 +0000'),
+      record('HKCategoryValueSleepAnalysisInBed', '2025-05-10 22:30:00 +0000', '2025-05-11 06:30:00 +0000'),
+      record('HKCategoryValueSleepAnalysisAsleepCore', '2025-05-10 23:00:00 +0000', '2025-05-11 06:00:00 +0000'),
+    ].join('\n');
+
+    expect(parseAppleHealthSleep(xml).sessions).toEqual([
+      { line: 1, start: new Date(Date.UTC(2025, 4, 9, 22)), end: new Date(Date.UTC(2025, 4, 10, 6)) },
+      { line: 3, start: new Date(Date.UTC(2025, 4, 10, 23)), end: new Date(Date.UTC(2025, 4, 11, 6)) },
+    ]);
+  });
+
+  test('falls back to time in bed and reports broken records', () => {
+    const xml = [
+      record('HKCategoryValueSleepAnalysisInBed', '2025-05-10 22:30:00 +0000', '2025-05-11 06:30:00 +0000'),
+      record('HKCategoryValueSleepAnalysisInBed', 'yesterday', '2025-05-12 06:30:00 +0000'),
+    ].join('\n');
+    const result = parseAppleHealthSleep(xml);
+
+    expect(result.sessions).toHaveLength(1);
+    expect(result.errors).toEqual([{ line: 2, error: { kind: 'noSleepTimes' } }]);
+  });
+});
+
+describe('parseFitbitSleep', () => {
+  test('reads a Fitbit export with local times, efficiency and naps', () => {
+    const json = JSON.stringify([
+      { dateOfSleep: '2025-05-11', startTime: '2025-05-10T23:00:00.000', endTime: '2025-05-11T07:00:00.000',
+        efficiency: 92, isMainSleep: true },
+      { dateOfSleep: '2025-05-11', startTime: '2025-05-11T14:00:00.000', endTime: '2025-05-11T14:40:00.000',
+        efficiency: 70, isMainSleep: false },
+      { dateOfSleep: '2025-05-12' },
+    ]);
+
+    expect(parseFitbitSleep(json)).toEqual({
+      sessions: [
+        { line: 1, start: day(10, 23), end: day(11, 7), quality: 5 },
+        { line: 2, start: day(11, 14), end: day(11, 14, 40), quality: 2, nap: true },
+      ],
+      errors: [{ line: 3, error: { kind: 'noSleepTimes' } }],
+    });
+  });
+
+  test('reads Google Fit sessions with epoch milliseconds', () => {
+    const json = JSON.stringify({
+      session: [{
+        startTimeMillis: String(day(10, 23).getTime()),
+        endTimeMillis: String(day(11, 6).getTime()),
+        activityType: 72,
+      }],
+    });
+
+    expect(parseFitbitSleep(json).sessions).toEqual([{ line: 1, start: day(10, 23), end: day(11, 6) }]);
+  });
+
+  test('leaves out Google Fit sessions that are not sleep', () => {
+    const session = (start: Date, end: Date, activityType: number) =>
+      ({ startTimeMillis: String(start.getTime()), endTimeMillis: String(end.getTime()), activityType });
+    const json = JSON.stringify({
+      session: [
+        session(day(10, 7), day(10, 8), 8),
+        session(day(10, 23), day(11, 6), 72),
+        session(day(11, 17), day(11, 21), 80),
+        session(day(11, 14), day(11, 14, 30), 72),
+      ],
+    });
+
+    expect(parseFitbitSleep(json)).toEqual({
+      sessions: [
+        { line: 2, start: day(10, 23), end: day(11, 6) },
+        { line: 4, start: day(11, 14), end: day(11, 14, 30) },
+      ],
+      errors: [],
+    });
+  });
+
+  test('reports files that are not sleep JSON', () => {
+    expect(parseFitbitSleep('{"sleep"').errors).toEqual([{ line: 1, error: { kind: 'notJson' } }]);
+    expect(parseFitbitSleep('{"steps": []}').errors).toEqual([{ line: 1, error: { kind: 'noSleepLogs' } }]);
+  });
+});
+
+describe('parseSleepCsv', () => {
+  test('finds the columns by header and reads several date formats', () => {
+    const csv = [
+      'Night,Bedtime,Wake Up,Quality',
+      'Sat,2025-05-10 23:00,2025-05-11 07:00,4',
+      'Sun,05/11/2025 11:30 PM,05/12/2025 6:00 AM,',
+      'Mon,12.05.2025 23:00,12.05.2025 22:00,3',
+      'Tue,tonight,13.05.2025 23:00,3',
+    ].join('\n');
+
+    expect(parseSleepCsv(csv)).toEqual({
+      sessions: [
+        { line: 2, start: day(10, 23), end: day(11, 7), quality: 4 },
+        { line: 3, start: day(11, 23, 30), end: day(12, 6) },
+      ],
+      errors: [
+        { line: 4, error: { kind: 'wakeBeforeSleep' } },
+        { line: 5, error: { kind: 'notDateTime', value: 'tonight' } },
+      ],
+    });
+  });
+
+  test('uses the first two columns without a header', () => {
+    expect(parseSleepCsv('2025-05-10T23:00,2025-05-11T07:00').sessions)
+      .toEqual([{ line: 1, start: day(10, 23), end: day(11, 7) }]);
+  });
+});
+
+describe('mergeSleepSessions', () => {
+  test('joins overlapping sessions and stages with short gaps', () => {
+    expect(mergeSleepSessions([
+      session(3, day(11, 1, 20), day(11, 6)),
+      session(1, day(10, 23), day(11, 1)),
+      session(2, day(10, 23, 30), day(11, 0, 30), { quality: 4 }),
+      session(4, day(11, 14), day(11, 14, 40), { nap: true }),
+    ])).toEqual([
+      { line: 1, start: day(10, 23), end: day(11, 6), quality: 4 },
+      { line: 4, start: day(11, 14), end: day(11, 14, 40), nap: true },
+    ]);
+  });
+});
+
+describe('matchSleepSessions', () => {
+  const plans = buildSleepPlan(schedule);
+
+  test('logs main sleep on the day whose planned sleep it overlaps most', () => {
+    const entries = matchSleepSessions([session(1, day(11, 8, 30), day(11, 15))], plans, []);
+
+    expect(entries).toEqual([{
+      session: session(1, day(11, 8, 30), day(11, 15)),
+      status: 'added',
+      entry: { date: day(11), start: day(11, 8, 30), end: day(11, 15), quality: 3 },
+    }]);
+  });
+
+  test('keeps the longest sleep of a day and treats the rest as naps', () => {
+    const statuses = matchSleepSessions([
+      session(1, day(11, 8), day(11, 12)),
+      session(2, day(11, 13), day(11, 16, 30)),
+      session(3, day(9, 14), day(9, 14, 30)),
+      session(4, day(12, 22), day(13, 6), { nap: true }),
+    ], plans, []).map(entry => entry.status);
+
+    expect(statuses).toEqual(['nap', 'added', 'nap', 'nap']);
+  });
+
+  test('compares with sleep already logged and keeps its quality', () => {
+    const existing = { date: day(11), start: day(11, 8), end: day(11, 14), quality: 5 as const };
+    const [unchanged] = matchSleepSessions([session(1, day(11, 8), day(11, 14))], plans, [existing]);
+    const [changed] = matchSleepSessions([session(1, day(11, 8), day(11, 15))], plans, [existing]);
+
+    expect(unchanged.status).toBe('unchanged');
+    expect(changed).toMatchObject({ status: 'changed', existing, entry: { end: day(11, 15), quality: 5 } });
+  });
+
+  test('leaves sleep far from any scheduled day unmatched', () => {
+    expect(matchSleepSessions([session(1, day(20, 23), day(21, 7))], plans, [])[0].status).toBe('unmatched');
+  });
+});
+
+describe('applySleepImport', () => {
+  test('logs added and changed sleep only', () => {
+    const existing = { date: day(11), start: day(11, 8), end: day(11, 14), quality: 5 as const };
+    const value = { ...schedule, daysOff: [day(12)], sleepLog: [existing] };
+    const entries = matchSleepSessions([
+      session(1, day(11, 8), day(11, 15)),
+      session(2, day(11, 22, 30), day(12, 6)),
+      session(3, day(12, 14), day(12, 14, 30)),
+    ], buildSleepPlan(value), value.sleepLog);
+
+    expect(applySleepImport(value, entries).sleepLog).toEqual([
+      { ...existing, end: day(11, 15) },
+      { date: day(12), start: day(11, 22, 30), end: day(12, 6), quality: 3 },
+    ]);
+  });
+});
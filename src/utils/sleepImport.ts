@@ -0,0 +1,351 @@
+import { addMinutes, differenceInMinutes, isSameDay, isValid, parse, parseISO } from 'date-fns';
+import { Schedule, SleepLogEntry, SleepQuality } from '../types';
+import { LineError, parseCsv } from './csv';
+import { ParseError } from './parseErrors';
+import { DayPlan } from './sleepPlan';
+import { logSleep } from './scheduleEdits';
+import { overlapMinutes, TimeWindow } from './time';
+
+export type SleepFileFormat = 'appleHealth' | 'fitbit' | 'csv';
+
+export interface SleepSession {
+  // Line in the file, or the position of the entry in a JSON export
+  line: number;
+  start: Date;
+  end: Date;
+  quality?: SleepQuality;
+  // Set when the device itself recorded the session as a nap
+  nap?: boolean;
+}
+
+export interface SleepParseResult {
+  sessions: SleepSession[];
+  errors: LineError[];
+}
+
+export type SleepImportStatus = 'added' | 'changed' | 'unchanged' | 'nap' | 'unmatched';
+
+export interface SleepImportEntry {
+  session: SleepSession;
+  status: SleepImportStatus;
+  entry?: SleepLogEntry;
+  existing?: SleepLogEntry;
+}
+
+const MAX_SESSION_MINUTES = 24 * 60;
+// Watches split a night into stages and brief awakenings; gaps up to this long still count as one sleep
+const MERGE_GAP_MINUTES = 30;
+const MIN_MAIN_SLEEP_MINUTES = 3 * 60;
+// A main sleep that misses the planned sleep entirely still belongs to the closest plan within this distance
+const MAX_MATCH_DISTANCE_MINUTES = 8 * 60;
+const DEFAULT_QUALITY: SleepQuality = 3;
+
+const APPLE_SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+const APPLE_IN_BED = 'HKCategoryValueSleepAnalysisInBed';
+const APPLE_ASLEEP = /^HKCategoryValueSleepAnalysisAsleep/;
+const APPLE_DATE = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/;
+
+const CSV_DATE_TIME_FORMATS = ['MM/dd/yyyy HH:mm', 'MM/dd/yyyy h:mm a', 'dd.MM.yyyy HH:mm'];
+
+export const detectSleepFileFormat = (fileName: string, text: string): SleepFileFormat => {
+  const start = text.trimStart();
+  if (/\.xml$/i.test(fileName) || start.startsWith('<')) return 'appleHealth';
+  if (/\.json$/i.test(fileName) || start.startsWith('[') || start.startsWith('{')) return 'fitbit';
+  return 'csv';
+};
+
+const checkSession = (session: SleepSession): ParseError | null => {
+  const minutes = differenceInMinutes(session.end, session.start);
+  if (minutes <= 0) return { kind: 'wakeBeforeSleep' };
+  if (minutes > MAX_SESSION_MINUTES) return { kind: 'sleepTooLong' };
+  return null;
+};
+
+const collect = (sessions: SleepSession[], errors: LineError[]): SleepParseResult => {
+  const valid = sessions.filter(session => {
+    const error = checkSession(session);
+    if (error) {
+      errors.push({ line: session.line, error });
+    }
+    return !error;
+  });
+  errors.sort((a, b) => a.line - b.line);
+  return { sessions: valid, errors };
+};
+
+// Apple writes times with a UTC offset, e.g. 2025-05-10 23:14:00 -0700
+const parseAppleDate = (value: string): Date | null => {
+  const match = APPLE_DATE.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number);
+  const offset = (match[7] === '-' ? -1 : 1) * (Number(match[8]) * 60 + Number(match[9]));
+  const date = new Date(Date.UTC(year, month - 1, day, hours, minutes - offset, seconds));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+interface AppleSleepRecord extends SleepSession {
+  asleep: boolean;
+}
+
+// Records that overlap or follow each other within the merge gap belong to the same night
+const groupNights = (records: AppleSleepRecord[]): AppleSleepRecord[][] =>
+  [...records].sort((a, b) => a.start.getTime() - b.start.getTime()).reduce<AppleSleepRecord[][]>((nights, record) => {
+    const night = nights[nights.length - 1];
+    const end = night && Math.max(...night.map(r => r.end.getTime()));
+    if (night && record.start <= addMinutes(end, MERGE_GAP_MINUTES)) {
+      night.push(record);
+    } else {
+      nights.push([record]);
+    }
+    return nights;
+  }, []);
+
+// Health exports run to hundreds of megabytes, so records are scanned rather than loaded into a DOM.
+// Stage records (core, deep, REM) are used for nights that have them; older devices only record time in bed.
+export const parseAppleHealthSleep = (text: string): SleepParseResult => {
+  const records: AppleSleepRecord[] = [];
+  const errors: LineError[] = [];
+  const recordPattern = /<Record\s[^>]*>/g;
+  let line = 1;
+  let scanned = 0;
+
+  for (let match = recordPattern.exec(text); match; match = recordPattern.exec(text)) {
+    const tag = match[0];
+    if (!tag.includes(APPLE_SLEEP_TYPE)) {
+      continue;
+    }
+    for (let i = scanned; i < match.index; i++) {
+      if (text.charCodeAt(i) === 10) line++;
+    }
+    scanned = match.index;
+
+    const attributes = Object.fromEntries(Array.from(tag.matchAll(/(\w+)="([^"]*)"/g), ([, name, value]) => [name, value]));
+    if (attributes.type !== APPLE_SLEEP_TYPE) {
+      continue;
+    }
+    const isAsleep = APPLE_ASLEEP.test(attributes.value ?? '');
+    if (!isAsleep && attributes.value !== APPLE_IN_BED) {
+      continue;
+    }
+    const start = parseAppleDate(attributes.startDate ?? '');
+    const end = parseAppleDate(attributes.endDate ?? '');
+    if (!start || !end) {
+      errors.push({ line, error: { kind: 'noSleepTimes' } });
+    } else {
+      records.push({ line, start, end, asleep: isAsleep });
+    }
+  }
+
+  const sessions = groupNights(records).flatMap(night => {
+    const asleep = night.filter(record => record.asleep);
+    return (asleep.length > 0 ? asleep : night).map(({ line, start, end }) => ({ line, start, end }));
+  });
+  return collect(sessions.sort((a, b) => a.line - b.line), errors);
+};
+
+const qualityFromEfficiency = (efficiency: number): SleepQuality => {
+  if (efficiency >= 90) return 5;
+  if (efficiency >= 85) return 4;
+  if (efficiency >= 75) return 3;
+  if (efficiency >= 65) return 2;
+  return 1;
+};
+
+// Fitbit times are local wall-clock times; Google Fit sessions use epoch milliseconds
+const parseJsonTime = (text: unknown, millis: unknown): Date | null => {
+  if (typeof text === 'string') {
+    const date = parseISO(text);
+    return isValid(date) ? date : null;
+  }
+  if (typeof millis === 'string' || typeof millis === 'number') {
+    const date = new Date(Number(millis));
+    return isValid(date) ? date : null;
+  }
+  return null;
+};
+
+// Google Fit's activity type for sleep; its session lists also hold walks, runs and workouts
+const GOOGLE_FIT_SLEEP = 72;
+
+// Accepts a Fitbit export file (an array of sleep logs), a Fitbit Web API response ({ sleep: [...] })
+// and Google Fit sleep sessions ({ session: [...] })
+export const parseFitbitSleep = (text: string): SleepParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { sessions: [], errors: [{ line: 1, error: { kind: 'notJson' } }] };
+  }
+  const container = data as { sleep?: unknown; session?: unknown };
+  const fromGoogleFit = !Array.isArray(data) && !Array.isArray(container?.sleep) && Array.isArray(container?.session);
+  const items = Array.isArray(data) ? data
+    : Array.isArray(container?.sleep) ? container.sleep
+    : fromGoogleFit ? container.session as unknown[]
+    : null;
+  if (!items) {
+    return { sessions: [], errors: [{ line: 1, error: { kind: 'noSleepLogs' } }] };
+  }
+
+  const sessions: SleepSession[] = [];
+  const errors: LineError[] = [];
+  items.forEach((item: Record<string, unknown>, index) => {
+    const line = index + 1;
+    if (fromGoogleFit && Number(item?.activityType) !== GOOGLE_FIT_SLEEP) {
+      return;
+    }
+    const start = parseJsonTime(item?.startTime, item?.startTimeMillis);
+    const end = parseJsonTime(item?.endTime, item?.endTimeMillis);
+    if (!start || !end) {
+      errors.push({ line, error: { kind: 'noSleepTimes' } });
+      return;
+    }
+    sessions.push({
+      line,
+      start,
+      end,
+      ...(typeof item.efficiency === 'number' ? { quality: qualityFromEfficiency(item.efficiency) } : {}),
+      ...(item.isMainSleep === false ? { nap: true } : {}),
+    });
+  });
+  return collect(sessions, errors);
+};
+
+const parseDateTime = (value: string): Date | null => {
+  const iso = parseISO(value);
+  if (isValid(iso)) {
+    return iso;
+  }
+  return CSV_DATE_TIME_FORMATS
+    .map(dateFormat => parse(value, dateFormat, new Date()))
+    .find(date => isValid(date)) ?? null;
+};
+
+// The start and end columns are found by their headers; without a header they are the first two columns
+export const parseSleepCsv = (text: string): SleepParseResult => {
+  const { rows, errors } = parseCsv(text);
+  const firstRow = rows[0]?.cells.map(cell => cell.trim()) ?? [];
+  const hasHeader = firstRow.length > 0 && firstRow.every(cell => !parseDateTime(cell));
+  const header = firstRow.map(cell => cell.toLowerCase());
+  const find = (pattern: RegExp, fallback: number) => {
+    const index = hasHeader ? header.findIndex(cell => pattern.test(cell)) : -1;
+    return index >= 0 ? index : fallback;
+  };
+  const startColumn = find(/start|bed|asleep|begin|from/, 0);
+  const endColumn = find(/end|wake|woke|until|to$/, 1);
+  const qualityColumn = hasHeader ? header.findIndex(cell => /quality|rating/.test(cell)) : -1;
+
+  const sessions: SleepSession[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach(({ line, cells }) => {
+    const cell = (index: number) => (cells[index] ?? '').trim();
+    const start = parseDateTime(cell(startColumn));
+    const end = parseDateTime(cell(endColumn));
+    const quality = Number(cell(qualityColumn));
+
+    if (!start) {
+      errors.push({ line, error: { kind: 'notDateTime', value: cell(startColumn) } });
+    } else if (!end) {
+      errors.push({ line, error: { kind: 'notDateTime', value: cell(endColumn) } });
+    } else {
+      sessions.push({
+        line,
+        start,
+        end,
+        ...(Number.isInteger(quality) && quality >= 1 && quality <= 5 ? { quality: quality as SleepQuality } : {}),
+      });
+    }
+  });
+  return collect(sessions, errors);
+};
+
+export const parseSleepFile = (text: string, format: SleepFileFormat): SleepParseResult => {
+  switch (format) {
+    case 'appleHealth':
+      return parseAppleHealthSleep(text);
+    case 'fitbit':
+      return parseFitbitSleep(text);
+    default:
+      return parseSleepCsv(text);
+  }
+};
+
+// Overlapping sessions (e.g. from a watch and a phone) and stages of the same night become one sleep
+export const mergeSleepSessions = (sessions: SleepSession[]): SleepSession[] =>
+  [...sessions]
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .reduce<SleepSession[]>((merged, session) => {
+      const last = merged[merged.length - 1];
+      if (!last || session.start > addMinutes(last.end, MERGE_GAP_MINUTES)) {
+        return [...merged, { ...session }];
+      }
+      const { nap, ...rest } = last;
+      const quality = last.quality ?? session.quality;
+      merged[merged.length - 1] = {
+        ...rest,
+        line: Math.min(last.line, session.line),
+        end: session.end > last.end ? session.end : last.end,
+        ...(quality ? { quality } : {}),
+        ...(nap && session.nap ? { nap: true } : {}),
+      };
+      return merged;
+    }, []);
+
+const getMinutes = (session: SleepSession): number => differenceInMinutes(session.end, session.start);
+
+const midpoint = (window: TimeWindow): number =>
+  (window.start.getTime() + window.end.getTime()) / 2;
+
+const findPlan = (session: SleepSession, plans: DayPlan[]): DayPlan | undefined => {
+  const best = plans.reduce<{ plan?: DayPlan; overlap: number; distance: number }>((found, plan) => {
+    const overlap = overlapMinutes(session, plan.sleep);
+    const distance = Math.abs(midpoint(session) - midpoint(plan.sleep)) / 60000;
+    const better = overlap > found.overlap || (overlap === 0 && found.overlap === 0 && distance < found.distance);
+    return better ? { plan, overlap, distance } : found;
+  }, { overlap: 0, distance: MAX_MATCH_DISTANCE_MINUTES });
+  return best.plan;
+};
+
+// Each scheduled day logs its longest main sleep; shorter sleeps, and ones the device marked as naps,
+// are shown as naps and left out of the log
+export const matchSleepSessions = (
+  sessions: SleepSession[],
+  plans: DayPlan[],
+  log: SleepLogEntry[]
+): SleepImportEntry[] => {
+  const merged = mergeSleepSessions(sessions);
+  const matches = merged.map(session => ({
+    session,
+    plan: session.nap || getMinutes(session) < MIN_MAIN_SLEEP_MINUTES ? undefined : findPlan(session, plans),
+  }));
+
+  return matches.map(({ session, plan }): SleepImportEntry => {
+    if (!plan) {
+      const isNap = session.nap || getMinutes(session) < MIN_MAIN_SLEEP_MINUTES;
+      return { session, status: isNap ? 'nap' : 'unmatched' };
+    }
+    const longest = matches
+      .filter(other => other.plan === plan)
+      .reduce((a, b) => getMinutes(b.session) > getMinutes(a.session) ? b : a);
+    if (longest.session !== session) {
+      return { session, status: 'nap' };
+    }
+
+    const existing = log.find(entry => isSameDay(entry.date, plan.date));
+    const entry = {
+      date: plan.date,
+      start: session.start,
+      end: session.end,
+      quality: session.quality ?? existing?.quality ?? DEFAULT_QUALITY,
+    };
+    if (!existing) {
+      return { session, status: 'added', entry };
+    }
+    const same = existing.start.getTime() === entry.start.getTime() && existing.end.getTime() === entry.end.getTime();
+    return { session, status: same ? 'unchanged' : 'changed', entry, existing };
+  });
+};
+
+export const applySleepImport = (schedule: Schedule, entries: SleepImportEntry[]): Schedule =>
+  entries.reduce((current, { status, entry }) =>
+    entry && (status === 'added' || status === 'changed') ? logSleep(current, entry) : current, schedule);
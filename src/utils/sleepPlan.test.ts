@@ -0,0 +1,280 @@
+import { createEmptySchedule, Schedule } from '../types';
+import { buildSleepPlan, DEFAULT_PLAN_CONFIG, getDayPlan } from './sleepPlan';
+import { describeClockChange, describeDayPlan } from './planText';
+
+const day = (d: number, hours = 0, minutes = 0) => new Date(2025, 4, d, hours, minutes);
+const NIGHT = { start: 19 * 60, end: 7 * 60 };
+const DAY = { start: 7 * 60, end: 19 * 60 };
+
+const nightSchedule = (): Schedule => ({
+  ...createEmptySchedule(),
+  workDays: [{ date: day(10), ...NIGHT }],
+});
+
+describe('getDayPlan', () => {
+  test('plans a night shift around a 7 PM start', () => {
+    const plan = getDayPlan(nightSchedule(), day(10));
+
+    expect(plan.dayType).toBe('nightShift');
+    expect(plan.sleep).toEqual({ start: day(10, 9), end: day(10, 17) });
+    expect(plan.advice).toContainEqual({ kind: 'shiftStart', time: day(10, 19) });
+  });
+
+  test('plans a day shift with overnight sleep ending on the shift day', () => {
+    const schedule = { ...createEmptySchedule(), workDays: [{ date: day(10), ...DAY }] };
+    const plan = getDayPlan(schedule, day(10));
+
+    expect(plan.dayType).toBe('dayShift');
+    expect(plan.sleep).toEqual({ start: day(9, 22), end: day(10, 6) });
+  });
+
+  test('recovery after a night shift starts with a morning sleep and an evening nap', () => {
+    const plan = getDayPlan(nightSchedule(), day(11));
+
+    expect(plan.dayType).toBe('nightRecovery');
+    expect(plan.sleep).toEqual({ start: day(11, 8), end: day(11, 16) });
+    expect(plan.naps).toEqual([{ start: day(11, 19), end: day(11, 20) }]);
+  });
+
+  test('preparation before a night shift pushes bedtime later', () => {
+    const plan = getDayPlan(nightSchedule(), day(9));
+
+    expect(plan.dayType).toBe('nightPreparation');
+    expect(plan.sleep).toEqual({ start: day(8, 23), end: day(9, 7) });
+    expect(plan.advice).toContainEqual({ kind: 'prepareForNightShift' });
+  });
+
+  test('respects a custom configuration', () => {
+    const plan = getDayPlan(nightSchedule(), day(10), {
+      ...DEFAULT_PLAN_CONFIG,
+      sleepHours: 7,
+      nightShiftWakeLead: 60,
+    });
+
+    expect(plan.sleep).toEqual({ start: day(10, 11), end: day(10, 18) });
+  });
+
+  test('computes the plan from custom shift times', () => {
+    const schedule: Schedule = {
+      ...createEmptySchedule(),
+      workDays: [{ date: day(10), start: 23 * 60, end: 7 * 60 }],
+    };
+
+    const shift = getDayPlan(schedule, day(10));
+    expect(shift.dayType).toBe('nightShift');
+    expect(shift.shift).toEqual({ start: day(10, 23), end: day(11, 7) });
+    expect(shift.sleep).toEqual({ start: day(10, 13), end: day(10, 21) });
+    expect(shift.advice).toContainEqual({ kind: 'shiftStart', time: day(10, 23) });
+
+    expect(getDayPlan(schedule, day(9)).naps).toEqual([{ start: day(9, 18), end: day(9, 19) }]);
+    expect(getDayPlan(schedule, day(11)).sleep.start).toEqual(day(11, 8));
+  });
+
+  test('keeps the usual wake time before a late day shift', () => {
+    const schedule = {
+      ...createEmptySchedule(),
+      workDays: [{ date: day(10), start: 15 * 60, end: 23 * 60 }],
+    };
+
+    expect(getDayPlan(schedule, day(10)).sleep).toEqual({ start: day(9, 22), end: day(10, 6) });
+    expect(getDayPlan(schedule, day(11)).sleep.start).toEqual(day(11, 0));
+  });
+});
+
+describe('night runs', () => {
+  const runSchedule = (): Schedule => ({
+    ...createEmptySchedule(),
+    workDays: [10, 11, 12, 13].map(d => ({ date: day(d), ...NIGHT })),
+  });
+
+  test('gives each night of a run its own day type', () => {
+    expect(buildSleepPlan(runSchedule()).map(plan => plan.dayType)).toEqual([
+      'regular',
+      'nightPreparation',
+      'firstNight',
+      'middleNight',
+      'middleNight',
+      'lastNight',
+      'nightRunExit',
+      'dayRecovery',
+    ]);
+  });
+
+  test('keeps a day marked off after a run of nights off', () => {
+    const schedule = { ...runSchedule(), daysOff: [day(14)] };
+
+    expect(getDayPlan(schedule, day(14)).dayType).toBe('dayOff');
+  });
+
+  test('adds a pre-shift nap to the first night', () => {
+    const plan = getDayPlan(runSchedule(), day(10));
+
+    expect(plan.naps).toEqual([{ start: day(10, 15, 30), end: day(10, 17) }]);
+    expect(plan.run).toEqual({ index: 0, length: 4 });
+  });
+
+  test('anchors sleep straight after the previous shift on middle nights', () => {
+    const plan = getDayPlan(runSchedule(), day(12));
+
+    expect(plan.sleep).toEqual({ start: day(12, 8), end: day(12, 16) });
+    expect(plan.advice[0]).toEqual({ kind: 'anchorSleep' });
+  });
+
+  test('switches back to days with a short sleep and an early bedtime', () => {
+    const plan = getDayPlan(runSchedule(), day(14));
+
+    expect(plan.sleep).toEqual({ start: day(14, 8), end: day(14, 11) });
+    expect(plan.advice).toContainEqual({ kind: 'earlyBedtime', time: day(14, 21) });
+  });
+
+  test('keeps the single-night plan for an isolated night shift', () => {
+    expect(getDayPlan(nightSchedule(), day(10)).dayType).toBe('nightShift');
+    expect(getDayPlan(nightSchedule(), day(11)).dayType).toBe('nightRecovery');
+  });
+});
+
+describe('buildSleepPlan', () => {
+  test('returns one plan per scheduled day in date order', () => {
+    const plans = buildSleepPlan(nightSchedule());
+
+    expect(plans.map(plan => plan.dayType)).toEqual([
+      'regular',
+      'nightPreparation',
+      'nightShift',
+      'nightRecovery',
+    ]);
+  });
+});
+
+describe('second-job shifts', () => {
+  test('plans a day with only a second-job shift around that shift', () => {
+    const schedule = { ...createEmptySchedule(), secondJobDays: [{ date: day(12), ...DAY }] };
+    const plan = getDayPlan(schedule, day(12));
+
+    expect(plan.dayType).toBe('dayShift');
+    expect(plan.shiftSource).toBe('secondJob');
+    expect(buildSleepPlan(schedule).map(p => p.date.getDate())).toEqual([10, 11, 12, 13]);
+  });
+
+  test('keeps the main-job shift as the planned one when both share a date', () => {
+    const schedule = {
+      ...nightSchedule(),
+      secondJobDays: [{ date: day(10), start: 8 * 60, end: 12 * 60 }],
+    };
+    const plan = getDayPlan(schedule, day(10));
+
+    expect(plan.shiftSource).toBe('main');
+    expect(plan.secondJob).toEqual({ start: day(10, 8), end: day(10, 12) });
+    expect(describeDayPlan(plan)[0]).toBe('Second job: 8:00 AM - 12:00 PM');
+  });
+});
+
+describe('sleep profile', () => {
+  const withProfile = (schedule: Schedule, profile: Partial<Schedule['profile']>): Schedule => ({
+    ...schedule,
+    profile: { ...schedule.profile, ...profile },
+  });
+  const pickup = (d: number) => ({
+    id: 'pickup',
+    name: 'School pickup',
+    start: 15 * 60,
+    end: 15 * 60 + 30,
+    weekdays: [day(d).getDay()],
+  });
+
+  test('wakes earlier to leave time for the commute', () => {
+    const plan = getDayPlan(withProfile(nightSchedule(), { commuteToWork: 45 }), day(10));
+
+    expect(plan.sleep).toEqual({ start: day(10, 8, 15), end: day(10, 16, 15) });
+    expect(plan.advice).toContainEqual({ kind: 'wakeUp', time: day(10, 16, 15) });
+  });
+
+  test('moves free-day sleep with the chronotype and sleep need', () => {
+    const plan = getDayPlan(withProfile(nightSchedule(), { chronotype: 'evening', sleepHours: 9 }), day(8));
+
+    expect(plan.sleep).toEqual({ start: day(7, 22), end: day(8, 7) });
+  });
+
+  test('moves sleep earlier to stay clear of a commitment', () => {
+    const plan = getDayPlan(withProfile(nightSchedule(), { commitments: [{ ...pickup(10), start: 15 * 60 + 30, end: 16 * 60 }] }), day(10));
+
+    expect(plan.sleep).toEqual({ start: day(10, 7, 30), end: day(10, 15, 30) });
+    expect(plan.sleepLimit).toBeUndefined();
+  });
+
+  test('explains when a commitment leaves too little time to sleep', () => {
+    const plan = getDayPlan(withProfile(nightSchedule(), { commitments: [pickup(11)] }), day(11));
+
+    expect(plan.sleep).toEqual({ start: day(11, 8), end: day(11, 15) });
+    expect(plan.sleepLimit).toMatchObject({ reason: 'commitment', targetMinutes: 8 * 60 });
+    expect(describeDayPlan(plan).slice(0, 2)).toEqual([
+      'Sleep: 8:00 AM - 3:00 PM (7 hours of the 8 hours you need)',
+      'Your full sleep does not fit around School pickup (3:00 PM - 3:30 PM)',
+    ]);
+  });
+
+  test('explains when commutes leave too little time between shifts', () => {
+    const schedule = withProfile({
+      ...createEmptySchedule(),
+      workDays: [{ date: day(10), ...NIGHT }, { date: day(11), ...NIGHT }],
+    }, { commuteToWork: 60, commuteFromWork: 60 });
+    const plan = getDayPlan(schedule, day(11));
+
+    expect(plan.sleep).toEqual({ start: day(11, 9), end: day(11, 16) });
+    expect(plan.sleepLimit).toEqual({ reason: 'betweenShifts', targetMinutes: 8 * 60 });
+  });
+});
+
+describe('time zones', () => {
+  const NEW_YORK = 'America/New_York';
+  const utc = (month: number, d: number, hours: number) => new Date(Date.UTC(2025, month, d, hours));
+  const inNewYork = (workDays: Schedule['workDays']): Schedule => ({
+    ...createEmptySchedule(),
+    timeZone: NEW_YORK,
+    workDays,
+  });
+
+  test('a night shift over the spring clock change is an hour shorter and says so', () => {
+    const plan = getDayPlan(inNewYork([{ date: new Date(2025, 2, 8), ...NIGHT }]), new Date(2025, 2, 8));
+
+    expect(plan.timeZone).toBe(NEW_YORK);
+    expect(plan.shift).toEqual({ start: utc(2, 9, 0), end: utc(2, 9, 11) });
+    expect(plan.clockChanges).toEqual([{ window: 'shift', at: utc(2, 9, 7), minutes: 60 }]);
+    expect(describeClockChange(plan.clockChanges[0], plan.timeZone))
+      .toBe('Clocks go forward 1 hour at 2:00 AM during this shift, so it is 1 hour shorter');
+  });
+
+  test('sleep over a clock change keeps its full length and wake-up time', () => {
+    const plan = getDayPlan(inNewYork([{ date: new Date(2025, 2, 9), ...DAY }]), new Date(2025, 2, 9));
+
+    // 9 PM EST to 6 AM EDT is eight hours of sleep
+    expect(plan.sleep).toEqual({ start: utc(2, 9, 2), end: utc(2, 9, 10) });
+    expect(describeDayPlan(plan)[0]).toBe('Sleep: 9:00 PM - 6:00 AM (8 hours)');
+    expect(plan.clockChanges).toEqual([{ window: 'sleep', at: utc(2, 9, 7), minutes: 60 }]);
+  });
+
+  test('has no clock changes on ordinary days', () => {
+    expect(buildSleepPlan(inNewYork([{ date: day(10), ...NIGHT }])).flatMap(plan => plan.clockChanges)).toEqual([]);
+  });
+
+  test('plans shifts entered in another zone, and the days around them, in that zone', () => {
+    const schedule = inNewYork([{ date: day(10), ...DAY, timeZone: 'America/Denver' }]);
+    const plan = getDayPlan(schedule, day(10));
+
+    expect(plan.timeZone).toBe('America/Denver');
+    expect(plan.shift).toEqual({ start: utc(4, 10, 13), end: utc(4, 11, 1) });
+    expect(getDayPlan(schedule, day(11)).timeZone).toBe('America/Denver');
+    expect(getDayPlan(schedule, day(13)).timeZone).toBe(NEW_YORK);
+  });
+});
+
+describe('rendering', () => {
+  test('describes a plan with the familiar advice lines', () => {
+    expect(describeDayPlan(getDayPlan(nightSchedule(), day(10)))).toEqual([
+      'Sleep: 9:00 AM - 5:00 PM (8 hours)',
+      'Wake up at 5:00 PM',
+      'Start shift at 7:00 PM',
+      'Stay hydrated throughout your shift',
+    ]);
+  });
+});
@@ -0,0 +1,598 @@
+import { addDays, addMinutes, differenceInMinutes, isSameDay, max, min } from 'date-fns';
+import { Chronotype, FixedCommitment, Schedule, SleepProfile, WorkDay } from '../types';
+import { getShiftType, getShiftWindow } from './shifts';
+import { findRunPlacement, findShiftRuns, getRunPosition, RunPosition } from './shiftRuns';
+import { DayRule, DEFAULT_DAY_RULES, deriveScheduledDays } from './dayRules';
+import { getCommitmentWindows } from './profile';
+import { atMinutes, overlapMinutes, subtractWindows, TimeWindow } from './time';
+import { ClockChange, findClockChanges } from './timeZones';
+
+export type DayType =
+  | 'dayShift'
+  | 'nightShift'
+  | 'firstNight'
+  | 'middleNight'
+  | 'lastNight'
+  | 'nightRunExit'
+  | 'dayRecovery'
+  | 'nightRecovery'
+  | 'dayPreparation'
+  | 'nightPreparation'
+  | 'dayOff'
+  | 'regular';
+
+export type DayCategory = 'night' | 'day' | 'recovery' | 'preparation' | 'regular';
+
+export type AdviceKind =
+  | 'wakeUp'
+  | 'shiftStart'
+  | 'hydrateOnShift'
+  | 'hydrateWithBreaks'
+  | 'hydrateNutritious'
+  | 'hydrateBalanced'
+  | 'morningExercise'
+  | 'exercise'
+  | 'prepareForNightShift'
+  | 'prepareForMorning'
+  | 'setOutWorkClothes'
+  | 'preShiftNap'
+  | 'anchorSleep'
+  | 'lastNightOfRun'
+  | 'afternoonDaylight'
+  | 'earlyBedtime'
+  | 'repaySleepDebt';
+
+export interface AdviceItem {
+  kind: AdviceKind;
+  time?: Date;
+  minutes?: number;
+}
+
+// Why a sleep window came out shorter than the profile asks for
+export interface SleepLimit {
+  reason: 'betweenShifts' | 'commitment';
+  targetMinutes: number;
+  commitment?: FixedCommitment;
+}
+
+// A clock change inside the shift or a planned sleep, which makes it an hour longer or shorter than it looks
+export interface PlanClockChange extends ClockChange {
+  window: 'shift' | 'sleep' | 'nap';
+}
+
+export interface DayPlan {
+  date: Date;
+  dayType: DayType;
+  // Zone the day's clock times are planned in: that of its shift or of the shift next to it
+  timeZone: string;
+  // The shift the day is planned around and which job it belongs to
+  shift?: TimeWindow;
+  shiftSource?: 'main' | 'secondJob';
+  // A second-job shift on the same date as a main-job shift
+  secondJob?: TimeWindow;
+  run?: { index: number; length: number };
+  sleep: TimeWindow;
+  sleepLimit?: SleepLimit;
+  naps: TimeWindow[];
+  advice: AdviceItem[];
+  clockChanges: PlanClockChange[];
+}
+
+// A plan before its windows are checked for clock changes
+type PlanDraft = Omit<DayPlan, 'clockChanges'>;
+
+// Clock times are minutes after midnight, everything else is a duration in minutes
+export interface PlanConfig {
+  sleepHours: number;
+  napMinutes: number;
+  usualWake: number;
+  dayShiftWakeLead: number;
+  nightShiftWakeLead: number;
+  windDownMinutes: number;
+  recoveryNapDelay: number;
+  afternoonNapStart: number;
+  preparationBedtimeDelay: number;
+  nightPreparationNapLead: number;
+  caffeineCutoffMinutes: number;
+  // No large meal this long before sleep, nor inside the night window when there is one
+  mealSleepBuffer: number;
+  nightMealWindow?: { start: number; end: number };
+  preShiftNapMinutes: number;
+  transitionSleepMinutes: number;
+  earlyBedtimeAdvance: number;
+  commuteToWork: number;
+  commuteFromWork: number;
+  commitments: FixedCommitment[];
+  // How far a sleep window may move to get clear of a commitment
+  sleepShiftLimit: number;
+  dayRules: DayRule[];
+}
+
+export const DEFAULT_PLAN_CONFIG: PlanConfig = {
+  sleepHours: 8,
+  napMinutes: 60,
+  usualWake: 6 * 60,
+  dayShiftWakeLead: 60,
+  nightShiftWakeLead: 2 * 60,
+  windDownMinutes: 60,
+  recoveryNapDelay: 3 * 60,
+  afternoonNapStart: 14 * 60,
+  preparationBedtimeDelay: 60,
+  nightPreparationNapLead: 5 * 60,
+  caffeineCutoffMinutes: 6 * 60,
+  mealSleepBuffer: 2 * 60,
+  nightMealWindow: { start: 0, end: 6 * 60 },
+  preShiftNapMinutes: 90,
+  transitionSleepMinutes: 3 * 60,
+  earlyBedtimeAdvance: 60,
+  commuteToWork: 0,
+  commuteFromWork: 0,
+  commitments: [],
+  sleepShiftLimit: 2 * 60,
+  dayRules: DEFAULT_DAY_RULES,
+};
+
+// Morning types wake an hour earlier on free days and evening types an hour later
+const CHRONOTYPE_WAKE_OFFSETS: Record<Chronotype, number> = {
+  morning: -60,
+  intermediate: 0,
+  evening: 60,
+};
+
+export const getPlanConfig = (profile: SleepProfile, base: PlanConfig = DEFAULT_PLAN_CONFIG): PlanConfig => ({
+  ...base,
+  sleepHours: profile.sleepHours,
+  usualWake: base.usualWake + CHRONOTYPE_WAKE_OFFSETS[profile.chronotype],
+  caffeineCutoffMinutes: profile.caffeineCutoffHours * 60,
+  mealSleepBuffer: profile.mealBufferHours * 60,
+  nightMealWindow: profile.avoidNightMeals ? DEFAULT_PLAN_CONFIG.nightMealWindow : undefined,
+  commuteToWork: profile.commuteToWork,
+  commuteFromWork: profile.commuteFromWork,
+  commitments: profile.commitments,
+});
+
+const NIGHT_RUN_DAY_TYPES: Record<RunPosition, DayType> = {
+  single: 'nightShift',
+  first: 'firstNight',
+  middle: 'middleNight',
+  last: 'lastNight',
+};
+
+const DAY_CATEGORIES: Record<DayType, DayCategory> = {
+  dayShift: 'day',
+  nightShift: 'night',
+  firstNight: 'night',
+  middleNight: 'night',
+  lastNight: 'night',
+  nightRunExit: 'recovery',
+  dayRecovery: 'recovery',
+  nightRecovery: 'recovery',
+  dayPreparation: 'preparation',
+  nightPreparation: 'preparation',
+  dayOff: 'regular',
+  regular: 'regular',
+};
+
+export const getDayCategory = (dayType: DayType): DayCategory => DAY_CATEGORIES[dayType];
+
+const findShift = (shifts: WorkDay[], date: Date): WorkDay | undefined =>
+  shifts.find(wd => isSameDay(wd.date, date));
+
+// Second-job shifts are planned like main-job shifts on dates that have no main-job shift.
+// Every planned shift carries its zone, so its window is right wherever the device is.
+export const getPlannedShifts = (schedule: Schedule): WorkDay[] => [
+  ...schedule.workDays,
+  ...schedule.secondJobDays
+    .filter(sj => !findShift(schedule.workDays, sj.date))
+    .map(({ date, start, end, timeZone }) => ({ date, start, end, timeZone })),
+].map(shift => ({ ...shift, timeZone: shift.timeZone ?? schedule.timeZone }));
+
+// Days around a shift follow its zone; days away from any shift use the schedule's zone
+export const getDayTimeZone = (schedule: Schedule, date: Date): string => {
+  const shifts = getPlannedShifts(schedule);
+  const nearest = [0, -1, 1]
+    .map(offset => findShift(shifts, addDays(date, offset)))
+    .find(shift => shift !== undefined);
+  return nearest?.timeZone ?? schedule.timeZone;
+};
+
+const sleepEndingAt = (wake: Date, config: PlanConfig): TimeWindow => ({
+  start: addMinutes(wake, -config.sleepHours * 60),
+  end: wake,
+});
+
+// The usual night's sleep from the evening of `date`, for days whose next sleep is not planned
+export const getUsualSleep = (date: Date, timeZone: string, config: PlanConfig = DEFAULT_PLAN_CONFIG): TimeWindow =>
+  sleepEndingAt(atMinutes(date, config.usualWake + 24 * 60, timeZone), config);
+
+// The first sleep after the day's own: the next day's if it is planned, otherwise the usual night's
+export const getNextSleep = (plans: DayPlan[], plan: DayPlan, config: PlanConfig = DEFAULT_PLAN_CONFIG): TimeWindow => {
+  const next = plans.find(other => isSameDay(other.date, addDays(plan.date, 1)));
+  return next && next.sleep.start >= plan.sleep.end ? next.sleep : getUsualSleep(plan.date, plan.timeZone, config);
+};
+
+const sleepStartingAt = (bedtime: Date, config: PlanConfig): TimeWindow => ({
+  start: bedtime,
+  end: addMinutes(bedtime, config.sleepHours * 60),
+});
+
+const windowFrom = (start: Date, minutes: number): TimeWindow => ({
+  start,
+  end: addMinutes(start, minutes),
+});
+
+// Latest wake-up that still leaves time to get ready and travel to the shift
+const wakeBefore = (shift: TimeWindow, lead: number, config: PlanConfig): Date =>
+  addMinutes(shift.start, -(lead + config.commuteToWork));
+
+// Earliest bedtime once the nurse is home and has wound down
+const bedtimeAfter = (shift: TimeWindow, config: PlanConfig): Date =>
+  addMinutes(shift.end, config.commuteFromWork + config.windDownMinutes);
+
+export const getDayType = (
+  schedule: Schedule,
+  date: Date,
+  config: PlanConfig = getPlanConfig(schedule.profile)
+): DayType => {
+  const shifts = getPlannedShifts(schedule);
+  const runs = findShiftRuns(shifts);
+  const workDay = findShift(shifts, date);
+  if (workDay) {
+    if (getShiftType(workDay) === 'day') {
+      return 'dayShift';
+    }
+    const placement = findRunPlacement(runs, date);
+    return NIGHT_RUN_DAY_TYPES[placement ? getRunPosition(placement) : 'single'];
+  }
+
+  // A day the nurse has marked off stays off, even straight after a run of nights
+  const scheduledDay = deriveScheduledDays(shifts, config.dayRules, schedule.daysOff)
+    .find(day => isSameDay(day.date, date));
+
+  if (scheduledDay?.kind === 'off') {
+    return 'dayOff';
+  }
+
+  // The day after several nights in a row is spent switching back to a daytime rhythm
+  const previousPlacement = findRunPlacement(runs, addDays(date, -1));
+  if (
+    previousPlacement?.run.shiftType === 'night' &&
+    getRunPosition(previousPlacement) === 'last'
+  ) {
+    return 'nightRunExit';
+  }
+
+  // Night-specific plans only apply right next to the night shift itself
+  if (scheduledDay?.kind === 'recovery') {
+    const previous = findShift(shifts, addDays(date, -1));
+    return previous && getShiftType(previous) === 'night' ? 'nightRecovery' : 'dayRecovery';
+  }
+
+  if (scheduledDay?.kind === 'preparation') {
+    const next = findShift(shifts, addDays(date, 1));
+    return next && getShiftType(next) === 'night' ? 'nightPreparation' : 'dayPreparation';
+  }
+
+  return 'regular';
+};
+
+const planDay = (
+  schedule: Schedule,
+  date: Date,
+  config: PlanConfig
+): PlanDraft => {
+  const shifts = getPlannedShifts(schedule);
+  const dayType = getDayType(schedule, date, config);
+  const workDay = findShift(shifts, date);
+  const previousWorkDay = findShift(shifts, addDays(date, -1));
+  const nextWorkDay = findShift(shifts, addDays(date, 1));
+  const timeZone = getDayTimeZone(schedule, date);
+  const regularSleep = sleepEndingAt(atMinutes(date, config.usualWake, timeZone), config);
+  const placement = findRunPlacement(findShiftRuns(shifts), date);
+  const run = placement && placement.run.workDays.length > 1
+    ? { index: placement.index, length: placement.run.workDays.length }
+    : undefined;
+
+  // A late-finishing shift the day before pushes the usual bedtime back
+  const restBedtime = previousWorkDay
+    ? max([regularSleep.start, bedtimeAfter(getShiftWindow(previousWorkDay), config)])
+    : regularSleep.start;
+
+  switch (dayType) {
+    case 'nightShift': {
+      const shift = getShiftWindow(workDay!);
+      const wake = wakeBefore(shift, config.nightShiftWakeLead, config);
+      return {
+        date,
+        dayType,
+        timeZone,
+        shift,
+        sleep: sleepEndingAt(wake, config),
+        naps: [],
+        advice: [
+          { kind: 'wakeUp', time: wake },
+          { kind: 'shiftStart', time: shift.start },
+          { kind: 'hydrateOnShift' },
+        ],
+      };
+    }
+    case 'firstNight': {
+      // Sleep in after a slightly later night, then nap right before the first shift
+      const shift = getShiftWindow(workDay!);
+      const wake = wakeBefore(shift, config.nightShiftWakeLead, config);
+      return {
+        date,
+        dayType,
+        timeZone,
+        shift,
+        run,
+        sleep: windowFrom(
+          addMinutes(regularSleep.start, config.preparationBedtimeDelay),
+          config.sleepHours * 60
+        ),
+        naps: [windowFrom(addMinutes(wake, -config.preShiftNapMinutes), config.preShiftNapMinutes)],
+        advice: [
+          { kind: 'preShiftNap' },
+          { kind: 'wakeUp', time: wake },
+          { kind: 'shiftStart', time: shift.start },
+          { kind: 'hydrateOnShift' },
+        ],
+      };
+    }
+    case 'middleNight':
+    case 'lastNight': {
+      // Anchor sleep: the same block straight after every shift of the run
+      const shift = getShiftWindow(workDay!);
+      const bedtime = bedtimeAfter(getShiftWindow(previousWorkDay!), config);
+      const sleep = {
+        start: bedtime,
+        end: min([
+          addMinutes(bedtime, config.sleepHours * 60),
+          wakeBefore(shift, config.nightShiftWakeLead, config),
+        ]),
+      };
+      return {
+        date,
+        dayType,
+        timeZone,
+        shift,
+        run,
+        sleep,
+        naps: [],
+        advice: [
+          { kind: 'anchorSleep' },
+          { kind: 'wakeUp', time: sleep.end },
+          { kind: 'shiftStart', time: shift.start },
+          { kind: dayType === 'lastNight' ? 'lastNightOfRun' : 'hydrateOnShift' },
+        ],
+      };
+    }
+    case 'nightRunExit': {
+      // A short morning sleep keeps the evening sleepy enough for an early night
+      const sleep = windowFrom(
+        bedtimeAfter(getShiftWindow(previousWorkDay!), config),
+        config.transitionSleepMinutes
+      );
+      const usualBedtime = atMinutes(date, config.usualWake + 24 * 60 - config.sleepHours * 60, timeZone);
+      return {
+        date,
+        dayType,
+        timeZone,
+        sleep,
+        naps: [],
+        advice: [
+          { kind: 'afternoonDaylight' },
+          { kind: 'earlyBedtime', time: addMinutes(usualBedtime, -config.earlyBedtimeAdvance) },
+          { kind: 'hydrateNutritious' },
+        ],
+      };
+    }
+    case 'dayShift': {
+      const shift = getShiftWindow(workDay!);
+      const wake = min([
+        atMinutes(date, config.usualWake, timeZone),
+        wakeBefore(shift, config.dayShiftWakeLead, config),
+      ]);
+      return {
+        date,
+        dayType,
+        timeZone,
+        shift,
+        sleep: sleepEndingAt(wake, config),
+        naps: [],
+        advice: [
+          { kind: 'wakeUp', time: wake },
+          { kind: 'shiftStart', time: shift.start },
+          { kind: 'hydrateWithBreaks' },
+        ],
+      };
+    }
+    case 'nightRecovery': {
+      const sleep = sleepStartingAt(bedtimeAfter(getShiftWindow(previousWorkDay!), config), config);
+      const nap = windowFrom(addMinutes(sleep.end, config.recoveryNapDelay), config.napMinutes);
+      return {
+        date,
+        dayType,
+        timeZone,
+        sleep,
+        naps: [nap],
+        advice: [
+          { kind: 'hydrateNutritious' },
+        ],
+      };
+    }
+    case 'dayRecovery': {
+      return {
+        date,
+        dayType,
+        timeZone,
+        sleep: sleepStartingAt(restBedtime, config),
+        naps: [windowFrom(atMinutes(date, config.afternoonNapStart, timeZone), config.napMinutes)],
+        advice: [
+          { kind: 'morningExercise' },
+          { kind: 'hydrateBalanced' },
+        ],
+      };
+    }
+    case 'nightPreparation': {
+      // Stay up a little later than usual to start drifting towards the night shift
+      const sleep = windowFrom(
+        addMinutes(regularSleep.start, config.preparationBedtimeDelay),
+        config.sleepHours * 60
+      );
+      // Afternoon nap timed off the clock time the coming shift starts
+      const nap = windowFrom(
+        atMinutes(date, nextWorkDay!.start - config.nightPreparationNapLead, timeZone),
+        config.napMinutes
+      );
+      return {
+        date,
+        dayType,
+        timeZone,
+        sleep,
+        naps: [nap],
+        advice: [
+          { kind: 'prepareForNightShift' },
+        ],
+      };
+    }
+    case 'dayPreparation':
+      return {
+        date,
+        dayType,
+        timeZone,
+        sleep: regularSleep,
+        naps: [],
+        advice: [
+          { kind: 'prepareForMorning' },
+          { kind: 'setOutWorkClothes' },
+        ],
+      };
+    default:
+      return {
+        date,
+        dayType,
+        timeZone,
+        sleep: sleepStartingAt(restBedtime, config),
+        naps: [],
+        advice: [
+          { kind: 'exercise' },
+        ],
+      };
+  }
+};
+
+const getSleepTarget = (dayType: DayType, config: PlanConfig): number =>
+  dayType === 'nightRunExit' ? config.transitionSleepMinutes : config.sleepHours * 60;
+
+const minutesBetween = (window: TimeWindow): number => differenceInMinutes(window.end, window.start);
+
+// Keeps the sleep window clear of neighbouring shifts, commutes and fixed commitments.
+// It moves by up to `sleepShiftLimit` and only gets shorter when the target no longer fits.
+const fitSleep = (plan: PlanDraft, shifts: WorkDay[], config: PlanConfig): PlanDraft => {
+  const { sleep } = plan;
+  const target = getSleepTarget(plan.dayType, config);
+  const nearby = shifts.filter(shift => [-1, 0, 1].some(offset => isSameDay(shift.date, addDays(plan.date, offset))));
+  const previous = nearby
+    .map(shift => getShiftWindow(shift))
+    .filter(shift => shift.start < sleep.start && shift.end <= sleep.end)
+    .sort((a, b) => b.end.getTime() - a.end.getTime())[0];
+  const next = nearby
+    .filter(shift => getShiftWindow(shift).start >= sleep.start)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())[0];
+
+  const bounds = {
+    start: max([addMinutes(sleep.start, -config.sleepShiftLimit), ...(previous ? [bedtimeAfter(previous, config)] : [])]),
+    end: min([
+      addMinutes(sleep.end, config.sleepShiftLimit),
+      ...(next ? [wakeBefore(
+        getShiftWindow(next),
+        getShiftType(next) === 'night' ? config.nightShiftWakeLead : config.dayShiftWakeLead,
+        config
+      )] : []),
+    ]),
+  };
+  const commitments = getCommitmentWindows(config.commitments, bounds, plan.timeZone);
+  const busy = [
+    ...nearby.map(shift => getShiftWindow(shift)).map(shift => ({
+      start: addMinutes(shift.start, -config.commuteToWork),
+      end: addMinutes(shift.end, config.commuteFromWork),
+    })),
+    ...commitments,
+  ];
+
+  const part = subtractWindows(bounds, busy)
+    .sort((a, b) => overlapMinutes(b, sleep) - overlapMinutes(a, sleep) || minutesBetween(b) - minutesBetween(a))[0];
+  if (!part) {
+    return plan;
+  }
+
+  let fitted: TimeWindow = part;
+  let sleepLimit: SleepLimit | undefined;
+  if (minutesBetween(part) >= target) {
+    const start = min([max([sleep.start, part.start]), addMinutes(part.end, -target)]);
+    fitted = windowFrom(start, target);
+  } else {
+    const commitment = commitments.find(window =>
+      window.end.getTime() === part.start.getTime() || window.start.getTime() === part.end.getTime());
+    sleepLimit = commitment
+      ? { reason: 'commitment', targetMinutes: target, commitment: commitment.commitment }
+      : { reason: 'betweenShifts', targetMinutes: target };
+  }
+
+  if (fitted.start.getTime() === sleep.start.getTime() && fitted.end.getTime() === sleep.end.getTime() && !sleepLimit) {
+    return plan;
+  }
+  return {
+    ...plan,
+    sleep: fitted,
+    ...(sleepLimit ? { sleepLimit } : {}),
+    naps: plan.naps.filter(nap => [fitted, ...busy].every(window => overlapMinutes(nap, window) === 0)),
+    // Wake-up advice follows the sleep window when it moves
+    advice: plan.advice.map(item => item.time?.getTime() === sleep.end.getTime() ? { ...item, time: fitted.end } : item),
+  };
+};
+
+export const withClockChanges = (plan: PlanDraft): DayPlan => {
+  const windows: { window: PlanClockChange['window']; times?: TimeWindow }[] = [
+    { window: 'shift', times: plan.shift },
+    { window: 'sleep', times: plan.sleep },
+    ...plan.naps.map(times => ({ window: 'nap' as const, times })),
+  ];
+  const clockChanges = windows.flatMap(({ window, times }) => times
+    ? findClockChanges(times, plan.timeZone).map(change => ({ ...change, window }))
+    : []);
+  return { ...plan, clockChanges };
+};
+
+export const getDayPlan = (
+  schedule: Schedule,
+  date: Date,
+  config: PlanConfig = getPlanConfig(schedule.profile)
+): DayPlan => {
+  const plan = withClockChanges(fitSleep(planDay(schedule, date, config), getPlannedShifts(schedule), config));
+  const mainShift = findShift(schedule.workDays, date);
+  const secondJob = schedule.secondJobDays.find(sj => isSameDay(sj.date, date));
+
+  if (!plan.shift) {
+    return plan;
+  }
+  return {
+    ...plan,
+    shiftSource: mainShift ? 'main' : 'secondJob',
+    ...(mainShift && secondJob ? { secondJob: getShiftWindow(secondJob, schedule.timeZone) } : {}),
+  };
+};
+
+export const getScheduledDays = (
+  schedule: Schedule,
+  config: PlanConfig = getPlanConfig(schedule.profile)
+): Date[] => deriveScheduledDays(getPlannedShifts(schedule), config.dayRules, schedule.daysOff)
+  .map(day => day.date);
+
+export const buildSleepPlan = (
+  schedule: Schedule,
+  config: PlanConfig = getPlanConfig(schedule.profile)
+): DayPlan[] => getScheduledDays(schedule, config).map(date => getDayPlan(schedule, date, config));
+
+export const isShiftDay = (plan: DayPlan): boolean => plan.shift !== undefined;
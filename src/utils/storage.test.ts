@@ -0,0 +1,245 @@
+import {
+  createEmptySchedule,
+  DEFAULT_DISPLAY_SETTINGS,
+  DEFAULT_ERRANDS,
+  DEFAULT_REMINDER_SETTINGS,
+  DEFAULT_SLEEP_PROFILE,
+  Schedule
+} from '../types';
+import {
+  BACKUP_KEY,
+  deserializeSchedule,
+  loadSchedule,
+  migrate,
+  Migration,
+  saveSchedule,
+  serializeSchedule,
+  STORAGE_KEY,
+  STORAGE_VERSION,
+} from './storage';
+import { ParseFailure } from './parseErrors';
+import { describeStorageError } from './planText';
+
+const schedule: Schedule = {
+  ...createEmptySchedule(),
+  workDays: [
+    { date: new Date(2025, 4, 10), start: 19 * 60, end: 7 * 60, presetId: 'night' },
+    { date: new Date(2025, 4, 13), start: 7 * 60, end: 19 * 60, timeZone: 'America/Denver' },
+  ],
+  secondJobDays: [{ date: new Date(2025, 4, 12), start: 8 * 60, end: 16 * 60 }],
+  daysOff: [new Date(2025, 4, 14)],
+  profile: {
+    sleepHours: 7.5,
+    chronotype: 'evening',
+    caffeineCutoffHours: 8,
+    mealBufferHours: 1.5,
+    avoidNightMeals: false,
+    commuteToWork: 30,
+    commuteFromWork: 45,
+    commitments: [{ id: 'school-pickup', name: 'School pickup', start: 15 * 60, end: 15 * 60 + 30, weekdays: [1, 2, 3, 4, 5] }],
+  },
+  sleepLog: [{ date: new Date(2025, 4, 11), start: new Date(2025, 4, 11, 8, 30), end: new Date(2025, 4, 11, 14, 15), quality: 3 }],
+  reminders: {
+    ...DEFAULT_REMINDER_SETTINGS,
+    enabled: true,
+    kinds: { ...DEFAULT_REMINDER_SETTINGS.kinds, nap: { enabled: false, leadMinutes: 10 } },
+  },
+  display: { locale: 'de', clock: '24h' },
+  errands: [{ id: 'gym', name: 'Gym', start: 6 * 60, end: 0, weekdays: [0, 6], minutes: 90 }],
+  timeZone: 'America/Chicago',
+};
+
+beforeEach(() => window.localStorage.clear());
+
+describe('serialization', () => {
+  test('round-trips a schedule with its dates', () => {
+    expect(deserializeSchedule(serializeSchedule(schedule))).toEqual(schedule);
+  });
+
+  test('stores dates as calendar days with a format version', () => {
+    const document = JSON.parse(serializeSchedule(schedule));
+
+    expect(document.version).toBe(STORAGE_VERSION);
+    expect(document.schedule.workDays[0].date).toBe('2025-05-10');
+  });
+
+  test('rejects documents with invalid shifts', () => {
+    const raw = JSON.stringify({
+      version: STORAGE_VERSION,
+      schedule: {
+        workDays: [{ date: 'yesterday', start: 0, end: 60 }],
+        secondJobDays: [],
+        daysOff: [],
+        shiftPresets: [],
+      },
+    });
+
+    expect(() => deserializeSchedule(raw)).toThrow(new ParseFailure({ kind: 'notDate', value: 'yesterday', format: 'yyyy-MM-dd' }));
+  });
+
+  test('rejects unknown time zones', () => {
+    const document = JSON.parse(serializeSchedule(schedule));
+    const raw = JSON.stringify({ ...document, schedule: { ...document.schedule, timeZone: 'Mars/Olympus' } });
+
+    expect(() => deserializeSchedule(raw)).toThrow(new ParseFailure({ kind: 'unknownTimeZone', value: 'Mars/Olympus' }));
+  });
+});
+
+describe('migrate', () => {
+  test('applies each migration in turn up to the target version', () => {
+    const migrations: Record<number, Migration> = {
+      1: doc => ({ ...doc, steps: '1->2' }),
+      2: doc => ({ ...doc, steps: `${doc.steps} 2->3` }),
+    };
+
+    expect(migrate({ version: 1 }, migrations, 3)).toEqual({ version: 3, steps: '1->2 2->3' });
+  });
+
+  test('upgrades version 1 documents with an empty list of days off', () => {
+    const raw = JSON.stringify({
+      version: 1,
+      schedule: { workDays: [], secondJobDays: [], shiftPresets: [] },
+    });
+
+    expect(deserializeSchedule(raw).daysOff).toEqual([]);
+  });
+
+  test('upgrades version 2 second-job dates to day shifts', () => {
+    const raw = JSON.stringify({
+      version: 2,
+      schedule: { workDays: [], secondJobDays: ['2025-05-12'], daysOff: [], shiftPresets: [] },
+    });
+
+    expect(deserializeSchedule(raw).secondJobDays).toEqual([
+      { date: new Date(2025, 4, 12), start: 7 * 60, end: 19 * 60 },
+    ]);
+  });
+
+  test('upgrades version 3 documents with the default sleep profile', () => {
+    const raw = JSON.stringify({
+      version: 3,
+      schedule: { workDays: [], secondJobDays: [], daysOff: [], shiftPresets: [] },
+    });
+
+    expect(deserializeSchedule(raw).profile).toEqual(DEFAULT_SLEEP_PROFILE);
+  });
+
+  test('upgrades version 4 documents with an empty sleep log', () => {
+    const raw = JSON.stringify({
+      version: 4,
+      schedule: { workDays: [], secondJobDays: [], daysOff: [], shiftPresets: [], profile: DEFAULT_SLEEP_PROFILE },
+    });
+
+    expect(deserializeSchedule(raw).sleepLog).toEqual([]);
+  });
+
+  test('upgrades version 5 documents with reminders switched off', () => {
+    const raw = JSON.stringify({
+      version: 5,
+      schedule: {
+        workDays: [], secondJobDays: [], daysOff: [], shiftPresets: [], profile: DEFAULT_SLEEP_PROFILE, sleepLog: [],
+      },
+    });
+
+    expect(deserializeSchedule(raw).reminders).toEqual(DEFAULT_REMINDER_SETTINGS);
+  });
+
+  test('upgrades version 6 documents to English with a 12-hour clock', () => {
+    const raw = JSON.stringify({
+      version: 6,
+      schedule: {
+        workDays: [], secondJobDays: [], daysOff: [], shiftPresets: [], profile: DEFAULT_SLEEP_PROFILE, sleepLog: [],
+        reminders: DEFAULT_REMINDER_SETTINGS,
+      },
+    });
+
+    expect(deserializeSchedule(raw).display).toEqual(DEFAULT_DISPLAY_SETTINGS);
+  });
+
+  test('upgrades version 7 documents to the device time zone', () => {
+    const raw = JSON.stringify({
+      version: 7,
+      schedule: {
+        workDays: [], secondJobDays: [], daysOff: [], shiftPresets: [], profile: DEFAULT_SLEEP_PROFILE, sleepLog: [],
+        reminders: DEFAULT_REMINDER_SETTINGS, display: DEFAULT_DISPLAY_SETTINGS,
+      },
+    });
+
+    expect(deserializeSchedule(raw).timeZone).toBe('UTC');
+  });
+
+  test('upgrades version 8 documents with the default errands', () => {
+    const raw = JSON.stringify({
+      version: 8,
+      schedule: {
+        workDays: [], secondJobDays: [], daysOff: [], shiftPresets: [], profile: DEFAULT_SLEEP_PROFILE, sleepLog: [],
+        reminders: DEFAULT_REMINDER_SETTINGS, display: DEFAULT_DISPLAY_SETTINGS, timeZone: 'UTC',
+      },
+    });
+
+    expect(deserializeSchedule(raw).errands).toEqual(DEFAULT_ERRANDS);
+  });
+
+  test('upgrades version 9 documents with the default caffeine cutoff', () => {
+    const { caffeineCutoffHours, ...profile } = DEFAULT_SLEEP_PROFILE;
+    const raw = JSON.stringify({
+      version: 9,
+      schedule: {
+        workDays: [], secondJobDays: [], daysOff: [], shiftPresets: [], profile, sleepLog: [],
+        reminders: DEFAULT_REMINDER_SETTINGS, display: DEFAULT_DISPLAY_SETTINGS, timeZone: 'UTC', errands: [],
+      },
+    });
+
+    expect(deserializeSchedule(raw).profile.caffeineCutoffHours).toBe(caffeineCutoffHours);
+  });
+
+  test('upgrades version 10 documents with the default meal rules', () => {
+    const { mealBufferHours, avoidNightMeals, ...profile } = DEFAULT_SLEEP_PROFILE;
+    const raw = JSON.stringify({
+      version: 10,
+      schedule: {
+        workDays: [], secondJobDays: [], daysOff: [], shiftPresets: [], profile, sleepLog: [],
+        reminders: DEFAULT_REMINDER_SETTINGS, display: DEFAULT_DISPLAY_SETTINGS, timeZone: 'UTC', errands: [],
+      },
+    });
+
+    expect(deserializeSchedule(raw).profile).toMatchObject({ mealBufferHours, avoidNightMeals });
+  });
+
+  test('refuses documents from a newer app version', () => {
+    expect(() => migrate({ version: STORAGE_VERSION + 1 })).toThrow(new ParseFailure({ kind: 'newerVersion', version: STORAGE_VERSION + 1 }));
+  });
+
+  test('refuses documents without a version', () => {
+    expect(() => migrate({ schedule: {} })).toThrow(new ParseFailure({ kind: 'noVersion' }));
+  });
+});
+
+describe('loadSchedule', () => {
+  test('starts empty when nothing has been saved', () => {
+    expect(loadSchedule()).toEqual({ schedule: createEmptySchedule() });
+  });
+
+  test('loads what was saved', () => {
+    saveSchedule(schedule);
+
+    expect(loadSchedule().schedule).toEqual(schedule);
+  });
+
+  test('keeps unreadable data aside and reports the problem', () => {
+    window.localStorage.setItem(STORAGE_KEY, '{not json');
+
+    const result = loadSchedule();
+
+    expect(result.schedule).toEqual(createEmptySchedule());
+    expect(result.error).toEqual({ kind: 'unreadable', error: { kind: 'notJson' } });
+    expect(describeStorageError(result.error!)).toMatch(/could not be loaded: The data is not valid JSON/);
+    expect(window.localStorage.getItem(BACKUP_KEY)).toBe('{not json');
+  });
+
+  test('reports when storage is unavailable', () => {
+    const storage = { getItem: () => { throw new Error('denied'); } } as unknown as Storage;
+
+    expect(loadSchedule(storage).error).toEqual({ kind: 'unavailable' });
+  });
+});
@@ -0,0 +1,369 @@
+import { format, isValid, parseISO } from 'date-fns';
+import {
+  Chronotype,
+  ClockFormat,
+  createEmptySchedule,
+  DEFAULT_DISPLAY_SETTINGS,
+  DEFAULT_ERRANDS,
+  DEFAULT_REMINDER_SETTINGS,
+  DEFAULT_SLEEP_PROFILE,
+  DisplaySettings,
+  Errand,
+  LEGACY_SECOND_JOB_TIMES,
+  FixedCommitment,
+  ReminderKind,
+  ReminderSetting,
+  ReminderSettings,
+  Schedule,
+  SecondJobDay,
+  ShiftPreset,
+  SleepLogEntry,
+  SleepProfile,
+  SleepQuality,
+  WorkDay
+} from '../types';
+import { detectDisplaySettings, LOCALES } from './i18n';
+import { ParseError, ParseFailure, toParseError } from './parseErrors';
+import { getDeviceTimeZone, isValidTimeZone } from './timeZones';
+
+export const STORAGE_KEY = 'nursesleep.schedule';
+export const BACKUP_KEY = 'nursesleep.schedule.unreadable';
+export const STORAGE_VERSION = 11;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Missing or malformed objects read as empty, so the checks on their fields fail
+const asRecord = (value: unknown): Record<string, unknown> => isRecord(value) ? value : {};
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1
+export type Migration = (document: Record<string, unknown>) => Record<string, unknown>;
+export const MIGRATIONS: Record<number, Migration> = {
+  // 2: days explicitly marked as off
+  1: document => ({ ...document, schedule: { ...asRecord(document.schedule), daysOff: [] } }),
+  // 3: second-job days become shifts with hours; old entries had none, so assume a day shift
+  2: document => {
+    const schedule = asRecord(document.schedule);
+    const dates: unknown[] = Array.isArray(schedule.secondJobDays) ? schedule.secondJobDays : [];
+    return {
+      ...document,
+      schedule: { ...schedule, secondJobDays: dates.map(date => ({ date, ...LEGACY_SECOND_JOB_TIMES })) },
+    };
+  },
+  // 4: personal sleep profile
+  3: document => ({ ...document, schedule: { ...asRecord(document.schedule), profile: DEFAULT_SLEEP_PROFILE } }),
+  // 5: actual sleep log
+  4: document => ({ ...document, schedule: { ...asRecord(document.schedule), sleepLog: [] } }),
+  // 6: reminder settings
+  5: document => ({ ...document, schedule: { ...asRecord(document.schedule), reminders: DEFAULT_REMINDER_SETTINGS } }),
+  // 7: language and clock; everything was English with 12-hour times before
+  6: document => ({ ...document, schedule: { ...asRecord(document.schedule), display: DEFAULT_DISPLAY_SETTINGS } }),
+  // 8: time zones; shifts were always planned in the device's zone
+  7: document => ({ ...document, schedule: { ...asRecord(document.schedule), timeZone: getDeviceTimeZone() } }),
+  // 9: errand opening hours
+  8: document => ({ ...document, schedule: { ...asRecord(document.schedule), errands: DEFAULT_ERRANDS } }),
+  // 10: caffeine cutoff before sleep; it used to be a fixed time of day
+  9: document => {
+    const schedule = asRecord(document.schedule);
+    return {
+      ...document,
+      schedule: {
+        ...schedule,
+        profile: { ...asRecord(schedule.profile), caffeineCutoffHours: DEFAULT_SLEEP_PROFILE.caffeineCutoffHours },
+      },
+    };
+  },
+  // 11: meal timing rules
+  10: document => {
+    const schedule = asRecord(document.schedule);
+    return {
+      ...document,
+      schedule: {
+        ...schedule,
+        profile: {
+          ...asRecord(schedule.profile),
+          mealBufferHours: DEFAULT_SLEEP_PROFILE.mealBufferHours,
+          avoidNightMeals: DEFAULT_SLEEP_PROFILE.avoidNightMeals,
+        },
+      },
+    };
+  },
+};
+
+// Why the schedule could not be loaded or saved; unreadable data keeps the problem that stopped it
+export type StorageError =
+  | { kind: 'unavailable' }
+  | { kind: 'unreadable'; error: ParseError }
+  | { kind: 'notSaved' };
+
+export interface LoadResult {
+  schedule: Schedule;
+  error?: StorageError;
+}
+
+const DATE_KEY_FORMAT = 'yyyy-MM-dd';
+
+const toDateKey = (date: Date): string => format(date, DATE_KEY_FORMAT);
+
+const fromDateKey = (value: unknown): Date => {
+  const date = typeof value === 'string' ? parseISO(value) : new Date(NaN);
+  if (!isValid(date)) {
+    throw new ParseFailure({ kind: 'notDate', value: String(value), format: DATE_KEY_FORMAT });
+  }
+  return date;
+};
+
+const fromDateTime = (value: unknown): Date => {
+  const date = typeof value === 'string' ? parseISO(value) : new Date(NaN);
+  if (!isValid(date)) {
+    throw new ParseFailure({ kind: 'notDateTime', value: String(value) });
+  }
+  return date;
+};
+
+const isMinutes = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < 24 * 60;
+
+const readTimeZone = (value: unknown): string => {
+  if (typeof value !== 'string' || !isValidTimeZone(value)) {
+    throw new ParseFailure({ kind: 'unknownTimeZone', value: String(value) });
+  }
+  return value;
+};
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+
+// Shifts without a zone are in the schedule's
+const readShiftTimeZone = (value: Record<string, unknown>) =>
+  value.timeZone === undefined ? {} : { timeZone: readTimeZone(value.timeZone) };
+
+const readWorkDay = (value: unknown): WorkDay => {
+  if (!isRecord(value) || !isMinutes(value.start) || !isMinutes(value.end)) {
+    throw new ParseFailure({ kind: 'invalidSaved', part: 'shift' });
+  }
+  return {
+    date: fromDateKey(value.date),
+    start: value.start,
+    end: value.end,
+    ...(typeof value.presetId === 'string' ? { presetId: value.presetId } : {}),
+    ...readShiftTimeZone(value),
+  };
+};
+
+const readSecondJobDay = (value: unknown): SecondJobDay => {
+  if (!isRecord(value) || !isMinutes(value.start) || !isMinutes(value.end)) {
+    throw new ParseFailure({ kind: 'invalidSaved', part: 'secondJobShift' });
+  }
+  return { date: fromDateKey(value.date), start: value.start, end: value.end, ...readShiftTimeZone(value) };
+};
+
+const readPreset = (value: unknown): ShiftPreset => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' ||
+      !isMinutes(value.start) || !isMinutes(value.end)) {
+    throw new ParseFailure({ kind: 'invalidSaved', part: 'preset' });
+  }
+  return { id: value.id, name: value.name, start: value.start, end: value.end };
+};
+
+const CHRONOTYPES: Chronotype[] = ['morning', 'intermediate', 'evening'];
+const MAX_COMMUTE_MINUTES = 4 * 60;
+
+const isDuration = (value: unknown, maximum: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= maximum;
+
+const isWeekdays = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(day => isDuration(day, 6));
+
+const readCommitment = (value: unknown): FixedCommitment => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' ||
+      !isMinutes(value.start) || !isMinutes(value.end) || !isWeekdays(value.weekdays)) {
+    throw new ParseFailure({ kind: 'invalidSaved', part: 'commitment' });
+  }
+  return { id: value.id, name: value.name, start: value.start, end: value.end, weekdays: value.weekdays };
+};
+
+const readErrand = (value: unknown): Errand => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' ||
+      !isMinutes(value.start) || !isMinutes(value.end) || !isDuration(value.minutes, 24 * 60) ||
+      !isWeekdays(value.weekdays)) {
+    throw new ParseFailure({ kind: 'invalidSaved', part: 'errand' });
+  }
+  return {
+    id: value.id,
+    name: value.name,
+    start: value.start,
+    end: value.end,
+    weekdays: value.weekdays,
+    minutes: value.minutes,
+  };
+};
+
+const isBetween = (value: unknown, minimum: number, maximum: number): value is number =>
+  typeof value === 'number' && value >= minimum && value <= maximum;
+
+const readProfile = (value: unknown): SleepProfile => {
+  if (!isRecord(value) || !isBetween(value.sleepHours, 4, 12) || !isOneOf(CHRONOTYPES, value.chronotype) ||
+      !isBetween(value.caffeineCutoffHours, 1, 12) || !isBetween(value.mealBufferHours, 1, 12) ||
+      typeof value.avoidNightMeals !== 'boolean' ||
+      !isDuration(value.commuteToWork, MAX_COMMUTE_MINUTES) || !isDuration(value.commuteFromWork, MAX_COMMUTE_MINUTES)) {
+    throw new ParseFailure({ kind: 'invalidSaved', part: 'profile' });
+  }
+  return {
+    sleepHours: value.sleepHours,
+    chronotype: value.chronotype,
+    caffeineCutoffHours: value.caffeineCutoffHours,
+    mealBufferHours: value.mealBufferHours,
+    avoidNightMeals: value.avoidNightMeals,
+    commuteToWork: value.commuteToWork,
+    commuteFromWork: value.commuteFromWork,
+    commitments: readArray(value.commitments, 'profile.commitments').map(readCommitment),
+  };
+};
+
+const SLEEP_QUALITIES: SleepQuality[] = [1, 2, 3, 4, 5];
+
+const readSleepLogEntry = (value: unknown): SleepLogEntry => {
+  const entry = asRecord(value);
+  const start = fromDateTime(entry.start);
+  const end = fromDateTime(entry.end);
+  if (end <= start || !isOneOf(SLEEP_QUALITIES, entry.quality)) {
+    throw new ParseFailure({ kind: 'invalidSaved', part: 'sleepLogEntry' });
+  }
+  return { date: fromDateKey(entry.date), start, end, quality: entry.quality };
+};
+
+const REMINDER_KINDS: ReminderKind[] = ['windDown', 'nap', 'caffeineCutoff', 'wakeUp'];
+const MAX_REMINDER_LEAD_MINUTES = 4 * 60;
+
+const readReminder = (value: unknown): ReminderSetting | null =>
+  isRecord(value) && typeof value.enabled === 'boolean' && isDuration(value.leadMinutes, MAX_REMINDER_LEAD_MINUTES)
+    ? { enabled: value.enabled, leadMinutes: value.leadMinutes }
+    : null;
+
+const readReminders = (value: unknown): ReminderSettings => {
+  const settings = asRecord(value);
+  const kinds = REMINDER_KINDS.map(kind => [kind, readReminder(asRecord(settings.kinds)[kind])] as const);
+  if (typeof settings.enabled !== 'boolean' || kinds.some(([, reminder]) => !reminder)) {
+    throw new ParseFailure({ kind: 'invalidSaved', part: 'reminders' });
+  }
+  return { enabled: settings.enabled, kinds: Object.fromEntries(kinds) as ReminderSettings['kinds'] };
+};
+
+const CLOCK_FORMATS: ClockFormat[] = ['12h', '24h'];
+
+const readDisplay = (value: unknown): DisplaySettings => {
+  if (!isRecord(value) || !isOneOf(LOCALES, value.locale) || !isOneOf(CLOCK_FORMATS, value.clock)) {
+    throw new ParseFailure({ kind: 'invalidSaved', part: 'display' });
+  }
+  return { locale: value.locale, clock: value.clock };
+};
+
+const readArray = (value: unknown, field: string): unknown[] => {
+  if (!Array.isArray(value)) {
+    throw new ParseFailure({ kind: 'missingList', field });
+  }
+  return value;
+};
+
+export const migrate = (
+  document: unknown,
+  migrations: Record<number, Migration> = MIGRATIONS,
+  target = STORAGE_VERSION
+): Record<string, unknown> => {
+  if (!isRecord(document) || typeof document.version !== 'number' || !Number.isInteger(document.version) ||
+      document.version < 1) {
+    throw new ParseFailure({ kind: 'noVersion' });
+  }
+  if (document.version > target) {
+    throw new ParseFailure({ kind: 'newerVersion', version: document.version });
+  }
+
+  let current = document;
+  for (let version = document.version; version < target; version++) {
+    const step = migrations[version];
+    if (!step) {
+      throw new ParseFailure({ kind: 'noMigration', version });
+    }
+    current = { ...step(current), version: version + 1 };
+  }
+  return current;
+};
+
+export const serializeSchedule = (schedule: Schedule): string => JSON.stringify({
+  version: STORAGE_VERSION,
+  schedule: {
+    workDays: schedule.workDays.map(wd => ({ ...wd, date: toDateKey(wd.date) })),
+    secondJobDays: schedule.secondJobDays.map(sj => ({ ...sj, date: toDateKey(sj.date) })),
+    daysOff: schedule.daysOff.map(toDateKey),
+    shiftPresets: schedule.shiftPresets,
+    profile: schedule.profile,
+    sleepLog: schedule.sleepLog.map(entry => ({
+      ...entry,
+      date: toDateKey(entry.date),
+      start: entry.start.toISOString(),
+      end: entry.end.toISOString(),
+    })),
+    reminders: schedule.reminders,
+    display: schedule.display,
+    errands: schedule.errands,
+    timeZone: schedule.timeZone,
+  },
+});
+
+export const deserializeSchedule = (raw: string, migrations: Record<number, Migration> = MIGRATIONS): Schedule => {
+  let document: unknown;
+  try {
+    document = JSON.parse(raw);
+  } catch {
+    throw new ParseFailure({ kind: 'notJson' });
+  }
+
+  const schedule = asRecord(migrate(document, migrations).schedule);
+  return {
+    workDays: readArray(schedule.workDays, 'workDays').map(readWorkDay),
+    secondJobDays: readArray(schedule.secondJobDays, 'secondJobDays').map(readSecondJobDay),
+    daysOff: readArray(schedule.daysOff, 'daysOff').map(fromDateKey),
+    shiftPresets: readArray(schedule.shiftPresets, 'shiftPresets').map(readPreset),
+    profile: readProfile(schedule.profile),
+    sleepLog: readArray(schedule.sleepLog, 'sleepLog').map(readSleepLogEntry),
+    reminders: readReminders(schedule.reminders),
+    display: readDisplay(schedule.display),
+    errands: readArray(schedule.errands, 'errands').map(readErrand),
+    timeZone: readTimeZone(schedule.timeZone),
+  };
+};
+
+// Unreadable data is copied aside so a later save cannot destroy it
+export const loadSchedule = (storage: Storage = window.localStorage): LoadResult => {
+  let raw: string | null;
+  try {
+    raw = storage.getItem(STORAGE_KEY);
+  } catch {
+    return { schedule: createEmptySchedule(), error: { kind: 'unavailable' } };
+  }
+
+  // A first visit starts in the browser's language when the app has it
+  if (raw === null) {
+    return { schedule: { ...createEmptySchedule(), display: detectDisplaySettings() } };
+  }
+
+  try {
+    return { schedule: deserializeSchedule(raw) };
+  } catch (error) {
+    try {
+      storage.setItem(BACKUP_KEY, raw);
+    } catch {
+      // Nothing more we can do; the error below still tells the user
+    }
+    return { schedule: createEmptySchedule(), error: { kind: 'unreadable', error: toParseError(error) } };
+  }
+};
+
+export const saveSchedule = (schedule: Schedule, storage: Storage = window.localStorage): StorageError | undefined => {
+  try {
+    storage.setItem(STORAGE_KEY, serializeSchedule(schedule));
+    return undefined;
+  } catch {
+    return { kind: 'notSaved' };
+  }
+};
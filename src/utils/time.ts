@@ -0,0 +1,35 @@
+import { max, min } from 'date-fns';
+import { zonedTime } from './timeZones';
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+// Wall-clock time on the given day, in the device's zone unless one is given;
+// negative or >24h values roll into the neighbouring days
+export const atMinutes = (date: Date, minutes: number, timeZone?: string): Date => timeZone
+  ? zonedTime(date, minutes, timeZone)
+  : new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, minutes);
+
+export const overlapMinutes = (a: TimeWindow, b: TimeWindow): number => {
+  const start = max([a.start, b.start]);
+  const end = min([a.end, b.end]);
+  return Math.max(0, (end.getTime() - start.getTime()) / 60000);
+};
+
+// Parts of `window` not covered by any of the busy windows
+export const subtractWindows = (window: TimeWindow, busy: TimeWindow[]): TimeWindow[] => {
+  const free: TimeWindow[] = [];
+  let cursor = window.start;
+  [...busy].sort((a, b) => a.start.getTime() - b.start.getTime()).forEach(block => {
+    if (block.start > cursor) {
+      free.push({ start: cursor, end: min([block.start, window.end]) });
+    }
+    cursor = max([cursor, block.end]);
+  });
+  if (cursor < window.end) {
+    free.push({ start: cursor, end: window.end });
+  }
+  return free.filter(part => part.end > part.start);
+};
@@ -0,0 +1,59 @@
+import { findClockChanges, getZoneOffset, listTimeZones, toZonedClock, zonedTime } from './timeZones';
+
+const NEW_YORK = 'America/New_York';
+const utc = (month: number, d: number, hours: number, minutes = 0) => new Date(Date.UTC(2025, month, d, hours, minutes));
+
+describe('zonedTime', () => {
+  test('finds the instant a clock in the zone shows', () => {
+    expect(zonedTime(new Date(2025, 0, 15), 19 * 60, NEW_YORK)).toEqual(utc(0, 16, 0));
+    expect(zonedTime(new Date(2025, 6, 15), 19 * 60, NEW_YORK)).toEqual(utc(6, 15, 23));
+    expect(zonedTime(new Date(2025, 6, 15), 19 * 60, 'Asia/Kolkata')).toEqual(utc(6, 15, 13, 30));
+  });
+
+  test('rolls minutes past midnight into the next day', () => {
+    expect(zonedTime(new Date(2025, 0, 15), 24 * 60 + 7 * 60, NEW_YORK)).toEqual(utc(0, 16, 12));
+  });
+
+  test('moves times the clocks skip forward and uses the first of times they repeat', () => {
+    // 2:30 does not exist on March 9; 1:30 happens twice on November 2
+    expect(zonedTime(new Date(2025, 2, 9), 2 * 60 + 30, NEW_YORK)).toEqual(utc(2, 9, 7, 30));
+    expect(zonedTime(new Date(2025, 10, 2), 60 + 30, NEW_YORK)).toEqual(utc(10, 2, 5, 30));
+  });
+});
+
+describe('getZoneOffset', () => {
+  test('follows daylight saving time', () => {
+    expect(getZoneOffset(utc(0, 15, 12), NEW_YORK)).toBe(-300);
+    expect(getZoneOffset(utc(6, 15, 12), NEW_YORK)).toBe(-240);
+    expect(getZoneOffset(utc(6, 15, 12), 'UTC')).toBe(0);
+  });
+});
+
+describe('toZonedClock', () => {
+  test('reads the wall clock in the zone', () => {
+    expect(toZonedClock(utc(2, 9, 7), NEW_YORK)).toEqual(new Date(2025, 2, 9, 3));
+    expect(toZonedClock(utc(2, 9, 6, 59), NEW_YORK)).toEqual(new Date(2025, 2, 9, 1, 59));
+  });
+});
+
+describe('findClockChanges', () => {
+  test('finds the minute clocks go forward or back', () => {
+    const spring = { start: zonedTime(new Date(2025, 2, 8), 19 * 60, NEW_YORK), end: utc(2, 9, 11) };
+    const autumn = { start: zonedTime(new Date(2025, 10, 1), 19 * 60, NEW_YORK), end: utc(10, 2, 12) };
+
+    expect(findClockChanges(spring, NEW_YORK)).toEqual([{ at: utc(2, 9, 7), minutes: 60 }]);
+    expect(findClockChanges(autumn, NEW_YORK)).toEqual([{ at: utc(10, 2, 6), minutes: -60 }]);
+  });
+
+  test('is empty when the offset stays the same', () => {
+    expect(findClockChanges({ start: utc(6, 15, 0), end: utc(6, 15, 12) }, NEW_YORK)).toEqual([]);
+    expect(findClockChanges({ start: utc(2, 8, 0), end: utc(2, 10, 0) }, 'UTC')).toEqual([]);
+  });
+});
+
+describe('listTimeZones', () => {
+  test('always offers the current zone', () => {
+    expect(listTimeZones(NEW_YORK)).toContain(NEW_YORK);
+    expect(listTimeZones('Etc/GMT+5')).toContain('Etc/GMT+5');
+  });
+});
@@ -0,0 +1,112 @@
+import { TimeWindow } from './time';
+
+// Time zones are IANA names such as "America/Chicago"; all conversions go through Intl,
+// so they follow the browser's own time-zone database.
+
+// A change of the UTC offset, e.g. +60 when clocks spring forward an hour
+export interface ClockChange {
+  at: Date;
+  minutes: number;
+}
+
+const MINUTE = 60 * 1000;
+const HALF_DAY = 12 * 60 * MINUTE;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Calendar fields of the instant as read off a clock in the zone
+const getWallClock = (date: Date, timeZone: string): number[] => {
+  const parts = Object.fromEntries(getFormatter(timeZone).formatToParts(date)
+    .filter(part => part.type !== 'literal')
+    .map(part => [part.type, Number(part.value)]));
+  return [parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second];
+};
+
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Every zone the browser knows, always including `current` even on browsers that cannot list them
+export const listTimeZones = (current: string = getDeviceTimeZone()): string[] => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+};
+
+// Minutes the zone is ahead of UTC at that instant
+export const getZoneOffset = (date: Date, timeZone: string): number => {
+  const [year, month, day, hours, minutes, seconds] = getWallClock(date, timeZone);
+  const wall = Date.UTC(year, month, day, hours, minutes, seconds);
+  return Math.round((wall - Math.floor(date.getTime() / 1000) * 1000) / MINUTE);
+};
+
+// The instant a clock in the zone shows `minutes` past midnight on the calendar day of `date`.
+// Times the clocks skip over move forward by the gap; times they pass twice use the first pass.
+export const zonedTime = (date: Date, minutes: number, timeZone: string): Date => {
+  const wall = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), 0, minutes);
+  const candidates = [wall - HALF_DAY, wall + HALF_DAY]
+    .map(probe => getZoneOffset(new Date(probe), timeZone))
+    .map(offset => ({ offset, time: wall - offset * MINUTE }));
+  const exact = candidates
+    .filter(({ offset, time }) => getZoneOffset(new Date(time), timeZone) === offset)
+    .map(({ time }) => time);
+  return new Date(exact.length > 0 ? Math.min(...exact) : Math.max(...candidates.map(({ time }) => time)));
+};
+
+// A device-local date showing the zone's wall clock, for formatting and day arithmetic
+export const toZonedClock = (date: Date, timeZone: string): Date => {
+  const [year, month, day, hours, minutes, seconds] = getWallClock(date, timeZone);
+  return new Date(year, month, day, hours, minutes, seconds, date.getMilliseconds());
+};
+
+// Clock changes inside the window, to the minute; windows are at most a day or two long,
+// so there is never more than one
+export const findClockChanges = (window: TimeWindow, timeZone: string): ClockChange[] => {
+  const before = getZoneOffset(window.start, timeZone);
+  const after = getZoneOffset(window.end, timeZone);
+  if (before === after) {
+    return [];
+  }
+
+  let low = window.start.getTime();
+  let high = window.end.getTime();
+  while (high - low > MINUTE) {
+    const middle = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE;
+    if (getZoneOffset(new Date(middle), timeZone) === before) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return [{ at: new Date(high), minutes: after - before }];
+};
+
+// Short name such as "CST" or "GMT+1", in the display language
+export const getTimeZoneName = (date: Date, timeZone: string, locale?: string): string =>
+  new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' }).formatToParts(date)
+    .find(part => part.type === 'timeZoneName')?.value ?? timeZone;
@@ -0,0 +1,54 @@
+import { createEmptySchedule, Schedule } from '../types';
+import { buildSleepPlan } from './sleepPlan';
+import { buildTimeline } from './timeline';
+
+const day = (d: number, hours = 0) => new Date(2025, 4, d, hours);
+const NIGHT = { start: 19 * 60, end: 7 * 60 };
+
+const schedule = (workDays: Schedule['workDays']): Schedule => ({ ...createEmptySchedule(), workDays });
+const kinds = (blocks: { kind: string }[]) => blocks.map(block => block.kind);
+
+describe('buildTimeline', () => {
+  test('draws one row per planned day covering midnight to midnight', () => {
+    const rows = buildTimeline(buildSleepPlan(schedule([{ date: day(10), ...NIGHT }])));
+
+    expect(rows.map(row => row.date.getDate())).toEqual([8, 9, 10, 11]);
+    expect(rows[2].window).toEqual({ start: day(10), end: day(11) });
+  });
+
+  test('splits a night shift across rows and marks where it continues', () => {
+    const [, , shiftDay, nextDay] = buildTimeline(buildSleepPlan(schedule([{ date: day(10), ...NIGHT }])));
+    const evening = shiftDay.blocks.find(block => block.kind === 'work');
+    const morning = nextDay.blocks.find(block => block.kind === 'work');
+
+    expect(evening).toMatchObject({ start: day(10, 19), end: day(11), continuesAfter: true, continuesBefore: false });
+    expect(morning).toMatchObject({ start: day(11), end: day(11, 7), continuesBefore: true, continuesAfter: false });
+  });
+
+  test('fills the rest of every row with free time', () => {
+    const [, , shiftDay] = buildTimeline(buildSleepPlan(schedule([{ date: day(10), ...NIGHT }])));
+
+    expect(kinds(shiftDay.blocks)).toEqual(['free', 'sleep', 'free', 'work']);
+    const covered = shiftDay.blocks.reduce((total, block) => total + (block.end.getTime() - block.start.getTime()), 0);
+    expect(covered).toBe(24 * 60 * 60000);
+  });
+
+  test('shows the following day as well in 48 hour rows', () => {
+    const [, , shiftDay] = buildTimeline(buildSleepPlan(schedule([{ date: day(10), ...NIGHT }])), 48);
+
+    expect(shiftDay.window.end).toEqual(day(12));
+    expect(shiftDay.blocks.filter(block => block.kind === 'work')).toHaveLength(1);
+  });
+
+  test('highlights a short rest between shifts on the day the next shift starts', () => {
+    const rows = buildTimeline(buildSleepPlan(schedule([
+      { date: day(10), ...NIGHT },
+      { date: day(11), start: 15 * 60, end: 23 * 60 },
+    ])));
+
+    expect(rows.find(row => row.shortGap)).toMatchObject({
+      date: day(11),
+      shortGap: { start: day(11, 7), end: day(11, 15) },
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { max, min, startOfDay } from 'date-fns';
+import { DayPlan } from './sleepPlan';
+import { getMinimumTurnaround } from './secondJob';
+import { atMinutes, TimeWindow } from './time';
+import { toZonedClock } from './timeZones';
+
+export type TimelineHours = 24 | 48;
+
+export type TimelineBlockKind = 'work' | 'secondJob' | 'sleep' | 'nap' | 'free';
+
+export interface TimelineBlock extends TimeWindow {
+  kind: TimelineBlockKind;
+  // The block carries on past the left or right edge of its row
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+// Each row runs from midnight in its day's zone, so a clock-change day is 23 or 25 hours long
+export interface TimelineRow {
+  date: Date;
+  timeZone: string;
+  window: TimeWindow;
+  blocks: TimelineBlock[];
+  // Rest between the previous shift and a shift starting on this date, when it is too short
+  shortGap?: TimeWindow;
+}
+
+interface TimelineEvent extends TimeWindow {
+  kind: Exclude<TimelineBlockKind, 'free'>;
+}
+
+const collectEvents = (plans: DayPlan[]): TimelineEvent[] =>
+  plans.flatMap(plan => {
+    const events: TimelineEvent[] = [{ kind: 'sleep', ...plan.sleep }];
+    if (plan.shift) {
+      events.push({ kind: plan.shiftSource === 'secondJob' ? 'secondJob' : 'work', ...plan.shift });
+    }
+    if (plan.secondJob) {
+      events.push({ kind: 'secondJob', ...plan.secondJob });
+    }
+    plan.naps.forEach(nap => events.push({ kind: 'nap', ...nap }));
+    return events;
+  });
+
+const clip = (event: TimelineEvent, row: TimeWindow): TimelineBlock | null => {
+  const start = max([event.start, row.start]);
+  const end = min([event.end, row.end]);
+  if (end <= start) {
+    return null;
+  }
+  return {
+    kind: event.kind,
+    start,
+    end,
+    continuesBefore: event.start < row.start,
+    continuesAfter: event.end > row.end,
+  };
+};
+
+// Whatever is not work, sleep or a nap counts as free time
+const fillFreeTime = (busy: TimelineBlock[], row: TimeWindow): TimelineBlock[] => {
+  const free: TimelineBlock[] = [];
+  let cursor = row.start;
+  [...busy].sort((a, b) => a.start.getTime() - b.start.getTime()).forEach(block => {
+    if (block.start > cursor) {
+      free.push({ kind: 'free', start: cursor, end: block.start, continuesBefore: false, continuesAfter: false });
+    }
+    cursor = max([cursor, block.end]);
+  });
+  if (cursor < row.end) {
+    free.push({ kind: 'free', start: cursor, end: row.end, continuesBefore: false, continuesAfter: false });
+  }
+  return free;
+};
+
+const findShortGaps = (events: TimelineEvent[], minimumGap: number): TimeWindow[] => {
+  const shifts = events
+    .filter(event => event.kind === 'work' || event.kind === 'secondJob')
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return shifts.slice(1).flatMap((shift, index) => {
+    const previous = shifts[index];
+    const gap = (shift.start.getTime() - previous.end.getTime()) / 60000;
+    return gap < minimumGap ? [{ start: previous.end, end: shift.start }] : [];
+  });
+};
+
+export const buildTimeline = (
+  plans: DayPlan[],
+  hours: TimelineHours = 24,
+  minimumGap: number = getMinimumTurnaround()
+): TimelineRow[] => {
+  const events = collectEvents(plans);
+  const shortGaps = findShortGaps(events, minimumGap);
+
+  return plans.map(plan => {
+    const date = startOfDay(plan.date);
+    const window = { start: atMinutes(date, 0, plan.timeZone), end: atMinutes(date, hours * 60, plan.timeZone) };
+    const busy = events
+      .map(event => clip(event, window))
+      .filter((block): block is TimelineBlock => block !== null);
+    const shortGap = shortGaps.find(gap => startOfDay(toZonedClock(gap.end, plan.timeZone)).getTime() === date.getTime());
+
+    return {
+      date,
+      timeZone: plan.timeZone,
+      window,
+      blocks: [...fillFreeTime(busy, window), ...busy].sort((a, b) => a.start.getTime() - b.start.getTime()),
+      ...(shortGap ? { shortGap } : {}),
+    };
+  });
+};